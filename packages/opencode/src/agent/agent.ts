@@ -6,6 +6,7 @@ import PROMPT_GENERATE from "./generate.txt"
 import { SystemPrompt } from "../session/system"
 import { Instance } from "../project/instance"
 import { mergeDeep } from "remeda"
+import { Bus } from "../bus"
 
 export namespace Agent {
   export const Info = z
@@ -18,9 +19,10 @@ export namespace Agent {
       temperature: z.number().optional(),
       color: z.string().optional(),
       permission: z.object({
-        edit: Config.Permission,
+        edit: z.record(z.string(), Config.Permission),
+        read: z.record(z.string(), Config.Permission),
         bash: z.record(z.string(), Config.Permission),
-        webfetch: Config.Permission.optional(),
+        webfetch: z.record(z.string(), Config.Permission),
         doom_loop: Config.Permission.optional(),
         external_directory: Config.Permission.optional(),
       }),
@@ -30,24 +32,43 @@ export namespace Agent {
           providerID: z.string(),
         })
         .optional(),
+      fallback: z
+        .object({
+          modelID: z.string(),
+          providerID: z.string(),
+        })
+        .array()
+        .optional(),
       prompt: z.string().optional(),
       tools: z.record(z.string(), z.boolean()),
       options: z.record(z.string(), z.any()),
+      budget: Config.Budget.optional(),
     })
     .meta({
       ref: "Agent",
     })
   export type Info = z.infer<typeof Info>
 
+  export const Event = {
+    Updated: Bus.event("agent.updated", z.object({})),
+  }
+
   const state = Instance.state(async () => {
     const cfg = await Config.get()
     const defaultTools = cfg.tools ?? {}
     const defaultPermission: Info["permission"] = {
-      edit: "allow",
+      edit: {
+        "*": "allow",
+      },
+      read: {
+        "*": "allow",
+      },
       bash: {
         "*": "allow",
       },
-      webfetch: "allow",
+      webfetch: {
+        "*": "allow",
+      },
       doom_loop: "ask",
       external_directory: "ask",
     }
@@ -55,7 +76,9 @@ export namespace Agent {
 
     const planPermission = mergeAgentPermissions(
       {
-        edit: "deny",
+        edit: {
+          "*": "deny",
+        },
         bash: {
           "cut*": "allow",
           "diff*": "allow",
@@ -94,7 +117,9 @@ export namespace Agent {
           "which*": "allow",
           "*": "ask",
         },
-        webfetch: "allow",
+        webfetch: {
+          "*": "allow",
+        },
       },
       cfg.permission ?? {},
     )
@@ -148,12 +173,27 @@ export namespace Agent {
           tools: {},
           builtIn: false,
         }
-      const { name, model, prompt, tools, description, temperature, top_p, mode, permission, color, ...extra } = value
+      const {
+        name,
+        model,
+        prompt,
+        tools,
+        description,
+        temperature,
+        top_p,
+        mode,
+        permission,
+        color,
+        budget,
+        fallback,
+        ...extra
+      } = value
       item.options = {
         ...item.options,
         ...extra,
       }
       if (model) item.model = Provider.parseModel(model)
+      if (fallback) item.fallback = fallback.map(Provider.parseModel)
       if (prompt) item.prompt = prompt
       if (tools)
         item.tools = {
@@ -169,6 +209,7 @@ export namespace Agent {
       if (top_p != undefined) item.topP = top_p
       if (mode) item.mode = mode
       if (color) item.color = color
+      if (budget) item.budget = budget
       // just here for consistency & to prevent it from being added as an option
       if (name) item.name = name
 
@@ -187,6 +228,15 @@ export namespace Agent {
     return state().then((x) => Object.values(x))
   }
 
+  /**
+   * Rebuilds the agents from the current config, for example after an agent
+   * file changed.
+   */
+  export async function reload() {
+    await state.reset()
+    Bus.publish(Event.Updated, {})
+  }
+
   export async function generate(input: { description: string }) {
     const defaultModel = await Provider.defaultModel()
     const model = await Provider.getModel(defaultModel.providerID, defaultModel.modelID)
@@ -219,14 +269,17 @@ export namespace Agent {
 }
 
 function mergeAgentPermissions(basePermission: any, overridePermission: any): Agent.Info["permission"] {
-  if (typeof basePermission.bash === "string") {
-    basePermission.bash = {
-      "*": basePermission.bash,
+  // a single action is shorthand for the catch-all pattern
+  for (const key of ["bash", "edit", "read", "webfetch"]) {
+    if (typeof basePermission[key] === "string") {
+      basePermission[key] = {
+        "*": basePermission[key],
+      }
     }
-  }
-  if (typeof overridePermission.bash === "string") {
-    overridePermission.bash = {
-      "*": overridePermission.bash,
+    if (typeof overridePermission[key] === "string") {
+      overridePermission[key] = {
+        "*": overridePermission[key],
+      }
     }
   }
   const merged = mergeDeep(basePermission ?? {}, overridePermission ?? {}) as any
@@ -247,8 +300,9 @@ function mergeAgentPermissions(basePermission: any, overridePermission: any): Ag
   }
 
   const result: Agent.Info["permission"] = {
-    edit: merged.edit ?? "allow",
-    webfetch: merged.webfetch ?? "allow",
+    edit: mergeDeep({ "*": "allow" }, merged.edit ?? {}),
+    read: mergeDeep({ "*": "allow" }, merged.read ?? {}),
+    webfetch: mergeDeep({ "*": "allow" }, merged.webfetch ?? {}),
     bash: mergedBash ?? { "*": "allow" },
     doom_loop: merged.doom_loop,
     external_directory: merged.external_directory,
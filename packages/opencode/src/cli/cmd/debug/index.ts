@@ -4,6 +4,7 @@ import { cmd } from "../cmd"
 import { ConfigCommand } from "./config"
 import { FileCommand } from "./file"
 import { LSPCommand } from "./lsp"
+import { ReplayCommand } from "./replay"
 import { RipgrepCommand } from "./ripgrep"
 import { ScrapCommand } from "./scrap"
 import { SnapshotCommand } from "./snapshot"
@@ -18,6 +19,7 @@ export const DebugCommand = cmd({
       .command(FileCommand)
       .command(ScrapCommand)
       .command(SnapshotCommand)
+      .command(ReplayCommand)
       .command(PathsCommand)
       .command({
         command: "wait",
@@ -0,0 +1,81 @@
+import { EOL } from "os"
+import { SessionRecorder } from "../../../session/recorder"
+import { Provider } from "../../../provider/provider"
+import { bootstrap } from "../../bootstrap"
+import { cmd } from "../cmd"
+
+export const ReplayCommand = cmd({
+  command: "replay <sessionID>",
+  describe: "list the recorded steps of a session or re-run one against a model",
+  builder: (yargs) =>
+    yargs
+      .positional("sessionID", {
+        type: "string",
+        description: "session id",
+        demandOption: true,
+      })
+      .option("step", {
+        type: "number",
+        description: "1-based step to re-run, lists the recorded steps when omitted",
+      })
+      .option("model", {
+        alias: ["m"],
+        type: "string",
+        description: "model to re-run the step against in the format of provider/model, defaults to the recorded one",
+      })
+      .option("json", {
+        type: "boolean",
+        description: "print the raw stream events as JSON",
+      }),
+  async handler(args) {
+    await bootstrap(process.cwd(), async () => {
+      if (args.step === undefined) {
+        const recordings = await SessionRecorder.list(args.sessionID)
+        for (const [index, recording] of recordings.entries()) {
+          const status = recording.error ? "error: " + recording.error : recording.events.length + " events"
+          process.stdout.write(
+            [
+              String(index + 1).padEnd(4),
+              recording.id,
+              `${recording.providerID}/${recording.modelID}`,
+              new Date(recording.time.started).toISOString(),
+              status,
+            ].join("  ") + EOL,
+          )
+        }
+        return
+      }
+
+      const result = await SessionRecorder.replay({
+        sessionID: args.sessionID,
+        step: args.step,
+        model: args.model ? Provider.parseModel(args.model) : undefined,
+      })
+      if (args.json) {
+        process.stdout.write(JSON.stringify(result.events, null, 2) + EOL)
+        return
+      }
+      for (const event of result.events) {
+        switch (event.type) {
+          case "text-delta":
+          case "reasoning-delta":
+            process.stdout.write(event.delta)
+            break
+          case "text-end":
+          case "reasoning-end":
+            process.stdout.write(EOL)
+            break
+          case "tool-call":
+            process.stdout.write(`tool call ${event.toolName} ${event.input}` + EOL)
+            break
+          case "error":
+            process.stdout.write(`error ${JSON.stringify(event.error)}` + EOL)
+            break
+          case "finish":
+            process.stdout.write(`finish ${event.finishReason} ${JSON.stringify(event.usage)}` + EOL)
+            break
+        }
+      }
+    })
+  },
+})
@@ -1,5 +1,6 @@
 import type { Argv } from "yargs"
 import { Session } from "../../session"
+import { SessionExport } from "../../session/export"
 import { cmd } from "./cmd"
 import { bootstrap } from "../bootstrap"
 import { UI } from "../ui"
@@ -8,15 +9,53 @@ import { EOL } from "os"
 
 export const ExportCommand = cmd({
   command: "export [sessionID]",
-  describe: "export session data as JSON",
+  describe: "export a session as JSON, Markdown or HTML, or archive old sessions",
   builder: (yargs: Argv) => {
-    return yargs.positional("sessionID", {
-      describe: "session id to export",
-      type: "string",
-    })
+    return yargs
+      .positional("sessionID", {
+        describe: "session id to export",
+        type: "string",
+      })
+      .option("format", {
+        describe: "output format",
+        type: "string",
+        choices: SessionExport.Format.options,
+        default: "json",
+      })
+      .option("all", {
+        describe: "archive every session into a compressed bundle and remove them",
+        type: "boolean",
+      })
+      .option("before", {
+        describe: "archive sessions last updated before this date and remove them",
+        type: "string",
+      })
+      .option("output", {
+        alias: "o",
+        describe: "archive file to write",
+        type: "string",
+      })
   },
   handler: async (args) => {
     await bootstrap(process.cwd(), async () => {
+      if (args.all || args.before) {
+        const before = args.before ? new Date(args.before).getTime() : undefined
+        if (before !== undefined && Number.isNaN(before)) {
+          UI.error(`Invalid date: ${args.before}`)
+          process.exit(1)
+        }
+        const bundle = await SessionExport.bundle({ before })
+        if (bundle.sessions.length === 0) {
+          UI.println(UI.Style.TEXT_DIM + "No sessions to archive")
+          return
+        }
+        const output = args.output ?? `opencode-archive-${new Date().toISOString().replace(/[:.]/g, "-")}.json.gz`
+        await Bun.write(output, SessionExport.compress(bundle))
+        await SessionExport.prune(bundle)
+        UI.println(`Archived ${bundle.sessions.length} sessions to ${output}`)
+        return
+      }
+
       let sessionID = args.sessionID
       process.stderr.write(`Exporting session: ${sessionID ?? "latest"}`)
 
@@ -66,18 +105,8 @@ export const ExportCommand = cmd({
       }
 
       try {
-        const sessionInfo = await Session.get(sessionID!)
-        const messages = await Session.messages({ sessionID: sessionID! })
-
-        const exportData = {
-          info: sessionInfo,
-          messages: messages.map((msg) => ({
-            info: msg.info,
-            parts: msg.parts,
-          })),
-        }
-
-        process.stdout.write(JSON.stringify(exportData, null, 2))
+        const exportData = await SessionExport.load(sessionID!)
+        process.stdout.write(SessionExport.render(exportData, args.format as SessionExport.Format))
         process.stdout.write(EOL)
       } catch (error) {
         UI.error(`Session not found: ${sessionID!}`)
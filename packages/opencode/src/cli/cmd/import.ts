@@ -1,32 +1,22 @@
 import type { Argv } from "yargs"
-import { Session } from "../../session"
 import { cmd } from "./cmd"
 import { bootstrap } from "../bootstrap"
-import { Storage } from "../../storage/storage"
-import { Instance } from "../../project/instance"
+import { SessionExport } from "../../session/export"
 import { EOL } from "os"
 
 export const ImportCommand = cmd({
   command: "import <file>",
-  describe: "import session data from JSON file or URL",
+  describe: "import session data from a JSON export, an archive bundle or a share URL",
   builder: (yargs: Argv) => {
     return yargs.positional("file", {
-      describe: "path to JSON file or opencode.ai share URL",
+      describe: "path to JSON export, archive bundle or opencode.ai share URL",
       type: "string",
       demandOption: true,
     })
   },
   handler: async (args) => {
     await bootstrap(process.cwd(), async () => {
-      let exportData:
-        | {
-            info: Session.Info
-            messages: Array<{
-              info: any
-              parts: any[]
-            }>
-          }
-        | undefined
+      let bundle: SessionExport.Bundle | undefined
 
       const isUrl = args.file.startsWith("http://") || args.file.startsWith("https://")
 
@@ -55,44 +45,39 @@ export const ImportCommand = cmd({
           return
         }
 
-        exportData = {
-          info: data.info,
-          messages: Object.values(data.messages).map((msg: any) => {
-            const { parts, ...info } = msg
-            return {
-              info,
-              parts,
-            }
-          }),
+        bundle = {
+          version: 1,
+          time: Date.now(),
+          sessions: [
+            {
+              info: data.info,
+              messages: Object.values(data.messages).map((msg: any) => {
+                const { parts, ...info } = msg
+                return {
+                  info,
+                  parts,
+                }
+              }),
+            },
+          ],
         }
       } else {
         const file = Bun.file(args.file)
-        exportData = await file.json().catch(() => {})
-        if (!exportData) {
-          process.stdout.write(`File not found: ${args.file}`)
+        bundle = await file
+          .bytes()
+          .then((bytes) => SessionExport.parse(bytes))
+          .catch(() => undefined)
+        if (!bundle) {
+          process.stdout.write(`Failed to read session data: ${args.file}`)
           process.stdout.write(EOL)
           return
         }
       }
 
-      if (!exportData) {
-        process.stdout.write(`Failed to read session data`)
+      for (const session of await SessionExport.restore(bundle)) {
+        process.stdout.write(`Imported session: ${session.id}`)
         process.stdout.write(EOL)
-        return
       }
-
-      await Storage.write(["session", Instance.project.id, exportData.info.id], exportData.info)
-
-      for (const msg of exportData.messages) {
-        await Storage.write(["message", exportData.info.id, msg.info.id], msg.info)
-
-        for (const part of msg.parts) {
-          await Storage.write(["part", msg.info.id, part.id], part)
-        }
-      }
-
-      process.stdout.write(`Imported session: ${exportData.info.id}`)
-      process.stdout.write(EOL)
     })
   },
 })
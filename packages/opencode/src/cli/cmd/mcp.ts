@@ -3,10 +3,13 @@ import { Client } from "@modelcontextprotocol/sdk/client/index.js"
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
 import * as prompts from "@clack/prompts"
 import { UI } from "../ui"
+import { bootstrap } from "../bootstrap"
+import { Agent } from "../../agent/agent"
+import { MCPServer } from "../../mcp/server"
 
 export const McpCommand = cmd({
   command: "mcp",
-  builder: (yargs) => yargs.command(McpAddCommand).demandCommand(),
+  builder: (yargs) => yargs.command(McpAddCommand).command(McpServeCommand).demandCommand(),
   async handler() {},
 })
 
@@ -78,3 +81,51 @@ export const McpAddCommand = cmd({
     prompts.outro("MCP server added successfully")
   },
 })
+
+export const McpServeCommand = cmd({
+  command: "serve",
+  describe: "serve opencode's tools and sessions over MCP",
+  builder: (yargs) =>
+    yargs
+      .option("transport", {
+        type: "string",
+        choices: ["stdio", "http"],
+        describe: "transport to serve over",
+        default: "stdio",
+      })
+      .option("port", {
+        alias: ["p"],
+        type: "number",
+        describe: "port to listen on with the http transport",
+        default: 0,
+      })
+      .option("hostname", {
+        type: "string",
+        describe: "hostname to listen on with the http transport",
+        default: "127.0.0.1",
+      })
+      .option("agent", {
+        type: "string",
+        describe: "agent whose tools and permissions to serve",
+        default: "build",
+      }),
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      if (!(await Agent.get(args.agent))) {
+        UI.error(`Agent "${args.agent}" not found`)
+        return
+      }
+      if (args.transport === "stdio") {
+        await MCPServer.stdio({ agent: args.agent })
+        return
+      }
+      const server = await MCPServer.http({ agent: args.agent, port: args.port, hostname: args.hostname })
+      UI.println(`opencode MCP server listening on ${server.url}`)
+      await new Promise<void>((resolve) => {
+        process.once("SIGINT", () => resolve())
+        process.once("SIGTERM", () => resolve())
+      })
+      await server.stop()
+    })
+  },
+})
@@ -0,0 +1,80 @@
+import type { Argv } from "yargs"
+import { PermissionLog } from "../../permission/log"
+import { cmd } from "./cmd"
+import { bootstrap } from "../bootstrap"
+import { UI } from "../ui"
+import { EOL } from "os"
+
+export const PermissionCommand = cmd({
+  command: "permission",
+  describe: "inspect permission decisions",
+  builder: (yargs) => yargs.command(PermissionLogCommand).demandCommand(),
+  async handler() {},
+})
+
+export const PermissionLogCommand = cmd({
+  command: "log",
+  describe: "show the permission audit log",
+  builder: (yargs: Argv) => {
+    return yargs
+      .option("session", {
+        describe: "only show decisions for this session",
+        type: "string",
+      })
+      .option("outcome", {
+        describe: "only show decisions with these outcomes",
+        type: "string",
+        array: true,
+        choices: PermissionLog.Outcome.options,
+      })
+      .option("since", {
+        describe: "only show decisions from the last N hours",
+        type: "number",
+      })
+      .option("limit", {
+        describe: "maximum number of entries",
+        type: "number",
+        default: 100,
+      })
+      .option("format", {
+        describe: "output format",
+        type: "string",
+        choices: ["default", "json"],
+        default: "default",
+      })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const entries = await PermissionLog.list({
+        sessionID: args.session,
+        outcome: args.outcome as PermissionLog.Outcome[] | undefined,
+        since: args.since ? Date.now() - args.since * 60 * 60 * 1000 : undefined,
+        limit: args.limit,
+      })
+
+      if (args.format === "json") {
+        process.stdout.write(JSON.stringify(entries, null, 2))
+        process.stdout.write(EOL)
+        return
+      }
+
+      if (entries.length === 0) {
+        UI.println(UI.Style.TEXT_DIM + "No permission decisions recorded")
+        return
+      }
+
+      for (const entry of entries) {
+        const pattern = [entry.pattern ?? []].flat().join(", ")
+        const columns = [
+          new Date(entry.time).toISOString(),
+          entry.sessionID,
+          entry.agent ?? "-",
+          entry.outcome + (entry.scope ? `(${entry.scope})` : ""),
+          entry.type,
+          pattern || entry.title,
+        ]
+        process.stdout.write(columns.join("  ") + EOL)
+      }
+    })
+  },
+})
@@ -10,6 +10,7 @@ import { select } from "@clack/prompts"
 import { createOpencodeClient, type OpencodeClient } from "@opencode-ai/sdk"
 import { Server } from "../../server/server"
 import { Provider } from "../../provider/provider"
+import { iife } from "../../util/iife"
 
 const TOOL: Record<string, [string, string]> = {
   todowrite: ["Todo", UI.Style.TEXT_WARNING_BOLD],
@@ -24,6 +25,9 @@ const TOOL: Record<string, [string, string]> = {
   websearch: ["Search", UI.Style.TEXT_DIM_BOLD],
 }
 
+// distinct from the generic failure code so scripts can tell a paused session apart
+const BUDGET_EXCEEDED_EXIT_CODE = 2
+
 export const RunCommand = cmd({
   command: "run [message..]",
   describe: "run opencode with a message",
@@ -146,6 +150,7 @@ export const RunCommand = cmd({
 
       const events = await sdk.event.subscribe()
       let errorMsg: string | undefined
+      let exceeded = false
 
       const eventProcessor = (async () => {
         for await (const event of events.stream) {
@@ -174,6 +179,11 @@ export const RunCommand = cmd({
               if (outputJsonEvent("step_finish", { part })) continue
             }
 
+            if (part.type === "fallback") {
+              if (outputJsonEvent("fallback", { part })) continue
+              printEvent(UI.Style.TEXT_WARNING_BOLD, "Model", `${part.to.providerID}/${part.to.modelID}`)
+            }
+
             if (part.type === "text" && part.time?.end) {
               if (outputJsonEvent("text", { part })) continue
               const isPiped = !process.stdout.isTTY
@@ -199,6 +209,18 @@ export const RunCommand = cmd({
             break
           }
 
+          if (
+            event.type === "session.status" &&
+            event.properties.sessionID === sessionID &&
+            event.properties.status.type === "budget_exceeded"
+          ) {
+            const status = event.properties.status
+            exceeded = true
+            if (outputJsonEvent("budget_exceeded", { status })) break
+            UI.error(`${status.scope} ${status.limit} budget exceeded (${status.used} of ${status.max})`)
+            break
+          }
+
           if (event.type === "permission.updated") {
             const permission = event.properties
             if (permission.sessionID !== sessionID) continue
@@ -206,15 +228,21 @@ export const RunCommand = cmd({
               message: `Permission required to run: ${permission.title}`,
               options: [
                 { value: "once", label: "Allow once" },
-                { value: "always", label: "Always allow" },
+                { value: "always", label: "Always allow in this session" },
+                { value: "project", label: "Always allow in this project" },
+                { value: "global", label: "Always allow everywhere" },
                 { value: "reject", label: "Reject" },
               ],
               initialValue: "once",
             }).catch(() => "reject")
-            const response = (result.toString().includes("cancel") ? "reject" : result) as "once" | "always" | "reject"
+            const choice = result.toString().includes("cancel") ? "reject" : result.toString()
+            const body = iife(() => {
+              if (choice === "project" || choice === "global") return { response: "always", scope: choice } as const
+              return { response: choice as "once" | "always" | "reject" }
+            })
             await sdk.postSessionIdPermissionsPermissionId({
               path: { id: sessionID, permissionID: permission.id },
-              body: { response },
+              body,
             })
           }
         }
@@ -243,6 +271,7 @@ export const RunCommand = cmd({
       }
 
       await eventProcessor
+      if (exceeded) process.exit(BUDGET_EXCEEDED_EXIT_CODE)
       if (errorMsg) process.exit(1)
     }
 
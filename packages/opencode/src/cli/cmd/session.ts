@@ -0,0 +1,59 @@
+import type { Argv } from "yargs"
+import { Session } from "../../session"
+import { cmd } from "./cmd"
+import { bootstrap } from "../bootstrap"
+import { UI } from "../ui"
+import { EOL } from "os"
+
+export const SessionCommand = cmd({
+  command: "session",
+  describe: "manage sessions",
+  builder: (yargs) => yargs.command(SessionSearchCommand).demandCommand(),
+  async handler() {},
+})
+
+export const SessionSearchCommand = cmd({
+  command: "search <query>",
+  describe: "search session titles, messages and tool calls",
+  builder: (yargs: Argv) => {
+    return yargs
+      .positional("query", {
+        describe: "text to search for",
+        type: "string",
+        demandOption: true,
+      })
+      .option("limit", {
+        describe: "maximum number of results",
+        type: "number",
+        default: 20,
+      })
+      .option("format", {
+        describe: "output format",
+        type: "string",
+        choices: ["default", "json"],
+        default: "default",
+      })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const results = await Session.search({ query: args.query, limit: args.limit })
+
+      if (args.format === "json") {
+        process.stdout.write(JSON.stringify(results, null, 2))
+        process.stdout.write(EOL)
+        return
+      }
+
+      if (results.length === 0) {
+        UI.println(UI.Style.TEXT_DIM + `No matches for "${args.query}"`)
+        return
+      }
+
+      for (const result of results) {
+        const location = [result.sessionID, result.messageID].filter(Boolean).join(" ")
+        process.stdout.write(`${location}  ${result.title}` + EOL)
+        process.stdout.write(`  ${result.kind}: ${result.snippet.replace(/\s+/g, " ")}` + EOL)
+      }
+    })
+  },
+})
@@ -61,12 +61,7 @@ async function getCurrentProject(): Promise<Project.Info> {
 async function getAllSessions(): Promise<Session.Info[]> {
   const sessions: Session.Info[] = []
 
-  const projectKeys = await Storage.list(["project"])
-  const projects = await Promise.all(projectKeys.map((key) => Storage.read<Project.Info>(key)))
-
-  for (const project of projects) {
-    if (!project) continue
-
+  for (const project of await Project.list()) {
     const sessionKeys = await Storage.list(["session", project.id])
     const projectSessions = await Promise.all(sessionKeys.map((key) => Storage.read<Session.Info>(key)))
 
@@ -2,7 +2,7 @@ import { render, useKeyboard, useRenderer, useTerminalDimensions } from "@opentu
 import { Clipboard } from "@tui/util/clipboard"
 import { TextAttributes } from "@opentui/core"
 import { RouteProvider, useRoute } from "@tui/context/route"
-import { Switch, Match, createEffect, untrack, ErrorBoundary, createSignal, onMount, batch } from "solid-js"
+import { Switch, Match, Show, createEffect, untrack, ErrorBoundary, createSignal, onMount, batch } from "solid-js"
 import { Installation } from "@/installation"
 import { Global } from "@/global"
 import { DialogProvider, useDialog } from "@tui/ui/dialog"
@@ -15,6 +15,7 @@ import { DialogThemeList } from "@tui/component/dialog-theme-list"
 import { DialogHelp } from "./ui/dialog-help"
 import { CommandProvider, useCommandDialog } from "@tui/component/dialog-command"
 import { DialogAgent } from "@tui/component/dialog-agent"
+import { DialogProject } from "@tui/component/dialog-project"
 import { DialogSessionList } from "@tui/component/dialog-session-list"
 import { KeybindProvider } from "@tui/context/keybind"
 import { ThemeProvider, useTheme } from "@tui/context/theme"
@@ -95,6 +96,7 @@ export function tui(input: { url: string; args: Args; onExit?: () => Promise<voi
   // promise to prevent immediate exit
   return new Promise<void>(async (resolve) => {
     const mode = await getTerminalBackgroundColor()
+    const [directory, setDirectory] = createSignal(process.cwd())
     const onExit = async () => {
       await input.onExit?.()
       resolve()
@@ -109,23 +111,27 @@ export function tui(input: { url: string; args: Args; onExit?: () => Promise<voi
                 <KVProvider>
                   <ToastProvider>
                     <RouteProvider>
-                      <SDKProvider url={input.url}>
-                        <SyncProvider>
-                          <ThemeProvider mode={mode}>
-                            <LocalProvider>
-                              <KeybindProvider>
-                                <DialogProvider>
-                                  <CommandProvider>
-                                    <PromptHistoryProvider>
-                                      <App />
-                                    </PromptHistoryProvider>
-                                  </CommandProvider>
-                                </DialogProvider>
-                              </KeybindProvider>
-                            </LocalProvider>
-                          </ThemeProvider>
-                        </SyncProvider>
-                      </SDKProvider>
+                      <Show when={directory()} keyed>
+                        {(directory) => (
+                          <SDKProvider url={input.url} directory={directory} onOpen={setDirectory}>
+                            <SyncProvider>
+                              <ThemeProvider mode={mode}>
+                                <LocalProvider>
+                                  <KeybindProvider>
+                                    <DialogProvider>
+                                      <CommandProvider>
+                                        <PromptHistoryProvider>
+                                          <App />
+                                        </PromptHistoryProvider>
+                                      </CommandProvider>
+                                    </DialogProvider>
+                                  </KeybindProvider>
+                                </LocalProvider>
+                              </ThemeProvider>
+                            </SyncProvider>
+                          </SDKProvider>
+                        )}
+                      </Show>
                     </RouteProvider>
                   </ToastProvider>
                 </KVProvider>
@@ -153,7 +159,8 @@ function App() {
   const local = useLocal()
   const kv = useKV()
   const command = useCommandDialog()
-  const { event } = useSDK()
+  const sdk = useSDK()
+  const { event } = sdk
   const toast = useToast()
   const { theme, mode, setMode } = useTheme()
   const sync = useSync()
@@ -221,6 +228,23 @@ function App() {
         dialog.clear()
       },
     },
+    {
+      title: "New worktree session",
+      value: "session.new.worktree",
+      category: "Session",
+      onSelect: async () => {
+        dialog.clear()
+        const result = await sdk.client.session.create({ body: { worktree: true } })
+        if (!result.data) {
+          toast.show({ message: "Failed to create a git worktree for the session", variant: "error" })
+          return
+        }
+        route.navigate({
+          type: "session",
+          sessionID: result.data.id,
+        })
+      },
+    },
     {
       title: "Switch model",
       value: "model.list",
@@ -248,6 +272,14 @@ function App() {
         local.model.cycle(-1)
       },
     },
+    {
+      title: "Switch project",
+      value: "project.list",
+      category: "Project",
+      onSelect: () => {
+        dialog.replace(() => <DialogProject />)
+      },
+    },
     {
       title: "Switch agent",
       value: "agent.list",
@@ -462,7 +494,7 @@ function App() {
             <text fg={theme.textMuted}>v{Installation.VERSION}</text>
           </box>
           <box paddingLeft={1} paddingRight={1}>
-            <text fg={theme.textMuted}>{process.cwd().replace(Global.Path.home, "~")}</text>
+            <text fg={theme.textMuted}>{sdk.directory.replace(Global.Path.home, "~")}</text>
           </box>
         </box>
         <box flexDirection="row" flexShrink={0}>
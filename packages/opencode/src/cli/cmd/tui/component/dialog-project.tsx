@@ -0,0 +1,35 @@
+import { createResource, createMemo } from "solid-js"
+import { useSDK } from "@tui/context/sdk"
+import { useRoute } from "@tui/context/route"
+import { DialogSelect } from "@tui/ui/dialog-select"
+import { useDialog } from "@tui/ui/dialog"
+import { Global } from "@/global"
+
+export function DialogProject() {
+  const sdk = useSDK()
+  const route = useRoute()
+  const dialog = useDialog()
+  const [projects] = createResource(() => sdk.client.project.list().then((x) => x.data ?? []))
+
+  const options = createMemo(() =>
+    (projects() ?? []).map((item) => ({
+      value: item.worktree,
+      title: item.worktree.replace(Global.Path.home, "~"),
+      description: item.time.initialized ? undefined : "not initialized",
+    })),
+  )
+
+  return (
+    <DialogSelect
+      title="Switch project"
+      current={sdk.directory}
+      options={options()}
+      onSelect={(option) => {
+        dialog.clear()
+        if (option.value === sdk.directory) return
+        route.navigate({ type: "home" })
+        sdk.open(option.value)
+      }}
+    />
+  )
+}
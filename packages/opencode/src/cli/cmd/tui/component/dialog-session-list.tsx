@@ -2,12 +2,15 @@ import { useDialog } from "@tui/ui/dialog"
 import { DialogSelect } from "@tui/ui/dialog-select"
 import { useRoute } from "@tui/context/route"
 import { useSync } from "@tui/context/sync"
-import { createEffect, createMemo, createSignal, onMount } from "solid-js"
+import { createEffect, createMemo, createSignal, onCleanup, onMount } from "solid-js"
 import { Locale } from "@/util/locale"
 import { Keybind } from "@/util/keybind"
 import { useTheme } from "../context/theme"
 import { useSDK } from "../context/sdk"
 import { DialogSessionRename } from "./dialog-session-rename"
+import type { SessionSearchResult } from "@opencode-ai/sdk"
+
+type Value = string | { sessionID: string; messageID?: string }
 
 export function DialogSessionList() {
   const dialog = useDialog()
@@ -17,6 +20,7 @@ export function DialogSessionList() {
   const sdk = useSDK()
 
   const [toDelete, setToDelete] = createSignal<string>()
+  const [matches, setMatches] = createSignal<SessionSearchResult[]>([])
 
   const deleteKeybind = "ctrl+d"
 
@@ -24,7 +28,7 @@ export function DialogSessionList() {
 
   const options = createMemo(() => {
     const today = new Date().toDateString()
-    return sync.data.session
+    const sessions = sync.data.session
       .filter((x) => x.parentID === undefined)
       .map((x) => {
         const date = new Date(x.time.updated)
@@ -36,14 +40,42 @@ export function DialogSessionList() {
         return {
           title: isDeleting ? `Press ${deleteKeybind} again to confirm` : x.title,
           bg: isDeleting ? theme.error : undefined,
-          value: x.id,
+          value: x.id as Value,
           category,
           footer: Locale.time(x.time.updated),
         }
       })
       .slice(0, 150)
+    const found = matches().map((x) => ({
+      title: x.snippet.replace(/\s+/g, " "),
+      description: x.title,
+      value: { sessionID: x.sessionID, messageID: x.messageID } as Value,
+      category: "Matching messages",
+      footer: x.kind,
+      unfiltered: true,
+    }))
+    return [...sessions, ...found]
   })
 
+  // Full-text search runs server side, debounced so each keystroke doesn't hit the index
+  let timer: ReturnType<typeof setTimeout> | undefined
+  function search(query: string) {
+    clearTimeout(timer)
+    if (query.trim().length < 3) {
+      setMatches([])
+      return
+    }
+    timer = setTimeout(async () => {
+      const result = await sdk.client.session.search({ query: { query, limit: 30 } })
+      setMatches(result.data ?? [])
+    }, 200)
+  }
+  onCleanup(() => clearTimeout(timer))
+
+  function sessionOf(value: Value) {
+    return typeof value === "string" ? value : value.sessionID
+  }
+
   createEffect(() => {
     console.log("session count", sync.data.session.length)
   })
@@ -60,10 +92,12 @@ export function DialogSessionList() {
       onMove={() => {
         setToDelete(undefined)
       }}
+      onFilter={search}
       onSelect={(option) => {
         route.navigate({
           type: "session",
-          sessionID: option.value,
+          sessionID: sessionOf(option.value),
+          messageID: typeof option.value === "string" ? undefined : option.value.messageID,
         })
         dialog.clear()
       }}
@@ -72,24 +106,25 @@ export function DialogSessionList() {
           keybind: Keybind.parse(deleteKeybind)[0],
           title: "delete",
           onTrigger: async (option) => {
-            if (toDelete() === option.value) {
+            const sessionID = sessionOf(option.value)
+            if (toDelete() === sessionID) {
               sdk.client.session.delete({
                 path: {
-                  id: option.value,
+                  id: sessionID,
                 },
               })
               setToDelete(undefined)
               // dialog.clear()
               return
             }
-            setToDelete(option.value)
+            setToDelete(sessionID)
           },
         },
         {
           keybind: Keybind.parse("ctrl+r")[0],
           title: "rename",
           onTrigger: async (option) => {
-            dialog.replace(() => <DialogSessionRename session={option.value} />)
+            dialog.replace(() => <DialogSessionRename session={sessionOf(option.value)} />)
           },
         },
       ]}
@@ -8,6 +8,8 @@ import { useSync } from "@tui/context/sync"
 import { useTheme } from "@tui/context/theme"
 import { SplitBorder } from "@tui/component/border"
 import { useCommandDialog } from "@tui/component/dialog-command"
+import { useDialog } from "@tui/ui/dialog"
+import { DialogPrompt } from "@tui/ui/dialog-prompt"
 import { Locale } from "@/util/locale"
 import type { PromptInfo } from "./history"
 
@@ -40,6 +42,7 @@ export function Autocomplete(props: {
   const sdk = useSDK()
   const sync = useSync()
   const command = useCommandDialog()
+  const dialog = useDialog()
   const { theme } = useTheme()
 
   const [store, setStore] = createStore({
@@ -160,6 +163,41 @@ export function Autocomplete(props: {
     },
   )
 
+  const [resources] = createResource(
+    () => store.visible === "@",
+    async (visible) => {
+      if (!visible) return []
+      const result = await sdk.client.mcp.resources()
+      return (result.data ?? []).map(
+        (resource): AutocompleteOption => ({
+          display: resource.client + ":" + resource.name,
+          description: resource.uri,
+          onSelect: () => {
+            insertPart(resource.client + ":" + resource.name, {
+              type: "file",
+              mime: resource.mimeType ?? "text/plain",
+              filename: resource.name,
+              url: resource.uri,
+              source: {
+                type: "resource",
+                clientName: resource.client,
+                uri: resource.uri,
+                text: {
+                  start: 0,
+                  end: 0,
+                  value: "",
+                },
+              },
+            })
+          },
+        }),
+      )
+    },
+    {
+      initialValue: [],
+    },
+  )
+
   const agents = createMemo(() => {
     const agents = sync.data.agent
     return agents
@@ -190,8 +228,19 @@ export function Autocomplete(props: {
       results.push({
         display: "/" + command.name,
         description: command.description,
-        onSelect: () => {
-          const newText = "/" + command.name + " "
+        onSelect: async () => {
+          // MCP prompts declare their arguments, ask for each of them
+          const args: string[] = []
+          for (const argument of command.arguments ?? []) {
+            const title = argument.name + (argument.required ? "" : " (optional)")
+            const value = await DialogPrompt.show(
+              dialog,
+              argument.description ? `${title}: ${argument.description}` : title,
+            )
+            if (value === null) return
+            args.push(value === "" || /\s/.test(value) ? `"${value}"` : value)
+          }
+          const newText = ["/" + command.name, ...args].join(" ") + " "
           const cursor = props.input().logicalCursor
           props.input().deleteRange(0, 0, cursor.row, cursor.col)
           props.input().insertText(newText)
@@ -327,7 +376,9 @@ export function Autocomplete(props: {
 
   const options = createMemo(() => {
     const mixed: AutocompleteOption[] = (
-      store.visible === "@" ? [...agents(), ...(files.loading ? files.latest || [] : files())] : [...commands()]
+      store.visible === "@"
+        ? [...agents(), ...(resources.latest ?? []), ...(files.loading ? files.latest || [] : files())]
+        : [...commands()]
     ).filter((x) => x.disabled !== true)
     const currentFilter = filter()
     if (!currentFilter) return mixed.slice(0, 10)
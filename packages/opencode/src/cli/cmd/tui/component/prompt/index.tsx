@@ -29,6 +29,7 @@ import { Clipboard } from "../../util/clipboard"
 import type { FilePart } from "@opencode-ai/sdk"
 import { TuiEvent } from "../../event"
 import { iife } from "@/util/iife"
+import { Token } from "@/util/token"
 
 export type PromptProps = {
   sessionID?: string
@@ -707,8 +708,10 @@ export function Prompt(props: PromptProps) {
                   !sync.data.config.experimental?.disable_paste_summary
                 ) {
                   event.preventDefault()
+                  const tokenizer = await Token.tokenizer({ id: local.model.current().modelID })
+                  const tokens = `${tokenizer.id === Token.approximate.id ? "~" : ""}${tokenizer.count(pastedContent)} tokens`
                   const currentOffset = input.visualCursor.offset
-                  const virtualText = `[Pasted ~${lineCount} lines]`
+                  const virtualText = `[Pasted ~${lineCount} lines, ${tokens}]`
                   const textToInsert = virtualText + " "
                   const extmarkStart = currentOffset
                   const extmarkEnd = extmarkStart + virtualText.length
@@ -8,11 +8,12 @@ export type HomeRoute = {
 export type SessionRoute = {
   type: "session"
   sessionID: string
+  messageID?: string
 }
 
 export type SettingsRoute = {
   type: "settings"
-  tab?: "mcp" | "general" | "advanced"
+  tab?: "mcp" | "general" | "advanced" | "permissions"
 }
 
 export type Route = HomeRoute | SessionRoute | SettingsRoute
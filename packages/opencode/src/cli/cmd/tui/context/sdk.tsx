@@ -5,11 +5,12 @@ import { onCleanup } from "solid-js"
 
 export const { use: useSDK, provider: SDKProvider } = createSimpleContext({
   name: "SDK",
-  init: (props: { url: string }) => {
+  init: (props: { url: string; directory: string; onOpen: (directory: string) => void }) => {
     const abort = new AbortController()
     const sdk = createOpencodeClient({
       baseUrl: props.url,
       signal: abort.signal,
+      directory: props.directory,
     })
 
     const emitter = createGlobalEmitter<{
@@ -27,6 +28,12 @@ export const { use: useSDK, provider: SDKProvider } = createSimpleContext({
       abort.abort()
     })
 
-    return { client: sdk, event: emitter }
+    return {
+      client: sdk,
+      event: emitter,
+      directory: props.directory,
+      // remounts everything below the provider against the project in another directory
+      open: props.onOpen,
+    }
   },
 })
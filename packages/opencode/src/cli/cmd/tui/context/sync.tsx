@@ -12,6 +12,7 @@ import type {
   McpStatus,
   FormatterStatus,
   SessionStatus,
+  BackgroundProcess,
 } from "@opencode-ai/sdk"
 import { createStore, produce, reconcile } from "solid-js/store"
 import { useSDK } from "@tui/context/sdk"
@@ -44,6 +45,9 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       todo: {
         [sessionID: string]: Todo[]
       }
+      background: {
+        [sessionID: string]: BackgroundProcess[]
+      }
       message: {
         [sessionID: string]: Message[]
       }
@@ -67,6 +71,7 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       session_status: {},
       session_diff: {},
       todo: {},
+      background: {},
       message: {},
       part: {},
       lsp: [],
@@ -118,6 +123,18 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
           setStore("todo", event.properties.sessionID, event.properties.todos)
           break
 
+        case "session.background.updated": {
+          const info = event.properties.info
+          const processes = store.background[info.sessionID] ?? []
+          const index = processes.findIndex((x) => x.id === info.id)
+          if (index === -1) {
+            setStore("background", info.sessionID, [...processes, info])
+            break
+          }
+          setStore("background", info.sessionID, index, reconcile(info))
+          break
+        }
+
         case "session.diff":
           setStore("session_diff", event.properties.sessionID, event.properties.diff)
           break
@@ -233,6 +250,21 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
           break
         }
 
+        case "agent.updated": {
+          sdk.client.app.agents().then((x) => setStore("agent", x.data ?? []))
+          break
+        }
+
+        case "command.updated": {
+          sdk.client.command.list().then((x) => setStore("command", x.data ?? []))
+          break
+        }
+
+        case "mcp.updated": {
+          sdk.client.mcp.status().then((x) => setStore("mcp", x.data!))
+          break
+        }
+
         case "lsp.updated": {
           sdk.client.lsp.status().then((x) => setStore("lsp", x.data!))
           break
@@ -306,11 +338,12 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
           if (store.message[sessionID]) return
           const now = Date.now()
           console.log("syncing", sessionID)
-          const [session, messages, todo, diff] = await Promise.all([
+          const [session, messages, todo, diff, background] = await Promise.all([
             sdk.client.session.get({ path: { id: sessionID }, throwOnError: true }),
             sdk.client.session.messages({ path: { id: sessionID }, query: { limit: 100 } }),
             sdk.client.session.todo({ path: { id: sessionID } }),
             sdk.client.session.diff({ path: { id: sessionID } }),
+            sdk.client.session.backgrounds({ path: { id: sessionID } }),
           ])
           console.log("fetched in " + (Date.now() - now), sessionID)
           setStore(
@@ -324,6 +357,7 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
                 draft.part[message.info.id] = message.parts
               }
               draft.session_diff[sessionID] = diff.data ?? []
+              draft.background[sessionID] = background.data ?? []
             }),
           )
           console.log("synced in " + (Date.now() - now), sessionID)
@@ -15,6 +15,9 @@ export function DialogMessage(props: {
   const sdk = useSDK()
   const message = createMemo(() => sync.data.message[props.sessionID]?.find((x) => x.id === props.messageID))
   const route = useRoute()
+  const pinned = createMemo(() =>
+    (sync.session.get(props.sessionID)?.pinned ?? []).some((x) => x.messageID === props.messageID && !x.partID),
+  )
 
   return (
     <DialogSelect
@@ -75,6 +78,21 @@ export function DialogMessage(props: {
             dialog.clear()
           },
         },
+        {
+          title: pinned() ? "Unpin" : "Pin",
+          value: "message.pin",
+          description: pinned() ? "allow compaction to summarize this message" : "keep this message through compaction",
+          onSelect: async (dialog) => {
+            const options = {
+              path: {
+                id: props.sessionID,
+              },
+            }
+            if (pinned()) await sdk.client.session.unpin({ ...options, query: { messageID: props.messageID } })
+            else await sdk.client.session.pin({ ...options, body: { messageID: props.messageID } })
+            dialog.clear()
+          },
+        },
         {
           title: "Fork",
           value: "session.fork",
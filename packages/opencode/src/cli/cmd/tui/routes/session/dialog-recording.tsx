@@ -0,0 +1,66 @@
+import { createMemo, createResource, onMount } from "solid-js"
+import { TextAttributes } from "@opentui/core"
+import { useTerminalDimensions } from "@opentui/solid"
+import { useSDK } from "@tui/context/sdk"
+import { useTheme } from "@tui/context/theme"
+import { useDialog } from "@tui/ui/dialog"
+import { DialogSelect, type DialogSelectOption } from "@tui/ui/dialog-select"
+import type { Recording } from "@opencode-ai/sdk"
+import { Locale } from "@/util/locale"
+
+export function DialogRecording(props: { sessionID: string }) {
+  const sdk = useSDK()
+  const dialog = useDialog()
+  const [recordings] = createResource(() =>
+    sdk.client.session.recordings({ path: { id: props.sessionID } }).then((x) => x.data ?? []),
+  )
+
+  onMount(() => {
+    dialog.setSize("large")
+  })
+
+  const options = createMemo((): DialogSelectOption<string>[] =>
+    (recordings() ?? []).map((recording, index) => ({
+      title: `Step ${index + 1}`,
+      value: recording.id,
+      description: `${recording.providerID}/${recording.modelID}`,
+      footer: recording.error ? "error" : Locale.time(recording.time.started),
+      onSelect: (dialog) => {
+        dialog.replace(() => <DialogRecordingPayload recording={recording} step={index + 1} />)
+      },
+    })),
+  )
+
+  return <DialogSelect title="Provider traffic" options={options()} />
+}
+
+function DialogRecordingPayload(props: { recording: Recording; step: number }) {
+  const { theme } = useTheme()
+  const dimensions = useTerminalDimensions()
+
+  const payload = createMemo(() =>
+    JSON.stringify(
+      {
+        request: props.recording.request,
+        events: props.recording.events,
+        error: props.recording.error,
+      },
+      null,
+      2,
+    ),
+  )
+
+  return (
+    <box paddingLeft={2} paddingRight={2} gap={1} paddingBottom={1}>
+      <box flexDirection="row" justifyContent="space-between">
+        <text fg={theme.text} attributes={TextAttributes.BOLD}>
+          Step {props.step} · {props.recording.providerID}/{props.recording.modelID}
+        </text>
+        <text fg={theme.textMuted}>esc</text>
+      </box>
+      <scrollbox maxHeight={Math.floor(dimensions().height / 2)} scrollbarOptions={{ visible: false }} focused>
+        <text fg={theme.text}>{payload()}</text>
+      </scrollbox>
+    </box>
+  )
+}
@@ -9,10 +9,19 @@ import type { AssistantMessage, Session } from "@opencode-ai/sdk"
 const Title = (props: { session: Accessor<Session> }) => {
   const { theme } = useTheme()
   return (
-    <text fg={theme.text}>
-      <span style={{ bold: true, fg: theme.accent }}>#</span>{" "}
-      <span style={{ bold: true }}>{props.session().title}</span>
-    </text>
+    <box flexDirection="row" gap={1} flexShrink={1}>
+      <text fg={theme.text}>
+        <span style={{ bold: true, fg: theme.accent }}>#</span>{" "}
+        <span style={{ bold: true }}>{props.session().title}</span>
+      </text>
+      <Show when={props.session().worktree}>
+        {(worktree) => (
+          <text fg={theme.textMuted} wrapMode="none" flexShrink={0}>
+            ⎇ {worktree().branch}
+          </text>
+        )}
+      </Show>
+    </box>
   )
 }
 
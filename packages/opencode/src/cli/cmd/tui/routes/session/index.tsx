@@ -27,7 +27,15 @@ import {
   type ScrollAcceleration,
 } from "@opentui/core"
 import { Prompt, type PromptRef } from "@tui/component/prompt"
-import type { AssistantMessage, Part, ToolPart, UserMessage, TextPart, ReasoningPart } from "@opencode-ai/sdk"
+import type {
+  AssistantMessage,
+  Part,
+  ToolPart,
+  UserMessage,
+  TextPart,
+  ReasoningPart,
+  FallbackPart,
+} from "@opencode-ai/sdk"
 import { useLocal } from "@tui/context/local"
 import { Locale } from "@/util/locale"
 import type { Tool } from "@/tool/tool"
@@ -49,12 +57,13 @@ import { Shimmer } from "@tui/ui/shimmer"
 import { useKeybind } from "@tui/context/keybind"
 import { Header } from "./header"
 import { parsePatch } from "diff"
-import { useDialog } from "../../ui/dialog"
+import { useDialog, type DialogContext } from "../../ui/dialog"
 import { DialogMessage } from "./dialog-message"
 import type { PromptInfo } from "../../component/prompt/history"
 import { iife } from "@/util/iife"
 import { DialogConfirm } from "@tui/ui/dialog-confirm"
 import { DialogTimeline } from "./dialog-timeline"
+import { DialogRecording } from "./dialog-recording"
 import { DialogSessionRename } from "../../component/dialog-session-rename"
 import { Sidebar } from "./sidebar"
 import { LANGUAGE_EXTENSIONS } from "@/lsp/language"
@@ -100,6 +109,11 @@ export function Session() {
   const session = createMemo(() => sync.session.get(route.sessionID)!)
   const messages = createMemo(() => sync.data.message[route.sessionID] ?? [])
   const permissions = createMemo(() => sync.data.permission[route.sessionID] ?? [])
+  const budget = createMemo(() => {
+    const status = sync.data.session_status[route.sessionID]
+    if (status?.type !== "budget_exceeded") return
+    return status
+  })
 
   const pending = createMemo(() => {
     return messages().findLast((x) => x.role === "assistant" && !x.time.completed)?.id
@@ -134,7 +148,9 @@ export function Session() {
     await sync.session
       .sync(route.sessionID)
       .then(() => {
-        if (scroll) scroll.scrollBy(100_000)
+        if (!scroll) return
+        if (route.messageID) return setTimeout(() => scrollToMessage(route.messageID!), 50)
+        scroll.scrollBy(100_000)
       })
       .catch(() => {
         toast.show({
@@ -158,33 +174,59 @@ export function Session() {
 
     const first = permissions()[0]
     if (first) {
-      const response = iife(() => {
-        if (evt.name === "return") return "once"
-        if (evt.name === "a") return "always"
-        if (evt.name === "d") return "reject"
-        if (evt.name === "escape") return "reject"
+      const reply = iife(() => {
+        if (evt.name === "return") return { response: "once" } as const
+        if (evt.name === "a") return { response: "always", scope: "session" } as const
+        if (evt.name === "p") return { response: "always", scope: "project" } as const
+        if (evt.name === "g") return { response: "always", scope: "global" } as const
+        if (evt.name === "d") return { response: "reject" } as const
+        if (evt.name === "escape") return { response: "reject" } as const
         return
       })
-      if (response) {
+      if (reply) {
         sdk.client.postSessionIdPermissionsPermissionId({
           path: {
             permissionID: first.id,
             id: route.sessionID,
           },
-          body: {
-            response: response,
-          },
+          body: reply,
+        })
+      }
+      return
+    }
+
+    if (budget()) {
+      const response = iife(() => {
+        if (evt.name === "r") return "raise" as const
+        if (evt.name === "s") return "stop" as const
+        if (evt.name === "escape") return "stop" as const
+        return
+      })
+      if (response) {
+        sdk.client.session.budget({
+          path: { id: route.sessionID },
+          body: { response },
         })
       }
     }
   })
 
   function toBottom() {
+    if (route.messageID) return
     setTimeout(() => {
       if (scroll) scroll.scrollTo(scroll.scrollHeight)
     }, 50)
   }
 
+  function scrollToMessage(messageID: string) {
+    // only user messages are addressable, so land on the prompt that led to an assistant reply
+    const target = messages().findLast((x) => x.role === "user" && x.id <= messageID)?.id ?? messageID
+    const child = scroll.getChildren().find((child) => {
+      return child.id === target
+    })
+    if (child) scroll.scrollBy(child.y - scroll.y - 1)
+  }
+
   const local = useLocal()
 
   function moveChild(direction: number) {
@@ -204,6 +246,12 @@ export function Session() {
     }
   }
 
+  function worktreeError(error: unknown) {
+    const data = (error as { data?: { message?: string; files?: string[] } }).data
+    if (data?.files?.length) return `Merge conflicts in ${data.files.join(", ")}`
+    return data?.message ?? "Worktree operation failed"
+  }
+
   const command = useCommandDialog()
   command.register(() => [
     {
@@ -221,17 +269,15 @@ export function Session() {
       keybind: "session_timeline",
       category: "Session",
       onSelect: (dialog) => {
-        dialog.replace(() => (
-          <DialogTimeline
-            onMove={(messageID) => {
-              const child = scroll.getChildren().find((child) => {
-                return child.id === messageID
-              })
-              if (child) scroll.scrollBy(child.y - scroll.y - 1)
-            }}
-            sessionID={route.sessionID}
-          />
-        ))
+        dialog.replace(() => <DialogTimeline onMove={scrollToMessage} sessionID={route.sessionID} />)
+      },
+    },
+    {
+      title: "Inspect provider traffic",
+      value: "session.recording",
+      category: "Session",
+      onSelect: (dialog) => {
+        dialog.replace(() => <DialogRecording sessionID={route.sessionID} />)
       },
     },
     {
@@ -260,7 +306,7 @@ export function Session() {
             keybind: "session_share" as const,
             disabled: !!session()?.share?.url,
             category: "Session",
-            onSelect: async (dialog: any) => {
+            onSelect: async (dialog: DialogContext) => {
               await sdk.client.session
                 .share({
                   path: {
@@ -294,6 +340,53 @@ export function Session() {
         dialog.clear()
       },
     },
+    ...(session()?.worktree
+      ? [
+          {
+            title: "Merge worktree branch",
+            value: "session.worktree.merge",
+            category: "Session",
+            onSelect: async (dialog: DialogContext) => {
+              dialog.clear()
+              const result = await sdk.client.session.worktree.merge({ path: { id: route.sessionID } })
+              if (result.error) toast.show({ message: worktreeError(result.error), variant: "error" })
+              else toast.show({ message: "Merged worktree branch", variant: "success" })
+            },
+          },
+          {
+            title: session()?.worktree?.pr ? "Push to pull request" : "Open pull request",
+            value: "session.worktree.pr",
+            category: "Session",
+            onSelect: async (dialog: DialogContext) => {
+              dialog.clear()
+              const result = await sdk.client.session.worktree.pr({ path: { id: route.sessionID } })
+              if (result.error) {
+                toast.show({ message: worktreeError(result.error), variant: "error" })
+                return
+              }
+              const url = result.data!.worktree?.pr
+              if (url) await Clipboard.copy(url).catch(() => {})
+              toast.show({ message: url ? `${url} copied to clipboard` : "Pushed worktree branch", variant: "success" })
+            },
+          },
+          {
+            title: "Discard worktree",
+            value: "session.worktree.discard",
+            category: "Session",
+            onSelect: async (dialog: DialogContext) => {
+              const confirmed = await DialogConfirm.show(
+                dialog,
+                "Discard worktree",
+                `Delete ${session()!.worktree!.branch} and its checkout? Unmerged changes are lost.`,
+              )
+              dialog.clear()
+              if (!confirmed) return
+              const result = await sdk.client.session.worktree.discard({ path: { id: route.sessionID } })
+              if (result.error) toast.show({ message: worktreeError(result.error), variant: "error" })
+            },
+          },
+        ]
+      : []),
     {
       title: "Undo previous message",
       value: "session.undo",
@@ -827,10 +920,41 @@ export function Session() {
                 )}
               </For>
             </scrollbox>
+            <Show when={budget()}>
+              {(status) => (
+                <box
+                  flexShrink={0}
+                  border={["left"]}
+                  paddingTop={1}
+                  paddingBottom={1}
+                  paddingLeft={2}
+                  marginBottom={1}
+                  gap={1}
+                  backgroundColor={theme.backgroundPanel}
+                  customBorderChars={SplitBorder.customBorderChars}
+                  borderColor={theme.warning}
+                >
+                  <text fg={theme.text}>
+                    Paused: {status().scope} {status().limit} budget reached (
+                    {formatBudget(status().limit, status().used)} of {formatBudget(status().limit, status().max)})
+                  </text>
+                  <box flexDirection="row" gap={2}>
+                    <text>
+                      <b>r</b>
+                      <span style={{ fg: theme.textMuted }}> raise limit</span>
+                    </text>
+                    <text>
+                      <b>s</b>
+                      <span style={{ fg: theme.textMuted }}> stop</span>
+                    </text>
+                  </box>
+                </box>
+              )}
+            </Show>
             <box flexShrink={0}>
               <Prompt
                 ref={(r) => (prompt = r)}
-                disabled={permissions().length > 0}
+                disabled={permissions().length > 0 || !!budget()}
                 onSubmit={() => {
                   toBottom()
                 }}
@@ -848,6 +972,12 @@ export function Session() {
   )
 }
 
+function formatBudget(limit: "cost" | "tokens" | "steps", value: number) {
+  if (limit === "cost") return `$${value.toFixed(2)}`
+  if (limit === "tokens") return `${Locale.number(value)} tokens`
+  return `${value} steps`
+}
+
 const MIME_BADGE: Record<string, string> = {
   "text/plain": "txt",
   "image/png": "img",
@@ -982,7 +1112,7 @@ function AssistantMessage(props: { message: AssistantMessage; parts: Part[]; las
           <text fg={theme.textMuted}>{props.message.error?.data.message}</text>
         </box>
       </Show>
-      <Show when={props.last && status().type !== "idle"}>
+      <Show when={props.last && status().type !== "idle" && status().type !== "budget_exceeded"}>
         <box paddingLeft={3} flexDirection="row" gap={1} marginTop={1}>
           <text fg={local.agent.color(props.message.mode)}>{Locale.titlecase(props.message.mode)}</text>
           <Shimmer text={props.message.modelID} color={theme.text} />
@@ -1043,6 +1173,7 @@ const PART_MAPPING = {
   text: TextPart,
   tool: ToolPart,
   reasoning: ReasoningPart,
+  fallback: FallbackPart,
 }
 
 function ReasoningPart(props: { last: boolean; part: ReasoningPart; message: AssistantMessage }) {
@@ -1093,6 +1224,23 @@ function TextPart(props: { last: boolean; part: TextPart; message: AssistantMess
   )
 }
 
+function FallbackPart(props: { last: boolean; part: FallbackPart; message: AssistantMessage }) {
+  const { theme } = useTheme()
+  const message = createMemo(() => {
+    const text = props.part.error.data.message
+    if (text.length > 80) return text.slice(0, 80) + "..."
+    return text
+  })
+  return (
+    <box paddingLeft={3} marginTop={1} flexShrink={0}>
+      <text fg={theme.textMuted}>
+        <span style={{ fg: theme.warning }}>↳</span> {props.part.from.providerID}/{props.part.from.modelID} failed,
+        switched to {props.part.to.providerID}/{props.part.to.modelID}: {message()}
+      </text>
+    </box>
+  )
+}
+
 // Pending messages moved to individual tool pending functions
 
 function ToolPart(props: { last: boolean; part: ToolPart; message: AssistantMessage }) {
@@ -1176,7 +1324,15 @@ function ToolPart(props: { last: boolean; part: ToolPart; message: AssistantMess
               </text>
               <text>
                 <b>a</b>
-                <span style={{ fg: theme.textMuted }}> accept always</span>
+                <span style={{ fg: theme.textMuted }}> always (session)</span>
+              </text>
+              <text>
+                <b>p</b>
+                <span style={{ fg: theme.textMuted }}> always (project)</span>
+              </text>
+              <text>
+                <b>g</b>
+                <span style={{ fg: theme.textMuted }}> always (global)</span>
               </text>
               <text>
                 <b>d</b>
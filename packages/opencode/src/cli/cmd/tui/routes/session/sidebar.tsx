@@ -1,5 +1,6 @@
 import { useSync } from "@tui/context/sync"
-import { createMemo, For, Show, Switch, Match, createSignal } from "solid-js"
+import { useSDK } from "@tui/context/sdk"
+import { createMemo, createResource, For, Show, Switch, Match, createSignal } from "solid-js"
 import { useTheme } from "../../context/theme"
 import { Locale } from "@/util/locale"
 import path from "path"
@@ -7,15 +8,18 @@ import type { AssistantMessage } from "@opencode-ai/sdk"
 
 export function Sidebar(props: { sessionID: string }) {
   const sync = useSync()
+  const sdk = useSDK()
   const { theme } = useTheme()
   const session = createMemo(() => sync.session.get(props.sessionID)!)
   const diff = createMemo(() => sync.data.session_diff[props.sessionID] ?? [])
   const todo = createMemo(() => sync.data.todo[props.sessionID] ?? [])
+  const processes = createMemo(() => sync.data.background[props.sessionID] ?? [])
   const messages = createMemo(() => sync.data.message[props.sessionID] ?? [])
 
   const [mcpExpanded, setMcpExpanded] = createSignal(true)
   const [diffExpanded, setDiffExpanded] = createSignal(true)
   const [todoExpanded, setTodoExpanded] = createSignal(true)
+  const [processesExpanded, setProcessesExpanded] = createSignal(true)
   const [lspExpanded, setLspExpanded] = createSignal(true)
 
   const cost = createMemo(() => {
@@ -38,6 +42,26 @@ export function Sidebar(props: { sessionID: string }) {
     }
   })
 
+  // refetched whenever a message starts or finishes rather than on every streamed part
+  const revision = createMemo(() => {
+    const last = messages().at(-1)
+    return `${props.sessionID}:${messages().length}:${last?.role === "assistant" ? (last.time.completed ?? "") : ""}`
+  })
+  const [breakdown] = createResource(revision, () =>
+    sdk.client.session.context({ path: { id: props.sessionID } }).then((x) => x.data),
+  )
+  const sections = createMemo(() => {
+    const value = breakdown()
+    if (!value) return []
+    return [
+      { label: "System", tokens: value.system },
+      { label: "Instructions", tokens: value.instructions },
+      { label: "Tools", tokens: value.tools },
+      { label: "History", tokens: value.history },
+      { label: "Tool outputs", tokens: value.toolOutputs },
+    ]
+  })
+
   return (
     <Show when={session()}>
       <scrollbox width={40}>
@@ -57,6 +81,19 @@ export function Sidebar(props: { sessionID: string }) {
             <text fg={theme.textMuted}>{context()?.tokens ?? 0} tokens</text>
             <text fg={theme.textMuted}>{context()?.percentage ?? 0}% used</text>
             <text fg={theme.textMuted}>{cost()} spent</text>
+            <For each={sections()}>
+              {(section) => (
+                <box flexDirection="row" justifyContent="space-between" paddingLeft={2}>
+                  <text fg={theme.textMuted}>{section.label}</text>
+                  <text fg={theme.textMuted}>{Locale.number(section.tokens)}</text>
+                </box>
+              )}
+            </For>
+            <Show when={breakdown()?.tokenizer === "estimate"}>
+              <text fg={theme.textMuted} paddingLeft={2}>
+                <i>estimated, no tokenizer for this model</i>
+              </text>
+            </Show>
           </box>
           <Show when={Object.keys(sync.data.mcp).length > 0}>
             <box>
@@ -167,6 +204,61 @@ export function Sidebar(props: { sessionID: string }) {
               </Show>
             </box>
           </Show>
+          <Show when={processes().length > 0}>
+            <box>
+              <box
+                flexDirection="row"
+                gap={1}
+                onMouseDown={() => processes().length > 2 && setProcessesExpanded(!processesExpanded())}
+              >
+                <Show when={processes().length > 2}>
+                  <text fg={theme.text}>{processesExpanded() ? "▼" : "▶"}</text>
+                </Show>
+                <text fg={theme.text}>
+                  <b>Processes</b>
+                </text>
+              </box>
+              <Show when={processes().length <= 2 || processesExpanded()}>
+                <For each={processes()}>
+                  {(item) => (
+                    <box flexDirection="row" gap={1} justifyContent="space-between">
+                      <box flexDirection="row" gap={1}>
+                        <text
+                          flexShrink={0}
+                          style={{
+                            fg: {
+                              running: theme.success,
+                              exited: item.exit ? theme.error : theme.textMuted,
+                              stopped: theme.textMuted,
+                            }[item.status],
+                          }}
+                        >
+                          •
+                        </text>
+                        <text fg={theme.textMuted} wrapMode="word">
+                          {item.description}
+                        </text>
+                      </box>
+                      <Show
+                        when={item.status === "running"}
+                        fallback={<text fg={theme.textMuted}>{item.exit ?? item.status}</text>}
+                      >
+                        <text
+                          fg={theme.error}
+                          flexShrink={0}
+                          onMouseUp={() =>
+                            sdk.client.session.backgroundStop({ path: { id: props.sessionID, processID: item.id } })
+                          }
+                        >
+                          stop
+                        </text>
+                      </Show>
+                    </box>
+                  )}
+                </For>
+              </Show>
+            </box>
+          </Show>
           <Show when={diff().length > 0}>
             <box>
               <box
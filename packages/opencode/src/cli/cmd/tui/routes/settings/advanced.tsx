@@ -52,6 +52,24 @@ export function AdvancedSettings() {
       value: () => experimentalFeatures().batch_tool ?? false,
       onActivate: () => handleToggleExperimental("batch_tool", experimentalFeatures().batch_tool ?? false),
     },
+    {
+      id: "lsp_tool",
+      label: "LSP Tools",
+      value: () => experimentalFeatures().lsp_tool ?? false,
+      onActivate: () => handleToggleExperimental("lsp_tool", experimentalFeatures().lsp_tool ?? false),
+    },
+    {
+      id: "multiedit_tool",
+      label: "MultiEdit Tool",
+      value: () => experimentalFeatures().multiedit_tool ?? false,
+      onActivate: () => handleToggleExperimental("multiedit_tool", experimentalFeatures().multiedit_tool ?? false),
+    },
+    {
+      id: "patch_tool",
+      label: "Patch Tool",
+      value: () => experimentalFeatures().patch_tool ?? false,
+      onActivate: () => handleToggleExperimental("patch_tool", experimentalFeatures().patch_tool ?? false),
+    },
   ]
 
   useKeyboard((evt) => {
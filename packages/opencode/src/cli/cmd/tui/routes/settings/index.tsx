@@ -8,6 +8,7 @@ import { SplitBorder } from "@tui/component/border"
 import { MCPSettings } from "./mcp"
 import { GeneralSettings } from "./general"
 import { AdvancedSettings } from "./advanced"
+import { PermissionSettings } from "./permissions"
 import { Toast } from "@tui/ui/toast"
 import { useDialog } from "@tui/ui/dialog"
 
@@ -15,7 +16,7 @@ export function Settings() {
   const { theme } = useTheme()
   const route = useRoute()
   const dialog = useDialog()
-  const [activeTab, setActiveTab] = createSignal<"mcp" | "general" | "advanced">(
+  const [activeTab, setActiveTab] = createSignal<"mcp" | "general" | "advanced" | "permissions">(
     route.data.type === "settings" ? route.data.tab || "mcp" : "mcp",
   )
 
@@ -23,9 +24,10 @@ export function Settings() {
     { id: "mcp" as const, label: "MCP Servers", shortcut: "1" },
     { id: "general" as const, label: "General", shortcut: "2" },
     { id: "advanced" as const, label: "Advanced", shortcut: "3" },
+    { id: "permissions" as const, label: "Permissions", shortcut: "4" },
   ]
 
-  const switchTab = (tabId: "mcp" | "general" | "advanced") => {
+  const switchTab = (tabId: "mcp" | "general" | "advanced" | "permissions") => {
     setActiveTab(tabId)
     route.navigate({ type: "settings", tab: tabId })
   }
@@ -53,6 +55,8 @@ export function Settings() {
       switchTab("general")
     } else if (evt.name === "3") {
       switchTab("advanced")
+    } else if (evt.name === "4") {
+      switchTab("permissions")
     }
   })
 
@@ -98,6 +102,9 @@ export function Settings() {
         <Show when={activeTab() === "advanced"}>
           <AdvancedSettings />
         </Show>
+        <Show when={activeTab() === "permissions"}>
+          <PermissionSettings />
+        </Show>
       </box>
     </box>
   )
@@ -1,62 +1,98 @@
 import { useTheme } from "@tui/context/theme"
 import { useSync } from "@tui/context/sync"
 import { useSDK } from "@tui/context/sdk"
-import { createMemo, createSignal, For, Match, Show, Switch } from "solid-js"
+import { createMemo, createResource, createSignal, For, Match, Show, Switch } from "solid-js"
 import { StatusIndicator } from "@tui/component/settings/status-indicator"
 import { TextAttributes } from "@opentui/core"
 import { useToast } from "@tui/ui/toast"
 import { useKeyboard } from "@opentui/solid"
+import { useDialog } from "@tui/ui/dialog"
+import { DialogConfirm } from "@tui/ui/dialog-confirm"
+
+const LOG_LINES = 10
 
 export function MCPSettings() {
   const { theme } = useTheme()
   const sync = useSync()
   const sdk = useSDK()
   const toast = useToast()
+  const dialog = useDialog()
 
   const [selectedIndex, setSelectedIndex] = createSignal(0)
 
   const mcpServers = createMemo(() => Object.entries(sync.data.mcp))
   const hasServers = createMemo(() => mcpServers().length > 0)
 
-  const handleToggleMCP = async (name: string, currentlyEnabled: boolean) => {
-    try {
-      const mcpConfig = sync.data.config.mcp || {}
-      const serverConfig = mcpConfig[name]
+  const selected = createMemo(() => mcpServers()[selectedIndex()])
+  const failure = createMemo(() => {
+    const server = selected()?.[1]
+    return server?.status === "failed" ? server.error : undefined
+  })
 
-      if (!serverConfig) {
-        toast.show({
-          message: `MCP server ${name} not found in config`,
-          variant: "error",
-        })
-        return
-      }
+  // the recent output of the selected server, fetched again when its status changes
+  const [logs] = createResource(
+    () => selected() && { name: selected()![0], status: selected()![1] },
+    async ({ name }) => {
+      const result = await sdk.client.mcp.logs({ path: { name } })
+      return (result.data ?? []).slice(-LOG_LINES)
+    },
+    { initialValue: [] },
+  )
 
-      await sdk.client.config.update({
-        body: {
-          mcp: {
-            ...mcpConfig,
-            [name]: {
-              ...serverConfig,
-              enabled: !currentlyEnabled,
-            },
-          },
-        },
+  const handleToggleMCP = async (name: string, currentlyEnabled: boolean) => {
+    const result = currentlyEnabled
+      ? await sdk.client.mcp.disable({ path: { name } })
+      : await sdk.client.mcp.enable({ path: { name } })
+    if (result.error) {
+      toast.show({
+        message: `Failed to update MCP server ${name}`,
+        variant: "error",
       })
+      return
+    }
+    toast.show({
+      message: `MCP server ${name} ${currentlyEnabled ? "disabled" : "enabled"}`,
+      variant: "success",
+    })
+  }
 
+  const handleRestartMCP = async (name: string) => {
+    const result = await sdk.client.mcp.restart({ path: { name } })
+    if (result.error || result.data?.status === "failed") {
       toast.show({
-        message: `MCP server ${name} ${!currentlyEnabled ? "enabled" : "disabled"}. Restart required.`,
-        variant: "success",
+        message: `Failed to restart MCP server ${name}`,
+        variant: "error",
       })
-    } catch (error) {
+      return
+    }
+    toast.show({
+      message: `MCP server ${name} restarted`,
+      variant: "success",
+    })
+  }
+
+  const handleRemoveMCP = async (name: string) => {
+    const confirmed = await DialogConfirm.show(
+      dialog,
+      "Remove MCP server",
+      `Stop ${name} and remove it from the config?`,
+    )
+    dialog.clear()
+    if (!confirmed) return
+    const result = await sdk.client.mcp.remove({ path: { name } })
+    if (result.error) {
       toast.show({
-        message: `Failed to update MCP server: ${error}`,
+        message: `Failed to remove MCP server ${name}`,
         variant: "error",
       })
+      return
     }
+    setSelectedIndex((i) => Math.max(0, Math.min(i, mcpServers().length - 2)))
   }
 
   useKeyboard((evt) => {
     if (!hasServers()) return
+    if (dialog.stack.length > 0) return
 
     if (evt.name === "up") {
       setSelectedIndex((i) => (i > 0 ? i - 1 : mcpServers().length - 1))
@@ -65,10 +101,14 @@ export function MCPSettings() {
       setSelectedIndex((i) => (i < mcpServers().length - 1 ? i + 1 : 0))
       evt.preventDefault()
     } else if (evt.name === "return" || evt.name === "space") {
-      const [name] = mcpServers()[selectedIndex()]
-      const serverConfig = sync.data.config.mcp?.[name]
-      const isEnabled = serverConfig?.enabled !== false
-      handleToggleMCP(name, isEnabled)
+      const [name, server] = mcpServers()[selectedIndex()]
+      handleToggleMCP(name, server.status !== "disabled")
+      evt.preventDefault()
+    } else if (evt.name === "r") {
+      handleRestartMCP(mcpServers()[selectedIndex()][0])
+      evt.preventDefault()
+    } else if (evt.name === "d") {
+      handleRemoveMCP(mcpServers()[selectedIndex()][0])
       evt.preventDefault()
     }
   })
@@ -87,8 +127,7 @@ export function MCPSettings() {
         <box flexDirection="column">
           <For each={mcpServers()}>
             {([name, server], index) => {
-              const serverConfig = () => sync.data.config.mcp?.[name]
-              const isEnabled = () => serverConfig()?.enabled !== false
+              const isEnabled = () => server.status !== "disabled"
               const isSelected = () => selectedIndex() === index()
 
               return (
@@ -122,10 +161,23 @@ export function MCPSettings() {
           </For>
         </box>
 
+        <box flexDirection="column" paddingLeft={1} paddingRight={1}>
+          <Show when={failure()}>{(error) => <text fg={theme.error}>{error()}</text>}</Show>
+          <Show when={logs().length > 0} fallback={<text fg={theme.textMuted}>No output from {selected()?.[0]}</text>}>
+            <For each={logs()}>
+              {(line) => (
+                <text fg={theme.textMuted} wrapMode="none">
+                  {line}
+                </text>
+              )}
+            </For>
+          </Show>
+        </box>
+
         <box paddingTop={2}>
           <text fg={theme.textMuted} wrapMode="word">
-            Use ↑/↓ to navigate, Enter/Space to toggle. To add new servers or modify commands, edit your opencode.json
-            configuration file. Changes require a restart.
+            Use ↑/↓ to navigate, Enter/Space to enable or disable, r to restart and d to remove a server. To add new
+            servers or modify commands, edit your opencode.json configuration file.
           </text>
         </box>
       </Show>
@@ -0,0 +1,111 @@
+import { useTheme } from "@tui/context/theme"
+import { useSDK } from "@tui/context/sdk"
+import { createMemo, createResource, createSignal, For, Show } from "solid-js"
+import { useToast } from "@tui/ui/toast"
+import { TextAttributes } from "@opentui/core"
+import { useKeyboard } from "@opentui/solid"
+import { Locale } from "@/util/locale"
+
+export function PermissionSettings() {
+  const { theme } = useTheme()
+  const sdk = useSDK()
+  const toast = useToast()
+
+  const [selectedIndex, setSelectedIndex] = createSignal(0)
+
+  const [rules, { refetch }] = createResource(async () => {
+    const result = await sdk.client.permission.rule.list()
+    return result.data ?? []
+  })
+  sdk.event.on("permission.rule.updated", () => refetch())
+
+  const sorted = createMemo(() => {
+    const order = { global: 0, project: 1, session: 2 }
+    return (rules() ?? []).toSorted((a, b) => order[a.scope] - order[b.scope] || a.pattern.localeCompare(b.pattern))
+  })
+  const hasRules = createMemo(() => sorted().length > 0)
+
+  const revoke = async (ruleID: string) => {
+    try {
+      await sdk.client.permission.rule.delete({ path: { ruleID } })
+      setSelectedIndex((i) => Math.max(0, Math.min(i, sorted().length - 2)))
+      toast.show({
+        message: "Permission rule revoked",
+        variant: "success",
+      })
+    } catch (error) {
+      toast.show({
+        message: `Failed to revoke permission rule: ${error}`,
+        variant: "error",
+      })
+    }
+  }
+
+  useKeyboard((evt) => {
+    if (!hasRules()) return
+
+    if (evt.name === "up") {
+      setSelectedIndex((i) => (i > 0 ? i - 1 : sorted().length - 1))
+      evt.preventDefault()
+    } else if (evt.name === "down") {
+      setSelectedIndex((i) => (i < sorted().length - 1 ? i + 1 : 0))
+      evt.preventDefault()
+    } else if (evt.name === "delete" || evt.name === "backspace" || evt.name === "d") {
+      const rule = sorted()[selectedIndex()]
+      if (rule) revoke(rule.id)
+      evt.preventDefault()
+    }
+  })
+
+  return (
+    <box flexDirection="column" gap={2} paddingLeft={2} paddingRight={2} paddingTop={2}>
+      <Show
+        when={hasRules()}
+        fallback={
+          <box flexDirection="column" gap={1} alignItems="center" justifyContent="center" paddingTop={4}>
+            <text fg={theme.textMuted}>No saved permission rules</text>
+            <text fg={theme.textMuted}>Rules are added when you choose "always" on a permission request</text>
+          </box>
+        }
+      >
+        <box flexDirection="column">
+          <For each={sorted()}>
+            {(rule, index) => {
+              const isSelected = () => selectedIndex() === index()
+
+              return (
+                <box
+                  flexDirection="row"
+                  justifyContent="space-between"
+                  alignItems="center"
+                  paddingLeft={1}
+                  paddingRight={1}
+                  backgroundColor={isSelected() ? theme.primary : "transparent"}
+                  onMouseOver={() => setSelectedIndex(index())}
+                >
+                  <box flexDirection="row" gap={1} alignItems="center">
+                    <text fg={isSelected() ? theme.background : theme.accent} attributes={TextAttributes.BOLD}>
+                      {rule.scope}
+                    </text>
+                    <text fg={isSelected() ? theme.background : theme.textMuted}>{rule.type}</text>
+                    <text fg={isSelected() ? theme.background : theme.text}>{Locale.truncate(rule.pattern, 60)}</text>
+                  </box>
+                  <text fg={isSelected() ? theme.background : theme.textMuted}>
+                    {new Date(rule.time.created).toLocaleDateString()}
+                  </text>
+                </box>
+              )
+            }}
+          </For>
+        </box>
+
+        <box paddingTop={2}>
+          <text fg={theme.textMuted} wrapMode="word">
+            Use ↑/↓ to navigate, d/Delete to revoke. Project and session rules are stored in .opencode/permission.json,
+            global rules in your opencode config directory.
+          </text>
+        </box>
+      </Show>
+    </box>
+  )
+}
@@ -33,6 +33,8 @@ export interface DialogSelectOption<T = any> {
   footer?: JSX.Element | string
   category?: string
   disabled?: boolean
+  /** Keep the option visible regardless of the filter, for results the caller already matched */
+  unfiltered?: boolean
   bg?: RGBA
   onSelect?: (ctx: DialogContext, trigger?: "prompt") => void
 }
@@ -57,7 +59,19 @@ export function DialogSelect<T>(props: DialogSelectProps<T>) {
     const result = pipe(
       props.options,
       filter((x) => x.disabled !== true),
-      (x) => (!needle ? x : fuzzysort.go(needle, x, { keys: ["title", "category"] }).map((x) => x.obj)),
+      (x) =>
+        !needle
+          ? x
+          : [
+              ...fuzzysort
+                .go(
+                  needle,
+                  x.filter((x) => !x.unfiltered),
+                  { keys: ["title", "category"] },
+                )
+                .map((x) => x.obj),
+              ...x.filter((x) => x.unfiltered),
+            ],
     )
     return result
   })
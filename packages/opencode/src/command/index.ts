@@ -4,6 +4,7 @@ import { Instance } from "../project/instance"
 import PROMPT_INITIALIZE from "./template/initialize.txt"
 import { Bus } from "../bus"
 import { Identifier } from "../id/id"
+import { MCP } from "../mcp"
 
 export namespace Command {
   export const Default = {
@@ -20,8 +21,20 @@ export namespace Command {
         messageID: Identifier.schema("message"),
       }),
     ),
+    Updated: Bus.event("command.updated", z.object({})),
   }
 
+  export const Argument = z
+    .object({
+      name: z.string(),
+      description: z.string().optional(),
+      required: z.boolean().optional(),
+    })
+    .meta({
+      ref: "CommandArgument",
+    })
+  export type Argument = z.infer<typeof Argument>
+
   export const Info = z
     .object({
       name: z.string(),
@@ -30,6 +43,8 @@ export namespace Command {
       model: z.string().optional(),
       template: z.string(),
       subtask: z.boolean().optional(),
+      source: z.enum(["command", "mcp"]).optional(),
+      arguments: Argument.array().optional(),
     })
     .meta({
       ref: "Command",
@@ -63,11 +78,69 @@ export namespace Command {
     return result
   })
 
+  // prompts of the connected MCP servers, their template is fetched from the
+  // server when they run
+  async function prompts() {
+    const result: Record<string, { info: Info; prompt: MCP.Prompt }> = {}
+    for (const prompt of await MCP.prompts()) {
+      const name = `${prompt.client}:${prompt.name}`
+      result[name] = {
+        info: {
+          name,
+          description: prompt.description,
+          template: "",
+          source: "mcp",
+          arguments: prompt.arguments,
+        },
+        prompt,
+      }
+    }
+    return result
+  }
+
   export async function get(name: string) {
-    return state().then((x) => x[name])
+    const command = await state().then((x) => x[name])
+    if (command) return command
+    return prompts().then((x) => x[name]?.info)
   }
 
   export async function list() {
-    return state().then((x) => Object.values(x))
+    const commands = await state().then((x) => Object.values(x))
+    const mcp = await prompts().then((x) => Object.values(x).map((y) => y.info))
+    return [...commands, ...mcp.filter((x) => !commands.some((y) => y.name === x.name))]
+  }
+
+  /**
+   * Gets the template of an MCP prompt command from its server. The arguments
+   * fill the ones of the prompt in order, the last one takes any extra
+   * arguments.
+   */
+  export async function resolve(name: string, args: string[]) {
+    const found = await prompts().then((x) => x[name])
+    if (!found) throw new Error(`Unknown command: ${name}`)
+    const declared = found.prompt.arguments ?? []
+    const values: Record<string, string> = {}
+    declared.forEach((argument, index) => {
+      if (index >= args.length) return
+      values[argument.name] = index === declared.length - 1 ? args.slice(index).join(" ") : args[index]
+    })
+    const result = await MCP.prompt(found.prompt.client, found.prompt.name, values)
+    return result.messages
+      .flatMap((message) => {
+        if (message.content.type === "text") return [message.content.text]
+        if (message.content.type === "resource" && "text" in message.content.resource)
+          return [message.content.resource.text]
+        return []
+      })
+      .join("\n\n")
+  }
+
+  /**
+   * Rebuilds the commands from the current config, for example after a command
+   * file changed.
+   */
+  export async function reload() {
+    await state.reset()
+    Bus.publish(Event.Updated, {})
   }
 }
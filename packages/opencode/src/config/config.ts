@@ -4,14 +4,22 @@ import os from "os"
 import z from "zod"
 import { Filesystem } from "../util/filesystem"
 import { ModelsDev } from "../provider/models"
-import { mergeDeep, pipe } from "remeda"
+import { isDeepEqual, isPlainObject, mergeDeep, pipe } from "remeda"
 import { Global } from "../global"
 import fs from "fs/promises"
 import { lazy } from "../util/lazy"
 import { NamedError } from "../util/error"
 import { Flag } from "../flag/flag"
 import { Auth } from "../auth"
-import { type ParseError as JsoncParseError, parse as parseJsonc, printParseErrorCode } from "jsonc-parser"
+import {
+  type ParseError as JsoncParseError,
+  applyEdits,
+  findNodeAtLocation,
+  modify,
+  parseTree,
+  parse as parseJsonc,
+  printParseErrorCode,
+} from "jsonc-parser"
 import { Instance } from "../project/instance"
 import { LSPServer } from "../lsp/server"
 import { BunProc } from "@/bun"
@@ -310,6 +318,11 @@ export namespace Config {
         .optional()
         .describe("Environment variables to set when running the MCP server"),
       enabled: z.boolean().optional().describe("Enable or disable the MCP server on startup"),
+      agents: z
+        .string()
+        .array()
+        .optional()
+        .describe("Agents that can use the tools of the MCP server, every agent when not set"),
       timeout: z
         .number()
         .int()
@@ -329,6 +342,11 @@ export namespace Config {
       type: z.literal("remote").describe("Type of MCP server connection"),
       url: z.string().describe("URL of the remote MCP server"),
       enabled: z.boolean().optional().describe("Enable or disable the MCP server on startup"),
+      agents: z
+        .string()
+        .array()
+        .optional()
+        .describe("Agents that can use the tools of the MCP server, every agent when not set"),
       headers: z.record(z.string(), z.string()).optional().describe("Headers to send with the request"),
       timeout: z
         .number()
@@ -350,6 +368,32 @@ export namespace Config {
   export const Permission = z.enum(["ask", "allow", "deny"])
   export type Permission = z.infer<typeof Permission>
 
+  export const FilePermission = z
+    .union([Permission, z.record(z.string(), Permission)])
+    .describe('A permission for every file, or a map of globs to permissions such as { "migrations/**": "ask" }')
+
+  export const WebFetchPermission = z
+    .union([Permission, z.record(z.string(), Permission)])
+    .describe(
+      'A permission for every URL, or a map of URL patterns to permissions such as { "https://docs.*": "allow" }',
+    )
+
+  export const Hook = z
+    .object({
+      command: z.string().array(),
+      environment: z.record(z.string(), z.string()).optional(),
+      timeout: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Milliseconds before the hook is stopped (default 60000)"),
+    })
+    .meta({
+      ref: "HookConfig",
+    })
+  export type Hook = z.infer<typeof Hook>
+
   export const Command = z.object({
     template: z.string(),
     description: z.string().optional(),
@@ -359,13 +403,30 @@ export namespace Config {
   })
   export type Command = z.infer<typeof Command>
 
+  export const Budget = z
+    .object({
+      cost: z.number().positive().optional().describe("Maximum cost in USD"),
+      tokens: z.number().int().positive().optional().describe("Maximum input, output, reasoning and cache tokens"),
+      steps: z.number().int().positive().optional().describe("Maximum number of model requests"),
+    })
+    .meta({
+      ref: "BudgetConfig",
+    })
+  export type Budget = z.infer<typeof Budget>
+
+  export const Tools = z
+    .record(z.string(), z.boolean())
+    .describe(
+      'Tools to enable or disable by name, names may use wildcards such as "github_*" and "mcp:<server>" matches every tool of an MCP server',
+    )
+
   export const Agent = z
     .object({
       model: z.string().optional(),
       temperature: z.number().optional(),
       top_p: z.number().optional(),
       prompt: z.string().optional(),
-      tools: z.record(z.string(), z.boolean()).optional(),
+      tools: Tools.optional(),
       disable: z.boolean().optional(),
       description: z.string().optional().describe("Description of when to use the agent"),
       mode: z.enum(["subagent", "primary", "all"]).optional(),
@@ -376,13 +437,19 @@ export namespace Config {
         .describe("Hex color code for the agent (e.g., #FF5733)"),
       permission: z
         .object({
-          edit: Permission.optional(),
+          edit: FilePermission.optional(),
+          read: FilePermission.optional(),
           bash: z.union([Permission, z.record(z.string(), Permission)]).optional(),
-          webfetch: Permission.optional(),
+          webfetch: WebFetchPermission.optional(),
           doom_loop: Permission.optional(),
           external_directory: Permission.optional(),
         })
         .optional(),
+      budget: Budget.optional().describe("Limits on what a session may spend while running this agent"),
+      fallback: z
+        .array(z.string())
+        .optional()
+        .describe("Models in the format of provider/model to try in order when the agent's model fails"),
     })
     .catchall(z.any())
     .meta({
@@ -457,6 +524,48 @@ export namespace Config {
       .describe("Scroll acceleration settings"),
   })
 
+  export const Compaction = z
+    .object({
+      strategy: z
+        .enum(["summary", "rolling", "prune", "hierarchical"])
+        .optional()
+        .describe(
+          "How history is compacted: summary replaces everything with one summary, rolling summarizes all but the most recent turns, prune clears old tool outputs before falling back to a summary, hierarchical summarizes from per-turn summaries",
+        ),
+      threshold: z
+        .number()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("Compact once the context reaches this percentage of the model's context window"),
+      keep: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Number of recent turns kept verbatim by the rolling and hierarchical strategies (default 2)"),
+      prune: z
+        .object({
+          protect: z
+            .number()
+            .min(0)
+            .max(100)
+            .optional()
+            .describe("Percentage of the context window of recent tool output that is never pruned"),
+          minimum: z
+            .number()
+            .min(0)
+            .max(100)
+            .optional()
+            .describe("Only prune when at least this percentage of the context window would be freed"),
+        })
+        .optional(),
+    })
+    .meta({
+      ref: "CompactionConfig",
+    })
+  export type Compaction = z.infer<typeof Compaction>
+
   export const Layout = z.enum(["auto", "stretch"]).meta({
     ref: "LayoutConfig",
   })
@@ -492,6 +601,12 @@ export namespace Config {
       autoupdate: z.boolean().optional().describe("Automatically update to the latest version"),
       disabled_providers: z.array(z.string()).optional().describe("Disable providers that are loaded automatically"),
       model: z.string().describe("Model to use in the format of provider/model, eg anthropic/claude-2").optional(),
+      fallback: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Models in the format of provider/model to try in order when a provider keeps failing or rate limiting",
+        ),
       small_model: z
         .string()
         .describe("Small model to use for tasks like title generation in the format of provider/model")
@@ -606,41 +721,80 @@ export namespace Config {
       layout: Layout.optional().describe("@deprecated Always uses stretch layout."),
       permission: z
         .object({
-          edit: Permission.optional(),
+          edit: FilePermission.optional(),
+          read: FilePermission.optional(),
           bash: z.union([Permission, z.record(z.string(), Permission)]).optional(),
-          webfetch: Permission.optional(),
+          webfetch: WebFetchPermission.optional(),
           doom_loop: Permission.optional(),
           external_directory: Permission.optional(),
         })
         .optional(),
-      tools: z.record(z.string(), z.boolean()).optional(),
+      tools: Tools.optional(),
+      compaction: Compaction.optional().describe("Context compaction settings"),
+      budget: z
+        .object({
+          session: Budget.optional().describe("Limits for each session"),
+          day: Budget.optional().describe("Limits for all sessions of the project per calendar day"),
+        })
+        .optional()
+        .describe("Pause the agent loop once a limit is reached"),
       experimental: z
         .object({
           hook: z
             .object({
+              pre_tool: z
+                .record(z.string(), Hook.array())
+                .optional()
+                .describe('Hooks run before a tool, keyed by tool name pattern such as "bash" or "*"'),
+              post_tool: z
+                .record(z.string(), Hook.array())
+                .optional()
+                .describe("Hooks run after a tool, keyed by tool name pattern"),
               file_edited: z
-                .record(
-                  z.string(),
-                  z
-                    .object({
-                      command: z.string().array(),
-                      environment: z.record(z.string(), z.string()).optional(),
-                    })
-                    .array(),
-                )
-                .optional(),
-              session_completed: z
-                .object({
-                  command: z.string().array(),
-                  environment: z.record(z.string(), z.string()).optional(),
-                })
-                .array()
-                .optional(),
+                .record(z.string(), Hook.array())
+                .optional()
+                .describe('Hooks run after a tool edits a file, keyed by glob such as "**/*.ts" or "*"'),
+              session_start: Hook.array().optional().describe("Hooks run when a session is created"),
+              session_idle: Hook.array().optional().describe("Hooks run whenever a session stops working"),
+              session_completed: Hook.array()
+                .optional()
+                .describe("Hooks run when the agent finishes answering a prompt"),
             })
             .optional(),
           chatMaxRetries: z.number().optional().describe("Number of retries for chat completions on failure"),
           disable_paste_summary: z.boolean().optional(),
           batch_tool: z.boolean().optional().describe("Enable the batch tool"),
+          lsp_tool: z
+            .boolean()
+            .optional()
+            .describe("Enable the LSP tools (diagnostics, hover, definition, references and rename)"),
+          multiedit_tool: z.boolean().optional().describe("Enable the multiedit tool"),
+          patch_tool: z.boolean().optional().describe("Enable the patch tool"),
+          persistent_shell: z
+            .boolean()
+            .optional()
+            .describe(
+              "Run bash tool commands in a long-lived shell per session that keeps the working directory and environment between calls. The shell runs in a pseudo-terminal where `script` is available, over pipes elsewhere",
+            ),
+          record: z
+            .boolean()
+            .optional()
+            .describe("Record the exact request and stream events of every model call in the session database"),
+          webfetch_cache_ttl: z
+            .number()
+            .int()
+            .min(0)
+            .optional()
+            .describe("Seconds to reuse cached webfetch responses for (default 3600), 0 disables the cache"),
+          memory: z
+            .object({
+              enabled: z.boolean().optional().describe("Index finished messages and enable the memory_search tool"),
+              embedder: z
+                .string()
+                .optional()
+                .describe('"local" for offline hashing embeddings, or an embedding model as provider/model'),
+            })
+            .optional(),
         })
         .optional(),
     })
@@ -686,7 +840,13 @@ export namespace Config {
         throw new JsonError({ path: filepath }, { cause: err })
       })
     if (!text) return {}
-    return load(text, filepath)
+    const data = await load(text, filepath)
+    // added to the text as written, so placeholders and comments are kept
+    if (!data.$schema) {
+      data.$schema = "https://opencode.ai/config.json"
+      await Bun.write(filepath, applyEdits(text, modify(text, ["$schema"], data.$schema, FORMATTING)))
+    }
+    return data
   }
 
   async function load(text: string, configFilepath: string) {
@@ -757,10 +917,6 @@ export namespace Config {
 
     const parsed = Info.safeParse(data)
     if (parsed.success) {
-      if (!parsed.data.$schema) {
-        parsed.data.$schema = "https://opencode.ai/config.json"
-        await Bun.write(configFilepath, JSON.stringify(parsed.data, null, 2))
-      }
       const data = parsed.data
       if (data.plugin) {
         for (let i = 0; i < data.plugin.length; i++) {
@@ -808,13 +964,104 @@ export namespace Config {
     return state().then((x) => x.config)
   }
 
+  /**
+   * The project config file that takes precedence over the others, written by
+   * update and unset. opencode.json files are loaded after opencode.jsonc ones,
+   * the nearest to the directory last.
+   */
+  async function writable() {
+    for (const file of ["opencode.json", "opencode.jsonc"]) {
+      const [found] = await Filesystem.findUp(file, Instance.directory, Instance.worktree)
+      if (found) return found
+    }
+    return path.join(Instance.directory, "opencode.json")
+  }
+
+  const FORMATTING = { formattingOptions: { tabSize: 2, insertSpaces: true } }
+
+  /**
+   * Saves the changes to the project config file, subsystems reload the
+   * sections that changed once the updates settle (see ConfigReload). Only the
+   * values that differ are written, so comments and {env:...} placeholders
+   * elsewhere in the file are kept.
+   */
   export async function update(config: Info) {
-    const filepath = path.join(Instance.directory, "config.json")
+    const filepath = await writable()
     const existing = await loadFile(filepath)
-    const merged = mergeDeep(existing, config)
-    await Bun.write(filepath, JSON.stringify(merged, null, 2))
-    await Bus.publish(Event.Updated, { config: merged })
-    await Instance.dispose()
+    let text = await Bun.file(filepath)
+      .text()
+      .catch(() => "{}")
+    const write = (keys: string[], value: unknown, current: unknown) => {
+      if (isDeepEqual(value, current)) return
+      if (isPlainObject(value) && isPlainObject(current)) {
+        for (const [key, item] of Object.entries(value)) write([...keys, key], item, current[key])
+        return
+      }
+      text = applyEdits(text, modify(text, keys, value, FORMATTING))
+    }
+    write([], config, existing)
+    await Bun.write(filepath, text)
+    await Bus.publish(Event.Updated, { config: mergeDeep(existing, config) })
+  }
+
+  // the config files that are read, from the lowest precedence to the highest
+  async function files() {
+    const result = ["config.json", "opencode.json", "opencode.jsonc"].map((file) => path.join(Global.Path.config, file))
+    if (Flag.OPENCODE_CONFIG) result.push(Flag.OPENCODE_CONFIG)
+    for (const file of ["opencode.jsonc", "opencode.json"]) {
+      const found = await Filesystem.findUp(file, Instance.directory, Instance.worktree)
+      result.push(...found.toReversed())
+    }
+    for (const dir of await directories()) {
+      if (!dir.endsWith(".opencode") && dir !== Flag.OPENCODE_CONFIG_DIR) continue
+      result.push(path.join(dir, "opencode.jsonc"), path.join(dir, "opencode.json"))
+    }
+    return result
+  }
+
+  /**
+   * The config files that set a key, given by its path such as ["mcp", "docs"],
+   * from the lowest precedence to the highest.
+   */
+  export async function sources(keys: string[]) {
+    const result: string[] = []
+    for (const file of await files()) {
+      const text = await Bun.file(file)
+        .text()
+        .catch(() => "")
+      const tree = text ? parseTree(text, [], { allowTrailingComma: true }) : undefined
+      if (tree && findNodeAtLocation(tree, keys)) result.push(file)
+    }
+    return result
+  }
+
+  /**
+   * Sets a single value, such as ["mcp", "docs", "enabled"], in the file with
+   * the highest precedence that defines its parent, leaving the rest of the
+   * entry as written there. Returns the file, or undefined when no config file
+   * defines the parent.
+   */
+  export async function set(keys: string[], value: unknown) {
+    const filepath = await sources(keys.slice(0, -1)).then((x) => x.at(-1))
+    if (!filepath) return
+    const text = await Bun.file(filepath).text()
+    await Bun.write(filepath, applyEdits(text, modify(text, keys, value, FORMATTING)))
+    await Bus.publish(Event.Updated, { config: await loadFile(filepath) })
+    return filepath
+  }
+
+  /**
+   * Removes a key, given by its path such as ["mcp", "docs"], from every config
+   * file that sets it. Returns the files that were changed.
+   */
+  export async function unset(keys: string[]) {
+    const result = await sources(keys)
+    for (const filepath of result) {
+      const text = await Bun.file(filepath).text()
+      await Bun.write(filepath, applyEdits(text, modify(text, keys, undefined, FORMATTING)))
+    }
+    if (result.length) await Bus.publish(Event.Updated, { config: await loadFile(result.at(-1)!) })
+    return result
   }
 
   export async function directories() {
@@ -0,0 +1,173 @@
+import path from "path"
+import { isDeepEqual } from "remeda"
+import { Bus } from "../bus"
+import { Config } from "./config"
+import { FileWatcher } from "../file/watcher"
+import { Instance } from "../project/instance"
+import { Agent } from "../agent/agent"
+import { Command } from "../command"
+import { Plugin } from "../plugin"
+import { ToolRegistry } from "../tool/registry"
+import { MCP } from "../mcp"
+import { LSP } from "../lsp"
+import { Format } from "../format"
+import { Provider } from "../provider/provider"
+import { Memory } from "../memory"
+import { Log } from "../util/log"
+import { Filesystem } from "../util/filesystem"
+
+/**
+ * Reloads only the subsystems affected by a config change instead of
+ * disposing the whole instance. Config updates and edits to the files of config
+ * directories (custom tools, agents, commands and plugins included) are
+ * debounced, then the config is read again and compared section by section.
+ * Settings without a subsystem to reload, most experimental ones included,
+ * are read again whenever they are used.
+ */
+export namespace ConfigReload {
+  const log = Log.create({ service: "config.reload" })
+
+  const DEBOUNCE_MS = 250
+
+  export type Target =
+    "config" | "tool" | "agent" | "command" | "plugin" | "mcp" | "lsp" | "formatter" | "provider" | "watcher" | "memory"
+
+  const FOLDERS: Record<string, Target> = {
+    tool: "tool",
+    agent: "agent",
+    mode: "agent",
+    command: "command",
+    plugin: "plugin",
+  }
+
+  const CONFIG_FILES = ["opencode.json", "opencode.jsonc"]
+
+  // sections that are not listed are read from the config when needed
+  const SECTIONS: Partial<Record<keyof Config.Info, Target[]>> = {
+    agent: ["agent"],
+    mode: ["agent"],
+    permission: ["agent"],
+    tools: ["agent"],
+    command: ["command"],
+    plugin: ["plugin"],
+    mcp: ["mcp"],
+    lsp: ["lsp"],
+    formatter: ["formatter"],
+    provider: ["provider"],
+    disabled_providers: ["provider"],
+    watcher: ["watcher"],
+  }
+
+  // the other experimental settings, hooks included, are read when they are used
+  const EXPERIMENTAL: Partial<Record<keyof NonNullable<Config.Info["experimental"]>, Target[]>> = {
+    memory: ["memory"],
+  }
+
+  /**
+   * What a file belongs to, or undefined when it is neither a config file nor
+   * inside one of the registry folders of a config directory. Creating the
+   * folder itself counts too, as the watcher can miss files written along with
+   * it.
+   */
+  export function classify(directories: string[], file: string): Target | undefined {
+    for (const dir of directories) {
+      const relative = path.relative(dir, file)
+      if (relative.startsWith("..") || path.isAbsolute(relative)) continue
+      const parts = relative.split(path.sep)
+      if (parts.includes("node_modules")) continue
+      if (parts.length === 1 && CONFIG_FILES.includes(parts[0])) return "config"
+      const target = FOLDERS[parts[0]]
+      if (target) return target
+    }
+  }
+
+  /**
+   * The subsystems to reload for the sections that differ between two configs.
+   */
+  export function diff(before: Config.Info, after: Config.Info): Target[] {
+    const result = new Set<Target>()
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof Config.Info>
+    for (const key of keys) {
+      if (isDeepEqual(before[key], after[key])) continue
+      for (const target of SECTIONS[key] ?? []) result.add(target)
+    }
+    const experimental: NonNullable<Config.Info["experimental"]>[] = [
+      before.experimental ?? {},
+      after.experimental ?? {},
+    ]
+    const settings = new Set(experimental.flatMap((x) => Object.keys(x))) as Set<keyof typeof EXPERIMENTAL>
+    for (const key of settings) {
+      if (isDeepEqual(experimental[0][key], experimental[1][key])) continue
+      for (const target of EXPERIMENTAL[key] ?? []) result.add(target)
+    }
+    return [...result]
+  }
+
+  /**
+   * Reads the config again and reloads the given subsystems along with the ones
+   * whose sections changed.
+   */
+  export async function reload(targets: Target[]) {
+    const before = await Config.get()
+    Config.global.reset()
+    await Config.state.reset()
+    const after = await Config.get()
+    const all = new Set([...targets, ...diff(before, after)])
+    log.info("reloading", { targets: [...all] })
+    // plugins can provide tools too
+    if (all.has("plugin")) await Plugin.reload()
+    if (all.has("tool") || all.has("plugin")) await ToolRegistry.reload()
+    if (all.has("agent")) await Agent.reload()
+    if (all.has("provider")) await Provider.reload()
+    if (all.has("formatter")) await Format.reload()
+    if (all.has("lsp")) await LSP.reload()
+    if (all.has("mcp")) await MCP.reload()
+    if (all.has("watcher")) await FileWatcher.reload()
+    if (all.has("memory")) Memory.reload()
+    // the prompts of MCP servers are listed as commands
+    if (all.has("command") || all.has("mcp")) await Command.reload()
+  }
+
+  const state = Instance.state(
+    () => {
+      const pending = new Set<Target>()
+      let timer: ReturnType<typeof setTimeout> | undefined
+      // rapid changes, such as an editor writing a file in several steps or the
+      // settings panel saving every field, reload once they are done
+      const schedule = (target: Target) => {
+        pending.add(target)
+        clearTimeout(timer)
+        timer = setTimeout(() => {
+          const targets = [...pending]
+          pending.clear()
+          reload(targets).catch((error) => log.error("failed to reload", { targets, error }))
+        }, DEBOUNCE_MS)
+      }
+      const unsubscribe = [
+        Bus.subscribe(FileWatcher.Event.Updated, async (event) => {
+          const file = event.properties.file
+          // project config files are found from the directory up to the worktree
+          const project =
+            CONFIG_FILES.includes(path.basename(file)) &&
+            Filesystem.contains(Instance.worktree, file) &&
+            Filesystem.contains(path.dirname(file), Instance.directory)
+          const target = classify(await Config.directories(), file) ?? (project ? "config" : undefined)
+          if (target) schedule(target)
+        }),
+        Bus.subscribe(Config.Event.Updated, () => schedule("config")),
+      ]
+      return {
+        unsubscribe,
+        cancel: () => clearTimeout(timer),
+      }
+    },
+    async (state) => {
+      for (const unsubscribe of state.unsubscribe) unsubscribe()
+      state.cancel()
+    },
+  )
+
+  export function init() {
+    state()
+  }
+}
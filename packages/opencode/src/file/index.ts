@@ -192,10 +192,11 @@ export namespace File {
       const untrackedFiles = untrackedOutput.trim().split("\n")
       for (const filepath of untrackedFiles) {
         try {
-          const content = await Bun.file(path.join(Instance.directory, filepath)).text()
+          const full = path.join(Instance.directory, filepath)
+          const content = await Bun.file(full).text()
           const lines = content.split("\n").length
           changedFiles.push({
-            path: filepath,
+            path: path.relative(Instance.worktree, full),
             added: lines,
             removed: 0,
             status: "added",
@@ -225,9 +226,10 @@ export namespace File {
       }
     }
 
+    // git diff reports paths from the worktree root, not the process directory
     return changedFiles.map((x) => ({
       ...x,
-      path: path.relative(Instance.directory, x.path),
+      path: path.relative(Instance.directory, path.join(Instance.worktree, x.path)),
     }))
   }
 
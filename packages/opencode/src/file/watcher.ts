@@ -7,7 +7,10 @@ import { FileIgnore } from "./ignore"
 import { Config } from "../config/config"
 // @ts-ignore
 import { createWrapper } from "@parcel/watcher/wrapper"
+import type { AsyncSubscription, Event as WatcherEvent } from "@parcel/watcher"
 import { lazy } from "@/util/lazy"
+import { Filesystem } from "@/util/filesystem"
+import fs from "fs/promises"
 
 export namespace FileWatcher {
   const log = Log.create({ service: "file.watcher" })
@@ -29,16 +32,27 @@ export namespace FileWatcher {
     return createWrapper(binding) as typeof import("@parcel/watcher")
   })
 
+  function platform() {
+    if (process.platform === "win32") return "windows"
+    if (process.platform === "darwin") return "fs-events"
+    if (process.platform === "linux") return "inotify"
+  }
+
+  function publish(evts: WatcherEvent[]) {
+    for (const evt of evts) {
+      log.info("event", evt)
+      if (evt.type === "create") Bus.publish(Event.Updated, { file: evt.path, event: "add" })
+      if (evt.type === "update") Bus.publish(Event.Updated, { file: evt.path, event: "change" })
+      if (evt.type === "delete") Bus.publish(Event.Updated, { file: evt.path, event: "unlink" })
+    }
+  }
+
   const state = Instance.state(
     async () => {
       if (Instance.project.vcs !== "git") return {}
       log.info("init")
       const cfg = await Config.get()
-      const backend = (() => {
-        if (process.platform === "win32") return "windows"
-        if (process.platform === "darwin") return "fs-events"
-        if (process.platform === "linux") return "inotify"
-      })()
+      const backend = platform()
       if (!backend) {
         log.error("watcher backend not supported", { platform: process.platform })
         return {}
@@ -48,12 +62,7 @@ export namespace FileWatcher {
         Instance.directory,
         (err, evts) => {
           if (err) return
-          for (const evt of evts) {
-            log.info("event", evt)
-            if (evt.type === "create") Bus.publish(Event.Updated, { file: evt.path, event: "add" })
-            if (evt.type === "update") Bus.publish(Event.Updated, { file: evt.path, event: "change" })
-            if (evt.type === "delete") Bus.publish(Event.Updated, { file: evt.path, event: "unlink" })
-          }
+          publish(evts)
         },
         {
           ignore: [...FileIgnore.PATTERNS, ...(cfg.watcher?.ignore ?? [])],
@@ -68,7 +77,53 @@ export namespace FileWatcher {
     },
   )
 
+  // config directories outside of the project, or all of them when the project
+  // is not watched, so custom tools, agents, commands and plugins hot reload
+  const configState = Instance.state(
+    async () => {
+      const watched = Flag.OPENCODE_EXPERIMENTAL_WATCHER && Instance.project.vcs === "git"
+      const directories = await Config.directories().then((dirs) =>
+        dirs.filter((dir) => !watched || !Filesystem.contains(Instance.directory, dir)),
+      )
+      const backend = platform()
+      const subs: AsyncSubscription[] = []
+      if (!backend) return { subs }
+      for (const dir of directories) {
+        if (!(await fs.stat(dir).catch(() => undefined))?.isDirectory()) continue
+        try {
+          const sub = await watcher().subscribe(
+            dir,
+            (err, evts) => {
+              if (err) return
+              publish(evts)
+            },
+            {
+              ignore: FileIgnore.PATTERNS,
+              backend,
+            },
+          )
+          subs.push(sub)
+        } catch (error) {
+          log.error("failed to watch config directory", { dir, error })
+        }
+      }
+      return { subs }
+    },
+    async (state) => {
+      await Promise.all(state.subs.map((sub) => sub.unsubscribe()))
+    },
+  )
+
+  /**
+   * Watches the project again with the current ignore patterns.
+   */
+  export async function reload() {
+    await state.reset()
+    if (Flag.OPENCODE_EXPERIMENTAL_WATCHER) state()
+  }
+
   export function init() {
+    configState()
     if (!Flag.OPENCODE_EXPERIMENTAL_WATCHER) return
     state()
   }
@@ -100,6 +100,13 @@ export namespace Format {
     return result
   }
 
+  /**
+   * Rebuilds the formatters from the current config.
+   */
+  export async function reload() {
+    await state.reset()
+  }
+
   export function init() {
     log.info("init")
     Bus.subscribe(File.Event.Edited, async (payload) => {
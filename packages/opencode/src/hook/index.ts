@@ -0,0 +1,224 @@
+import z from "zod"
+import path from "path"
+import { AsyncLocalStorage } from "async_hooks"
+import { Bus } from "../bus"
+import { Config } from "../config/config"
+import { File } from "../file"
+import { Instance } from "../project/instance"
+import { Permission } from "../permission"
+import { Session } from "../session"
+import { SessionStatus } from "../session/status"
+import { Wildcard } from "../util/wildcard"
+import { Log } from "../util/log"
+
+/**
+ * Shell commands from `experimental.hook` that run around tool calls, file
+ * edits and the session lifecycle. A hook receives the event as JSON on stdin
+ * and can print JSON such as `{"decision": "deny", "reason": "..."}` to block
+ * a tool call, any other output is added to the transcript.
+ */
+export namespace Hook {
+  const log = Log.create({ service: "hook" })
+
+  const DEFAULT_TIMEOUT = 60_000
+
+  export const Result = z.object({
+    decision: z.enum(["allow", "deny"]).optional(),
+    reason: z.string().optional(),
+    output: z.string().optional(),
+  })
+  export type Result = z.infer<typeof Result>
+
+  type Name = keyof NonNullable<NonNullable<Config.Info["experimental"]>["hook"]>
+
+  async function exec(hook: Config.Hook, input: Record<string, any>): Promise<Result> {
+    const proc = Bun.spawn({
+      cmd: hook.command,
+      cwd: Instance.directory,
+      env: {
+        ...process.env,
+        ...hook.environment,
+      },
+      stdin: new Blob([JSON.stringify(input)]),
+      stdout: "pipe",
+      stderr: "pipe",
+      timeout: hook.timeout ?? DEFAULT_TIMEOUT,
+    })
+    const [stdout, stderr, exit] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ])
+    if (exit !== 0) {
+      log.error("hook failed", { command: hook.command, exit, stderr })
+      return {
+        output: `${hook.command.join(" ")} failed with exit code ${exit}\n${(stderr || stdout).trim()}`.trim(),
+      }
+    }
+    const text = stdout.trim()
+    const parsed = Result.safeParse(text.startsWith("{") ? parse(text) : undefined)
+    if (parsed.success) return parsed.data
+    return { output: text || undefined }
+  }
+
+  function parse(text: string) {
+    try {
+      return JSON.parse(text)
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Runs hooks one after another until one of them denies.
+   */
+  async function run(name: Name, hooks: Config.Hook[], input: Record<string, any>) {
+    const output: string[] = []
+    for (const hook of hooks) {
+      const result = await exec(hook, { event: name, ...input }).catch(
+        (error): Result => ({ output: `${hook.command.join(" ")} failed: ${error}` }),
+      )
+      if (result.output) output.push(result.output)
+      if (result.decision === "deny") return { output, deny: result.reason ?? "Blocked by a hook" }
+    }
+    return { output }
+  }
+
+  async function config() {
+    return Config.get().then((x) => x.experimental?.hook ?? {})
+  }
+
+  function matching(hooks: Record<string, Config.Hook[]> | undefined, match: (pattern: string) => boolean) {
+    return Object.entries(hooks ?? {})
+      .filter(([pattern]) => match(pattern))
+      .flatMap(([, list]) => list)
+  }
+
+  type ToolInput = {
+    tool: string
+    sessionID: string
+    callID: string
+    args: unknown
+  }
+
+  /**
+   * Runs the pre tool hooks of a tool call, throwing when one of them denies it.
+   */
+  export async function before(input: ToolInput) {
+    const hooks = matching((await config()).pre_tool, (pattern) => Wildcard.match(input.tool, pattern))
+    if (hooks.length === 0) return []
+    const result = await run("pre_tool", hooks, input)
+    if (result.deny !== undefined) {
+      throw new Permission.RejectedError(
+        input.sessionID,
+        "hook",
+        input.callID,
+        {
+          tool: input.tool,
+          input: input.args,
+        },
+        result.deny,
+      )
+    }
+    return result.output
+  }
+
+  export async function after(input: ToolInput & { output: string }) {
+    const hooks = matching((await config()).post_tool, (pattern) => Wildcard.match(input.tool, pattern))
+    if (hooks.length === 0) return []
+    return run("post_tool", hooks, input).then((x) => x.output)
+  }
+
+  // output of the file hooks run while a tool executes
+  const collected = new AsyncLocalStorage<string[]>()
+
+  /**
+   * Runs a tool call while collecting the output of the file hooks it causes.
+   */
+  export async function collect<R>(fn: () => Promise<R>) {
+    const output: string[] = []
+    const result = await collected.run(output, fn)
+    return [result, output] as const
+  }
+
+  export function format(output: string[]) {
+    return ["<hook_output>", ...output, "</hook_output>"].join("\n")
+  }
+
+  /**
+   * Appends hook output to a tool result for the model to see.
+   */
+  export function annotate(text: string, output: string[]) {
+    if (output.length === 0) return text
+    if (!text) return format(output)
+    return text + "\n\n" + format(output)
+  }
+
+  async function edited(file: string) {
+    const relative = path.relative(Instance.worktree, file).split(path.sep).join("/")
+    const hooks = matching(
+      (await config()).file_edited,
+      (pattern) => pattern === "*" || new Bun.Glob(pattern).match(relative),
+    )
+    if (hooks.length === 0) return
+    const result = await run("file_edited", hooks, { file })
+    collected.getStore()?.push(...result.output)
+  }
+
+  // session hooks run outside of a tool call, their output is added to the next
+  // prompt of the session
+  const state = Instance.state(() => {
+    const queued: Record<string, Promise<string[]>[]> = {}
+    return queued
+  })
+
+  // queued right away so a prompt sent meanwhile waits for the hooks
+  function queue(
+    name: "session_start" | "session_idle" | "session_completed",
+    input: { sessionID: string } & Record<string, any>,
+  ) {
+    const result = config().then(async (hooks) => {
+      const list = hooks[name] ?? []
+      if (list.length === 0) return []
+      return run(name, list, input).then((x) => x.output)
+    })
+    const queued = state()
+    queued[input.sessionID] ??= []
+    queued[input.sessionID].push(result)
+    return result
+  }
+
+  /**
+   * Takes the output of the session hooks that ran since the last prompt.
+   */
+  export async function flush(sessionID: string) {
+    const queued = state()[sessionID] ?? []
+    delete state()[sessionID]
+    return Promise.all(queued).then((x) => x.flat())
+  }
+
+  /**
+   * Queues the hooks for a prompt the agent finished answering, without holding
+   * up the reply.
+   */
+  export function completed(input: { sessionID: string; messageID: string }) {
+    queue("session_completed", input)
+  }
+
+  export function init() {
+    Bus.subscribe(File.Event.Edited, async (payload) => {
+      await edited(payload.properties.file)
+    })
+    Bus.subscribe(Session.Event.Created, (payload) => {
+      const { id, parentID, title, directory } = payload.properties.info
+      queue("session_start", { sessionID: id, parentID, title, directory })
+    })
+    Bus.subscribe(SessionStatus.Event.Idle, (payload) => {
+      queue("session_idle", payload.properties)
+    })
+    // output queued for a session that never prompts again
+    Bus.subscribe(Session.Event.Deleted, (payload) => {
+      delete state()[payload.properties.info.id]
+    })
+  }
+}
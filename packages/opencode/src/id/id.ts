@@ -8,6 +8,9 @@ export namespace Identifier {
     permission: "per",
     user: "usr",
     part: "prt",
+    rule: "rul",
+    audit: "aud",
+    process: "prc",
   } as const
 
   export function schema(prefix: keyof typeof prefixes) {
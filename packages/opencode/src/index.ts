@@ -25,6 +25,8 @@ import { AcpCommand } from "./cli/cmd/acp"
 import { EOL } from "os"
 import { WebCommand } from "./cli/cmd/web"
 import { PrCommand } from "./cli/cmd/pr"
+import { SessionCommand } from "./cli/cmd/session"
+import { PermissionCommand } from "./cli/cmd/permission"
 
 process.on("unhandledRejection", (e) => {
   Log.Default.error("rejection", {
@@ -90,6 +92,8 @@ const cli = yargs(hideBin(process.argv))
   .command(StatsCommand)
   .command(ExportCommand)
   .command(ImportCommand)
+  .command(SessionCommand)
+  .command(PermissionCommand)
   .command(GithubCommand)
   .command(PrCommand)
   .fail((msg) => {
@@ -7,6 +7,8 @@ import { Config } from "../config/config"
 import { spawn } from "child_process"
 import { Instance } from "../project/instance"
 import { Bus } from "../bus"
+import { fileURLToPath } from "url"
+import type { Location, LocationLink, TextEdit, WorkspaceEdit } from "vscode-languageserver-types"
 
 export namespace LSP {
   const log = Log.create({ service: "lsp" })
@@ -126,6 +128,14 @@ export namespace LSP {
     return state()
   }
 
+  /**
+   * Shuts the servers down so they start again with the current config.
+   */
+  export async function reload() {
+    await state.reset()
+    Bus.publish(Event.Updated, {})
+  }
+
   export const Status = z
     .object({
       id: z.string(),
@@ -279,6 +289,89 @@ export namespace LSP {
     })
   }
 
+  type Position = { file: string; line: number; character: number }
+
+  function position(input: Position) {
+    return {
+      textDocument: {
+        uri: `file://${input.file}`,
+      },
+      position: {
+        line: input.line,
+        character: input.character,
+      },
+    }
+  }
+
+  export async function definition(input: Position) {
+    return runFor(input.file, (client) =>
+      client.connection
+        .sendRequest<Location | Location[] | LocationLink[] | null>("textDocument/definition", position(input))
+        .catch(() => null),
+    ).then((result) =>
+      result
+        .flat()
+        .filter((x): x is Location | LocationLink => !!x)
+        .map((x): Location => ("targetUri" in x ? { uri: x.targetUri, range: x.targetSelectionRange } : x)),
+    )
+  }
+
+  export async function references(input: Position) {
+    return runFor(input.file, (client) =>
+      client.connection
+        .sendRequest<Location[] | null>("textDocument/references", {
+          ...position(input),
+          context: {
+            includeDeclaration: true,
+          },
+        })
+        .catch(() => null),
+    ).then((result) => result.flat().filter((x): x is Location => !!x))
+  }
+
+  export async function rename(input: Position & { newName: string }) {
+    return runFor(input.file, (client) =>
+      client.connection
+        .sendRequest<WorkspaceEdit | null>("textDocument/rename", {
+          ...position(input),
+          newName: input.newName,
+        })
+        .catch((error) => {
+          log.error("rename failed", { serverID: client.serverID, error })
+          return null
+        }),
+    ).then((result) => result.find((x) => x !== null))
+  }
+
+  /**
+   * Flattens a WorkspaceEdit into text edits keyed by absolute file path.
+   * Resource operations (create, rename, delete file) are not supported.
+   */
+  export function workspaceEdits(edit: WorkspaceEdit) {
+    const result: Record<string, TextEdit[]> = {}
+    for (const [uri, edits] of Object.entries(edit.changes ?? {})) {
+      const file = fileURLToPath(uri)
+      result[file] = [...(result[file] ?? []), ...edits]
+    }
+    for (const change of edit.documentChanges ?? []) {
+      if (!("textDocument" in change)) throw new Error(`Unsupported workspace edit: ${change.kind}`)
+      const file = fileURLToPath(change.textDocument.uri)
+      result[file] = [...(result[file] ?? []), ...change.edits]
+    }
+    return result
+  }
+
+  export function applyTextEdits(text: string, edits: TextEdit[]) {
+    const lines = [0]
+    for (let i = 0; i < text.length; i++) if (text[i] === "\n") lines.push(i + 1)
+    const offset = (pos: { line: number; character: number }) =>
+      Math.min((lines[pos.line] ?? text.length) + pos.character, text.length)
+    return edits
+      .map((edit) => ({ start: offset(edit.range.start), end: offset(edit.range.end), text: edit.newText }))
+      .toSorted((a, b) => b.start - a.start)
+      .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), text)
+  }
+
   enum SymbolKind {
     File = 1,
     Module = 2,
@@ -351,6 +444,11 @@ export namespace LSP {
     return Promise.all(tasks)
   }
 
+  async function runFor<T>(file: string, input: (client: LSPClient.Info) => Promise<T>): Promise<T[]> {
+    const clients = await getClients(file)
+    return Promise.all(clients.map((x) => input(x)))
+  }
+
   export namespace Diagnostic {
     export function pretty(diagnostic: LSPClient.Diagnostic) {
       const severityMap = {
@@ -1,4 +1,5 @@
-import { experimental_createMCPClient, type Tool } from "ai"
+import { dynamicTool, jsonSchema, type Tool } from "ai"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js"
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
@@ -8,6 +9,12 @@ import { NamedError } from "../util/error"
 import z from "zod/v4"
 import { Instance } from "../project/instance"
 import { withTimeout } from "@/util/timeout"
+import { Installation } from "../installation"
+import { Bus } from "../bus"
+import { Wildcard } from "../util/wildcard"
+import { isDeepEqual } from "remeda"
+import { CallToolResultSchema } from "@modelcontextprotocol/sdk/types.js"
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js"
 
 export namespace MCP {
   const log = Log.create({ service: "mcp" })
@@ -19,8 +26,6 @@ export namespace MCP {
     }),
   )
 
-  type Client = Awaited<ReturnType<typeof experimental_createMCPClient>>
-
   export const Status = z
     .discriminatedUnion("status", [
       z
@@ -50,79 +55,302 @@ export namespace MCP {
       ref: "MCPStatus",
     })
   export type Status = z.infer<typeof Status>
-  type MCPClient = Awaited<ReturnType<typeof experimental_createMCPClient>>
+
+  export const Prompt = z
+    .object({
+      client: z.string(),
+      name: z.string(),
+      description: z.string().optional(),
+      arguments: z
+        .object({
+          name: z.string(),
+          description: z.string().optional(),
+          required: z.boolean().optional(),
+        })
+        .array()
+        .optional(),
+    })
+    .meta({
+      ref: "MCPPrompt",
+    })
+  export type Prompt = z.infer<typeof Prompt>
+
+  export const Resource = z
+    .object({
+      client: z.string(),
+      uri: z.string(),
+      name: z.string(),
+      description: z.string().optional(),
+      mimeType: z.string().optional(),
+    })
+    .meta({
+      ref: "MCPResource",
+    })
+  export type Resource = z.infer<typeof Resource>
+
+  export const NotFoundError = NamedError.create(
+    "MCPNotFoundError",
+    z.object({
+      name: z.string(),
+    }),
+  )
+
+  export const ReadonlyError = NamedError.create(
+    "MCPReadonlyError",
+    z.object({
+      name: z.string(),
+      message: z.string(),
+    }),
+  )
+
+  export const Event = {
+    Updated: Bus.event("mcp.updated", z.object({})),
+  }
+
+  // connected servers are pinged this often, a server that does not answer is
+  // reconnected
+  const PING_INTERVAL = 30_000
+  const RETRY_DELAY = 1_000
+  const RETRY_MAX_DELAY = 60_000
+  const LOG_LINES = 500
+
+  type Server = {
+    config: Config.Mcp
+    status: Status
+    client?: Client
+    // the last lines the server printed to stderr, along with connection events
+    logs: string[]
+    attempt: number
+    timer?: ReturnType<typeof setTimeout>
+    stopped?: boolean
+  }
 
   const state = Instance.state(
     async () => {
       const cfg = await Config.get()
       const config = cfg.mcp ?? {}
-      const clients: Record<string, Client> = {}
-      const status: Record<string, Status> = {}
-
-      await Promise.all(
-        Object.entries(config).map(async ([key, mcp]) => {
-          const result = await create(key, mcp).catch(() => undefined)
-          if (!result) return
-
-          status[key] = result.status
+      const servers: Record<string, Server> = {}
 
-          if (result.mcpClient) {
-            clients[key] = result.mcpClient
-          }
+      await Promise.all(Object.entries(config).map(([key, mcp]) => start(servers, key, mcp)))
+      const ping = setInterval(() => {
+        for (const [name, server] of Object.entries(servers)) check(name, server)
+      }, PING_INTERVAL)
+      const result = {
+        servers,
+        ping,
+        prompts: undefined as Promise<Prompt[]> | undefined,
+        // prompts are listed again once a server connects, stops or changes
+        unsubscribe: Bus.subscribe(Event.Updated, () => {
+          result.prompts = undefined
         }),
-      )
-      return {
-        status,
-        clients,
       }
+      return result
     },
     async (state) => {
-      await Promise.all(
-        Object.values(state.clients).map((client) =>
-          client.close().catch((error) => {
-            log.error("Failed to close MCP client", {
-              error,
-            })
-          }),
-        ),
-      )
+      state.unsubscribe()
+      clearInterval(state.ping)
+      await Promise.all(Object.values(state.servers).map(stop))
     },
   )
 
-  export async function add(name: string, mcp: Config.Mcp) {
-    const s = await state()
-    const result = await create(name, mcp)
-    if (!result) {
-      const status = {
+  function append(server: Server, text: string) {
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue
+      server.logs.push(line)
+    }
+    if (server.logs.length > LOG_LINES) server.logs.splice(0, server.logs.length - LOG_LINES)
+  }
+
+  async function start(servers: Record<string, Server>, name: string, mcp: Config.Mcp) {
+    const existing = servers[name]
+    if (existing) await stop(existing)
+    const server: Server = {
+      config: mcp,
+      status: { status: "disabled" },
+      logs: existing?.logs ?? [],
+      attempt: 0,
+    }
+    servers[name] = server
+    await connect(name, server)
+    return server
+  }
+
+  async function connect(name: string, server: Server) {
+    clearTimeout(server.timer)
+    const result = await create(name, server.config, server).catch((error) => ({
+      mcpClient: undefined,
+      status: {
         status: "failed" as const,
-        error: "unknown error",
-      }
-      s.status[name] = status
-      return {
-        status,
-      }
+        error: error instanceof Error ? error.message : String(error),
+      },
+    }))
+    if (server.stopped) {
+      await result.mcpClient?.close().catch(() => {})
+      return
     }
-    if (!result.mcpClient) {
-      s.status[name] = result.status
-      return {
-        status: s.status,
-      }
+    server.status = result.status
+    server.client = result.mcpClient
+    Bus.publish(Event.Updated, {})
+    if (result.status.status === "failed") {
+      append(server, `Failed to connect: ${result.status.error}`)
+      retry(name, server)
+      return
+    }
+    if (!result.mcpClient) return
+    append(server, "Connected")
+    server.attempt = 0
+    const client = result.mcpClient
+    client.onclose = () => {
+      if (server.client !== client) return
+      disconnect(name, server, "Connection closed")
     }
-    s.clients[name] = result.mcpClient
-    s.status[name] = result.status
+  }
+
+  function disconnect(name: string, server: Server, error: string) {
+    const client = server.client
+    server.client = undefined
+    client?.close().catch(() => {})
+    server.status = { status: "failed", error }
+    append(server, error)
+    Bus.publish(Event.Updated, {})
+    retry(name, server)
+  }
+
+  function retry(name: string, server: Server) {
+    if (server.stopped) return
+    const delay = Math.min(RETRY_DELAY * 2 ** server.attempt, RETRY_MAX_DELAY)
+    server.attempt++
+    append(server, `Reconnecting in ${delay / 1000}s`)
+    log.info("reconnecting", { name, delay })
+    server.timer = setTimeout(() => connect(name, server), delay)
+  }
+
+  async function check(name: string, server: Server) {
+    const client = server.client
+    if (!client) return
+    await client.ping({ timeout: server.config.timeout ?? 5000 }).catch((error) => {
+      if (server.client !== client) return
+      log.error("ping failed", { name, error })
+      disconnect(name, server, `Ping failed: ${error instanceof Error ? error.message : String(error)}`)
+    })
+  }
+
+  async function stop(server: Server) {
+    server.stopped = true
+    clearTimeout(server.timer)
+    const client = server.client
+    server.client = undefined
+    await client?.close().catch((error) => {
+      log.error("Failed to close MCP client", {
+        error,
+      })
+    })
+  }
+
+  async function find(name: string) {
+    const server = await state().then((x) => x.servers[name])
+    if (!server) throw new NotFoundError({ name })
+    return server
+  }
 
+  export async function add(name: string, mcp: Config.Mcp) {
+    const s = await state()
+    await start(s.servers, name, mcp)
     return {
-      status: s.status,
+      status: await status(),
     }
   }
 
-  async function create(key: string, mcp: Config.Mcp) {
+  /**
+   * Stops a server and removes it from every config file that defines it.
+   */
+  export async function remove(name: string) {
+    const s = await state()
+    const server = await find(name)
+    const removed = await Config.unset(["mcp", name])
+    const config = await Config.get()
+    if (!removed.length && config.mcp?.[name]) {
+      throw new ReadonlyError({ name, message: `${name} is not defined in a config file and cannot be removed` })
+    }
+    await stop(server)
+    delete s.servers[name]
+    Bus.publish(Event.Updated, {})
+  }
+
+  /**
+   * Connects to a server again, retrying a failed server right away.
+   */
+  export async function restart(name: string) {
+    const s = await state()
+    const server = await find(name)
+    append(server, "Restarting")
+    await start(s.servers, name, server.config)
+    return s.servers[name].status
+  }
+
+  // saves the choice to the config file that defines the server, servers added
+  // at runtime are only connected or stopped
+  async function toggle(name: string, enabled: boolean) {
+    const s = await state()
+    const server = await find(name)
+    await Config.set(["mcp", name, "enabled"], enabled)
+    append(server, enabled ? "Enabled" : "Disabled")
+    await start(s.servers, name, { ...server.config, enabled })
+    return s.servers[name].status
+  }
+
+  export async function enable(name: string) {
+    return toggle(name, true)
+  }
+
+  export async function disable(name: string) {
+    return toggle(name, false)
+  }
+
+  export async function logs(name: string) {
+    return find(name).then((x) => [...x.logs])
+  }
+
+  async function open(transport: Transport) {
+    const client = new Client({ name: "opencode", version: Installation.VERSION })
+    await client.connect(transport)
+    return client
+  }
+
+  async function convert(client: Client) {
+    const result: Record<string, Tool> = {}
+    const { tools } = await client.listTools()
+    for (const tool of tools) {
+      result[tool.name] = dynamicTool({
+        description: tool.description,
+        inputSchema: jsonSchema({
+          ...tool.inputSchema,
+          properties: tool.inputSchema.properties ?? {},
+          additionalProperties: false,
+        }),
+        execute: async (args, options) => {
+          options.abortSignal?.throwIfAborted()
+          return client.callTool(
+            { name: tool.name, arguments: args as Record<string, unknown> },
+            CallToolResultSchema,
+            { signal: options.abortSignal },
+          )
+        },
+      })
+    }
+    return result
+  }
+
+  async function create(key: string, mcp: Config.Mcp, server: Server) {
     if (mcp.enabled === false) {
       log.info("mcp server disabled", { key })
-      return
+      return {
+        mcpClient: undefined,
+        status: { status: "disabled" as const },
+      }
     }
     log.info("found", { key, type: mcp.type })
-    let mcpClient: MCPClient | undefined
+    let mcpClient: Client | undefined
     let status: Status | undefined = undefined
 
     if (mcp.type === "remote") {
@@ -146,10 +374,7 @@ export namespace MCP {
       ]
       let lastError: Error | undefined
       for (const { name, transport } of transports) {
-        const result = await experimental_createMCPClient({
-          name: "opencode",
-          transport,
-        })
+        const result = await open(transport)
           .then((client) => {
             log.info("connected", { key, transport: name })
             mcpClient = client
@@ -176,19 +401,18 @@ export namespace MCP {
 
     if (mcp.type === "local") {
       const [cmd, ...args] = mcp.command
-      await experimental_createMCPClient({
-        name: "opencode",
-        transport: new StdioClientTransport({
-          stderr: "ignore",
-          command: cmd,
-          args,
-          env: {
-            ...process.env,
-            ...(cmd === "opencode" ? { BUN_BE_BUN: "1" } : {}),
-            ...mcp.environment,
-          },
-        }),
+      const transport = new StdioClientTransport({
+        stderr: "pipe",
+        command: cmd,
+        args,
+        env: {
+          ...process.env,
+          ...(cmd === "opencode" ? { BUN_BE_BUN: "1" } : {}),
+          ...mcp.environment,
+        },
       })
+      transport.stderr?.on("data", (chunk: Buffer) => append(server, chunk.toString()))
+      await open(transport)
         .then((client) => {
           mcpClient = client
           status = {
@@ -222,7 +446,11 @@ export namespace MCP {
       }
     }
 
-    const result = await withTimeout(mcpClient.tools(), mcp.timeout ?? 5000).catch((err) => {
+    // servers that only provide prompts or resources have no tools to list
+    const result = await withTimeout(
+      mcpClient.getServerCapabilities()?.tools ? convert(mcpClient) : Promise.resolve({}),
+      mcp.timeout ?? 5000,
+    ).catch((err) => {
       log.error("failed to get tools from client", { key, error: err })
       return undefined
     })
@@ -253,26 +481,74 @@ export namespace MCP {
   }
 
   export async function status() {
-    return state().then((state) => state.status)
+    const servers = await state().then((x) => x.servers)
+    return Object.fromEntries(Object.entries(servers).map(([name, server]) => [name, server.status]))
+  }
+
+  /**
+   * Applies the current config server by server: starts the added ones, stops
+   * the removed ones and restarts the ones whose config changed, while the
+   * others stay connected and keep their logs.
+   */
+  export async function reload() {
+    const s = await state()
+    const config = (await Config.get()).mcp ?? {}
+    const removed = Object.entries(s.servers).filter(([name]) => !config[name])
+    const changed = Object.entries(config).filter(([name, mcp]) => !isDeepEqual(s.servers[name]?.config, mcp))
+    if (!removed.length && !changed.length) return
+    log.info("reloading", { removed: removed.map(([name]) => name), changed: changed.map(([name]) => name) })
+    await Promise.all([
+      ...removed.map(async ([name, server]) => {
+        await stop(server)
+        delete s.servers[name]
+      }),
+      ...changed.map(([name, mcp]) => start(s.servers, name, mcp)),
+    ])
+    Bus.publish(Event.Updated, {})
   }
 
   export async function clients() {
-    return state().then((state) => state.clients)
+    const servers = await state().then((x) => x.servers)
+    const result: Record<string, Client> = {}
+    for (const [name, server] of Object.entries(servers)) {
+      if (server.client) result[name] = server.client
+    }
+    return result
   }
 
-  export async function tools() {
+  /**
+   * Whether the tool settings of an agent enable a tool. Besides the wildcards
+   * matched against tool names, `mcp:<server>` settings match every tool of
+   * the servers they name. Settings for tool names take precedence over those
+   * for servers, which take precedence over a bare `*`, the longest setting
+   * winning within each as usual.
+   */
+  export function enabled(server: string, tool: string, settings: Record<string, boolean>) {
+    const servers: Record<string, boolean> = {}
+    const tools: Record<string, boolean> = {}
+    for (const [pattern, value] of Object.entries(settings)) {
+      if (pattern.startsWith("mcp:")) servers[pattern.slice(4)] = value
+      else if (pattern !== "*") tools[pattern] = value
+    }
+    const result = Wildcard.all(tool, tools) ?? Wildcard.all(server, servers) ?? settings["*"]
+    return result !== false
+  }
+
+  /**
+   * The tools of the connected servers, named `<server>_<tool>`. Given an
+   * agent, only the servers attached to it and the tools its settings enable.
+   */
+  export async function tools(agent?: { name: string; tools: Record<string, boolean> }) {
     const result: Record<string, Tool> = {}
     const s = await state()
     const clientsSnapshot = await clients()
     for (const [clientName, client] of Object.entries(clientsSnapshot)) {
-      const tools = await client.tools().catch((e) => {
+      if (!client.getServerCapabilities()?.tools) continue
+      const attached = s.servers[clientName].config.agents
+      if (agent && attached && !attached.includes(agent.name)) continue
+      const tools = await convert(client).catch((e) => {
         log.error("failed to get tools", { clientName, error: e.message })
-        const failedStatus = {
-          status: "failed" as const,
-          error: e instanceof Error ? e.message : String(e),
-        }
-        s.status[clientName] = failedStatus
-        delete s.clients[clientName]
+        disconnect(clientName, s.servers[clientName], e instanceof Error ? e.message : String(e))
       })
       if (!tools) {
         continue
@@ -280,9 +556,81 @@ export namespace MCP {
       for (const [toolName, tool] of Object.entries(tools)) {
         const sanitizedClientName = clientName.replace(/[^a-zA-Z0-9_-]/g, "_")
         const sanitizedToolName = toolName.replace(/[^a-zA-Z0-9_-]/g, "_")
-        result[sanitizedClientName + "_" + sanitizedToolName] = tool
+        const key = sanitizedClientName + "_" + sanitizedToolName
+        if (agent && !enabled(clientName, key, agent.tools)) continue
+        result[key] = tool
       }
     }
     return result
   }
+
+  /**
+   * Lists the prompts of the connected servers that provide any, skipping the
+   * servers that fail to answer in time. The list is kept until the servers
+   * change.
+   */
+  export async function prompts() {
+    const s = await state()
+    s.prompts ??= listPrompts(s.servers)
+    return s.prompts
+  }
+
+  async function listPrompts(servers: Record<string, Server>) {
+    const listed = await Promise.all(
+      Object.entries(await clients()).map(async ([name, client]) => {
+        if (!client.getServerCapabilities()?.prompts) return []
+        const result = await withTimeout(client.listPrompts(), servers[name].config.timeout ?? 5000).catch((error) => {
+          log.error("failed to list prompts", { name, error })
+        })
+        return (result?.prompts ?? []).map(
+          (prompt): Prompt => ({
+            client: name,
+            name: prompt.name,
+            description: prompt.description,
+            arguments: prompt.arguments,
+          }),
+        )
+      }),
+    )
+    return listed.flat()
+  }
+
+  export async function prompt(client: string, name: string, args: Record<string, string>) {
+    return connected(client).then((x) => x.getPrompt({ name, arguments: args }))
+  }
+
+  /**
+   * Lists the resources of the connected servers that provide any, skipping
+   * the servers that fail to answer in time.
+   */
+  export async function resources() {
+    const result: Resource[] = []
+    for (const [name, client] of Object.entries(await clients())) {
+      if (!client.getServerCapabilities()?.resources) continue
+      const timeout = await state().then((x) => x.servers[name].config.timeout ?? 5000)
+      const listed = await withTimeout(client.listResources(), timeout).catch((error) => {
+        log.error("failed to list resources", { name, error })
+      })
+      for (const resource of listed?.resources ?? []) {
+        result.push({
+          client: name,
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        })
+      }
+    }
+    return result
+  }
+
+  export async function read(client: string, uri: string) {
+    return connected(client).then((x) => x.readResource({ uri }))
+  }
+
+  async function connected(name: string) {
+    const result = await clients().then((x) => x[name])
+    if (!result) throw new Error(`MCP server ${name} is not connected`)
+    return result
+  }
 }
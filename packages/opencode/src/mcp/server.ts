@@ -0,0 +1,356 @@
+import z from "zod"
+import { createServer, type IncomingMessage } from "http"
+import { randomUUID } from "crypto"
+import { mergeDeep, pipe } from "remeda"
+import { Server } from "@modelcontextprotocol/sdk/server/index.js"
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  isInitializeRequest,
+  type CallToolResult,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js"
+import { Agent } from "../agent/agent"
+import { Bus } from "../bus"
+import { Identifier } from "../id/id"
+import { Installation } from "../installation"
+import { Permission } from "../permission"
+import { Instance } from "../project/instance"
+import { Provider } from "../provider/provider"
+import { Session } from "../session"
+import { SessionPrompt } from "../session/prompt"
+import type { MessageV2 } from "../session/message-v2"
+import { ToolRegistry } from "../tool/registry"
+import { Wildcard } from "../util/wildcard"
+import { Log } from "../util/log"
+
+/**
+ * Serves opencode over MCP for editors and other agents: the tools of an agent,
+ * gated by its permissions, and operations to start and read sessions.
+ * Permission requests are asked through elicitation when the client supports
+ * it and rejected otherwise.
+ */
+export namespace MCPServer {
+  const log = Log.create({ service: "mcp.server" })
+
+  // tools that only work within a conversation
+  const EXCLUDED = ["invalid", "task"]
+
+  type Connection = {
+    agent: string
+    // sessions started by the client, their permission requests are asked through it
+    sessions: Set<string>
+    // runs the tools called directly by the client
+    session?: Promise<Session.Info>
+  }
+
+  type Operation = {
+    description: string
+    parameters: z.ZodObject
+    execute(args: unknown, connection: Connection): Promise<unknown>
+  }
+
+  // types the arguments of execute by the parameters, which it checks them against
+  function operation<Parameters extends z.ZodObject>(input: {
+    description: string
+    parameters: Parameters
+    execute(args: z.infer<Parameters>, connection: Connection): Promise<unknown>
+  }): Operation {
+    return {
+      description: input.description,
+      parameters: input.parameters,
+      execute: (args, connection) => input.execute(input.parameters.parse(args), connection),
+    }
+  }
+
+  const operations: Record<string, Operation> = {
+    session_start: operation({
+      description:
+        "Start an opencode session with a prompt and wait for the agent to finish. Returns the session ID and the final response.",
+      parameters: z.object({
+        prompt: z.string().describe("The prompt for the agent"),
+        agent: z.string().optional().describe("The agent to run, defaults to the one opencode was served with"),
+        model: z.string().optional().describe("The model to use as provider/model, defaults to the configured one"),
+        title: z.string().optional().describe("A title for the session"),
+      }),
+      async execute(args, connection) {
+        const session = await Session.create({ title: args.title })
+        connection.sessions.add(session.id)
+        const result = await SessionPrompt.prompt({
+          sessionID: session.id,
+          agent: args.agent ?? connection.agent,
+          model: args.model ? Provider.parseModel(args.model) : undefined,
+          parts: [{ type: "text", text: args.prompt }],
+        })
+        return {
+          sessionID: session.id,
+          text: text(result.parts),
+        }
+      },
+    }),
+    session_messages: operation({
+      description: "Get the messages of an opencode session, with the text and the tool calls of each.",
+      parameters: z.object({
+        sessionID: z.string().describe("The ID of the session"),
+      }),
+      async execute(args) {
+        const messages = await Session.messages({ sessionID: args.sessionID })
+        return messages.map((message) => ({
+          id: message.info.id,
+          role: message.info.role,
+          text: text(message.parts),
+          tools: message.parts.flatMap((part) =>
+            part.type === "tool" ? [{ tool: part.tool, status: part.state.status }] : [],
+          ),
+        }))
+      },
+    }),
+    session_list: operation({
+      description: "List the opencode sessions of the project, most recently updated first.",
+      parameters: z.object({}),
+      async execute() {
+        const sessions = await Array.fromAsync(Session.list())
+        return sessions
+          .toSorted((a, b) => b.time.updated - a.time.updated)
+          .map((session) => ({
+            id: session.id,
+            title: session.title,
+            parentID: session.parentID,
+            updated: new Date(session.time.updated).toISOString(),
+          }))
+      },
+    }),
+  }
+
+  function text(parts: MessageV2.Part[]) {
+    return parts
+      .flatMap((part) => (part.type === "text" && !part.synthetic ? [part.text] : []))
+      .join("\n\n")
+      .trim()
+  }
+
+  // tool and operation parameters are all objects
+  function schema(parameters: z.ZodType): Tool["inputSchema"] {
+    return { ...z.toJSONSchema(parameters), type: "object" }
+  }
+
+  async function tools(name: string) {
+    const agent = await Agent.get(name)
+    // the registry does not depend on the model yet
+    const model = agent.model ?? (await Provider.defaultModel().catch(() => ({ providerID: "", modelID: "" })))
+    const enabled = pipe(
+      agent.tools,
+      mergeDeep(await ToolRegistry.enabled(model.providerID, model.modelID, agent)),
+      ToolRegistry.gate,
+    )
+    const result = await ToolRegistry.tools(model.providerID, model.modelID)
+    return result.filter((x) => !EXCLUDED.includes(x.id) && Wildcard.all(x.id, enabled) !== false)
+  }
+
+  async function call(
+    connection: Connection,
+    name: string,
+    args: Record<string, unknown>,
+    abort: AbortSignal,
+  ): Promise<CallToolResult> {
+    const operation = operations[name]
+    if (operation) {
+      const result = await operation.execute(args, connection)
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] }
+    }
+    const tool = await tools(connection.agent).then((x) => x.find((y) => y.id === name))
+    if (!tool) throw new Error(`Unknown tool: ${name}`)
+    connection.session ??= Session.create({ title: "MCP tool calls" }).then((session) => {
+      connection.sessions.add(session.id)
+      return session
+    })
+    const session = await connection.session
+    // hooks and plugins gate and see these calls as they do the agent's
+    const result = await ToolRegistry.execute(tool, args, {
+      sessionID: session.id,
+      messageID: Identifier.ascending("message"),
+      callID: randomUUID(),
+      agent: connection.agent,
+      abort,
+      metadata: () => {},
+    })
+    return {
+      content: [
+        { type: "text", text: result.output },
+        ...(result.attachments ?? []).flatMap((attachment) => {
+          const match = attachment.url.match(/^data:(image\/[^;]+);base64,(.*)$/)
+          return match ? [{ type: "image" as const, mimeType: match[1], data: match[2] }] : []
+        }),
+      ],
+    }
+  }
+
+  async function owned(connection: Connection, sessionID: string): Promise<boolean> {
+    if (connection.sessions.has(sessionID)) return true
+    // subagents run in child sessions
+    const session = await Session.get(sessionID).catch(() => undefined)
+    return session?.parentID ? owned(connection, session.parentID) : false
+  }
+
+  async function answer(server: Server, info: Permission.Info) {
+    if (!server.getClientCapabilities()?.elicitation) {
+      Permission.respond({ sessionID: info.sessionID, permissionID: info.id, response: "reject" })
+      return
+    }
+    const result = await server
+      .elicitInput({
+        message: `opencode asks for permission: ${info.title}`,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            always: {
+              type: "boolean",
+              title: "Always allow",
+              description: "Allow matching requests for the rest of the session",
+            },
+          },
+        },
+      })
+      .catch((error) => {
+        log.error("failed to ask for permission", { error })
+        return { action: "cancel" as const, content: undefined }
+      })
+    Permission.respond({
+      sessionID: info.sessionID,
+      permissionID: info.id,
+      response: result.action !== "accept" ? "reject" : result.content?.always === true ? "always" : "once",
+    })
+  }
+
+  /**
+   * Creates a server for one client connection.
+   */
+  export function create(input: { agent: string }) {
+    const directory = Instance.directory
+    const connection: Connection = { agent: input.agent, sessions: new Set() }
+    const server = new Server({ name: "opencode", version: Installation.VERSION }, { capabilities: { tools: {} } })
+    // transports can call back outside of the instance
+    const provide = async <R>(fn: () => Promise<R>) => Instance.provide({ directory, fn })
+
+    server.setRequestHandler(ListToolsRequestSchema, () =>
+      provide(async () => {
+        const result = await tools(connection.agent)
+        return {
+          tools: [
+            ...result.map((tool) => ({
+              name: tool.id,
+              description: tool.description,
+              inputSchema: schema(tool.parameters),
+            })),
+            ...Object.entries(operations).map(([name, operation]) => ({
+              name,
+              description: operation.description,
+              inputSchema: schema(operation.parameters),
+            })),
+          ],
+        }
+      }),
+    )
+    server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+      provide(() =>
+        call(connection, request.params.name, request.params.arguments ?? {}, extra.signal).catch(
+          (error): CallToolResult => ({
+            content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+            isError: true,
+          }),
+        ),
+      ),
+    )
+
+    const unsubscribe = Bus.subscribe(Permission.Event.Updated, async (event) => {
+      if (!(await owned(connection, event.properties.sessionID))) return
+      await answer(server, event.properties)
+    })
+    server.onclose = () => unsubscribe()
+    return server
+  }
+
+  /**
+   * Serves one client over stdin and stdout until stdin ends.
+   */
+  export async function stdio(input: { agent: string }) {
+    const server = create(input)
+    await server.connect(new StdioServerTransport())
+    await new Promise<void>((resolve, reject) => {
+      process.stdin.on("end", () => resolve())
+      process.stdin.on("error", reject)
+      process.once("SIGINT", () => resolve())
+      process.once("SIGTERM", () => resolve())
+    })
+    await server.close()
+  }
+
+  async function body(req: IncomingMessage) {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) chunks.push(chunk)
+    const text = Buffer.concat(chunks).toString()
+    return text ? JSON.parse(text) : undefined
+  }
+
+  /**
+   * Serves clients over streamable HTTP at /mcp, each with its own MCP session.
+   */
+  export async function http(input: { agent: string; port: number; hostname: string }) {
+    const directory = Instance.directory
+    const transports = new Map<string, StreamableHTTPServerTransport>()
+    const server = createServer((req, res) =>
+      Instance.provide({
+        directory,
+        fn: async () => {
+          if (new URL(req.url ?? "/", "http://localhost").pathname !== "/mcp") {
+            res.writeHead(404).end()
+            return
+          }
+          const id = req.headers["mcp-session-id"]
+          const parsed = req.method === "POST" ? await body(req).catch(() => undefined) : undefined
+          let transport = typeof id === "string" ? transports.get(id) : undefined
+          if (!transport) {
+            if (id !== undefined || !isInitializeRequest(parsed)) {
+              res.writeHead(400, { "content-type": "application/json" }).end(
+                JSON.stringify({
+                  jsonrpc: "2.0",
+                  error: { code: -32000, message: "Bad Request: No valid session ID provided" },
+                  id: null,
+                }),
+              )
+              return
+            }
+            const created = new StreamableHTTPServerTransport({
+              sessionIdGenerator: () => randomUUID(),
+              onsessioninitialized: (id) => {
+                transports.set(id, created)
+              },
+            })
+            created.onclose = () => {
+              if (created.sessionId) transports.delete(created.sessionId)
+            }
+            await create({ agent: input.agent }).connect(created)
+            transport = created
+          }
+          await transport.handleRequest(req, res, parsed)
+        },
+      }).catch((error) => {
+        log.error("failed to handle request", { error })
+        if (!res.headersSent) res.writeHead(500)
+        res.end()
+      }),
+    )
+    await new Promise<void>((resolve) => server.listen(input.port, input.hostname, resolve))
+    const address = server.address()
+    const port = typeof address === "object" && address ? address.port : input.port
+    return {
+      url: `http://${input.hostname}:${port}/mcp`,
+      async stop() {
+        await Promise.all([...transports.values()].map((x) => x.close()))
+        await new Promise((resolve) => server.close(resolve))
+      },
+    }
+  }
+}
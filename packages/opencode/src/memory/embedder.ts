@@ -0,0 +1,74 @@
+import { embedMany } from "ai"
+import { Config } from "../config/config"
+import { Provider } from "../provider/provider"
+
+export namespace Embedder {
+  export interface Info {
+    /** Stored with each vector so results from different embedders are never compared */
+    id: string
+    embed(values: string[], abort?: AbortSignal): Promise<Float32Array[]>
+  }
+
+  export function normalize(vector: Float32Array) {
+    let norm = 0
+    for (const value of vector) norm += value * value
+    norm = Math.sqrt(norm)
+    if (norm === 0) return vector
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm
+    return vector
+  }
+
+  function tokens(text: string) {
+    return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []
+  }
+
+  /**
+   * Feature hashing over words and word pairs. Deterministic and offline, good
+   * enough to surface snippets sharing vocabulary with the query.
+   */
+  export function local(dimensions = 512): Info {
+    function vectorize(text: string) {
+      const vector = new Float32Array(dimensions)
+      const words = tokens(text)
+      const features = [
+        ...words.map((word) => [word, 1] as const),
+        ...words.slice(1).map((word, i) => [`${words[i]} ${word}`, 0.5] as const),
+      ]
+      for (const [feature, weight] of features) {
+        const hash = Bun.hash.xxHash32(feature)
+        const sign = Bun.hash.xxHash32(feature, 1) & 1 ? 1 : -1
+        vector[hash % dimensions] += sign * weight
+      }
+      return normalize(vector)
+    }
+
+    return {
+      id: `local/hash-${dimensions}`,
+      async embed(values) {
+        return values.map(vectorize)
+      },
+    }
+  }
+
+  export async function provider(providerID: string, modelID: string): Promise<Info> {
+    const model = await Provider.getEmbeddingModel(providerID, modelID)
+    return {
+      id: `${providerID}/${modelID}`,
+      async embed(values, abort) {
+        const result = await embedMany({ model, values, abortSignal: abort })
+        return result.embeddings.map((embedding) => normalize(Float32Array.from(embedding)))
+      },
+    }
+  }
+
+  /**
+   * Resolve the embedder from `experimental.memory.embedder`, either "local" or "provider/model"
+   */
+  export async function fromConfig(): Promise<Info> {
+    const cfg = await Config.get()
+    const embedder = cfg.experimental?.memory?.embedder ?? "local"
+    if (embedder === "local") return local()
+    const { providerID, modelID } = Provider.parseModel(embedder)
+    return provider(providerID, modelID)
+  }
+}
@@ -0,0 +1,107 @@
+import { Bus } from "../bus"
+import { Config } from "../config/config"
+import { Instance } from "../project/instance"
+import { MessageV2 } from "../session/message-v2"
+import { Storage } from "../storage/storage"
+import { Log } from "../util/log"
+import { Embedder } from "./embedder"
+
+/**
+ * Semantic recall across the sessions of a project. Text parts of finished
+ * exchanges are embedded in the background and searched by `memory_search`.
+ */
+export namespace Memory {
+  const log = Log.create({ service: "memory" })
+
+  // Parts shorter than this rarely carry anything worth recalling
+  const MIN_LENGTH = 20
+  const MAX_LENGTH = 4000
+
+  const state = Instance.state(() => {
+    return {
+      queue: Promise.resolve(),
+      indexed: new Set<string>(),
+      embedder: undefined as Promise<Embedder.Info> | undefined,
+    }
+  })
+
+  function embedder() {
+    const s = state()
+    if (!s.embedder) {
+      s.embedder = Embedder.fromConfig()
+      s.embedder.catch(() => (s.embedder = undefined))
+    }
+    return s.embedder
+  }
+
+  /**
+   * Resolves the embedder again with the current config on its next use.
+   */
+  export function reload() {
+    state().embedder = undefined
+  }
+
+  export function init() {
+    Bus.subscribe(MessageV2.Event.Updated, async (evt) => {
+      const info = evt.properties.info
+      if (info.role !== "assistant" || !info.time.completed) return
+      const cfg = await Config.get()
+      if (!cfg.experimental?.memory?.enabled) return
+      enqueue(info.sessionID, [info.parentID, info.id])
+    })
+  }
+
+  /**
+   * Queue messages for indexing, one batch at a time so a slow embedder can't pile up requests
+   */
+  export function enqueue(sessionID: string, messageIDs: string[]) {
+    const s = state()
+    const pending = messageIDs.filter((id) => !s.indexed.has(id))
+    if (pending.length === 0) return s.queue
+    for (const id of pending) s.indexed.add(id)
+    s.queue = s.queue
+      .then(() => index(sessionID, pending))
+      .catch((error) => {
+        for (const id of pending) s.indexed.delete(id)
+        log.error("failed to index messages", { sessionID, error })
+      })
+    return s.queue
+  }
+
+  async function index(sessionID: string, messageIDs: string[]) {
+    const parts = []
+    for (const messageID of messageIDs) {
+      for (const part of await MessageV2.parts(messageID)) {
+        if (part.type !== "text" || part.synthetic) continue
+        const content = part.text.trim()
+        if (content.length < MIN_LENGTH) continue
+        parts.push({ part, content: content.slice(0, MAX_LENGTH) })
+      }
+    }
+    if (parts.length === 0) return
+
+    const e = await embedder()
+    const vectors = await e.embed(parts.map((x) => x.content))
+    for (const [i, { part, content }] of parts.entries()) {
+      await Storage.writeEmbedding(sessionID, {
+        partID: part.id,
+        messageID: part.messageID,
+        model: e.id,
+        content,
+        vector: vectors[i],
+      })
+    }
+    log.info("indexed", { sessionID, parts: parts.length, embedder: e.id })
+  }
+
+  export async function search(query: string, options?: { limit?: number; exclude?: string[] }) {
+    const e = await embedder()
+    const [vector] = await e.embed([query])
+    return Storage.searchEmbeddings(vector, {
+      projectID: Instance.project.id,
+      model: e.id,
+      exclude: options?.exclude,
+      limit: options?.limit,
+    })
+  }
+}
@@ -0,0 +1,105 @@
+import path from "path"
+import { sortBy, pipe } from "remeda"
+import type { Config } from "../config/config"
+import { Instance } from "../project/instance"
+import { Permission } from "."
+
+/**
+ * Glob keyed `read` and `edit` permissions. Patterns are matched against paths
+ * relative to the worktree (absolute paths outside of it), `*` matches every
+ * file, and the longest matching pattern wins.
+ */
+export namespace PermissionFile {
+  export type Rules = Record<string, Config.Permission>
+
+  /**
+   * Files that usually hold credentials, which are only read after the user
+   * approves it. They apply to files no configured pattern matches, and only
+   * where they are stricter than the catch-all.
+   */
+  export const SECRETS: Rules = {
+    "**/.env": "ask",
+    "**/.env.*": "ask",
+    "**/.env.example": "allow",
+    "**/.env.sample": "allow",
+    "**/.env.template": "allow",
+    "**/*.pem": "ask",
+    "**/*.key": "ask",
+    "**/*.p12": "ask",
+    "**/*.pfx": "ask",
+    "**/id_rsa*": "ask",
+    "**/id_ecdsa*": "ask",
+    "**/id_ed25519*": "ask",
+    "**/.netrc": "ask",
+    "**/.npmrc": "ask",
+    "**/.pypirc": "ask",
+    "**/.aws/credentials": "ask",
+    "**/.docker/config.json": "ask",
+    "**/.kube/config": "ask",
+    "**/credentials.json": "ask",
+    "**/secrets.{json,yaml,yml,toml}": "ask",
+  }
+
+  function relative(filepath: string) {
+    const result = path.relative(Instance.worktree, filepath)
+    if (result.startsWith("..") || path.isAbsolute(result)) return filepath
+    return result.split(path.sep).join("/")
+  }
+
+  const STRICTNESS: Record<Config.Permission, number> = { allow: 0, ask: 1, deny: 2 }
+
+  function match(rules: Rules, target: string) {
+    const sorted = pipe(rules, Object.entries, sortBy([([key]) => key.length, "asc"], [([key]) => key, "asc"]))
+    let result: { action: Config.Permission; pattern: string } | undefined
+    for (const [pattern, action] of sorted) {
+      if (pattern === "*") continue
+      if (new Bun.Glob(pattern).match(target)) result = { action, pattern }
+    }
+    return result
+  }
+
+  /**
+   * The action for a file and the pattern that decided it, which is undefined
+   * when only the catch-all applied. Defaults such as the secrets are only
+   * consulted when none of the rules match.
+   */
+  export function evaluate(rules: Rules, filepath: string, defaults: Rules = {}) {
+    const target = relative(filepath)
+    const matched = match(rules, target)
+    if (matched) return matched
+    const fallback: { action: Config.Permission; pattern?: string } = { action: rules["*"] ?? "allow" }
+    const preset = match(defaults, target)
+    if (preset && STRICTNESS[preset.action] > STRICTNESS[fallback.action]) return preset
+    return fallback
+  }
+
+  type Request = Omit<Parameters<typeof Permission.ask>[0], "pattern">
+
+  /**
+   * Checks every file against the rules: any denied file rejects the request,
+   * otherwise it is asked for once when a file needs approval. Patterns that
+   * asked become the request pattern, so "always" approves them only.
+   */
+  export async function assert(input: {
+    rules: Rules
+    defaults?: Rules
+    files: string[]
+    request: Request
+    message: string
+    // the user already approved these files, for example by attaching them
+    approved?: boolean
+  }) {
+    const results = input.files.map((file) => evaluate(input.rules, file, input.defaults))
+    const denied = results.find((x) => x.action === "deny")
+    if (denied) {
+      await Permission.denied({ ...input.request, pattern: denied.pattern })
+      throw new Error(input.message)
+    }
+    const asks = results.filter((x) => x.action === "ask")
+    if (asks.length === 0 || input.approved) return
+    await Permission.ask({
+      ...input.request,
+      pattern: asks.every((x) => x.pattern) ? [...new Set(asks.map((x) => x.pattern!))] : undefined,
+    })
+  }
+}
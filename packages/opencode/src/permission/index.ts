@@ -5,6 +5,8 @@ import { Identifier } from "../id/id"
 import { Plugin } from "../plugin"
 import { Instance } from "../project/instance"
 import { Wildcard } from "../util/wildcard"
+import { PermissionRule } from "./rule"
+import { PermissionLog } from "./log"
 
 export namespace Permission {
   const log = Log.create({ service: "permission" })
@@ -85,7 +87,7 @@ export namespace Permission {
     return state().pending
   }
 
-  export async function ask(input: {
+  type AskInput = {
     type: Info["type"]
     title: Info["title"]
     pattern?: Info["pattern"]
@@ -93,7 +95,30 @@ export namespace Permission {
     sessionID: Info["sessionID"]
     messageID: Info["messageID"]
     metadata: Info["metadata"]
-  }) {
+  }
+
+  function audit(input: AskInput, outcome: PermissionLog.Outcome, scope?: PermissionRule.Scope) {
+    return PermissionLog.record({
+      sessionID: input.sessionID,
+      messageID: input.messageID,
+      callID: input.callID,
+      type: input.type,
+      pattern: input.pattern,
+      title: input.title,
+      outcome,
+      scope,
+    })
+  }
+
+  /**
+   * Record a request the agent config denied outright, before the caller throws
+   */
+  export async function denied(input: AskInput) {
+    log.info("denied by config", { sessionID: input.sessionID, type: input.type, pattern: input.pattern })
+    await audit(input, "denied_by_config")
+  }
+
+  export async function ask(input: AskInput) {
     const { pending, approved } = state()
     log.info("asking", {
       sessionID: input.sessionID,
@@ -103,7 +128,13 @@ export namespace Permission {
     })
     const approvedForSession = approved[input.sessionID] || {}
     const keys = toKeys(input.pattern, input.type)
-    if (covered(keys, approvedForSession)) return
+    if (
+      covered(keys, approvedForSession) ||
+      (await PermissionRule.covers({ type: input.type, keys, sessionID: input.sessionID }))
+    ) {
+      await audit(input, "allowed_by_rule")
+      return
+    }
     const info: Info = {
       id: Identifier.ascending("permission"),
       type: input.type,
@@ -124,8 +155,10 @@ export namespace Permission {
       }).then((x) => x.status)
     ) {
       case "deny":
+        await audit(input, "denied_by_plugin")
         throw new RejectedError(info.sessionID, info.id, info.callID, info.metadata)
       case "allow":
+        await audit(input, "allowed_by_plugin")
         return
     }
 
@@ -143,7 +176,12 @@ export namespace Permission {
   export const Response = z.enum(["once", "always", "reject"])
   export type Response = z.infer<typeof Response>
 
-  export function respond(input: { sessionID: Info["sessionID"]; permissionID: Info["id"]; response: Response }) {
+  export function respond(input: {
+    sessionID: Info["sessionID"]
+    permissionID: Info["id"]
+    response: Response
+    scope?: PermissionRule.Scope
+  }) {
     log.info("response", input)
     const { pending, approved } = state()
     const match = pending[input.sessionID]?.[input.permissionID]
@@ -154,27 +192,43 @@ export namespace Permission {
       permissionID: input.permissionID,
       response: input.response,
     })
+    audit(match.info, input.response, input.response === "always" ? (input.scope ?? "session") : undefined)
     if (input.response === "reject") {
       match.reject(new RejectedError(input.sessionID, input.permissionID, match.info.callID, match.info.metadata))
       return
     }
     match.resolve()
     if (input.response === "always") {
+      const scope = input.scope ?? "session"
       approved[input.sessionID] = approved[input.sessionID] || {}
       const approveKeys = toKeys(match.info.pattern, match.info.type)
       for (const k of approveKeys) {
         approved[input.sessionID][k] = true
       }
-      const items = pending[input.sessionID]
-      if (!items) return
-      for (const item of Object.values(items)) {
-        const itemKeys = toKeys(item.info.pattern, item.info.type)
-        if (covered(itemKeys, approved[input.sessionID])) {
-          respond({
-            sessionID: item.info.sessionID,
+      PermissionRule.add({
+        scope,
+        type: match.info.type,
+        patterns: approveKeys,
+        sessionID: input.sessionID,
+      }).catch((error) => log.error("failed to persist permission rule", { error }))
+      // project and global rules also settle matching requests waiting in other sessions
+      const sessions = scope === "session" ? [input.sessionID] : Object.keys(pending)
+      const rules = Object.fromEntries(approveKeys.map((k) => [k, true]))
+      for (const sessionID of sessions) {
+        for (const item of Object.values(pending[sessionID] ?? {})) {
+          const own = sessionID === input.sessionID
+          if (!own && item.info.type !== match.info.type) continue
+          const itemKeys = toKeys(item.info.pattern, item.info.type)
+          if (!covered(itemKeys, own ? approved[input.sessionID] : rules)) continue
+          // settled by the rule just added, so audited as part of it
+          delete pending[sessionID][item.info.id]
+          Bus.publish(Event.Replied, {
+            sessionID,
             permissionID: item.info.id,
-            response: input.response,
+            response: "always",
           })
+          audit(item.info, "always", scope)
+          item.resolve()
         }
       }
     }
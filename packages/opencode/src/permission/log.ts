@@ -0,0 +1,83 @@
+import z from "zod"
+import { Identifier } from "../id/id"
+import { Storage } from "../storage/storage"
+import { Log } from "../util/log"
+
+/**
+ * Audit trail of permission decisions, stored in the project store so an
+ * unattended run can be reviewed afterwards.
+ */
+export namespace PermissionLog {
+  const log = Log.create({ service: "permission.log" })
+
+  export const Outcome = z.enum([
+    "allowed_by_rule",
+    "allowed_by_plugin",
+    "denied_by_plugin",
+    "denied_by_config",
+    "once",
+    "always",
+    "reject",
+  ])
+  export type Outcome = z.infer<typeof Outcome>
+
+  export const Entry = z
+    .object({
+      id: z.string(),
+      sessionID: z.string(),
+      messageID: z.string(),
+      callID: z.string().optional(),
+      agent: z.string().optional(),
+      type: z.string(),
+      pattern: z.union([z.string(), z.array(z.string())]).optional(),
+      title: z.string(),
+      outcome: Outcome,
+      scope: z.enum(["session", "project", "global"]).optional(),
+      time: z.number(),
+    })
+    .meta({
+      ref: "PermissionLogEntry",
+    })
+  export type Entry = z.infer<typeof Entry>
+
+  async function agentOf(sessionID: string, messageID: string) {
+    const message = await Storage.read<{ role: string; mode?: string; agent?: string }>([
+      "message",
+      sessionID,
+      messageID,
+    ]).catch(() => undefined)
+    if (!message) return
+    return message.role === "assistant" ? message.mode : message.agent
+  }
+
+  /**
+   * Append an entry. Never throws so auditing can't break the permission flow.
+   */
+  export async function record(input: Omit<Entry, "id" | "time" | "agent">) {
+    try {
+      const entry: Entry = {
+        ...input,
+        id: Identifier.ascending("audit"),
+        agent: await agentOf(input.sessionID, input.messageID),
+        time: Date.now(),
+      }
+      await Storage.write(["permission_log", entry.sessionID, entry.id], entry)
+      return entry
+    } catch (error) {
+      log.error("failed to record permission decision", { error })
+    }
+  }
+
+  export async function list(input?: { sessionID?: string; outcome?: Outcome[]; since?: number; limit?: number }) {
+    const prefix = input?.sessionID ? ["permission_log", input.sessionID] : ["permission_log"]
+    const result: Entry[] = []
+    for (const key of (await Storage.list(prefix)).toReversed()) {
+      const entry = await Storage.read<Entry>(key)
+      if (input?.since && entry.time < input.since) break
+      if (input?.outcome && !input.outcome.includes(entry.outcome)) continue
+      result.push(entry)
+      if (input?.limit && result.length >= input.limit) break
+    }
+    return result.toReversed()
+  }
+}
@@ -0,0 +1,152 @@
+import z from "zod"
+import path from "path"
+import { Bus } from "../bus"
+import { Global } from "../global"
+import { Identifier } from "../id/id"
+import { Instance } from "../project/instance"
+import { Session } from "../session"
+import { Log } from "../util/log"
+import { Wildcard } from "../util/wildcard"
+
+/**
+ * Persisted "always allow" decisions.
+ *
+ * Session and project rules live in {project}/.opencode/permission.json,
+ * global rules in {config}/permission.json so they apply to every project.
+ */
+export namespace PermissionRule {
+  const log = Log.create({ service: "permission.rule" })
+
+  export const Scope = z.enum(["session", "project", "global"])
+  export type Scope = z.infer<typeof Scope>
+
+  export const Info = z
+    .object({
+      id: z.string(),
+      scope: Scope,
+      type: z.string(),
+      pattern: z.string(),
+      sessionID: z.string().optional(),
+      time: z.object({
+        created: z.number(),
+      }),
+    })
+    .meta({
+      ref: "PermissionRule",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export const Event = {
+    Updated: Bus.event("permission.rule.updated", z.object({})),
+  }
+
+  function filepath(scope: Scope) {
+    if (scope === "global") return path.join(Global.Path.config, "permission.json")
+    return path.join(Instance.directory, ".opencode", "permission.json")
+  }
+
+  async function load(file: string) {
+    const json = await Bun.file(file)
+      .json()
+      .catch(() => [])
+    const parsed = Info.array().safeParse(json)
+    if (parsed.success) return parsed.data
+    log.error("invalid permission rules, ignoring", { file, issues: parsed.error.issues })
+    return []
+  }
+
+  const state = Instance.state(async () => {
+    const [local, global] = await Promise.all([load(filepath("project")), load(filepath("global"))])
+    return { local, global }
+  })
+
+  async function save(scope: Scope) {
+    const s = await state()
+    await Bun.write(filepath(scope), JSON.stringify(scope === "global" ? s.global : s.local, null, 2))
+  }
+
+  export async function list(input?: { sessionID?: string }) {
+    const s = await state()
+    const rules = [...s.local, ...s.global]
+    if (!input?.sessionID) return rules
+    return rules.filter((rule) => rule.scope !== "session" || rule.sessionID === input.sessionID)
+  }
+
+  export async function add(input: { scope: Scope; type: string; patterns: string[]; sessionID: string }) {
+    const s = await state()
+    const target = input.scope === "global" ? s.global : s.local
+    const added: Info[] = []
+    for (const pattern of input.patterns) {
+      const exists = target.find(
+        (rule) =>
+          rule.scope === input.scope &&
+          rule.type === input.type &&
+          rule.pattern === pattern &&
+          (input.scope !== "session" || rule.sessionID === input.sessionID),
+      )
+      if (exists) continue
+      const rule: Info = {
+        id: Identifier.ascending("rule"),
+        scope: input.scope,
+        type: input.type,
+        pattern,
+        sessionID: input.scope === "session" ? input.sessionID : undefined,
+        time: {
+          created: Date.now(),
+        },
+      }
+      target.push(rule)
+      added.push(rule)
+    }
+    if (added.length === 0) return added
+    await save(input.scope)
+    log.info("added", { scope: input.scope, type: input.type, patterns: input.patterns })
+    Bus.publish(Event.Updated, {})
+    return added
+  }
+
+  export async function remove(ruleID: string) {
+    const s = await state()
+    for (const [scope, rules] of [
+      ["project", s.local],
+      ["global", s.global],
+    ] as const) {
+      const index = rules.findIndex((rule) => rule.id === ruleID)
+      if (index === -1) continue
+      rules.splice(index, 1)
+      await save(scope)
+      log.info("removed", { ruleID })
+      Bus.publish(Event.Updated, {})
+      return true
+    }
+    return false
+  }
+
+  async function clear(sessionID: string) {
+    const s = await state()
+    const kept = s.local.filter((rule) => rule.scope !== "session" || rule.sessionID !== sessionID)
+    if (kept.length === s.local.length) return
+    s.local = kept
+    await save("session")
+    log.info("cleared", { sessionID })
+    Bus.publish(Event.Updated, {})
+  }
+
+  /**
+   * Drops the session rules of sessions once they are deleted.
+   */
+  export function init() {
+    Bus.subscribe(Session.Event.Deleted, async (payload) => {
+      await clear(payload.properties.info.id)
+    })
+  }
+
+  /**
+   * True when every key is matched by a rule of the same type that applies to the session
+   */
+  export async function covers(input: { type: string; keys: string[]; sessionID: string }) {
+    const rules = (await list({ sessionID: input.sessionID })).filter((rule) => rule.type === input.type)
+    if (rules.length === 0) return false
+    return input.keys.every((key) => rules.some((rule) => Wildcard.match(key, rule.pattern)))
+  }
+}
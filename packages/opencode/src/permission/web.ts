@@ -0,0 +1,33 @@
+import type { Config } from "../config/config"
+import { Wildcard } from "../util/wildcard"
+import { Permission } from "."
+
+/**
+ * URL keyed `webfetch` permissions such as `"https://docs.*": "allow"`. The
+ * longest matching pattern wins and `*` matches every URL.
+ */
+export namespace PermissionWeb {
+  export type Rules = Record<string, Config.Permission>
+
+  export function evaluate(rules: Rules, url: string): Config.Permission {
+    return Wildcard.all(url, rules) ?? "allow"
+  }
+
+  type Request = Omit<Parameters<typeof Permission.ask>[0], "pattern">
+
+  /**
+   * Rejects denied URLs and asks for the ones that need approval. The request
+   * pattern covers the whole origin, so "always" approves the site rather than
+   * a single page.
+   */
+  export async function assert(input: { rules: Rules; url: string; request: Request }) {
+    const action = evaluate(input.rules, input.url)
+    if (action === "allow") return
+    const pattern = new URL(input.url).origin + "/*"
+    if (action === "deny") {
+      await Permission.denied({ ...input.request, pattern })
+      throw new Error(`Permission denied: fetching ${input.url} is not allowed by the agent's webfetch permissions`)
+    }
+    await Permission.ask({ ...input.request, pattern })
+  }
+}
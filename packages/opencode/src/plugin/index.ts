@@ -7,6 +7,7 @@ import { Server } from "../server/server"
 import { BunProc } from "../bun"
 import { Instance } from "../project/instance"
 import { Flag } from "../flag/flag"
+import { fileURLToPath } from "url"
 
 export namespace Plugin {
   const log = Log.create({ service: "plugin" })
@@ -38,6 +39,10 @@ export namespace Plugin {
         const pkg = lastAtIndex > 0 ? plugin.substring(0, lastAtIndex) : plugin
         const version = lastAtIndex > 0 ? plugin.substring(lastAtIndex + 1) : "latest"
         plugin = await BunProc.install(pkg, version)
+      } else {
+        // the modification time busts the module cache when the plugin is reloaded
+        const file = fileURLToPath(plugin)
+        plugin = `${file}?v=${Bun.file(file).lastModified}`
       }
       const mod = await import(plugin)
       for (const [_name, fn] of Object.entries<PluginInstance>(mod)) {
@@ -73,6 +78,18 @@ export namespace Plugin {
     return state().then((x) => x.hooks)
   }
 
+  /**
+   * Loads the plugins again, for example after a plugin file changed.
+   */
+  export async function reload() {
+    await state.reset()
+    const hooks = await state().then((x) => x.hooks)
+    const config = await Config.get()
+    for (const hook of hooks) {
+      await hook.config?.(config)
+    }
+  }
+
   export async function init() {
     const hooks = await state().then((x) => x.hooks)
     const config = await Config.get()
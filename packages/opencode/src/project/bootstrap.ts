@@ -10,15 +10,23 @@ import { Bus } from "../bus"
 import { Command } from "../command"
 import { Instance } from "./instance"
 import { Log } from "@/util/log"
+import { Memory } from "../memory"
+import { ConfigReload } from "../config/reload"
+import { Hook } from "../hook"
+import { PermissionRule } from "../permission/rule"
 
 export async function InstanceBootstrap() {
   Log.Default.info("bootstrapping", { directory: Instance.directory })
   await Plugin.init()
   Share.init()
   Format.init()
+  Hook.init()
+  PermissionRule.init()
   await LSP.init()
   FileWatcher.init()
+  ConfigReload.init()
   File.init()
+  Memory.init()
 
   Bus.subscribe(Command.Event.Executed, async (payload) => {
     if (payload.properties.name === Command.Default.INIT) {
@@ -8,6 +8,8 @@ interface Context {
   directory: string
   worktree: string
   project: Project.Info
+  // directory the instance was provided for, per-instance state stays keyed on it when bound elsewhere
+  root: string
 }
 const context = Context.create<Context>("instance")
 const cache = new Map<string, Promise<Context>>()
@@ -23,6 +25,7 @@ export const Instance = {
           directory: input.directory,
           worktree: project.worktree,
           project,
+          root: input.directory,
         }
         await context.provide(ctx, async () => {
           await input.init?.()
@@ -45,12 +48,26 @@ export const Instance = {
   get project() {
     return context.use().project
   },
-  state<S>(init: () => S, dispose?: (state: Awaited<S>) => Promise<void>): () => S {
-    return State.create(() => Instance.directory, init, dispose)
+  /**
+   * Runs fn with the directory and worktree pointing at another checkout of the
+   * same project, such as a session's git worktree. Per-instance state is shared.
+   */
+  bind<R>(input: { directory: string; worktree: string }, fn: () => R): R {
+    return context.provide({ ...context.use(), directory: input.directory, worktree: input.worktree }, fn)
+  },
+  state<S>(init: () => S, dispose?: (state: Awaited<S>) => Promise<void>) {
+    // state is shared by every checkout, so it loads from the project itself
+    // even when first used while bound to another one
+    const load = () => {
+      const ctx = context.use()
+      if (ctx.directory === ctx.root) return init()
+      return context.provide({ ...ctx, directory: ctx.root, worktree: ctx.project.worktree }, init)
+    }
+    return State.create(() => context.use().root, load, dispose)
   },
   async dispose() {
-    Log.Default.info("disposing instance", { directory: Instance.directory })
-    await State.dispose(Instance.directory)
+    Log.Default.info("disposing instance", { directory: context.use().root })
+    await State.dispose(context.use().root)
   },
   async disposeAll() {
     Log.Default.info("disposing all instances")
@@ -1,10 +1,12 @@
 import z from "zod"
 import { Filesystem } from "../util/filesystem"
 import path from "path"
+import fs from "fs/promises"
 import { $ } from "bun"
 import { Storage } from "../storage/storage"
 import { Log } from "../util/log"
 import { Flag } from "@/flag/flag"
+import { Global } from "../global"
 
 export namespace Project {
   const log = Log.create({ service: "project" })
@@ -78,25 +80,52 @@ export namespace Project {
       .cwd(worktree)
       .text()
       .then((x) => x.trim())
+    const existing = await get(id).catch(() => undefined)
     const project: Info = {
       id,
       worktree,
       vcs: "git",
-      time: {
+      time: existing?.time ?? {
         created: Date.now(),
       },
     }
+    await write(project)
     return project
   }
 
+  // Sessions live in each project's own storage, so the list of known projects
+  // is kept globally for servers that host several of them
+  function filepath(projectID: string) {
+    return path.join(Global.Path.data, "project", projectID + ".json")
+  }
+
+  async function write(project: Info) {
+    await Bun.write(filepath(project.id), JSON.stringify(project, null, 2))
+  }
+
+  export async function get(projectID: string) {
+    const file = Bun.file(filepath(projectID))
+    if (!(await file.exists())) throw new Storage.NotFoundError({ message: `Project not found: ${projectID}` })
+    return Info.parse(await file.json())
+  }
+
   export async function setInitialized(projectID: string) {
-    await Storage.update<Info>(["project", projectID], (draft) => {
-      draft.time.initialized = Date.now()
-    })
+    const project = await get(projectID)
+    project.time.initialized = Date.now()
+    await write(project)
   }
 
   export async function list() {
-    const keys = await Storage.list(["project"])
-    return await Promise.all(keys.map((x) => Storage.read<Info>(x)))
+    const result: Info[] = []
+    const dir = path.join(Global.Path.data, "project")
+    await fs.mkdir(dir, { recursive: true })
+    for await (const file of new Bun.Glob("*.json").scan({ cwd: dir, absolute: true })) {
+      const project = await Bun.file(file)
+        .json()
+        .then((x) => Info.parse(x))
+        .catch(() => undefined)
+      if (project) result.push(project)
+    }
+    return result.toSorted((a, b) => b.time.created - a.time.created)
   }
 }
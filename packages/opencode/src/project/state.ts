@@ -10,7 +10,7 @@ export namespace State {
   const recordsByKey = new Map<string, Map<any, Entry>>()
 
   export function create<S>(root: () => string, init: () => S, dispose?: (state: Awaited<S>) => Promise<void>) {
-    return () => {
+    const get = () => {
       const key = root()
       let entries = recordsByKey.get(key)
       if (!entries) {
@@ -26,6 +26,23 @@ export namespace State {
       })
       return state
     }
+    return Object.assign(get, {
+      /**
+       * Disposes the current state so the next access initializes it again.
+       */
+      async reset() {
+        const entries = recordsByKey.get(root())
+        const entry = entries?.get(init)
+        if (!entry) return
+        entries!.delete(init)
+        if (!entry.dispose) return
+        await Promise.resolve(entry.state)
+          .then((state) => entry.dispose!(state))
+          .catch((error) => {
+            log.error("Error while resetting state:", { error, key: root() })
+          })
+      },
+    })
   }
 
   export async function dispose(key: string) {
@@ -0,0 +1,201 @@
+import z from "zod"
+import path from "path"
+import { APICallError, NoSuchModelError, type LanguageModel, type Provider } from "ai"
+import type { ModelsDev } from "./models"
+import { Instance } from "../project/instance"
+import { Log } from "../util/log"
+import { NamedError } from "../util/error"
+
+/**
+ * A provider that never touches the network and instead replays scripted
+ * responses, so the agent loop, permissions and tools can be exercised
+ * deterministically in tests and by plugin authors.
+ *
+ * Responses come from the `responses` option or from the JSON file named by
+ * the `fixture` option, and each streamed request consumes the next one in
+ * order, compaction summaries included. Session titles and per-turn summaries
+ * are generated without streaming and return the `generate` text instead.
+ */
+export namespace MockProvider {
+  const log = Log.create({ service: "provider.mock" })
+
+  export const ID = "mock"
+
+  export const ToolCall = z.object({
+    id: z.string().optional(),
+    name: z.string(),
+    input: z.record(z.string(), z.any()).default({}),
+  })
+
+  export const Response = z.object({
+    reasoning: z.string().optional(),
+    text: z.string().optional(),
+    tool_calls: ToolCall.array().optional(),
+    usage: z
+      .object({
+        input: z.number().default(0),
+        output: z.number().default(0),
+        reasoning: z.number().default(0),
+        cache_read: z.number().default(0),
+      })
+      .optional(),
+    finish: z.enum(["stop", "length", "content-filter", "tool-calls", "error", "other"]).optional(),
+    error: z
+      .object({
+        message: z.string(),
+        status: z.number().default(500),
+        retryable: z.boolean().optional(),
+        headers: z.record(z.string(), z.string()).optional(),
+      })
+      .optional(),
+  })
+  export type Response = z.infer<typeof Response>
+
+  export const Fixture = z.object({
+    responses: Response.array(),
+    generate: z.string().optional().describe("Text returned for session titles and per-turn summaries"),
+  })
+  export type Fixture = z.infer<typeof Fixture>
+
+  export const ExhaustedError = NamedError.create(
+    "MockProviderExhaustedError",
+    z.object({
+      count: z.number(),
+    }),
+  )
+
+  export const info: ModelsDev.Provider = {
+    id: ID,
+    name: "Mock",
+    env: [],
+    models: {
+      mock: {
+        id: "mock",
+        name: "Mock",
+        release_date: "2025-01-01",
+        attachment: false,
+        reasoning: true,
+        temperature: false,
+        tool_call: true,
+        cost: { input: 0, output: 0, cache_read: 0, cache_write: 0 },
+        limit: { context: 200_000, output: 32_000 },
+        options: {},
+      },
+    },
+  }
+
+  type Model = Exclude<LanguageModel, string>
+  type StreamPart = Awaited<ReturnType<Model["doStream"]>>["stream"] extends ReadableStream<infer T> ? T : never
+
+  async function load(options: Record<string, any>): Promise<Fixture> {
+    if (options["responses"]) return Fixture.parse(options)
+    if (!options["fixture"]) return { responses: [] }
+    const file = path.resolve(Instance.directory, options["fixture"])
+    return Fixture.parse(await Bun.file(file).json())
+  }
+
+  function usage(response: Response) {
+    return {
+      inputTokens: response.usage?.input ?? 0,
+      outputTokens: response.usage?.output ?? 0,
+      reasoningTokens: response.usage?.reasoning ?? 0,
+      cachedInputTokens: response.usage?.cache_read ?? 0,
+      totalTokens: (response.usage?.input ?? 0) + (response.usage?.output ?? 0),
+    }
+  }
+
+  function finish(response: Response) {
+    return response.finish ?? (response.tool_calls?.length ? "tool-calls" : "stop")
+  }
+
+  /**
+   * Creates the provider SDK. Every model it returns shares one queue of
+   * responses, so a fallback to another mock model picks up the next one.
+   */
+  export function create(options: Record<string, any>): Provider {
+    const fixture = load(options)
+    let index = 0
+
+    async function next(modelID: string) {
+      const { responses } = await fixture
+      const response = responses[index]
+      if (!response) throw new ExhaustedError({ count: responses.length })
+      log.info("replay", { modelID, index })
+      index++
+      if (response.error) {
+        throw new APICallError({
+          message: response.error.message,
+          url: "mock://" + modelID,
+          requestBodyValues: {},
+          statusCode: response.error.status,
+          responseHeaders: response.error.headers,
+          isRetryable: response.error.retryable ?? (response.error.status === 429 || response.error.status >= 500),
+        })
+      }
+      return response
+    }
+
+    return {
+      languageModel(modelID: string): Model {
+        return {
+          specificationVersion: "v2",
+          provider: ID,
+          modelId: modelID,
+          supportedUrls: {},
+          async doGenerate() {
+            const { generate } = await fixture
+            return {
+              content: [{ type: "text", text: generate ?? "Mock response" }],
+              finishReason: "stop",
+              usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+              warnings: [],
+            }
+          },
+          async doStream() {
+            const response = await next(modelID)
+            const parts: StreamPart[] = [{ type: "stream-start", warnings: [] }]
+            if (response.reasoning) {
+              parts.push(
+                { type: "reasoning-start", id: "reasoning" },
+                { type: "reasoning-delta", id: "reasoning", delta: response.reasoning },
+                { type: "reasoning-end", id: "reasoning" },
+              )
+            }
+            if (response.text) {
+              parts.push(
+                { type: "text-start", id: "text" },
+                { type: "text-delta", id: "text", delta: response.text },
+                { type: "text-end", id: "text" },
+              )
+            }
+            for (const [i, call] of (response.tool_calls ?? []).entries()) {
+              const id = call.id ?? `call_${index}_${i}`
+              const input = JSON.stringify(call.input)
+              parts.push(
+                { type: "tool-input-start", id, toolName: call.name },
+                { type: "tool-input-delta", id, delta: input },
+                { type: "tool-input-end", id },
+                { type: "tool-call", toolCallId: id, toolName: call.name, input },
+              )
+            }
+            parts.push({ type: "finish", finishReason: finish(response), usage: usage(response) })
+            return {
+              stream: new ReadableStream<StreamPart>({
+                start(controller) {
+                  for (const part of parts) controller.enqueue(part)
+                  controller.close()
+                },
+              }),
+            }
+          },
+        }
+      },
+      textEmbeddingModel(modelID: string) {
+        throw new NoSuchModelError({ modelId: modelID, modelType: "textEmbeddingModel" })
+      },
+      imageModel(modelID: string) {
+        throw new NoSuchModelError({ modelId: modelID, modelType: "imageModel" })
+      },
+    }
+  }
+}
@@ -7,6 +7,7 @@ import { Log } from "../util/log"
 import { BunProc } from "../bun"
 import { Plugin } from "../plugin"
 import { ModelsDev } from "./models"
+import { MockProvider } from "./mock"
 import { NamedError } from "../util/error"
 import { Auth } from "../auth"
 import { Instance } from "../project/instance"
@@ -225,6 +226,15 @@ export namespace Provider {
         },
       }
     },
+    [MockProvider.ID]: async () => {
+      if (!Flag.OPENCODE_MOCK_FIXTURE) return { autoload: false }
+      return {
+        autoload: true,
+        options: {
+          fixture: Flag.OPENCODE_MOCK_FIXTURE,
+        },
+      }
+    },
     zenmux: async () => {
       return {
         autoload: false,
@@ -293,6 +303,10 @@ export namespace Provider {
 
     const configProviders = Object.entries(config.provider ?? {})
 
+    // the mock provider is not on models.dev, it is only loaded when configured or OPENCODE_MOCK_FIXTURE is set
+    database[MockProvider.ID] ??= structuredClone(MockProvider.info)
+    const mock = Boolean(Flag.OPENCODE_MOCK_FIXTURE || config.provider?.[MockProvider.ID])
+
     // Add GitHub Copilot Enterprise provider that inherits from GitHub Copilot
     if (database["github-copilot"]) {
       const githubCopilot = database["github-copilot"]
@@ -395,6 +409,8 @@ export namespace Provider {
     // load custom
     for (const [providerID, fn] of Object.entries(CUSTOM_LOADERS)) {
       if (disabled.has(providerID)) continue
+      // tests with the mock provider run offline, without models.dev
+      if (!database[providerID] && mock) continue
       const result = await fn(database[providerID])
       if (result && (result.autoload || providers[providerID])) {
         mergeProvider(providerID, result.options ?? {}, "custom", result.getModel)
@@ -479,17 +495,24 @@ export namespace Provider {
     }
   })
 
+  /**
+   * Loads the providers again, for example after their config changed.
+   */
+  export async function reload() {
+    await state.reset()
+  }
+
   export async function list() {
     return state().then((state) => state.providers)
   }
 
-  async function getSDK(provider: ModelsDev.Provider, model: ModelsDev.Model) {
+  async function getSDK(provider: ModelsDev.Provider, model?: ModelsDev.Model) {
     return (async () => {
       using _ = log.time("getSDK", {
         providerID: provider.id,
       })
       const s = await state()
-      const pkg = model.provider?.npm ?? provider.npm ?? provider.id
+      const pkg = model?.provider?.npm ?? provider.npm ?? provider.id
       const options = { ...s.providers[provider.id]?.options }
       if (pkg.includes("@ai-sdk/openai-compatible") && options["includeUsage"] === undefined) {
         options["includeUsage"] = true
@@ -499,6 +522,12 @@ export namespace Provider {
       const existing = s.sdk.get(key)
       if (existing) return existing
 
+      if (pkg === MockProvider.ID) {
+        const loaded = MockProvider.create(options)
+        s.sdk.set(key, loaded)
+        return loaded
+      }
+
       let installedPath: string
       if (!pkg.startsWith("file://")) {
         installedPath = await BunProc.install(pkg, "latest")
@@ -606,6 +635,23 @@ export namespace Provider {
     }
   }
 
+  /**
+   * Embedding models aren't listed on models.dev, so any id the provider SDK accepts is passed through
+   */
+  export async function getEmbeddingModel(providerID: string, modelID: string) {
+    const s = await state()
+    const provider = s.providers[providerID]
+    if (!provider) throw new ModelNotFoundError({ providerID, modelID })
+    const sdk = await getSDK(provider.info)
+    if (!sdk.textEmbeddingModel) throw new ModelNotFoundError({ providerID, modelID })
+    try {
+      return sdk.textEmbeddingModel(modelID)
+    } catch (e) {
+      if (e instanceof NoSuchModelError) throw new ModelNotFoundError({ providerID, modelID }, { cause: e })
+      throw e
+    }
+  }
+
   export async function getSmallModel(providerID: string) {
     const cfg = await Config.get()
 
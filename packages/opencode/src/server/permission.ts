@@ -0,0 +1,102 @@
+import { Hono } from "hono"
+import { describeRoute, resolver, validator } from "hono-openapi"
+import z from "zod"
+import { PermissionRule } from "../permission/rule"
+import { PermissionLog } from "../permission/log"
+
+export const PermissionRoute = new Hono()
+  .get(
+    "/rule",
+    describeRoute({
+      description: "List persisted permission rules",
+      operationId: "permission.rule.list",
+      responses: {
+        200: {
+          description: "List of permission rules",
+          content: {
+            "application/json": {
+              schema: resolver(PermissionRule.Info.array()),
+            },
+          },
+        },
+      },
+    }),
+    validator(
+      "query",
+      z.object({
+        sessionID: z.string().optional(),
+      }),
+    ),
+    async (c) => {
+      const { sessionID } = c.req.valid("query")
+      const rules = await PermissionRule.list({ sessionID })
+      return c.json(rules)
+    },
+  )
+  .delete(
+    "/rule/:ruleID",
+    describeRoute({
+      description: "Revoke a persisted permission rule",
+      operationId: "permission.rule.delete",
+      responses: {
+        200: {
+          description: "Whether the rule existed and was removed",
+          content: {
+            "application/json": {
+              schema: resolver(z.boolean()),
+            },
+          },
+        },
+      },
+    }),
+    validator(
+      "param",
+      z.object({
+        ruleID: z.string(),
+      }),
+    ),
+    async (c) => {
+      const { ruleID } = c.req.valid("param")
+      const removed = await PermissionRule.remove(ruleID)
+      return c.json(removed)
+    },
+  )
+  .get(
+    "/log",
+    describeRoute({
+      description: "List recorded permission decisions, oldest first",
+      operationId: "permission.log",
+      responses: {
+        200: {
+          description: "Permission audit log entries",
+          content: {
+            "application/json": {
+              schema: resolver(PermissionLog.Entry.array()),
+            },
+          },
+        },
+      },
+    }),
+    validator(
+      "query",
+      z.object({
+        sessionID: z.string().optional(),
+        outcome: z
+          .union([PermissionLog.Outcome, PermissionLog.Outcome.array()])
+          .optional()
+          .describe("Only return decisions with these outcomes, repeat the parameter for several"),
+        since: z.coerce.number().optional(),
+        limit: z.coerce.number().int().positive().optional(),
+      }),
+    ),
+    async (c) => {
+      const query = c.req.valid("query")
+      const entries = await PermissionLog.list({
+        sessionID: query.sessionID,
+        outcome: query.outcome === undefined ? undefined : [query.outcome].flat(),
+        since: query.since,
+        limit: query.limit,
+      })
+      return c.json(entries)
+    },
+  )
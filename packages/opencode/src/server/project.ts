@@ -1,48 +1,414 @@
 import { Hono } from "hono"
-import { describeRoute } from "hono-openapi"
-import { resolver } from "hono-openapi"
+import { describeRoute, resolver, validator } from "hono-openapi"
+import { stream } from "hono/streaming"
+import z from "zod"
 import { Instance } from "../project/instance"
 import { Project } from "../project/project"
+import { InstanceBootstrap } from "../project/bootstrap"
+import { Session } from "../session"
+import { SessionPrompt } from "../session/prompt"
+import { MessageV2 } from "../session/message-v2"
+import { Permission } from "../permission"
+import { PermissionRule } from "../permission/rule"
+import { File } from "../file"
+import { Storage } from "../storage/storage"
+import { lazy } from "../util/lazy"
 
-export const ProjectRoute = new Hono()
-  .get(
-    "/",
-    describeRoute({
-      description: "List all projects",
-      operationId: "project.list",
-      responses: {
-        200: {
-          description: "List of projects",
-          content: {
-            "application/json": {
-              schema: resolver(Project.Info.array()),
-            },
-          },
-        },
-      },
-    }),
-    async (c) => {
-      const projects = await Project.list()
-      return c.json(projects)
+const NOT_FOUND = {
+  404: {
+    description: "Not found",
+    content: {
+      "application/json": {
+        schema: resolver(Storage.NotFoundError.Schema),
+      },
     },
-  )
-  .get(
-    "/current",
-    describeRoute({
-      description: "Get the current project",
-      operationId: "project.current",
-      responses: {
-        200: {
-          description: "Current project",
-          content: {
-            "application/json": {
-              schema: resolver(Project.Info),
+  },
+}
+
+const SessionParam = z.object({
+  projectID: z.string().meta({ description: "Project ID" }),
+  sessionID: z.string().meta({ description: "Session ID" }),
+})
+
+export const ProjectRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/",
+      describeRoute({
+        description: "List all projects",
+        operationId: "project.list",
+        responses: {
+          200: {
+            description: "List of projects",
+            content: {
+              "application/json": {
+                schema: resolver(Project.Info.array()),
+              },
             },
           },
         },
+      }),
+      async (c) => {
+        const projects = await Project.list()
+        return c.json(projects)
       },
-    }),
-    async (c) => {
-      return c.json(Instance.project)
-    },
-  )
+    )
+    .get(
+      "/current",
+      describeRoute({
+        description: "Get the current project",
+        operationId: "project.current",
+        responses: {
+          200: {
+            description: "Current project",
+            content: {
+              "application/json": {
+                schema: resolver(Project.Info),
+              },
+            },
+          },
+        },
+      }),
+      async (c) => {
+        return c.json(Instance.project)
+      },
+    )
+    .post(
+      "/init",
+      describeRoute({
+        description: "Open the project containing a directory so it can be served",
+        operationId: "project.init",
+        responses: {
+          200: {
+            description: "Project",
+            content: {
+              "application/json": {
+                schema: resolver(Project.Info),
+              },
+            },
+          },
+        },
+      }),
+      validator(
+        "json",
+        z.object({
+          directory: z.string(),
+        }),
+      ),
+      async (c) => {
+        const project = await Instance.provide({
+          directory: c.req.valid("json").directory,
+          init: InstanceBootstrap,
+          fn: () => Instance.project,
+        })
+        return c.json(project)
+      },
+    )
+    // everything below runs in the instance of the project's worktree, whatever directory the request was made for
+    .use("/:projectID/*", async (c, next) => {
+      const project = await Project.get(c.req.param("projectID"))
+      return Instance.provide({
+        directory: project.worktree,
+        init: InstanceBootstrap,
+        fn: () => next(),
+      })
+    })
+    .get(
+      "/:projectID",
+      describeRoute({
+        description: "Get a project",
+        operationId: "project.get",
+        responses: {
+          200: {
+            description: "Project",
+            content: {
+              "application/json": {
+                schema: resolver(Project.Info),
+              },
+            },
+          },
+          ...NOT_FOUND,
+        },
+      }),
+      validator("param", z.object({ projectID: z.string() })),
+      async (c) => {
+        return c.json(Instance.project)
+      },
+    )
+    .get(
+      "/:projectID/session",
+      describeRoute({
+        description: "List the sessions of a project",
+        operationId: "project.listSessions",
+        responses: {
+          200: {
+            description: "List of sessions",
+            content: {
+              "application/json": {
+                schema: resolver(Session.Info.array()),
+              },
+            },
+          },
+          ...NOT_FOUND,
+        },
+      }),
+      validator("param", z.object({ projectID: z.string() })),
+      async (c) => {
+        const sessions = await Array.fromAsync(Session.list())
+        sessions.sort((a, b) => b.time.updated - a.time.updated)
+        return c.json(sessions)
+      },
+    )
+    .post(
+      "/:projectID/session",
+      describeRoute({
+        description: "Create a session in a project",
+        operationId: "project.createSession",
+        responses: {
+          200: {
+            description: "Created session",
+            content: {
+              "application/json": {
+                schema: resolver(Session.Info),
+              },
+            },
+          },
+          ...NOT_FOUND,
+        },
+      }),
+      validator("param", z.object({ projectID: z.string() })),
+      validator("json", Session.create.schema.optional()),
+      async (c) => {
+        const session = await Session.create(c.req.valid("json") ?? {})
+        return c.json(session)
+      },
+    )
+    .get(
+      "/:projectID/session/:sessionID",
+      describeRoute({
+        description: "Get a session of a project",
+        operationId: "project.getSession",
+        responses: {
+          200: {
+            description: "Session",
+            content: {
+              "application/json": {
+                schema: resolver(Session.Info),
+              },
+            },
+          },
+          ...NOT_FOUND,
+        },
+      }),
+      validator("param", SessionParam),
+      async (c) => {
+        const session = await Session.get(c.req.valid("param").sessionID)
+        return c.json(session)
+      },
+    )
+    .patch(
+      "/:projectID/session/:sessionID",
+      describeRoute({
+        description: "Update a session of a project",
+        operationId: "project.updateSession",
+        responses: {
+          200: {
+            description: "Updated session",
+            content: {
+              "application/json": {
+                schema: resolver(Session.Info),
+              },
+            },
+          },
+          ...NOT_FOUND,
+        },
+      }),
+      validator("param", SessionParam),
+      validator(
+        "json",
+        z.object({
+          title: z.string().optional(),
+        }),
+      ),
+      async (c) => {
+        const updates = c.req.valid("json")
+        const session = await Session.update(c.req.valid("param").sessionID, (draft) => {
+          if (updates.title !== undefined) draft.title = updates.title
+        })
+        return c.json(session)
+      },
+    )
+    .delete(
+      "/:projectID/session/:sessionID",
+      describeRoute({
+        description: "Delete a session of a project and all its data",
+        operationId: "project.deleteSession",
+        responses: {
+          200: {
+            description: "Successfully deleted session",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...NOT_FOUND,
+        },
+      }),
+      validator("param", SessionParam),
+      async (c) => {
+        await Session.remove(c.req.valid("param").sessionID)
+        return c.json(true)
+      },
+    )
+    .post(
+      "/:projectID/session/:sessionID/abort",
+      describeRoute({
+        description: "Abort a session of a project",
+        operationId: "project.abortSession",
+        responses: {
+          200: {
+            description: "Aborted session",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...NOT_FOUND,
+        },
+      }),
+      validator("param", SessionParam),
+      async (c) => {
+        SessionPrompt.cancel(c.req.valid("param").sessionID)
+        return c.json(true)
+      },
+    )
+    .get(
+      "/:projectID/session/:sessionID/message",
+      describeRoute({
+        description: "List the messages of a session of a project",
+        operationId: "project.listMessages",
+        responses: {
+          200: {
+            description: "List of messages",
+            content: {
+              "application/json": {
+                schema: resolver(
+                  z
+                    .object({
+                      info: MessageV2.Info,
+                      parts: MessageV2.Part.array(),
+                    })
+                    .array(),
+                ),
+              },
+            },
+          },
+          ...NOT_FOUND,
+        },
+      }),
+      validator("param", SessionParam),
+      validator(
+        "query",
+        z.object({
+          limit: z.coerce.number().optional(),
+        }),
+      ),
+      async (c) => {
+        const messages = await Session.messages({
+          sessionID: c.req.valid("param").sessionID,
+          limit: c.req.valid("query").limit,
+        })
+        return c.json(messages)
+      },
+    )
+    .post(
+      "/:projectID/session/:sessionID/message",
+      describeRoute({
+        description: "Send a message to a session of a project",
+        operationId: "project.prompt",
+        responses: {
+          200: {
+            description: "Created message",
+            content: {
+              "application/json": {
+                schema: resolver(
+                  z.object({
+                    info: MessageV2.Assistant,
+                    parts: MessageV2.Part.array(),
+                  }),
+                ),
+              },
+            },
+          },
+          ...NOT_FOUND,
+        },
+      }),
+      validator("param", SessionParam),
+      validator("json", SessionPrompt.PromptInput.omit({ sessionID: true })),
+      async (c) => {
+        c.status(200)
+        c.header("Content-Type", "application/json")
+        return stream(c, async (stream) => {
+          const sessionID = c.req.valid("param").sessionID
+          const msg = await SessionPrompt.prompt({ ...c.req.valid("json"), sessionID })
+          stream.write(JSON.stringify(msg))
+        })
+      },
+    )
+    .post(
+      "/:projectID/session/:sessionID/permission/:permissionID",
+      describeRoute({
+        description: "Respond to a permission request in a project",
+        operationId: "project.respondPermission",
+        responses: {
+          200: {
+            description: "Permission processed successfully",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...NOT_FOUND,
+        },
+      }),
+      validator("param", SessionParam.extend({ permissionID: z.string() })),
+      validator("json", z.object({ response: Permission.Response, scope: PermissionRule.Scope.optional() })),
+      async (c) => {
+        const params = c.req.valid("param")
+        const body = c.req.valid("json")
+        Permission.respond({
+          sessionID: params.sessionID,
+          permissionID: params.permissionID,
+          response: body.response,
+          scope: body.scope,
+        })
+        return c.json(true)
+      },
+    )
+    .get(
+      "/:projectID/file/status",
+      describeRoute({
+        description: "Get the git status of files in a project",
+        operationId: "project.fileStatus",
+        responses: {
+          200: {
+            description: "File status",
+            content: {
+              "application/json": {
+                schema: resolver(File.Info.array()),
+              },
+            },
+          },
+          ...NOT_FOUND,
+        },
+      }),
+      validator("param", z.object({ projectID: z.string() })),
+      async (c) => {
+        const content = await File.status()
+        return c.json(content)
+      },
+    ),
+)
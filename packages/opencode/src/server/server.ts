@@ -19,16 +19,23 @@ import { Format } from "../format"
 import { MessageV2 } from "../session/message-v2"
 import { TuiRoute } from "./tui"
 import { Permission } from "../permission"
+import { PermissionRule } from "../permission/rule"
 import { Instance } from "../project/instance"
 import { Agent } from "../agent/agent"
 import { Auth } from "../auth"
 import { Command } from "../command"
 import { Global } from "../global"
 import { ProjectRoute } from "./project"
+import { PermissionRoute } from "./permission"
 import { ToolRegistry } from "../tool/registry"
 import { zodToJsonSchema } from "zod-to-json-schema"
 import { SessionPrompt } from "../session/prompt"
 import { SessionCompaction } from "../session/compaction"
+import { SessionBudget } from "../session/budget"
+import { SessionRecorder } from "../session/recorder"
+import { SessionShell } from "../session/shell"
+import { SessionBackground } from "../session/background"
+import { SessionWorktree } from "../session/worktree"
 import { SessionRevert } from "../session/revert"
 import { lazy } from "../util/lazy"
 import { Todo } from "../session/todo"
@@ -38,6 +45,7 @@ import { Storage } from "../storage/storage"
 import type { ContentfulStatusCode } from "hono/utils/http-status"
 import { TuiEvent } from "@/cli/cmd/tui/event"
 import { Snapshot } from "@/snapshot"
+import { SessionContext } from "../session/context"
 import { SessionSummary } from "@/session/summary"
 import { GlobalBus } from "@/bus/global"
 import { SessionStatus } from "@/session/status"
@@ -91,7 +99,12 @@ export namespace Server {
         })
         if (err instanceof NamedError) {
           let status: ContentfulStatusCode
-          if (err instanceof Storage.NotFoundError) status = 404
+          if (
+            err instanceof Storage.NotFoundError ||
+            err instanceof SessionBackground.NotFoundError ||
+            err instanceof MCP.NotFoundError
+          )
+            status = 404
           else if (err instanceof Provider.ModelNotFoundError) status = 400
           else status = 500
           return c.json(err.toObject(), { status })
@@ -187,7 +200,8 @@ export namespace Server {
         }),
       )
       .use(validator("query", z.object({ directory: z.string().optional() })))
-      .route("/project", ProjectRoute)
+      .route("/project", ProjectRoute())
+      .route("/permission", PermissionRoute)
       .get(
         "/config",
         describeRoute({
@@ -361,6 +375,36 @@ export namespace Server {
           return c.json(sessions)
         },
       )
+      .get(
+        "/session/search",
+        describeRoute({
+          description: "Search session titles, messages and tool calls",
+          operationId: "session.search",
+          responses: {
+            200: {
+              description: "Search results ordered by relevance",
+              content: {
+                "application/json": {
+                  schema: resolver(Session.SearchResult.array()),
+                },
+              },
+            },
+            ...errors(400),
+          },
+        }),
+        validator(
+          "query",
+          z.object({
+            query: z.string(),
+            limit: z.coerce.number().int().positive().optional(),
+          }),
+        ),
+        async (c) => {
+          const query = c.req.valid("query")
+          const result = await Session.search(query)
+          return c.json(result)
+        },
+      )
       .get(
         "/session/status",
         describeRoute({
@@ -470,6 +514,121 @@ export namespace Server {
           return c.json(todos)
         },
       )
+      .get(
+        "/session/:id/recording",
+        describeRoute({
+          description: "Get the recorded provider requests and responses of a session, one per step",
+          operationId: "session.recordings",
+          responses: {
+            200: {
+              description: "Recordings in step order",
+              content: {
+                "application/json": {
+                  schema: resolver(SessionRecorder.Info.array()),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            id: z.string().meta({ description: "Session ID" }),
+          }),
+        ),
+        async (c) => {
+          const sessionID = c.req.valid("param").id
+          const recordings = await SessionRecorder.list(sessionID)
+          return c.json(recordings)
+        },
+      )
+      .get(
+        "/session/:id/shell",
+        describeRoute({
+          description: "Get the persistent shells of a session with their working directory and status",
+          operationId: "session.shells",
+          responses: {
+            200: {
+              description: "Running shells",
+              content: {
+                "application/json": {
+                  schema: resolver(SessionShell.Info.array()),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            id: z.string().meta({ description: "Session ID" }),
+          }),
+        ),
+        async (c) => {
+          const sessionID = c.req.valid("param").id
+          return c.json(SessionShell.list(sessionID))
+        },
+      )
+      .get(
+        "/session/:id/background",
+        describeRoute({
+          description: "Get the background processes started in a session",
+          operationId: "session.backgrounds",
+          responses: {
+            200: {
+              description: "Background processes",
+              content: {
+                "application/json": {
+                  schema: resolver(SessionBackground.Info.array()),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            id: z.string().meta({ description: "Session ID" }),
+          }),
+        ),
+        async (c) => {
+          const sessionID = c.req.valid("param").id
+          return c.json(SessionBackground.list(sessionID))
+        },
+      )
+      .post(
+        "/session/:id/background/:processID/stop",
+        describeRoute({
+          description: "Stop a background process and the processes it spawned",
+          operationId: "session.backgroundStop",
+          responses: {
+            200: {
+              description: "Stopped process",
+              content: {
+                "application/json": {
+                  schema: resolver(SessionBackground.Info),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            id: z.string().meta({ description: "Session ID" }),
+            processID: z.string().meta({ description: "Background process ID" }),
+          }),
+        ),
+        async (c) => {
+          const params = c.req.valid("param")
+          const info = await SessionBackground.stop(params.id, params.processID)
+          return c.json(info)
+        },
+      )
       .post(
         "/session",
         describeRoute({
@@ -657,6 +816,90 @@ export namespace Server {
           return c.json(true)
         },
       )
+      .post(
+        "/session/:id/worktree/merge",
+        describeRoute({
+          description: "Merge the session's worktree branch into the current branch and remove the worktree",
+          operationId: "session.worktree.merge",
+          responses: {
+            200: {
+              description: "Updated session",
+              content: {
+                "application/json": {
+                  schema: resolver(Session.Info),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            id: z.string().meta({ description: "Session ID" }),
+          }),
+        ),
+        async (c) => {
+          const result = await SessionWorktree.merge(c.req.valid("param").id)
+          return c.json(result)
+        },
+      )
+      .post(
+        "/session/:id/worktree/pr",
+        describeRoute({
+          description: "Push the session's worktree branch and open a pull request",
+          operationId: "session.worktree.pr",
+          responses: {
+            200: {
+              description: "Updated session",
+              content: {
+                "application/json": {
+                  schema: resolver(Session.Info),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            id: z.string().meta({ description: "Session ID" }),
+          }),
+        ),
+        async (c) => {
+          const result = await SessionWorktree.pr(c.req.valid("param").id)
+          return c.json(result)
+        },
+      )
+      .delete(
+        "/session/:id/worktree",
+        describeRoute({
+          description: "Discard the session's worktree and branch",
+          operationId: "session.worktree.discard",
+          responses: {
+            200: {
+              description: "Updated session",
+              content: {
+                "application/json": {
+                  schema: resolver(Session.Info),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            id: z.string().meta({ description: "Session ID" }),
+          }),
+        ),
+        async (c) => {
+          const result = await SessionWorktree.discard(c.req.valid("param").id)
+          return c.json(result)
+        },
+      )
       .post(
         "/session/:id/share",
         describeRoute({
@@ -725,6 +968,33 @@ export namespace Server {
           return c.json(result)
         },
       )
+      .get(
+        "/session/:id/context",
+        describeRoute({
+          description: "Get a token breakdown of the context the next request would send",
+          operationId: "session.context",
+          responses: {
+            200: {
+              description: "Context breakdown",
+              content: {
+                "application/json": {
+                  schema: resolver(SessionContext.Breakdown),
+                },
+              },
+            },
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            id: SessionContext.get.schema,
+          }),
+        ),
+        async (c) => {
+          const result = await SessionContext.get(c.req.valid("param").id)
+          return c.json(result)
+        },
+      )
       .delete(
         "/session/:id/share",
         describeRoute({
@@ -799,6 +1069,104 @@ export namespace Server {
           return c.json(true)
         },
       )
+      .post(
+        "/session/:id/budget",
+        describeRoute({
+          description: "Raise the limit or stop a session paused by its budget",
+          operationId: "session.budget",
+          responses: {
+            200: {
+              description: "Whether the session was waiting on its budget",
+              content: {
+                "application/json": {
+                  schema: resolver(z.boolean()),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            id: z.string().meta({ description: "Session ID" }),
+          }),
+        ),
+        validator("json", z.object({ response: SessionBudget.Response })),
+        async (c) => {
+          const sessionID = c.req.valid("param").id
+          const response = c.req.valid("json").response
+          const result = await SessionBudget.respond({ sessionID, response })
+          if (result && response === "raise") {
+            SessionPrompt.loop(sessionID).catch((error) => log.error("budget resume failed", { error }))
+          }
+          return c.json(result)
+        },
+      )
+      .post(
+        "/session/:id/pin",
+        describeRoute({
+          description: "Pin a message or part so it is kept verbatim when the session is compacted",
+          operationId: "session.pin",
+          responses: {
+            200: {
+              description: "Updated session",
+              content: {
+                "application/json": {
+                  schema: resolver(Session.Info),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            id: z.string().meta({ description: "Session ID" }),
+          }),
+        ),
+        validator("json", SessionCompaction.Pin.omit({ sessionID: true })),
+        async (c) => {
+          const result = await SessionCompaction.pin({
+            sessionID: c.req.valid("param").id,
+            ...c.req.valid("json"),
+          })
+          return c.json(result)
+        },
+      )
+      .delete(
+        "/session/:id/pin",
+        describeRoute({
+          description: "Unpin a message or part",
+          operationId: "session.unpin",
+          responses: {
+            200: {
+              description: "Updated session",
+              content: {
+                "application/json": {
+                  schema: resolver(Session.Info),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            id: z.string().meta({ description: "Session ID" }),
+          }),
+        ),
+        validator("query", SessionCompaction.Pin.omit({ sessionID: true })),
+        async (c) => {
+          const result = await SessionCompaction.unpin({
+            sessionID: c.req.valid("param").id,
+            ...c.req.valid("query"),
+          })
+          return c.json(result)
+        },
+      )
       .get(
         "/session/:id/message",
         describeRoute({
@@ -1096,15 +1464,17 @@ export namespace Server {
             permissionID: z.string(),
           }),
         ),
-        validator("json", z.object({ response: Permission.Response })),
+        validator("json", z.object({ response: Permission.Response, scope: PermissionRule.Scope.optional() })),
         async (c) => {
           const params = c.req.valid("param")
           const id = params.id
           const permissionID = params.permissionID
+          const body = c.req.valid("json")
           Permission.respond({
             sessionID: id,
             permissionID,
-            response: c.req.valid("json").response,
+            response: body.response,
+            scope: body.scope,
           })
           return c.json(true)
         },
@@ -1456,6 +1826,162 @@ export namespace Server {
           return c.json(result.status)
         },
       )
+      .delete(
+        "/mcp/:name",
+        describeRoute({
+          description: "Stop an MCP server and remove it from the config",
+          operationId: "mcp.remove",
+          responses: {
+            200: {
+              description: "MCP server removed",
+              content: {
+                "application/json": {
+                  schema: resolver(z.boolean()),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            name: z.string(),
+          }),
+        ),
+        async (c) => {
+          await MCP.remove(c.req.valid("param").name)
+          return c.json(true)
+        },
+      )
+      .post(
+        "/mcp/:name/restart",
+        describeRoute({
+          description: "Reconnect to an MCP server",
+          operationId: "mcp.restart",
+          responses: {
+            200: {
+              description: "MCP server status",
+              content: {
+                "application/json": {
+                  schema: resolver(MCP.Status),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            name: z.string(),
+          }),
+        ),
+        async (c) => {
+          return c.json(await MCP.restart(c.req.valid("param").name))
+        },
+      )
+      .post(
+        "/mcp/:name/enable",
+        describeRoute({
+          description: "Enable an MCP server and save it to the config",
+          operationId: "mcp.enable",
+          responses: {
+            200: {
+              description: "MCP server status",
+              content: {
+                "application/json": {
+                  schema: resolver(MCP.Status),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            name: z.string(),
+          }),
+        ),
+        async (c) => {
+          return c.json(await MCP.enable(c.req.valid("param").name))
+        },
+      )
+      .post(
+        "/mcp/:name/disable",
+        describeRoute({
+          description: "Disable an MCP server and save it to the config",
+          operationId: "mcp.disable",
+          responses: {
+            200: {
+              description: "MCP server status",
+              content: {
+                "application/json": {
+                  schema: resolver(MCP.Status),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            name: z.string(),
+          }),
+        ),
+        async (c) => {
+          return c.json(await MCP.disable(c.req.valid("param").name))
+        },
+      )
+      .get(
+        "/mcp/:name/log",
+        describeRoute({
+          description: "Get the recent stderr output and connection events of an MCP server",
+          operationId: "mcp.logs",
+          responses: {
+            200: {
+              description: "Log lines, oldest first",
+              content: {
+                "application/json": {
+                  schema: resolver(z.string().array()),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            name: z.string(),
+          }),
+        ),
+        async (c) => {
+          return c.json(await MCP.logs(c.req.valid("param").name))
+        },
+      )
+      .get(
+        "/mcp/resource",
+        describeRoute({
+          description: "List the resources of the connected MCP servers",
+          operationId: "mcp.resources",
+          responses: {
+            200: {
+              description: "MCP resources",
+              content: {
+                "application/json": {
+                  schema: resolver(MCP.Resource.array()),
+                },
+              },
+            },
+          },
+        }),
+        async (c) => {
+          return c.json(await MCP.resources())
+        },
+      )
       .get(
         "/lsp",
         describeRoute({
@@ -0,0 +1,221 @@
+import z from "zod"
+import { spawn, type ChildProcess } from "child_process"
+import { Bus } from "../bus"
+import { Instance } from "../project/instance"
+import { Identifier } from "../id/id"
+import { NamedError } from "../util/error"
+import { Log } from "../util/log"
+
+/**
+ * Long-running processes such as dev servers and test watchers that the agent
+ * starts and keeps talking to across tool calls. Their combined output is kept
+ * in a bounded buffer, and every process of the instance is stopped when it is
+ * disposed.
+ */
+export namespace SessionBackground {
+  const log = Log.create({ service: "session.background" })
+
+  const MAX_BUFFER = 1024 * 1024
+  const SIGKILL_TIMEOUT_MS = 200
+  // finished processes kept around so their output can still be read
+  const MAX_FINISHED = 16
+
+  export const Info = z
+    .object({
+      id: Identifier.schema("process"),
+      sessionID: z.string(),
+      command: z.string(),
+      description: z.string(),
+      pid: z.number(),
+      status: z.enum(["running", "exited", "stopped"]),
+      exit: z.number().nullable().optional(),
+      time: z.object({
+        started: z.number(),
+        ended: z.number().optional(),
+      }),
+    })
+    .meta({
+      ref: "BackgroundProcess",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export const Event = {
+    Updated: Bus.event(
+      "session.background.updated",
+      z.object({
+        info: Info,
+      }),
+    ),
+  }
+
+  export const NotFoundError = NamedError.create(
+    "BackgroundProcessNotFoundError",
+    z.object({
+      sessionID: z.string(),
+      id: z.string(),
+    }),
+  )
+
+  type Entry = {
+    info: Info
+    proc: ChildProcess
+    output: string
+    // characters dropped from the start of the buffer
+    dropped: number
+  }
+
+  const state = Instance.state(
+    () => {
+      const processes: Record<string, Entry> = {}
+      return processes
+    },
+    async (processes) => {
+      await Promise.all(Object.values(processes).map((entry) => kill(entry)))
+    },
+  )
+
+  async function kill(entry: Entry) {
+    const pid = entry.proc.pid
+    if (!pid || entry.proc.exitCode !== null || entry.proc.signalCode !== null) return
+    const exited = new Promise<void>((resolve) => entry.proc.once("exit", () => resolve()))
+    if (process.platform === "win32") {
+      spawn("taskkill", ["/pid", String(pid), "/f", "/t"], { stdio: "ignore" })
+      await exited
+      return
+    }
+    const signal = (name: NodeJS.Signals) => {
+      try {
+        process.kill(-pid, name)
+      } catch (_e) {
+        entry.proc.kill(name)
+      }
+    }
+    signal("SIGTERM")
+    const timer = setTimeout(() => signal("SIGKILL"), SIGKILL_TIMEOUT_MS)
+    await exited
+    clearTimeout(timer)
+  }
+
+  function update(entry: Entry) {
+    Bus.publish(Event.Updated, { info: entry.info })
+  }
+
+  function prune() {
+    const processes = state()
+    const finished = Object.values(processes).filter((x) => x.info.status !== "running")
+    for (const item of finished.slice(0, -MAX_FINISHED)) delete processes[item.info.id]
+  }
+
+  export function start(input: { sessionID: string; command: string; description: string }) {
+    prune()
+    const proc = spawn(input.command, {
+      shell: true,
+      cwd: Instance.directory,
+      env: {
+        ...process.env,
+      },
+      stdio: ["ignore", "pipe", "pipe"],
+      detached: process.platform !== "win32",
+    })
+    const entry: Entry = {
+      info: {
+        id: Identifier.ascending("process"),
+        sessionID: input.sessionID,
+        command: input.command,
+        description: input.description,
+        pid: proc.pid ?? 0,
+        status: "running",
+        time: {
+          started: Date.now(),
+        },
+      },
+      proc,
+      output: "",
+      dropped: 0,
+    }
+    const append = (chunk: Buffer) => {
+      entry.output += chunk.toString()
+      if (entry.output.length > MAX_BUFFER) {
+        const excess = entry.output.length - MAX_BUFFER
+        entry.output = entry.output.slice(excess)
+        entry.dropped += excess
+      }
+    }
+    proc.stdout?.on("data", append)
+    proc.stderr?.on("data", append)
+    proc.once("exit", (code) => {
+      if (entry.info.status === "running") entry.info.status = "exited"
+      entry.info.exit = code
+      entry.info.time.ended = Date.now()
+      log.info("exited", { id: entry.info.id, code })
+      update(entry)
+    })
+    proc.once("error", (error) => {
+      append(Buffer.from(String(error)))
+    })
+    state()[entry.info.id] = entry
+    log.info("started", { id: entry.info.id, command: input.command, pid: proc.pid })
+    update(entry)
+    return entry.info
+  }
+
+  function entry(sessionID: string, id: string) {
+    const result = state()[id]
+    if (!result || result.info.sessionID !== sessionID) throw new NotFoundError({ sessionID, id })
+    return result
+  }
+
+  export function list(sessionID: string) {
+    return Object.values(state())
+      .filter((x) => x.info.sessionID === sessionID)
+      .map((x) => x.info)
+  }
+
+  export function get(sessionID: string, id: string) {
+    return entry(sessionID, id).info
+  }
+
+  /**
+   * The last lines of a process's output, optionally only those matching a
+   * regular expression.
+   */
+  export function output(input: { sessionID: string; id: string; lines: number; pattern?: string }) {
+    const item = entry(input.sessionID, input.id)
+    const regex = (() => {
+      if (!input.pattern) return
+      try {
+        return new RegExp(input.pattern)
+      } catch (e) {
+        throw new Error(`Invalid pattern ${input.pattern}: ${e instanceof Error ? e.message : e}`)
+      }
+    })()
+    const lines = item.output.split("\n")
+    if (lines.at(-1) === "") lines.pop()
+    const matched = regex ? lines.filter((line) => regex.test(line)) : lines
+    return {
+      info: item.info,
+      lines: matched.slice(-input.lines),
+      total: matched.length,
+      truncated: item.dropped > 0,
+    }
+  }
+
+  export async function stop(sessionID: string, id: string) {
+    const item = entry(sessionID, id)
+    if (item.info.status !== "running") return item.info
+    item.info.status = "stopped"
+    await kill(item)
+    return item.info
+  }
+
+  /**
+   * Stops and forgets every process of a session, for example when the session
+   * is deleted.
+   */
+  export async function stopAll(sessionID: string) {
+    for (const info of list(sessionID)) {
+      await stop(sessionID, info.id)
+      delete state()[info.id]
+    }
+  }
+}
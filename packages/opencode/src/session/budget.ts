@@ -0,0 +1,226 @@
+import z from "zod"
+import { Session } from "."
+import { SessionStatus } from "./status"
+import { MessageV2 } from "./message-v2"
+import { Agent } from "../agent/agent"
+import { Config } from "../config/config"
+import { Identifier } from "../id/id"
+import { Instance } from "../project/instance"
+import { Bus } from "../bus"
+import { Log } from "../util/log"
+import { fn } from "@/util/fn"
+
+/**
+ * Cost, token and step limits that pause the agent loop before the next model
+ * request once a session, the agent it runs or the whole project for the day
+ * has used them up. The user can then raise the limit or stop.
+ */
+export namespace SessionBudget {
+  const log = Log.create({ service: "session.budget" })
+
+  export type Exceeded = Extract<SessionStatus.Info, { type: "budget_exceeded" }>
+  type Limit = Exceeded["limit"]
+
+  const LIMITS = ["cost", "tokens", "steps"] as const satisfies Limit[]
+
+  type Usage = Record<Limit, number>
+
+  function usage(messages: MessageV2.Info[]): Usage {
+    const result = { cost: 0, tokens: 0, steps: 0 }
+    for (const msg of messages) {
+      if (msg.role !== "assistant") continue
+      // written instead of a step when a budget was used up
+      if (msg.error?.name === "MessageBudgetExceededError") continue
+      result.cost += msg.cost
+      result.tokens +=
+        msg.tokens.input + msg.tokens.output + msg.tokens.reasoning + msg.tokens.cache.read + msg.tokens.cache.write
+      result.steps++
+    }
+    return result
+  }
+
+  type Day = {
+    since: number
+    total: Usage
+    // what each message adds to the total, as messages are updated while they stream
+    counted: Map<string, { sessionID: string; usage: Usage }>
+    loaded: Promise<void>
+  }
+
+  // running totals of the day budget, per project and shared by its instances
+  const days = new Map<string, Day>()
+
+  function track(day: Day, msg: MessageV2.Info) {
+    if (msg.time.created < day.since) return
+    const previous = day.counted.get(msg.id)?.usage
+    const next = usage([msg])
+    day.counted.set(msg.id, { sessionID: msg.sessionID, usage: next })
+    for (const limit of LIMITS) day.total[limit] += next[limit] - (previous?.[limit] ?? 0)
+  }
+
+  function untrack(day: Day, messageID: string) {
+    const previous = day.counted.get(messageID)?.usage
+    if (!previous) return
+    day.counted.delete(messageID)
+    for (const limit of LIMITS) day.total[limit] -= previous[limit]
+  }
+
+  const subscriptions = Instance.state(
+    () => {
+      const project = Instance.project.id
+      return [
+        Bus.subscribe(MessageV2.Event.Updated, (event) => {
+          const day = days.get(project)
+          if (day) track(day, event.properties.info)
+        }),
+        Bus.subscribe(MessageV2.Event.Removed, (event) => {
+          const day = days.get(project)
+          if (day) untrack(day, event.properties.messageID)
+        }),
+        Bus.subscribe(Session.Event.Deleted, (event) => {
+          const day = days.get(project)
+          if (!day) return
+          for (const [messageID, item] of day.counted) {
+            if (item.sessionID === event.properties.info.id) untrack(day, messageID)
+          }
+        }),
+      ]
+    },
+    async (unsubscribe) => {
+      for (const item of unsubscribe) item()
+    },
+  )
+
+  // the day budget covers every session of the project, so it is only counted
+  // when configured: read from storage once a day, then kept up to date from
+  // message updates
+  async function today() {
+    subscriptions()
+    const start = new Date()
+    start.setHours(0, 0, 0, 0)
+    const since = start.getTime()
+    let day = days.get(Instance.project.id)
+    if (day?.since !== since) {
+      const loading: Day = {
+        since,
+        total: { cost: 0, tokens: 0, steps: 0 },
+        counted: new Map(),
+        loaded: Promise.resolve(),
+      }
+      loading.loaded = (async () => {
+        for await (const session of Session.list()) {
+          if (session.time.updated < since) continue
+          for (const msg of await Session.messages({ sessionID: session.id })) {
+            // updates that arrived meanwhile are newer
+            if (!loading.counted.has(msg.info.id)) track(loading, msg.info)
+          }
+        }
+      })().catch((error) => {
+        days.delete(Instance.project.id)
+        throw error
+      })
+      day = loading
+      days.set(Instance.project.id, day)
+    }
+    await day.loaded
+    return { ...day.total }
+  }
+
+  function exceeded(scope: Exceeded["scope"], budget: Config.Budget | undefined, used: Usage, extra: Usage) {
+    if (!budget) return
+    for (const limit of LIMITS) {
+      const max = budget[limit]
+      if (max === undefined) continue
+      if (used[limit] >= max + extra[limit]) {
+        return {
+          type: "budget_exceeded",
+          scope,
+          limit,
+          used: used[limit],
+          max: max + extra[limit],
+        } satisfies Exceeded
+      }
+    }
+  }
+
+  export function describe(input: Exceeded) {
+    const amount = (value: number) => (input.limit === "cost" ? `$${value.toFixed(2)}` : `${value} ${input.limit}`)
+    return `The ${input.scope} budget of ${amount(input.max)} is used up (${amount(input.used)} used)`
+  }
+
+  /**
+   * Returns the first budget the session has used up, or undefined when the
+   * next step may run.
+   */
+  export const check = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      agent: z.string(),
+    }),
+    async (input) => {
+      const config = await Config.get().then((x) => x.budget)
+      const agent = await Agent.get(input.agent)
+      if (!config?.session && !config?.day && !agent?.budget) return
+      const session = await Session.get(input.sessionID)
+      const extra = (scope: Exceeded["scope"]) => ({ cost: 0, tokens: 0, steps: 0, ...session.budget?.[scope] })
+      const messages = await Session.messages({ sessionID: input.sessionID }).then((x) => x.map((msg) => msg.info))
+      const result =
+        exceeded("session", config?.session, usage(messages), extra("session")) ??
+        exceeded(
+          "agent",
+          agent?.budget,
+          usage(messages.filter((msg) => msg.role === "assistant" && msg.mode === input.agent)),
+          extra("agent"),
+        ) ??
+        (config?.day ? exceeded("day", config.day, await today(), extra("day")) : undefined)
+      if (result) log.info("exceeded", { sessionID: input.sessionID, ...result })
+      return result
+    },
+  )
+
+  export const Response = z.enum(["raise", "stop"])
+  export type Response = z.infer<typeof Response>
+
+  /**
+   * Raising grants the session another allowance of the limit it hit, in the
+   * scope that hit it only, after which the caller resumes the loop. Stopping
+   * leaves the session idle.
+   */
+  export const respond = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      response: Response,
+    }),
+    async (input) => {
+      const status = SessionStatus.get(input.sessionID)
+      if (status.type !== "budget_exceeded") return false
+      if (input.response === "stop") {
+        SessionStatus.set(input.sessionID, { type: "idle" })
+        return true
+      }
+      const config = await Config.get().then((x) => x.budget)
+      const last = await Session.messages({ sessionID: input.sessionID }).then(
+        (x) => x.findLast((msg) => msg.info.role === "user")?.info as MessageV2.User | undefined,
+      )
+      const budget =
+        status.scope === "agent"
+          ? await Agent.get(last?.agent ?? "build").then((x) => x?.budget)
+          : status.scope === "day"
+            ? config?.day
+            : config?.session
+      const step = budget?.[status.limit] ?? status.max
+      await Session.update(input.sessionID, (draft) => {
+        const current = draft.budget?.[status.scope]
+        draft.budget = {
+          ...draft.budget,
+          [status.scope]: {
+            ...current,
+            [status.limit]: (current?.[status.limit] ?? 0) + step,
+          },
+        }
+      })
+      log.info("raised", { sessionID: input.sessionID, scope: status.scope, limit: status.limit, step })
+      return true
+    },
+  )
+}
@@ -14,7 +14,9 @@ import { Token } from "../util/token"
 import { Log } from "../util/log"
 import { ProviderTransform } from "@/provider/transform"
 import { SessionProcessor } from "./processor"
+import { SessionRecorder } from "./recorder"
 import { fn } from "@/util/fn"
+import { Config } from "../config/config"
 
 export namespace SessionCompaction {
   const log = Log.create({ service: "session.compaction" })
@@ -28,26 +30,50 @@ export namespace SessionCompaction {
     ),
   }
 
-  export function isOverflow(input: { tokens: MessageV2.Assistant["tokens"]; model: ModelsDev.Model }) {
+  async function config() {
+    return Config.get().then((x) => x.compaction ?? {})
+  }
+
+  /**
+   * @param threshold percentage of the context window, from the compaction config
+   */
+  export function isOverflow(input: {
+    tokens: MessageV2.Assistant["tokens"]
+    model: ModelsDev.Model
+    threshold?: number
+  }) {
     if (Flag.OPENCODE_DISABLE_AUTOCOMPACT) return false
     const context = input.model.limit.context
     if (context === 0) return false
     const count = input.tokens.input + input.tokens.cache.read + input.tokens.output
     const output = Math.min(input.model.limit.output, SessionPrompt.OUTPUT_TOKEN_MAX) || SessionPrompt.OUTPUT_TOKEN_MAX
-    const usable = context - output
+    const usable = input.threshold ? Math.min(context - output, (context * input.threshold) / 100) : context - output
     return count > usable
   }
 
   export const PRUNE_MINIMUM = 20_000
   export const PRUNE_PROTECT = 40_000
 
-  // goes backwards through parts until there are 40_000 tokens worth of tool
-  // calls. then erases output of previous tool calls. idea is to throw away old
-  // tool calls that are no longer relevant.
-  export async function prune(input: { sessionID: string }) {
-    if (Flag.OPENCODE_DISABLE_PRUNE) return
+  // goes backwards through parts until there are PRUNE_PROTECT tokens worth of
+  // tool calls. then erases output of previous tool calls. idea is to throw away
+  // old tool calls that are no longer relevant. with force the minimum is
+  // ignored. returns whether anything was pruned.
+  export async function prune(input: { sessionID: string; force?: boolean }) {
+    if (Flag.OPENCODE_DISABLE_PRUNE) return false
     log.info("pruning")
     const msgs = await Session.messages({ sessionID: input.sessionID })
+    const cfg = await config()
+    const pinned = await Session.get(input.sessionID).then((x) => x.pinned ?? [])
+    const user = msgs.findLast((x) => x.info.role === "user")?.info as MessageV2.User | undefined
+    const model = user
+      ? await Provider.getModel(user.model.providerID, user.model.modelID).catch(() => undefined)
+      : undefined
+    const tokenizer = model ? await Token.tokenizer(model.info) : Token.approximate
+    const context = model?.info.limit.context ?? 0
+    const percent = (value: number | undefined, fallback: number) =>
+      value !== undefined && context ? Math.round((context * value) / 100) : fallback
+    const protect = percent(cfg.prune?.protect, PRUNE_PROTECT)
+    const minimum = input.force ? 0 : percent(cfg.prune?.minimum, PRUNE_MINIMUM)
     let total = 0
     let pruned = 0
     const toPrune = []
@@ -63,9 +89,10 @@ export namespace SessionCompaction {
         if (part.type === "tool")
           if (part.state.status === "completed") {
             if (part.state.time.compacted) break loop
-            const estimate = Token.estimate(part.state.output)
+            if (pinned.some((pin) => pin.messageID === msg.info.id && (!pin.partID || pin.partID === part.id))) continue
+            const estimate = tokenizer.count(part.state.output)
             total += estimate
-            if (total > PRUNE_PROTECT) {
+            if (total > protect) {
               pruned += estimate
               toPrune.push(part)
             }
@@ -73,7 +100,7 @@ export namespace SessionCompaction {
       }
     }
     log.info("found", { pruned, total })
-    if (pruned > PRUNE_MINIMUM) {
+    if (pruned > minimum) {
       for (const part of toPrune) {
         if (part.state.status === "completed") {
           part.state.time.compacted = Date.now()
@@ -81,7 +108,115 @@ export namespace SessionCompaction {
         }
       }
       log.info("pruned", { count: toPrune.length })
+      return true
+    }
+    return false
+  }
+
+  /**
+   * Messages sent to the model: everything since the last compaction, preceded
+   * by pinned content from before it, along with the prompts pinned replies
+   * answer, and followed, after the summary, by the turns the compaction kept
+   * verbatim.
+   */
+  export async function history(sessionID: string) {
+    const msgs = await MessageV2.filterCompacted(MessageV2.stream(sessionID))
+    const boundary = msgs[0]
+    const part = boundary?.parts.find((x): x is MessageV2.CompactionPart => x.type === "compaction")
+    const summary = msgs.findIndex(
+      (x) => x.info.role === "assistant" && x.info.summary && x.info.finish && x.info.parentID === boundary.info.id,
+    )
+    if (!part || summary === -1) return msgs
+
+    const included = new Set(msgs.map((x) => x.info.id))
+    const load = (messageID: string) =>
+      MessageV2.get({ sessionID, messageID }).catch(() => {
+        log.warn("compacted message missing", { messageID })
+        return undefined
+      })
+
+    const kept: MessageV2.WithParts[] = []
+    for (const messageID of part.keep ?? []) {
+      if (included.has(messageID)) continue
+      const msg = await load(messageID)
+      if (!msg) continue
+      kept.push(msg)
+      included.add(messageID)
+    }
+
+    const pinned: MessageV2.WithParts[] = []
+    const pins = (await Session.get(sessionID)).pinned ?? []
+    for (const messageID of new Set(pins.map((x) => x.messageID).toSorted())) {
+      if (included.has(messageID)) continue
+      const msg = await load(messageID)
+      if (!msg) continue
+      // some providers reject a reply without the prompt it answers before it
+      if (msg.info.role === "assistant" && !included.has(msg.info.parentID)) {
+        const parent = await load(msg.info.parentID)
+        if (parent) {
+          pinned.push(parent)
+          included.add(parent.info.id)
+        }
+      }
+      const whole = pins.some((x) => x.messageID === messageID && !x.partID)
+      const parts = whole ? msg.parts : msg.parts.filter((x) => pins.some((pin) => pin.partID === x.id))
+      pinned.push({ ...msg, parts })
+      included.add(messageID)
     }
+
+    return [...pinned, ...msgs.slice(0, summary + 1), ...kept, ...msgs.slice(summary + 1)]
+  }
+
+  // message ids of the last `turns` user turns, stopping at an earlier compaction
+  function recent(msgs: MessageV2.WithParts[], turns: number) {
+    const result: string[] = []
+    let count = 0
+    for (let i = msgs.length - 1; i >= 0 && count < turns; i--) {
+      const msg = msgs[i]
+      if (msg.parts.some((x) => x.type === "compaction")) break
+      if (msg.info.role === "assistant" && msg.info.summary) break
+      result.unshift(msg.info.id)
+      if (msg.info.role === "user") count++
+    }
+    return result
+  }
+
+  // one line per turn built from the per-turn summaries SessionSummary writes
+  function digest(msgs: MessageV2.WithParts[]) {
+    const lines: string[] = []
+    for (const msg of msgs) {
+      if (msg.info.role === "assistant" && msg.info.summary) {
+        const text = msg.parts.findLast((x) => x.type === "text")
+        if (text?.type === "text") lines.push(`Summary of earlier work:\n${text.text}`)
+        continue
+      }
+      if (msg.info.role !== "user" || msg.parts.some((x) => x.type === "compaction")) continue
+      const replies = msgs.filter((x) => x.info.role === "assistant" && x.info.parentID === msg.info.id)
+      const request =
+        msg.info.summary?.title ??
+        msg.parts
+          .filter((x) => x.type === "text" && !x.synthetic)
+          .map((x) => (x.type === "text" ? x.text : ""))
+          .join("\n")
+          .slice(0, 500)
+      const outcome =
+        msg.info.summary?.body ??
+        replies
+          .flatMap((x) => x.parts)
+          .findLast((x) => x.type === "text")
+          ?.text.slice(0, 1000)
+      const files = msg.info.summary?.diffs.map((x) => x.file) ?? []
+      lines.push(
+        [
+          `- Request: ${request}`,
+          outcome ? `  Outcome: ${outcome}` : undefined,
+          files.length ? `  Files: ${files.join(", ")}` : undefined,
+        ]
+          .filter(Boolean)
+          .join("\n"),
+      )
+    }
+    return lines.join("\n")
   }
 
   export async function process(input: {
@@ -96,6 +231,49 @@ export namespace SessionCompaction {
   }) {
     const model = await Provider.getModel(input.model.providerID, input.model.modelID)
     const system = [...SystemPrompt.summarize(model.providerID)]
+    const cfg = await config()
+    const strategy = cfg.strategy ?? "summary"
+
+    // rolling and hierarchical keep the latest turns verbatim and only summarise what came before
+    const parent = input.messages.find((x) => x.info.id === input.parentID)
+    const history = input.messages.filter((x) => x !== parent)
+    let keep = strategy === "rolling" || strategy === "hierarchical" ? recent(history, cfg.keep ?? 2) : []
+    let older = history.filter((x) => !keep.includes(x.info.id))
+    if (!older.some((x) => x.info.role === "user" && !x.parts.some((p) => p.type === "compaction"))) {
+      keep = []
+      older = history
+    }
+    const part = parent?.parts.find((x): x is MessageV2.CompactionPart => x.type === "compaction")
+    if (part && keep.length) await Session.updatePart({ ...part, keep })
+    const summarized: ModelMessage[] =
+      strategy === "hierarchical"
+        ? [
+            {
+              role: "user",
+              content: [
+                {
+                  type: "text",
+                  text: `Here is a digest of the conversation so far, one entry per turn:\n\n${digest(older)}`,
+                },
+              ],
+            },
+          ]
+        : MessageV2.toModelMessage(
+            [...older, ...(parent ? [parent] : [])].filter((m) => {
+              if (m.info.role !== "assistant" || m.info.error === undefined) {
+                return true
+              }
+              if (
+                MessageV2.AbortedError.isInstance(m.info.error) &&
+                m.parts.some((part) => part.type !== "step-start" && part.type !== "reasoning")
+              ) {
+                return true
+              }
+
+              return false
+            }),
+          )
+    log.info("compacting", { strategy, keep: keep.length })
     const msg = (await Session.updateMessage({
       id: Identifier.ascending("message"),
       role: "assistant",
@@ -123,10 +301,10 @@ export namespace SessionCompaction {
     const processor = SessionProcessor.create({
       assistantMessage: msg,
       sessionID: input.sessionID,
-      providerID: input.model.providerID,
-      model: model.info,
+      model,
       abort: input.abort,
     })
+    const record = await SessionRecorder.enabled()
     const result = await processor.process(() =>
       streamText({
         onError(error) {
@@ -150,21 +328,7 @@ export namespace SessionCompaction {
               content: x,
             }),
           ),
-          ...MessageV2.toModelMessage(
-            input.messages.filter((m) => {
-              if (m.info.role !== "assistant" || m.info.error === undefined) {
-                return true
-              }
-              if (
-                MessageV2.AbortedError.isInstance(m.info.error) &&
-                m.parts.some((part) => part.type !== "step-start" && part.type !== "reasoning")
-              ) {
-                return true
-              }
-
-              return false
-            }),
-          ),
+          ...summarized,
           {
             role: "user",
             content: [
@@ -187,6 +351,16 @@ export namespace SessionCompaction {
                 return args.params
               },
             },
+            ...(record
+              ? [
+                  SessionRecorder.middleware({
+                    sessionID: input.sessionID,
+                    messageID: msg.id,
+                    providerID: model.providerID,
+                    modelID: model.modelID,
+                  }),
+                ]
+              : []),
           ],
         }),
       }),
@@ -246,4 +420,31 @@ export namespace SessionCompaction {
       })
     },
   )
+
+  export const Pin = z.object({
+    sessionID: Identifier.schema("session"),
+    messageID: Identifier.schema("message"),
+    partID: Identifier.schema("part").optional(),
+  })
+
+  // pinning a whole message replaces any pins on its individual parts
+  export const pin = fn(Pin, async (input) => {
+    await MessageV2.get({ sessionID: input.sessionID, messageID: input.messageID })
+    return Session.update(input.sessionID, (draft) => {
+      const pinned = (draft.pinned ?? []).filter(
+        (x) => x.messageID !== input.messageID || (input.partID !== undefined && x.partID !== input.partID),
+      )
+      pinned.push({ messageID: input.messageID, partID: input.partID })
+      draft.pinned = pinned
+    })
+  })
+
+  // unpinning a message without a part id removes every pin on it
+  export const unpin = fn(Pin, async (input) => {
+    return Session.update(input.sessionID, (draft) => {
+      draft.pinned = (draft.pinned ?? []).filter(
+        (x) => x.messageID !== input.messageID || (input.partID !== undefined && x.partID !== input.partID),
+      )
+    })
+  })
 }
@@ -0,0 +1,116 @@
+import z from "zod"
+import { asSchema } from "ai"
+import { mergeDeep, pipe } from "remeda"
+import { MessageV2 } from "./message-v2"
+import { SessionCompaction } from "./compaction"
+import { SystemPrompt } from "./system"
+import { Agent } from "../agent/agent"
+import { Provider } from "../provider/provider"
+import { ToolRegistry } from "../tool/registry"
+import { MCP } from "../mcp"
+import { Identifier } from "../id/id"
+import { Instance } from "../project/instance"
+import { Token } from "../util/token"
+import { Wildcard } from "../util/wildcard"
+import { fn } from "@/util/fn"
+
+/**
+ * Token breakdown of what the next request for a session would send, so users
+ * can see what is eating their context window.
+ */
+export namespace SessionContext {
+  export const Breakdown = z
+    .object({
+      providerID: z.string(),
+      modelID: z.string(),
+      tokenizer: z.string().describe('BPE encoding used, or "estimate" when none is bundled for the model'),
+      system: z.number().describe("Provider and agent prompts plus environment details"),
+      instructions: z.number().describe("AGENTS.md and configured instruction files"),
+      tools: z.number().describe("Tool names, descriptions and parameter schemas"),
+      history: z
+        .number()
+        .describe("Message text, reasoning and tool inputs since the last compaction, plus pinned content"),
+      toolOutputs: z.number().describe("Tool results still kept in the history"),
+      total: z.number(),
+      limit: z.number().describe("Context window of the model, 0 when unknown"),
+    })
+    .meta({
+      ref: "SessionContext",
+    })
+  export type Breakdown = z.infer<typeof Breakdown>
+
+  // Counting a long history is not free, so counts are reused for the same text,
+  // dropping the oldest ones past the limit
+  const CACHE_LIMIT = 10_000
+  const cache = Instance.state(() => new Map<string, number>())
+
+  export const get = fn(Identifier.schema("session"), async (sessionID) => {
+    const msgs = await SessionCompaction.history(sessionID)
+    const user = msgs.findLast((x) => x.info.role === "user")?.info as MessageV2.User | undefined
+    const model = user?.model ?? (await Provider.defaultModel())
+    const info = await Provider.getModel(model.providerID, model.modelID).then((x) => x.info)
+    const agent = await Agent.get(user?.agent ?? "build")
+    const tokenizer = await Token.tokenizer(info)
+    const counts = cache()
+    const count = (text: string) => {
+      const id = `${tokenizer.id}:${Bun.hash(text).toString(16)}`
+      const existing = counts.get(id)
+      if (existing !== undefined) return existing
+      const result = tokenizer.count(text)
+      counts.set(id, result)
+      if (counts.size > CACHE_LIMIT) counts.delete(counts.keys().next().value!)
+      return result
+    }
+
+    const system = [
+      ...SystemPrompt.header(model.providerID),
+      ...(user?.system ? [user.system] : agent.prompt ? [agent.prompt] : SystemPrompt.provider(info.id)),
+      ...(await SystemPrompt.environment()),
+    ]
+    const instructions = await SystemPrompt.custom()
+
+    const enabled = pipe(
+      agent.tools,
+      mergeDeep(await ToolRegistry.enabled(model.providerID, model.modelID, agent)),
+      mergeDeep(user?.tools ?? {}),
+      ToolRegistry.gate,
+    )
+    const schemas: string[] = []
+    for (const item of await ToolRegistry.tools(model.providerID, model.modelID)) {
+      if (Wildcard.all(item.id, enabled) === false) continue
+      schemas.push(JSON.stringify([item.id, item.description, z.toJSONSchema(item.parameters)]))
+    }
+    for (const [key, item] of Object.entries(await MCP.tools({ name: agent.name, tools: enabled }))) {
+      schemas.push(JSON.stringify([key, item.description, await asSchema(item.inputSchema).jsonSchema]))
+    }
+
+    let history = 0
+    let toolOutputs = 0
+    for (const msg of msgs) {
+      for (const part of msg.parts) {
+        if (part.type === "text" || part.type === "reasoning") history += count(part.text)
+        if (part.type !== "tool") continue
+        history += count(JSON.stringify(part.state.input))
+        if (part.state.status === "error") toolOutputs += count(part.state.error)
+        if (part.state.status === "completed" && !part.state.time.compacted) {
+          toolOutputs += count(part.state.output)
+        }
+      }
+    }
+
+    const result = {
+      providerID: model.providerID,
+      modelID: model.modelID,
+      tokenizer: tokenizer.id,
+      system: tokenizer.count(system.join("\n")),
+      instructions: tokenizer.count(instructions.join("\n")),
+      tools: tokenizer.count(schemas.join("\n")),
+      history,
+      toolOutputs,
+      total: 0,
+      limit: info.limit.context,
+    }
+    result.total = result.system + result.instructions + result.tools + result.history + result.toolOutputs
+    return result satisfies Breakdown
+  })
+}
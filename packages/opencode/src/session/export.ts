@@ -0,0 +1,267 @@
+import z from "zod"
+import { Session } from "."
+import { MessageV2 } from "./message-v2"
+import { Storage } from "@/storage/storage"
+import { Instance } from "@/project/instance"
+import { Log } from "@/util/log"
+
+/**
+ * Renders sessions for humans (markdown, html) and packs them into archive
+ * bundles that `opencode import` can restore.
+ */
+export namespace SessionExport {
+  const log = Log.create({ service: "session.export" })
+
+  export const Format = z.enum(["json", "md", "html"])
+  export type Format = z.infer<typeof Format>
+
+  export const Data = z.object({
+    info: Session.Info,
+    messages: z
+      .object({
+        info: MessageV2.Info,
+        parts: MessageV2.Part.array(),
+      })
+      .array(),
+  })
+  export type Data = z.infer<typeof Data>
+
+  export const Bundle = z.object({
+    version: z.literal(1),
+    time: z.number(),
+    sessions: Data.array(),
+  })
+  export type Bundle = z.infer<typeof Bundle>
+
+  export async function load(sessionID: string): Promise<Data> {
+    const info = await Session.get(sessionID)
+    const messages = await Session.messages({ sessionID })
+    return {
+      info,
+      messages: messages.map((msg) => ({
+        info: msg.info,
+        parts: msg.parts,
+      })),
+    }
+  }
+
+  export function render(data: Data, format: Format) {
+    if (format === "md") return markdown(data)
+    if (format === "html") return html(data)
+    return JSON.stringify(data, null, 2)
+  }
+
+  function role(info: MessageV2.Info) {
+    if (info.role === "user") return "User"
+    return `Assistant (${info.mode} · ${info.providerID}/${info.modelID})`
+  }
+
+  function fence(text: string, lang = "") {
+    const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((x) => x.length))
+    const ticks = "`".repeat(longest + 1)
+    return `${ticks}${lang}\n${text}\n${ticks}`
+  }
+
+  function diffOf(part: MessageV2.ToolPart) {
+    const diff =
+      part.state.status === "completed" || part.state.status === "error" ? part.state.metadata?.diff : undefined
+    return typeof diff === "string" && diff ? diff : undefined
+  }
+
+  function toolOutput(part: MessageV2.ToolPart) {
+    if (part.state.status === "completed") return part.state.output
+    if (part.state.status === "error") return part.state.error
+    return ""
+  }
+
+  function toolTitle(part: MessageV2.ToolPart) {
+    const title = part.state.status === "completed" ? part.state.title : undefined
+    return title ? `${part.tool}: ${title}` : part.tool
+  }
+
+  export function markdown(data: Data) {
+    const lines = [
+      `# ${data.info.title}`,
+      "",
+      `**Session ID:** ${data.info.id}`,
+      `**Created:** ${new Date(data.info.time.created).toLocaleString()}`,
+      `**Updated:** ${new Date(data.info.time.updated).toLocaleString()}`,
+      "",
+    ]
+    for (const msg of data.messages) {
+      lines.push("---", "", `## ${role(msg.info)}`, "")
+      for (const part of msg.parts) {
+        if (part.type === "text" && !part.synthetic) lines.push(part.text, "")
+        if (part.type === "reasoning" && part.text.trim()) {
+          lines.push("<details>", "<summary>Reasoning</summary>", "", part.text, "", "</details>", "")
+        }
+        if (part.type === "file") lines.push(`**Attached:** ${part.filename ?? part.url}`, "")
+        if (part.type === "tool") {
+          lines.push(
+            "<details>",
+            `<summary>Tool: ${toolTitle(part)}</summary>`,
+            "",
+            "**Input**",
+            "",
+            fence(JSON.stringify(part.state.input, null, 2), "json"),
+            "",
+          )
+          const output = toolOutput(part)
+          if (output) lines.push(part.state.status === "error" ? "**Error**" : "**Output**", "", fence(output), "")
+          lines.push("</details>", "")
+          const diff = diffOf(part)
+          if (diff) lines.push(fence(diff, "diff"), "")
+        }
+      }
+      if (msg.info.role === "assistant" && msg.info.error) {
+        lines.push(`> **Error:** ${String(msg.info.error.data?.message ?? msg.info.error.name)}`, "")
+      }
+    }
+    return lines.join("\n")
+  }
+
+  function escape(text: string) {
+    return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;")
+  }
+
+  function htmlDiff(diff: string) {
+    const rows = diff.split("\n").map((line) => {
+      const kind = line.startsWith("+") ? "add" : line.startsWith("-") ? "del" : line.startsWith("@@") ? "hunk" : ""
+      return `<span class="${kind}">${escape(line)}</span>`
+    })
+    return `<pre class="diff">${rows.join("\n")}</pre>`
+  }
+
+  const STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+header p { margin: 0.2rem 0; color: #59636e; }
+section { border-top: 1px solid #d1d9e0; padding: 1rem 0; }
+h2 { font-size: 1rem; }
+.text { white-space: pre-wrap; }
+pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; border-radius: 6px; }
+details { margin: 0.5rem 0; }
+summary { cursor: pointer; font-family: monospace; }
+.reasoning { color: #59636e; font-style: italic; white-space: pre-wrap; }
+.error { color: #d1242f; }
+.diff .add { color: #1a7f37; }
+.diff .del { color: #d1242f; }
+.diff .hunk { color: #8250df; }
+`
+
+  export function html(data: Data) {
+    const sections = data.messages.map((msg) => {
+      const body: string[] = [`<h2>${escape(role(msg.info))}</h2>`]
+      for (const part of msg.parts) {
+        if (part.type === "text" && !part.synthetic) body.push(`<div class="text">${escape(part.text)}</div>`)
+        if (part.type === "reasoning" && part.text.trim()) {
+          body.push(`<details><summary>Reasoning</summary><div class="reasoning">${escape(part.text)}</div></details>`)
+        }
+        if (part.type === "file") body.push(`<p><strong>Attached:</strong> ${escape(part.filename ?? part.url)}</p>`)
+        if (part.type === "tool") {
+          const output = toolOutput(part)
+          body.push(
+            `<details><summary>Tool: ${escape(toolTitle(part))}</summary>`,
+            `<pre>${escape(JSON.stringify(part.state.input, null, 2))}</pre>`,
+            output ? `<pre class="${part.state.status === "error" ? "error" : ""}">${escape(output)}</pre>` : "",
+            `</details>`,
+          )
+          const diff = diffOf(part)
+          if (diff) body.push(htmlDiff(diff))
+        }
+      }
+      if (msg.info.role === "assistant" && msg.info.error) {
+        body.push(`<p class="error">${escape(String(msg.info.error.data?.message ?? msg.info.error.name))}</p>`)
+      }
+      return `<section>${body.filter(Boolean).join("\n")}</section>`
+    })
+    return [
+      "<!doctype html>",
+      `<html><head><meta charset="utf-8"><title>${escape(data.info.title)}</title><style>${STYLE}</style></head><body>`,
+      `<header><h1>${escape(data.info.title)}</h1>`,
+      `<p>Session ID: ${escape(data.info.id)}</p>`,
+      `<p>Created: ${new Date(data.info.time.created).toLocaleString()}</p>`,
+      `<p>Updated: ${new Date(data.info.time.updated).toLocaleString()}</p></header>`,
+      ...sections,
+      "</body></html>",
+    ].join("\n")
+  }
+
+  /**
+   * Bundles every session last updated before the cutoff, along with their
+   * child sessions so removing a parent never drops unarchived data.
+   */
+  export async function bundle(input: { before?: number }) {
+    const all: Session.Info[] = []
+    for await (const session of Session.list()) all.push(session)
+    const selected = new Set(
+      all.filter((session) => input.before === undefined || session.time.updated < input.before).map((x) => x.id),
+    )
+    let grew = true
+    while (grew) {
+      grew = false
+      for (const session of all) {
+        if (session.parentID && selected.has(session.parentID) && !selected.has(session.id)) {
+          selected.add(session.id)
+          grew = true
+        }
+      }
+    }
+    const result: Bundle = {
+      version: 1,
+      time: Date.now(),
+      sessions: [],
+    }
+    for (const session of all) {
+      if (!selected.has(session.id)) continue
+      result.sessions.push(await load(session.id))
+    }
+    return result
+  }
+
+  export function compress(bundle: Bundle) {
+    return Bun.gzipSync(JSON.stringify(bundle))
+  }
+
+  /**
+   * Accepts a gzipped archive bundle, a plain bundle or a single session export.
+   */
+  export function parse(bytes: Uint8Array<ArrayBuffer>): Bundle {
+    const text = new TextDecoder().decode(bytes[0] === 0x1f && bytes[1] === 0x8b ? Bun.gunzipSync(bytes) : bytes)
+    const json = JSON.parse(text)
+    // Shallow check only: full validation would strip fields written by newer versions
+    if (Array.isArray(json.sessions)) return json as Bundle
+    return {
+      version: 1,
+      time: Date.now(),
+      sessions: [json as Data],
+    }
+  }
+
+  /**
+   * Removes archived sessions. Only roots are removed directly since
+   * Session.remove takes their children with them.
+   */
+  export async function prune(bundle: Bundle) {
+    const ids = new Set(bundle.sessions.map((x) => x.info.id))
+    for (const session of bundle.sessions) {
+      if (session.info.parentID && ids.has(session.info.parentID)) continue
+      await Session.remove(session.info.id)
+    }
+    log.info("pruned", { count: ids.size })
+  }
+
+  export async function restore(bundle: Bundle) {
+    const project = Instance.project
+    for (const session of bundle.sessions) {
+      await Storage.write(["session", project.id, session.info.id], { ...session.info, projectID: project.id })
+      for (const msg of session.messages) {
+        await Storage.write(["message", session.info.id, msg.info.id], msg.info)
+        for (const part of msg.parts) {
+          await Storage.write(["part", msg.info.id, part.id], part)
+        }
+      }
+    }
+    log.info("restored", { count: bundle.sessions.length })
+    return bundle.sessions.map((x) => x.info)
+  }
+}
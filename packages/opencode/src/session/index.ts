@@ -16,6 +16,9 @@ import { SessionPrompt } from "./prompt"
 import { fn } from "@/util/fn"
 import { Command } from "../command"
 import { Snapshot } from "@/snapshot"
+import { SessionWorktree } from "./worktree"
+import { SessionShell } from "./shell"
+import { SessionBackground } from "./background"
 
 export namespace Session {
   const log = Log.create({ service: "session" })
@@ -52,6 +55,32 @@ export namespace Session {
           url: z.string(),
         })
         .optional(),
+      pinned: z
+        .object({
+          messageID: Identifier.schema("message"),
+          partID: Identifier.schema("part").optional(),
+        })
+        .array()
+        .optional()
+        .describe("Messages and parts kept verbatim when the session is compacted"),
+      worktree: z
+        .object({
+          branch: z.string(),
+          base: z.string().describe("Commit the branch was created from"),
+          worktree: z.string().describe("Root of the git worktree checkout"),
+          directory: z.string().describe("Directory the session's tools run in"),
+          pr: z.string().optional().describe("URL of the pull request opened for the branch"),
+        })
+        .optional()
+        .describe("Dedicated git worktree the session works in"),
+      budget: z
+        .object({
+          session: Config.Budget.optional(),
+          agent: Config.Budget.optional(),
+          day: Config.Budget.optional(),
+        })
+        .optional()
+        .describe("Allowance granted on top of each configured budget"),
       title: z.string(),
       version: z.string(),
       time: z.object({
@@ -123,13 +152,17 @@ export namespace Session {
       .object({
         parentID: Identifier.schema("session").optional(),
         title: z.string().optional(),
+        worktree: z.boolean().optional().describe("Work in a dedicated git worktree branch"),
       })
       .optional(),
     async (input) => {
+      const id = Identifier.descending("session")
       return createNext({
+        id,
         parentID: input?.parentID,
         directory: Instance.directory,
         title: input?.title,
+        worktree: input?.worktree ? await SessionWorktree.create(id) : undefined,
       })
     },
   )
@@ -171,13 +204,20 @@ export namespace Session {
     })
   })
 
-  export async function createNext(input: { id?: string; title?: string; parentID?: string; directory: string }) {
+  export async function createNext(input: {
+    id?: string
+    title?: string
+    parentID?: string
+    directory: string
+    worktree?: Info["worktree"]
+  }) {
     const result: Info = {
       id: Identifier.descending("session", input.id),
       version: Installation.VERSION,
       projectID: Instance.project.id,
       directory: input.directory,
       parentID: input.parentID,
+      worktree: input.worktree,
       title: input.title ?? createDefaultTitle(!!input.parentID),
       time: {
         created: Date.now(),
@@ -301,6 +341,51 @@ export namespace Session {
     return result
   })
 
+  export const SearchResult = z
+    .object({
+      sessionID: Identifier.schema("session"),
+      messageID: Identifier.schema("message").optional(),
+      partID: Identifier.schema("part").optional(),
+      kind: z.enum(["title", "text", "tool"]),
+      title: z.string(),
+      snippet: z.string(),
+    })
+    .meta({
+      ref: "SessionSearchResult",
+    })
+  export type SearchResult = z.output<typeof SearchResult>
+
+  export const search = fn(
+    z.object({
+      query: z.string(),
+      limit: z.number().int().positive().optional(),
+    }),
+    async (input) => {
+      const hits = await Storage.search(input.query, {
+        projectID: Instance.project.id,
+        limit: input.limit,
+      })
+      const titles = new Map<string, string>()
+      const result: SearchResult[] = []
+      for (const hit of hits) {
+        if (!titles.has(hit.sessionID)) {
+          const session = await get(hit.sessionID).catch(() => undefined)
+          if (!session) continue
+          titles.set(hit.sessionID, session.title)
+        }
+        result.push({
+          sessionID: hit.sessionID,
+          messageID: hit.messageID,
+          partID: hit.partID,
+          kind: hit.kind,
+          title: titles.get(hit.sessionID)!,
+          snippet: hit.snippet,
+        })
+      }
+      return result
+    },
+  )
+
   export const remove = fn(Identifier.schema("session"), async (sessionID) => {
     const project = Instance.project
     try {
@@ -309,6 +394,9 @@ export namespace Session {
         await remove(child.id)
       }
       await unshare(sessionID).catch(() => {})
+      if (session.worktree) await SessionWorktree.discard(sessionID).catch((e) => log.error(e))
+      await SessionShell.stop(sessionID)
+      await SessionBackground.stopAll(sessionID)
       for (const msg of await Storage.list(["message", sessionID])) {
         for (const part of await Storage.list(["part", msg.at(-1)!])) {
           await Storage.remove(part)
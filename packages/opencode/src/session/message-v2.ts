@@ -12,6 +12,7 @@ import { Storage } from "@/storage/storage"
 export namespace MessageV2 {
   export const OutputLengthError = NamedError.create("MessageOutputLengthError", z.object({}))
   export const AbortedError = NamedError.create("MessageAbortedError", z.object({ message: z.string() }))
+  export const BudgetExceededError = NamedError.create("MessageBudgetExceededError", z.object({ message: z.string() }))
   export const AuthError = NamedError.create(
     "ProviderAuthError",
     z.object({
@@ -112,7 +113,15 @@ export namespace MessageV2 {
     ref: "SymbolSource",
   })
 
-  export const FilePartSource = z.discriminatedUnion("type", [FileSource, SymbolSource]).meta({
+  export const ResourceSource = FilePartSourceBase.extend({
+    type: z.literal("resource"),
+    clientName: z.string(),
+    uri: z.string(),
+  }).meta({
+    ref: "ResourceSource",
+  })
+
+  export const FilePartSource = z.discriminatedUnion("type", [FileSource, SymbolSource, ResourceSource]).meta({
     ref: "FilePartSource",
   })
 
@@ -144,6 +153,7 @@ export namespace MessageV2 {
 
   export const CompactionPart = PartBase.extend({
     type: z.literal("compaction"),
+    keep: z.string().array().optional().describe("Earlier messages kept verbatim after the summary"),
   }).meta({
     ref: "CompactionPart",
   })
@@ -169,6 +179,25 @@ export namespace MessageV2 {
   })
   export type RetryPart = z.infer<typeof RetryPart>
 
+  export const FallbackPart = PartBase.extend({
+    type: z.literal("fallback"),
+    from: z.object({
+      providerID: z.string(),
+      modelID: z.string(),
+    }),
+    to: z.object({
+      providerID: z.string(),
+      modelID: z.string(),
+    }),
+    error: APIError.Schema,
+    time: z.object({
+      created: z.number(),
+    }),
+  }).meta({
+    ref: "FallbackPart",
+  })
+  export type FallbackPart = z.infer<typeof FallbackPart>
+
   export const StepStartPart = PartBase.extend({
     type: z.literal("step-start"),
     snapshot: z.string().optional(),
@@ -317,6 +346,7 @@ export namespace MessageV2 {
       PatchPart,
       AgentPart,
       RetryPart,
+      FallbackPart,
       CompactionPart,
     ])
     .meta({
@@ -336,6 +366,7 @@ export namespace MessageV2 {
         NamedError.Unknown.Schema,
         OutputLengthError.Schema,
         AbortedError.Schema,
+        BudgetExceededError.Schema,
         APIError.Schema,
       ])
       .optional(),
@@ -571,8 +602,13 @@ export namespace MessageV2 {
               type: "text",
               text: part.text,
             })
-          // text/plain and directory files are converted into text parts, ignore them
-          if (part.type === "file" && part.mime !== "text/plain" && part.mime !== "application/x-directory")
+          // text/plain and directory files and MCP resources are converted into text parts, ignore them
+          if (
+            part.type === "file" &&
+            part.mime !== "text/plain" &&
+            part.mime !== "application/x-directory" &&
+            part.source?.type !== "resource"
+          )
             userMessage.parts.push({
               type: "file",
               url: part.url,
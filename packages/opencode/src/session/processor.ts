@@ -1,4 +1,4 @@
-import type { ModelsDev } from "@/provider/models"
+import { Provider } from "@/provider/provider"
 import { MessageV2 } from "./message-v2"
 import { type StreamTextResult, type Tool as AITool, APICallError } from "ai"
 import { Log } from "@/util/log"
@@ -14,37 +14,91 @@ import { SessionStatus } from "./status"
 
 export namespace SessionProcessor {
   const DOOM_LOOP_THRESHOLD = 3
+  // with another model to fall back to, waiting out a long outage is not worth it
+  const FALLBACK_AFTER_ATTEMPTS = 3
   const log = Log.create({ service: "session.processor" })
 
   export type Info = Awaited<ReturnType<typeof create>>
   export type Result = Awaited<ReturnType<Info["process"]>>
+  export type Model = Awaited<ReturnType<typeof Provider.getModel>>
 
   export function create(input: {
     assistantMessage: MessageV2.Assistant
     sessionID: string
-    providerID: string
-    model: ModelsDev.Model
+    model: Model
+    fallback?: { providerID: string; modelID: string }[]
     abort: AbortSignal
   }) {
     const toolcalls: Record<string, MessageV2.ToolPart> = {}
+    const fallback = [...(input.fallback ?? [])]
+    let model = input.model
     let snapshot: string | undefined
     let blocked = false
     let attempt = 0
+    let retrying: number | undefined
+
+    // switches to the next model of the chain that resolves, recording why in the transcript
+    async function next(error: MessageV2.APIError) {
+      while (fallback.length > 0) {
+        const target = fallback.shift()!
+        const resolved = await Provider.getModel(target.providerID, target.modelID).catch((e) => {
+          log.error("fallback unavailable", { ...target, error: e })
+          return undefined
+        })
+        if (!resolved) continue
+        log.info("fallback", {
+          from: `${model.providerID}/${model.modelID}`,
+          to: `${target.providerID}/${target.modelID}`,
+        })
+        await Session.updatePart({
+          id: Identifier.ascending("part"),
+          messageID: input.assistantMessage.id,
+          sessionID: input.assistantMessage.sessionID,
+          type: "fallback",
+          from: { providerID: model.providerID, modelID: model.modelID },
+          to: target,
+          error,
+          time: {
+            created: Date.now(),
+          },
+        })
+        model = resolved
+        input.assistantMessage.providerID = resolved.providerID
+        input.assistantMessage.modelID = resolved.modelID
+        await Session.updateMessage(input.assistantMessage)
+        attempt = 0
+        retrying = undefined
+        return true
+      }
+      return false
+    }
 
     const result = {
       get message() {
         return input.assistantMessage
       },
+      // the model in use, which differs from the given one after falling back
+      get model() {
+        return model
+      },
+      // the models left to fall back to
+      get fallback() {
+        return [...fallback]
+      },
       partFromToolCall(toolCallID: string) {
         return toolcalls[toolCallID]
       },
-      async process(fn: () => StreamTextResult<Record<string, AITool>, never>) {
+      async process(
+        fn: (
+          model: Model,
+        ) => StreamTextResult<Record<string, AITool>, never> | Promise<StreamTextResult<Record<string, AITool>, never>>,
+      ) {
         log.info("process")
         while (true) {
           try {
             let currentText: MessageV2.TextPart | undefined
             let reasoningMap: Record<string, MessageV2.ReasoningPart> = {}
-            const stream = fn()
+            const stream = await fn(model)
 
             for await (const value of stream.fullStream) {
               input.abort.throwIfAborted()
@@ -148,20 +202,22 @@ export namespace SessionProcessor {
                       )
                     ) {
                       const permission = await Agent.get(input.assistantMessage.mode).then((x) => x.permission)
+                      const request = {
+                        type: "doom_loop",
+                        pattern: value.toolName,
+                        sessionID: input.assistantMessage.sessionID,
+                        messageID: input.assistantMessage.id,
+                        callID: value.toolCallId,
+                        title: `Possible doom loop: "${value.toolName}" called ${DOOM_LOOP_THRESHOLD} times with identical arguments`,
+                        metadata: {
+                          tool: value.toolName,
+                          input: value.input,
+                        },
+                      }
                       if (permission.doom_loop === "ask") {
-                        await Permission.ask({
-                          type: "doom_loop",
-                          pattern: value.toolName,
-                          sessionID: input.assistantMessage.sessionID,
-                          messageID: input.assistantMessage.id,
-                          callID: value.toolCallId,
-                          title: `Possible doom loop: "${value.toolName}" called ${DOOM_LOOP_THRESHOLD} times with identical arguments`,
-                          metadata: {
-                            tool: value.toolName,
-                            input: value.input,
-                          },
-                        })
+                        await Permission.ask(request)
                       } else if (permission.doom_loop === "deny") {
+                        await Permission.denied(request)
                         throw new Permission.RejectedError(
                           input.assistantMessage.sessionID,
                           "doom_loop",
@@ -241,7 +297,7 @@ export namespace SessionProcessor {
 
                 case "finish-step":
                   const usage = Session.getUsage({
-                    model: input.model,
+                    model: model.info,
                     usage: value.usage,
                     metadata: value.providerMetadata,
                   })
@@ -334,7 +390,15 @@ export namespace SessionProcessor {
             log.error("process", {
               error: e,
             })
-            const error = MessageV2.fromError(e, { providerID: input.providerID })
+            const error = MessageV2.fromError(e, { providerID: model.providerID })
+            if (error?.name === "APIError" && fallback.length > 0) {
+              retrying ??= Date.now()
+              const exhausted =
+                !error.data.isRetryable ||
+                attempt >= FALLBACK_AFTER_ATTEMPTS ||
+                SessionRetry.getBoundedDelay({ error, attempt: attempt + 1, startTime: retrying }) === undefined
+              if (exhausted && (await next(error))) continue
+            }
             if (error?.name === "APIError" && error.data.isRetryable) {
               attempt++
               const delay = SessionRetry.delay(error, attempt)
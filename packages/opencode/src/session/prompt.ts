@@ -20,6 +20,7 @@ import {
   jsonSchema,
 } from "ai"
 import { SessionCompaction } from "./compaction"
+import { SessionWorktree } from "./worktree"
 import { Instance } from "../project/instance"
 import { Bus } from "../bus"
 import { ProviderTransform } from "../provider/transform"
@@ -29,18 +30,20 @@ import { Plugin } from "../plugin"
 import PROMPT_PLAN from "../session/prompt/plan.txt"
 import BUILD_SWITCH from "../session/prompt/build-switch.txt"
 import { defer } from "../util/defer"
-import { mergeDeep, pipe } from "remeda"
+import { isDeepEqual, mergeDeep, pipe } from "remeda"
 import { ToolRegistry } from "../tool/registry"
 import { Wildcard } from "../util/wildcard"
 import { MCP } from "../mcp"
 import { LSP } from "../lsp"
 import { ReadTool } from "../tool/read"
 import { ListTool } from "../tool/ls"
+import { McpResourceTool } from "../tool/mcp-resource"
 import { FileTime } from "../file/time"
 import { ulid } from "ulid"
 import { spawn } from "child_process"
 import { Command } from "../command"
 import { $, fileURLToPath } from "bun"
+import { Config } from "../config/config"
 import { ConfigMarkdown } from "../config/markdown"
 import { SessionSummary } from "./summary"
 import { NamedError } from "@/util/error"
@@ -48,6 +51,10 @@ import { fn } from "@/util/fn"
 import { SessionProcessor } from "./processor"
 import { TaskTool } from "@/tool/task"
 import { SessionStatus } from "./status"
+import { SessionBudget } from "./budget"
+import { SessionRecorder } from "./recorder"
+import { PermissionFile } from "../permission/file"
+import { Hook } from "../hook"
 
 export namespace SessionPrompt {
   const log = Log.create({ service: "session.prompt" })
@@ -187,19 +194,21 @@ export namespace SessionPrompt {
     return parts
   }
 
-  export const prompt = fn(PromptInput, async (input) => {
-    const session = await Session.get(input.sessionID)
-    await SessionRevert.cleanup(session)
+  export const prompt = fn(PromptInput, (input) =>
+    SessionWorktree.provide(input.sessionID, async () => {
+      const session = await Session.get(input.sessionID)
+      await SessionRevert.cleanup(session)
 
-    const message = await createUserMessage(input)
-    await Session.touch(input.sessionID)
+      const message = await createUserMessage(input)
+      await Session.touch(input.sessionID)
 
-    if (input.noReply) {
-      return message
-    }
+      if (input.noReply) {
+        return message
+      }
 
-    return loop(input.sessionID)
-  })
+      return loop(input.sessionID)
+    }),
+  )
 
   function start(sessionID: string) {
     const s = state()
@@ -212,7 +221,7 @@ export namespace SessionPrompt {
     return controller.signal
   }
 
-  export function cancel(sessionID: string) {
+  export function cancel(sessionID: string, status: SessionStatus.Info = { type: "idle" }) {
     log.info("cancel", { sessionID })
     const s = state()
     const match = s[sessionID]
@@ -222,11 +231,15 @@ export namespace SessionPrompt {
       item.reject()
     }
     delete s[sessionID]
-    SessionStatus.set(sessionID, { type: "idle" })
+    SessionStatus.set(sessionID, status)
     return
   }
 
-  export const loop = fn(Identifier.schema("session"), async (sessionID) => {
+  export const loop = fn(Identifier.schema("session"), (sessionID) =>
+    SessionWorktree.provide(sessionID, () => run(sessionID)),
+  )
+
+  async function run(sessionID: string) {
     const abort = start(sessionID)
     if (!abort) {
       return new Promise<MessageV2.WithParts>((resolve, reject) => {
@@ -235,23 +248,33 @@ export namespace SessionPrompt {
       })
     }
 
-    using _ = defer(() => cancel(sessionID))
+    // a loop paused by a budget keeps reporting it instead of going idle
+    let exceeded: SessionBudget.Exceeded | undefined
+    using _ = defer(() => cancel(sessionID, exceeded))
 
+    // a model the processor fell back to is kept for the rest of the loop
+    // instead of retrying the failing one on every step
+    let fallen:
+      | { from: MessageV2.User["model"]; to: MessageV2.User["model"]; chain: MessageV2.User["model"][] }
+      | undefined
     let step = 0
     while (true) {
       log.info("loop", { step, sessionID })
       if (abort.aborted) break
-      let msgs = await MessageV2.filterCompacted(MessageV2.stream(sessionID))
+      let msgs = await SessionCompaction.history(sessionID)
 
       let lastUser: MessageV2.User | undefined
       let lastAssistant: MessageV2.Assistant | undefined
       let lastFinished: MessageV2.Assistant | undefined
       let tasks: (MessageV2.CompactionPart | MessageV2.SubtaskPart)[] = []
+      // turns a compaction kept follow its summary, but their usage predates it
+      const summary = msgs.findLast((x) => x.info.role === "assistant" && x.info.summary)?.info.id
       for (let i = msgs.length - 1; i >= 0; i--) {
         const msg = msgs[i]
+        const kept = summary !== undefined && msg.info.id < summary
         if (!lastUser && msg.info.role === "user") lastUser = msg.info as MessageV2.User
-        if (!lastAssistant && msg.info.role === "assistant") lastAssistant = msg.info as MessageV2.Assistant
-        if (!lastFinished && msg.info.role === "assistant" && msg.info.finish)
+        if (!lastAssistant && !kept && msg.info.role === "assistant") lastAssistant = msg.info as MessageV2.Assistant
+        if (!lastFinished && !kept && msg.info.role === "assistant" && msg.info.finish)
           lastFinished = msg.info as MessageV2.Assistant
         if (lastUser && lastFinished) break
         const task = msg.parts.filter((part) => part.type === "compaction" || part.type === "subtask")
@@ -276,7 +299,9 @@ export namespace SessionPrompt {
           history: msgs,
         })
 
-      const model = await Provider.getModel(lastUser.model.providerID, lastUser.model.modelID)
+      const active = fallen && isDeepEqual(fallen.from, lastUser.model) ? fallen : undefined
+      const selected = active?.to ?? lastUser.model
+      const model = await Provider.getModel(selected.providerID, selected.modelID)
       const task = tasks.pop()
 
       // pending subtask
@@ -405,16 +430,60 @@ export namespace SessionPrompt {
       }
 
       // context overflow, needs compaction
+      const compaction = await Config.get().then((x) => x.compaction)
       if (
         lastFinished &&
         lastFinished.summary !== true &&
-        SessionCompaction.isOverflow({ tokens: lastFinished.tokens, model: model.info })
-      ) {
-        await SessionCompaction.create({
-          sessionID,
-          model: lastUser.model,
+        SessionCompaction.isOverflow({
+          tokens: lastFinished.tokens,
+          model: model.info,
+          threshold: compaction?.threshold,
         })
-        continue
+      ) {
+        // the prune strategy only clears old tool output, and summarises when there is none left to clear
+        if (compaction?.strategy === "prune" && (await SessionCompaction.prune({ sessionID, force: true }))) {
+          msgs = await SessionCompaction.history(sessionID)
+        } else {
+          await SessionCompaction.create({
+            sessionID,
+            model: selected,
+          })
+          continue
+        }
+      }
+
+      exceeded = await SessionBudget.check({ sessionID, agent: lastUser.agent })
+      if (exceeded) {
+        // a budget used up before the prompt got any reply, for example by
+        // earlier sessions, still answers it
+        if (!lastAssistant || lastAssistant.id < lastUser.id) {
+          await Session.updateMessage({
+            id: Identifier.ascending("message"),
+            parentID: lastUser.id,
+            role: "assistant",
+            mode: lastUser.agent,
+            path: {
+              cwd: Instance.directory,
+              root: Instance.worktree,
+            },
+            cost: 0,
+            tokens: {
+              input: 0,
+              output: 0,
+              reasoning: 0,
+              cache: { read: 0, write: 0 },
+            },
+            modelID: lastUser.model.modelID,
+            providerID: lastUser.model.providerID,
+            time: {
+              created: Date.now(),
+              completed: Date.now(),
+            },
+            error: new MessageV2.BudgetExceededError({ message: SessionBudget.describe(exceeded) }).toObject(),
+            sessionID,
+          })
+        }
+        break
       }
 
       // normal processing
@@ -448,44 +517,15 @@ export namespace SessionPrompt {
           sessionID,
         })) as MessageV2.Assistant,
         sessionID: sessionID,
-        model: model.info,
-        providerID: model.providerID,
+        model,
+        fallback:
+          active?.chain ??
+          (agent.fallback ?? (await Config.get()).fallback?.map(Provider.parseModel) ?? []).filter(
+            (x) => x.providerID !== model.providerID || x.modelID !== model.modelID,
+          ),
         abort,
       })
-      const system = await resolveSystemPrompt({
-        providerID: model.providerID,
-        modelID: model.info.id,
-        agent,
-        system: lastUser.system,
-      })
-      const tools = await resolveTools({
-        agent,
-        sessionID,
-        model: lastUser.model,
-        tools: lastUser.tools,
-        processor,
-      })
-      const params = await Plugin.trigger(
-        "chat.params",
-        {
-          sessionID: sessionID,
-          agent: lastUser.agent,
-          model: model.info,
-          provider: await Provider.getProvider(model.providerID),
-          message: lastUser,
-        },
-        {
-          temperature: model.info.temperature
-            ? (agent.temperature ?? ProviderTransform.temperature(model.providerID, model.modelID))
-            : undefined,
-          topP: agent.topP ?? ProviderTransform.topP(model.providerID, model.modelID),
-          options: {
-            ...ProviderTransform.options(model.providerID, model.modelID, model.npm ?? "", sessionID),
-            ...model.info.options,
-            ...agent.options,
-          },
-        },
-      )
+      const record = await SessionRecorder.enabled()
 
       if (step === 1) {
         SessionSummary.summarize({
@@ -494,8 +534,43 @@ export namespace SessionPrompt {
         })
       }
 
-      const result = await processor.process(() =>
-        streamText({
+      const result = await processor.process(async (model) => {
+        // resolved for the model of each attempt, as the processor may fall back to another one
+        const system = await resolveSystemPrompt({
+          providerID: model.providerID,
+          modelID: model.info.id,
+          agent,
+          system: lastUser.system,
+        })
+        const tools = await resolveTools({
+          agent,
+          sessionID,
+          model: { providerID: model.providerID, modelID: model.modelID },
+          tools: lastUser.tools,
+          processor,
+        })
+        const params = await Plugin.trigger(
+          "chat.params",
+          {
+            sessionID: sessionID,
+            agent: lastUser.agent,
+            model: model.info,
+            provider: await Provider.getProvider(model.providerID),
+            message: lastUser,
+          },
+          {
+            temperature: model.info.temperature
+              ? (agent.temperature ?? ProviderTransform.temperature(model.providerID, model.modelID))
+              : undefined,
+            topP: agent.topP ?? ProviderTransform.topP(model.providerID, model.modelID),
+            options: {
+              ...ProviderTransform.options(model.providerID, model.modelID, model.npm ?? "", sessionID),
+              ...model.info.options,
+              ...agent.options,
+            },
+          },
+        )
+        return streamText({
           onError(error) {
             log.error("stream error", {
               error,
@@ -581,16 +656,34 @@ export namespace SessionPrompt {
                   return args.params
                 },
               },
+              ...(record
+                ? [
+                    SessionRecorder.middleware({
+                      sessionID,
+                      messageID: processor.message.id,
+                      providerID: model.providerID,
+                      modelID: model.modelID,
+                    }),
+                  ]
+                : []),
             ],
           }),
-        }),
-      )
+        })
+      })
+      if (processor.model !== model) {
+        fallen = {
+          from: lastUser.model,
+          to: { providerID: processor.model.providerID, modelID: processor.model.modelID },
+          chain: processor.fallback,
+        }
+      }
       if (result === "stop") break
       continue
     }
     SessionCompaction.prune({ sessionID })
     for await (const item of MessageV2.stream(sessionID)) {
       if (item.info.role === "user") continue
+      if (!abort.aborted && !exceeded && !item.info.error) Hook.completed({ sessionID, messageID: item.info.id })
       const queued = state()[sessionID]?.callbacks ?? []
       for (const q of queued) {
         q.resolve(item)
@@ -598,7 +691,7 @@ export namespace SessionPrompt {
       return item
     }
     throw new Error("Impossible")
-  })
+  }
 
   async function lastModel(sessionID: string) {
     for await (const item of MessageV2.stream(sessionID)) {
@@ -644,6 +737,7 @@ export namespace SessionPrompt {
       input.agent.tools,
       mergeDeep(await ToolRegistry.enabled(input.model.providerID, input.model.modelID, input.agent)),
       mergeDeep(input.tools ?? {}),
+      ToolRegistry.gate,
     )
     for (const item of await ToolRegistry.tools(input.model.providerID, input.model.modelID)) {
       if (Wildcard.all(item.id, enabledTools) === false) continue
@@ -657,18 +751,7 @@ export namespace SessionPrompt {
         description: item.description,
         inputSchema: jsonSchema(schema as any),
         async execute(args, options) {
-          await Plugin.trigger(
-            "tool.execute.before",
-            {
-              tool: item.id,
-              sessionID: input.sessionID,
-              callID: options.toolCallId,
-            },
-            {
-              args,
-            },
-          )
-          const result = await item.execute(args, {
+          return ToolRegistry.execute(item, args, {
             sessionID: input.sessionID,
             abort: options.abortSignal!,
             messageID: input.processor.message.id,
@@ -693,16 +776,6 @@ export namespace SessionPrompt {
               }
             },
           })
-          await Plugin.trigger(
-            "tool.execute.after",
-            {
-              tool: item.id,
-              sessionID: input.sessionID,
-              callID: options.toolCallId,
-            },
-            result,
-          )
-          return result
         },
         toModelOutput(result) {
           return {
@@ -713,8 +786,7 @@ export namespace SessionPrompt {
       })
     }
 
-    for (const [key, item] of Object.entries(await MCP.tools())) {
-      if (Wildcard.all(key, enabledTools) === false) continue
+    for (const [key, item] of Object.entries(await MCP.tools({ name: input.agent.name, tools: enabledTools }))) {
       const execute = item.execute
       if (!execute) continue
       item.execute = async (args, opts) => {
@@ -729,6 +801,8 @@ export namespace SessionPrompt {
             args,
           },
         )
+        const hook = { tool: key, sessionID: input.sessionID, callID: opts.toolCallId, args }
+        const before = await Hook.before(hook)
         const result = await execute(args, opts)
 
         await Plugin.trigger(
@@ -760,10 +834,12 @@ export namespace SessionPrompt {
           // Add support for other types if needed
         }
 
+        const output = textParts.join("\n\n")
+        const after = await Hook.after({ ...hook, output })
         return {
           title: "",
           metadata: result.metadata ?? {},
-          output: textParts.join("\n\n"),
+          output: Hook.annotate(output, [...before, ...after]),
           attachments,
           content: result.content, // directly return content to preserve ordering when outputting to model
         }
@@ -796,6 +872,61 @@ export namespace SessionPrompt {
 
     const parts = await Promise.all(
       input.parts.map(async (part): Promise<MessageV2.Part[]> => {
+        if (part.type === "file" && part.source?.type === "resource") {
+          const args = { server: part.source.clientName, uri: part.source.uri }
+          const pieces: MessageV2.Part[] = [
+            {
+              id: Identifier.ascending("part"),
+              messageID: info.id,
+              sessionID: input.sessionID,
+              type: "text",
+              synthetic: true,
+              text: `Called the mcp_resource tool with the following input: ${JSON.stringify(args)}`,
+            },
+          ]
+          await McpResourceTool.init()
+            .then((t) =>
+              t.execute(args, {
+                sessionID: input.sessionID,
+                abort: new AbortController().signal,
+                agent: input.agent!,
+                messageID: info.id,
+                metadata: async () => {},
+              }),
+            )
+            .then((result) => {
+              pieces.push(
+                {
+                  id: Identifier.ascending("part"),
+                  messageID: info.id,
+                  sessionID: input.sessionID,
+                  type: "text",
+                  synthetic: true,
+                  text: result.output,
+                },
+                ...(result.attachments ?? []),
+                {
+                  ...part,
+                  id: part.id ?? Identifier.ascending("part"),
+                  messageID: info.id,
+                  sessionID: input.sessionID,
+                },
+              )
+            })
+            .catch((error) => {
+              log.error("failed to read resource", { error })
+              const message = error instanceof Error ? error.message : String(error)
+              pieces.push({
+                id: Identifier.ascending("part"),
+                messageID: info.id,
+                sessionID: input.sessionID,
+                type: "text",
+                synthetic: true,
+                text: `Failed to read ${args.uri} from the ${args.server} MCP server with the following error: ${message}`,
+              })
+            })
+          return pieces
+        }
         if (part.type === "file") {
           const url = new URL(part.url)
           switch (url.protocol) {
@@ -973,6 +1104,19 @@ export namespace SessionPrompt {
                 ]
               }
 
+              if (PermissionFile.evaluate(agent.permission.read, filepath, PermissionFile.SECRETS).action === "deny") {
+                return [
+                  {
+                    id: Identifier.ascending("part"),
+                    messageID: info.id,
+                    sessionID: input.sessionID,
+                    type: "text",
+                    synthetic: true,
+                    text: `${filepath} was not attached because the read permission denies it`,
+                  },
+                ]
+              }
+
               const file = Bun.file(filepath)
               FileTime.read(input.sessionID, filepath)
               return [
@@ -1030,6 +1174,18 @@ export namespace SessionPrompt {
       }),
     ).then((x) => x.flat())
 
+    // output of the session hooks that ran since the last prompt
+    const hooks = await Hook.flush(input.sessionID)
+    if (hooks.length > 0)
+      parts.push({
+        id: Identifier.ascending("part"),
+        messageID: info.id,
+        sessionID: input.sessionID,
+        type: "text",
+        synthetic: true,
+        text: Hook.format(hooks),
+      })
+
     await Plugin.trigger(
       "chat.message",
       {
@@ -1095,6 +1251,10 @@ export namespace SessionPrompt {
   })
   export type ShellInput = z.infer<typeof ShellInput>
   export async function shell(input: ShellInput) {
+    return SessionWorktree.provide(input.sessionID, () => runShell(input))
+  }
+
+  async function runShell(input: ShellInput) {
     const session = await Session.get(input.sessionID)
     if (session.revert) {
       SessionRevert.cleanup(session)
@@ -1288,6 +1448,10 @@ export namespace SessionPrompt {
    */
 
   export async function command(input: CommandInput) {
+    return SessionWorktree.provide(input.sessionID, () => runCommand(input))
+  }
+
+  async function runCommand(input: CommandInput) {
     log.info("command", input)
     const command = await Command.get(input.command)
     const agentName = command.agent ?? input.agent ?? "build"
@@ -1295,38 +1459,11 @@ export namespace SessionPrompt {
     const raw = input.arguments.match(argsRegex) ?? []
     const args = raw.map((arg) => arg.replace(quoteTrimRegex, ""))
 
-    const placeholders = command.template.match(placeholderRegex) ?? []
-    let last = 0
-    for (const item of placeholders) {
-      const value = Number(item.slice(1))
-      if (value > last) last = value
-    }
-
-    // Let the final placeholder swallow any extra arguments so prompts read naturally
-    const withArgs = command.template.replaceAll(placeholderRegex, (_, index) => {
-      const position = Number(index)
-      const argIndex = position - 1
-      if (argIndex >= args.length) return ""
-      if (position === last) return args.slice(argIndex).join(" ")
-      return args[argIndex]
-    })
-    let template = withArgs.replaceAll("$ARGUMENTS", input.arguments)
-
-    const shell = ConfigMarkdown.shell(template)
-    if (shell.length > 0) {
-      const results = await Promise.all(
-        shell.map(async ([, cmd]) => {
-          try {
-            return await $`${{ raw: cmd }}`.nothrow().text()
-          } catch (error) {
-            return `Error executing command: ${error instanceof Error ? error.message : String(error)}`
-          }
-        }),
-      )
-      let index = 0
-      template = template.replace(bashRegex, () => results[index++])
-    }
-    template = template.trim()
+    // MCP prompts come from their server as is, without placeholders or shell output
+    const template =
+      command.source === "mcp"
+        ? await Command.resolve(command.name, args).then((x) => x.trim())
+        : await expand(command.template, args, input.arguments)
 
     const model = await (async () => {
       if (command.model) {
@@ -1374,6 +1511,42 @@ export namespace SessionPrompt {
     return result
   }
 
+  // fills the placeholders of a command template and runs its shell commands
+  async function expand(template: string, args: string[], raw: string) {
+    const placeholders = template.match(placeholderRegex) ?? []
+    let last = 0
+    for (const item of placeholders) {
+      const value = Number(item.slice(1))
+      if (value > last) last = value
+    }
+
+    // Let the final placeholder swallow any extra arguments so prompts read naturally
+    const withArgs = template.replaceAll(placeholderRegex, (_, index) => {
+      const position = Number(index)
+      const argIndex = position - 1
+      if (argIndex >= args.length) return ""
+      if (position === last) return args.slice(argIndex).join(" ")
+      return args[argIndex]
+    })
+    let result = withArgs.replaceAll("$ARGUMENTS", raw)
+
+    const shell = ConfigMarkdown.shell(result)
+    if (shell.length > 0) {
+      const results = await Promise.all(
+        shell.map(async ([, cmd]) => {
+          try {
+            return await $`${{ raw: cmd }}`.nothrow().text()
+          } catch (error) {
+            return `Error executing command: ${error instanceof Error ? error.message : String(error)}`
+          }
+        }),
+      )
+      let index = 0
+      result = result.replace(bashRegex, () => results[index++])
+    }
+    return result.trim()
+  }
+
   // TODO: wire this back up
   async function ensureTitle(input: {
     session: Session.Info
@@ -0,0 +1,173 @@
+import z from "zod"
+import type { LanguageModel, wrapLanguageModel } from "ai"
+import { Storage } from "../storage/storage"
+import { Provider } from "../provider/provider"
+import { Config } from "../config/config"
+import { Identifier } from "../id/id"
+import { NamedError } from "../util/error"
+import { Log } from "../util/log"
+import { fn } from "@/util/fn"
+
+/**
+ * Opt-in recorder of the exact payload sent to the model for every step (the
+ * assembled system prompt, transformed messages and tool schemas) and the raw
+ * stream events that came back, so a misbehaving session can be inspected and
+ * its steps replayed.
+ */
+export namespace SessionRecorder {
+  const log = Log.create({ service: "session.recorder" })
+
+  export const Info = z
+    .object({
+      id: z.string().describe("ID of the assistant message the step produced"),
+      attempt: z.number().describe("Attempt of the step, counting retries and fallbacks from 0"),
+      sessionID: z.string(),
+      providerID: z.string(),
+      modelID: z.string(),
+      request: z.record(z.string(), z.any()).describe("Call options passed to the provider"),
+      events: z.record(z.string(), z.any()).array().describe("Raw stream events returned by the provider"),
+      error: z.string().optional(),
+      time: z.object({
+        started: z.number(),
+        completed: z.number().optional(),
+      }),
+    })
+    .meta({
+      ref: "Recording",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export const StepNotFoundError = NamedError.create(
+    "RecordingStepNotFoundError",
+    z.object({
+      sessionID: z.string(),
+      step: z.number(),
+    }),
+  )
+
+  type Middleware = Exclude<Parameters<typeof wrapLanguageModel>[0]["middleware"], unknown[]>
+  type Model = Exclude<LanguageModel, string>
+
+  // binary file contents and errors do not survive JSON as they are
+  function serialize(value: object): Record<string, unknown> {
+    return JSON.parse(
+      JSON.stringify(value, (_key, item) => {
+        if (item instanceof Uint8Array) return Buffer.from(item).toString("base64")
+        if (item instanceof Error) return { name: item.name, message: item.message }
+        return item
+      }),
+    )
+  }
+
+  export async function enabled() {
+    return Config.get().then((x) => x.experimental?.record === true)
+  }
+
+  /**
+   * Captures the final call options and stream of a model call. It must be the
+   * last middleware so it sees the request after every other transform.
+   */
+  export function middleware(input: {
+    sessionID: string
+    messageID: string
+    providerID: string
+    modelID: string
+  }): Middleware {
+    return {
+      async wrapStream({ doStream, params }) {
+        const { abortSignal: _, ...request } = params
+        // a retry or fallback sends the step again, each attempt is kept
+        const attempt = await Storage.list(["recording", input.sessionID, input.messageID]).then((x) => x.length)
+        const recording: Info = {
+          id: input.messageID,
+          attempt,
+          sessionID: input.sessionID,
+          providerID: input.providerID,
+          modelID: input.modelID,
+          request: serialize(request),
+          events: [],
+          time: {
+            started: Date.now(),
+          },
+        }
+        const save = () =>
+          Storage.write(
+            ["recording", input.sessionID, input.messageID, String(attempt).padStart(4, "0")],
+            recording,
+          ).catch((error) => log.error("failed to save", { error }))
+        await save()
+        const result = await Promise.resolve(doStream()).catch(async (error) => {
+          recording.error = error instanceof Error ? error.message : String(error)
+          recording.time.completed = Date.now()
+          await save()
+          throw error
+        })
+        return {
+          ...result,
+          stream: result.stream.pipeThrough(
+            new TransformStream({
+              transform(chunk, controller) {
+                recording.events.push(serialize(chunk))
+                controller.enqueue(chunk)
+              },
+              async flush() {
+                recording.time.completed = Date.now()
+                await save()
+              },
+            }),
+          ),
+        }
+      },
+    }
+  }
+
+  /**
+   * Recordings of a session in step order, attempts of a step in the order
+   * they were made.
+   */
+  export const list = fn(Identifier.schema("session"), async (sessionID) => {
+    const result: Info[] = []
+    for (const key of await Storage.list(["recording", sessionID])) {
+      result.push(await Storage.read<Info>(key))
+    }
+    return result
+  })
+
+  /**
+   * Sends a recorded request again, to the recorded model or another one, and
+   * returns the stream events without touching the session.
+   */
+  export const replay = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      step: z.number().int().positive().describe("1-based step number, each attempt of a step counting as one"),
+      model: z
+        .object({
+          providerID: z.string(),
+          modelID: z.string(),
+        })
+        .optional(),
+    }),
+    async (input) => {
+      const recordings = await list(input.sessionID)
+      const recording = recordings[input.step - 1]
+      if (!recording) throw new StepNotFoundError({ sessionID: input.sessionID, step: input.step })
+      const target = input.model ?? { providerID: recording.providerID, modelID: recording.modelID }
+      const model = await Provider.getModel(target.providerID, target.modelID)
+      log.info("replay", { sessionID: input.sessionID, step: input.step, ...target })
+      const events: Record<string, any>[] = []
+      const result = await (model.language as Model).doStream(recording.request as Parameters<Model["doStream"]>[0])
+      const reader = result.stream.getReader()
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        events.push(serialize(value))
+      }
+      return {
+        recording,
+        model: target,
+        events,
+      }
+    },
+  )
+}
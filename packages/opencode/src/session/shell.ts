@@ -0,0 +1,307 @@
+import z from "zod"
+import path from "path"
+import { spawn, type ChildProcess } from "child_process"
+import type { Writable } from "stream"
+import { randomBytes } from "crypto"
+import { Instance } from "../project/instance"
+import { Lock } from "../util/lock"
+import { Log } from "../util/log"
+
+/**
+ * Long-lived shells that the bash tool runs commands in when persistent shells
+ * are enabled, so the working directory, exported variables and activated
+ * environments survive between calls. Each session can hold several shells
+ * told apart by name.
+ *
+ * Commands are written to the shell one at a time and their output is
+ * delimited by a marker line that also reports the exit code and working
+ * directory. A command that times out or is aborted takes its shell down with
+ * it, and the next command starts a fresh one.
+ *
+ * Where `script` is available (Linux and macOS) the shell runs under a
+ * pseudo-terminal it allocates, so commands write to a terminal of a fixed size
+ * as they would for a user, with escape sequences stripped from the output.
+ * The commands themselves are sent over a separate pipe, and each command's
+ * stdin is /dev/null, so prompts fail instead of waiting for input nobody can
+ * type. Elsewhere the shell runs over plain pipes with `TERM=dumb`.
+ */
+export namespace SessionShell {
+  const log = Log.create({ service: "session.shell" })
+
+  export const DEFAULT = "default"
+  const SIGKILL_TIMEOUT_MS = 200
+  const COLUMNS = 120
+  const ROWS = 40
+
+  export const Info = z
+    .object({
+      sessionID: z.string(),
+      name: z.string(),
+      shell: z.string().describe("Path of the shell executable"),
+      pid: z.number(),
+      cwd: z.string().describe("Working directory after the last command"),
+      status: z.enum(["idle", "busy"]),
+      exit: z.number().optional().describe("Exit code of the last command"),
+      time: z.object({
+        created: z.number(),
+        used: z.number(),
+      }),
+    })
+    .meta({
+      ref: "Shell",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export type Result = {
+    output: string
+    exit?: number
+    cwd: string
+    timedOut: boolean
+    aborted: boolean
+    // the shell exited or was killed, so its state is gone
+    closed: boolean
+  }
+
+  type Shell = {
+    info: Info
+    proc: ChildProcess
+    // where commands are written
+    input?: Writable
+    // runs under a pseudo-terminal, whose escape sequences are stripped
+    terminal: boolean
+    output: string
+    exited: boolean
+    onData?: () => void
+    onExit?: () => void
+  }
+
+  const state = Instance.state(
+    () => {
+      const shells: Record<string, Record<string, Shell>> = {}
+      return shells
+    },
+    async (shells) => {
+      for (const sessionID of Object.keys(shells)) await close(shells, sessionID)
+    },
+  )
+
+  function executable() {
+    const shell = process.env["SHELL"]
+    if (shell && ["bash", "zsh"].includes(path.basename(shell))) return shell
+    return Bun.which("bash") ?? "/bin/sh"
+  }
+
+  // runs a command under a new pseudo-terminal, reading the shell's commands
+  // from file descriptor 3 so nothing is echoed back
+  function terminal(shell: string) {
+    const script = Bun.which("script")
+    if (!script) return
+    const command = `exec ${quote(shell)} <&3 3<&-`
+    if (process.platform === "linux") return [script, "-qfec", command, "/dev/null"]
+    if (process.platform === "darwin") return [script, "-q", "/dev/null", "/bin/sh", "-c", command]
+  }
+
+  /**
+   * Whether shells started here run under a pseudo-terminal.
+   */
+  export function tty() {
+    return terminal(executable()) !== undefined
+  }
+
+  // rc files are sourced so shell functions such as nvm are available
+  function startup(shell: string, terminal: boolean) {
+    const name = path.basename(shell)
+    const lines = ["exec 2>&1"]
+    if (terminal) lines.push(`stty -onlcr cols ${COLUMNS} rows ${ROWS} </dev/tty >/dev/null 2>&1`)
+    if (name === "bash") lines.push(`[ -f ~/.bashrc ] && . ~/.bashrc >/dev/null 2>&1`)
+    if (name === "zsh") {
+      lines.push(`[ -f ~/.zshenv ] && . ~/.zshenv >/dev/null 2>&1`)
+      lines.push(`[ -f "\${ZDOTDIR:-$HOME}/.zshrc" ] && . "\${ZDOTDIR:-$HOME}/.zshrc" >/dev/null 2>&1`)
+    }
+    return lines.join("\n") + "\n"
+  }
+
+  function quote(command: string) {
+    return "'" + command.replaceAll("'", `'\\''`) + "'"
+  }
+
+  function create(sessionID: string, name: string): Shell {
+    const executablePath = executable()
+    const [command, ...args] = terminal(executablePath) ?? [executablePath]
+    const tty = command !== executablePath
+    const proc = spawn(command, args, {
+      cwd: Instance.directory,
+      env: {
+        ...process.env,
+        ...(tty ? { TERM: "xterm-256color", PAGER: "cat", GIT_PAGER: "cat" } : { TERM: "dumb" }),
+      },
+      // script exits once its stdin closes, so it stays open
+      stdio: tty ? ["pipe", "pipe", "ignore", "pipe"] : ["pipe", "pipe", "ignore"],
+      detached: process.platform !== "win32",
+    })
+    const now = Date.now()
+    const shell: Shell = {
+      info: {
+        sessionID,
+        name,
+        shell: executablePath,
+        pid: proc.pid ?? 0,
+        cwd: Instance.directory,
+        status: "idle",
+        time: {
+          created: now,
+          used: now,
+        },
+      },
+      proc,
+      input: (tty ? proc.stdio[3] : proc.stdin) as Writable | undefined,
+      terminal: tty,
+      output: "",
+      exited: false,
+    }
+    proc.stdout?.on("data", (chunk: Buffer) => {
+      shell.output += chunk.toString()
+      shell.onData?.()
+    })
+    const exit = () => {
+      if (shell.exited) return
+      shell.exited = true
+      const shells = state()[sessionID]
+      if (shells?.[name] === shell) delete shells[name]
+      log.info("exited", { sessionID, name, code: proc.exitCode })
+      shell.onExit?.()
+    }
+    proc.once("exit", exit)
+    proc.once("error", (error) => {
+      log.error("failed", { sessionID, name, error })
+      exit()
+    })
+    shell.input?.write(startup(executablePath, tty))
+    log.info("started", { sessionID, name, shell: executablePath, pid: proc.pid })
+    return shell
+  }
+
+  async function kill(shell: Shell) {
+    const pid = shell.proc.pid
+    if (!pid || shell.exited) return
+    if (process.platform === "win32") {
+      await new Promise<void>((resolve) => {
+        const killer = spawn("taskkill", ["/pid", String(pid), "/f", "/t"], { stdio: "ignore" })
+        killer.once("exit", () => resolve())
+        killer.once("error", () => resolve())
+      })
+      return
+    }
+    try {
+      process.kill(-pid, "SIGTERM")
+      await Bun.sleep(SIGKILL_TIMEOUT_MS)
+      if (!shell.exited) process.kill(-pid, "SIGKILL")
+    } catch (_e) {
+      shell.proc.kill("SIGTERM")
+      await Bun.sleep(SIGKILL_TIMEOUT_MS)
+      if (!shell.exited) shell.proc.kill("SIGKILL")
+    }
+  }
+
+  async function close(shells: Record<string, Record<string, Shell>>, sessionID: string) {
+    const session = shells[sessionID]
+    if (!session) return
+    delete shells[sessionID]
+    await Promise.all(Object.values(session).map((shell) => kill(shell)))
+  }
+
+  export function list(sessionID: string) {
+    return Object.values(state()[sessionID] ?? {}).map((shell) => shell.info)
+  }
+
+  export function get(sessionID: string, name = DEFAULT) {
+    return state()[sessionID]?.[name]?.info
+  }
+
+  /**
+   * Runs a command in the named shell of the session, starting the shell if it
+   * is not running. Commands sent to the same shell run one after another.
+   */
+  export async function run(input: {
+    sessionID: string
+    name?: string
+    command: string
+    timeout: number
+    abort: AbortSignal
+    onOutput?: (output: string) => void
+  }): Promise<Result> {
+    const name = input.name ?? DEFAULT
+    using _ = await Lock.write(`shell:${Instance.directory}:${input.sessionID}:${name}`)
+    const shells = (state()[input.sessionID] ??= {})
+    const shell = (shells[name] ??= create(input.sessionID, name))
+    const marker = `__opencode_${randomBytes(8).toString("hex")}__`
+    const pattern = new RegExp(`\\n?${marker} (\\d+) (.*)\\n`)
+    shell.output = ""
+    shell.info.status = "busy"
+    shell.info.time.used = Date.now()
+
+    const result: Result = {
+      output: "",
+      cwd: shell.info.cwd,
+      timedOut: false,
+      aborted: false,
+      closed: false,
+    }
+
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer)
+        input.abort.removeEventListener("abort", abort)
+        shell.onData = undefined
+        shell.onExit = undefined
+        resolve()
+      }
+      const abort = () => {
+        result.aborted = true
+        void kill(shell)
+      }
+      const timer = setTimeout(() => {
+        result.timedOut = true
+        void kill(shell)
+      }, input.timeout)
+      const clean = (text: string) => (shell.terminal ? Bun.stripANSI(text) : text)
+      shell.onData = () => {
+        const match = shell.output.match(pattern)
+        if (!match) {
+          input.onOutput?.(clean(shell.output))
+          return
+        }
+        result.output = clean(shell.output.slice(0, match.index))
+        result.exit = Number(match[1])
+        result.cwd = match[2]
+        shell.output = shell.output.slice(match.index! + match[0].length)
+        done()
+      }
+      shell.onExit = () => {
+        result.output = clean(shell.output)
+        result.exit = shell.proc.exitCode ?? undefined
+        result.closed = true
+        done()
+      }
+      input.abort.addEventListener("abort", abort, { once: true })
+      if (input.abort.aborted) abort()
+      if (shell.exited) return shell.onExit()
+      shell.input?.write(
+        [`eval ${quote(input.command)} < /dev/null`, `printf '\\n${marker} %s %s\\n' "$?" "$PWD"`, ""].join("\n"),
+      )
+    })
+
+    shell.info.status = "idle"
+    shell.info.cwd = result.cwd
+    shell.info.exit = result.exit
+    if (result.timedOut || result.aborted) result.closed = true
+    return result
+  }
+
+  /**
+   * Stops every shell of a session, for example when the session is deleted.
+   */
+  export async function stop(sessionID: string) {
+    await close(state(), sessionID)
+  }
+}
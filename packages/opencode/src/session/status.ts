@@ -17,6 +17,13 @@ export namespace SessionStatus {
       z.object({
         type: z.literal("busy"),
       }),
+      z.object({
+        type: z.literal("budget_exceeded"),
+        scope: z.enum(["session", "agent", "day"]),
+        limit: z.enum(["cost", "tokens", "steps"]),
+        used: z.number(),
+        max: z.number(),
+      }),
     ])
     .meta({
       ref: "SessionStatus",
@@ -0,0 +1,184 @@
+import z from "zod"
+import path from "path"
+import fs from "fs/promises"
+import { $ } from "bun"
+import { NamedError } from "../util/error"
+import { Session } from "."
+import { Global } from "../global"
+import { Identifier } from "../id/id"
+import { Instance } from "../project/instance"
+import { Log } from "../util/log"
+import { fn } from "@/util/fn"
+
+/**
+ * Sessions that work on their own `git worktree` branch so several agents can
+ * change the same repository at once. Their prompts run with Instance bound to
+ * the checkout, and the branch is later merged back, pushed as a pull request
+ * or discarded.
+ */
+export namespace SessionWorktree {
+  const log = Log.create({ service: "session.worktree" })
+
+  export type Info = NonNullable<Session.Info["worktree"]>
+
+  export const NotGitError = NamedError.create(
+    "WorktreeNotGitError",
+    z.object({
+      directory: z.string(),
+    }),
+  )
+
+  export const GitError = NamedError.create(
+    "WorktreeGitError",
+    z.object({
+      command: z.string(),
+      message: z.string(),
+    }),
+  )
+
+  export const MergeConflictError = NamedError.create(
+    "WorktreeMergeConflictError",
+    z.object({
+      branch: z.string(),
+      files: z.string().array(),
+    }),
+  )
+
+  export const MissingError = NamedError.create(
+    "WorktreeMissingError",
+    z.object({
+      sessionID: z.string(),
+    }),
+  )
+
+  async function git(args: string[], cwd: string) {
+    const result = await $`git ${args}`.cwd(cwd).quiet().nothrow()
+    if (result.exitCode !== 0) {
+      throw new GitError({
+        command: ["git", ...args].join(" "),
+        message: result.stderr.toString().trim() || result.stdout.toString().trim(),
+      })
+    }
+    return result.stdout.toString().trim()
+  }
+
+  /**
+   * Adds a worktree on a new `opencode/<sessionID>` branch from the current
+   * HEAD. The session keeps the same relative directory inside the checkout.
+   */
+  export async function create(sessionID: string): Promise<Info> {
+    if (Instance.project.vcs !== "git") throw new NotGitError({ directory: Instance.directory })
+    const base = await git(["rev-parse", "HEAD"], Instance.worktree)
+    const branch = `opencode/${sessionID}`
+    const worktree = path.join(Global.Path.data, "worktree", Instance.project.id, sessionID)
+    await git(["worktree", "add", "-b", branch, worktree, base], Instance.worktree)
+    log.info("created", { sessionID, branch, worktree })
+    return {
+      branch,
+      base,
+      worktree,
+      directory: path.join(worktree, path.relative(Instance.worktree, Instance.directory)),
+    }
+  }
+
+  // child sessions work in the worktree of the session that spawned them
+  async function resolve(sessionID: string) {
+    let session = await Session.get(sessionID)
+    while (!session.worktree && session.parentID) session = await Session.get(session.parentID)
+    return session.worktree
+  }
+
+  /**
+   * Runs fn with Instance.directory and Instance.worktree pointing at the
+   * session's worktree, or unchanged for sessions without one.
+   */
+  export async function provide<R>(sessionID: string, fn: () => R) {
+    const worktree = await resolve(sessionID)
+    if (!worktree) return fn()
+    return Instance.bind(worktree, fn)
+  }
+
+  async function get(sessionID: string) {
+    const session = await Session.get(sessionID)
+    if (!session.worktree) throw new MissingError({ sessionID })
+    return { session, worktree: session.worktree }
+  }
+
+  // commits whatever the agent left uncommitted, titled after the session,
+  // except opencode's own files such as saved permission rules
+  async function commit(session: Session.Info, worktree: Info) {
+    await git(["add", "-A", "--", ".", ":(exclude,glob)**/.opencode/**"], worktree.worktree)
+    const staged = await git(["diff", "--cached", "--name-only"], worktree.worktree)
+    if (!staged) return
+    await git(["commit", "--no-verify", "-m", session.title], worktree.worktree)
+  }
+
+  export const merge = fn(Identifier.schema("session"), async (sessionID) => {
+    const { session, worktree } = await get(sessionID)
+    await commit(session, worktree)
+    const target = Instance.worktree
+    const result = await $`git merge --no-ff --no-edit ${worktree.branch}`.cwd(target).quiet().nothrow()
+    if (result.exitCode !== 0) {
+      const files = await git(["diff", "--name-only", "--diff-filter=U"], target)
+        .then((x) => x.split("\n").filter(Boolean))
+        .catch(() => [])
+      if (files.length) {
+        await $`git merge --abort`.cwd(target).quiet().nothrow()
+        throw new MergeConflictError({ branch: worktree.branch, files })
+      }
+      throw new GitError({
+        command: `git merge --no-ff --no-edit ${worktree.branch}`,
+        message: result.stderr.toString().trim() || result.stdout.toString().trim(),
+      })
+    }
+    log.info("merged", { sessionID, branch: worktree.branch })
+    return discard(sessionID)
+  })
+
+  /**
+   * Pushes the branch and opens a pull request with the GitHub CLI. The
+   * worktree is kept so the session can keep addressing review comments.
+   */
+  export const pr = fn(Identifier.schema("session"), async (sessionID) => {
+    const { session, worktree } = await get(sessionID)
+    await commit(session, worktree)
+    await git(["push", "-u", "origin", worktree.branch], worktree.worktree)
+    if (!worktree.pr) {
+      const result = await $`gh pr create --head ${worktree.branch} --title ${session.title} --fill`
+        .cwd(worktree.worktree)
+        .quiet()
+        .nothrow()
+      if (result.exitCode !== 0) {
+        throw new GitError({
+          command: "gh pr create",
+          message: result.stderr.toString().trim(),
+        })
+      }
+      const url = result.stdout.toString().trim().split("\n").at(-1)!
+      log.info("pull request", { sessionID, url })
+      return Session.update(sessionID, (draft) => {
+        draft.worktree!.pr = url
+      })
+    }
+    return Session.get(sessionID)
+  })
+
+  /**
+   * Removes the worktree checkout and its branch, dropping any work that was
+   * not merged or pushed.
+   */
+  export const discard = fn(Identifier.schema("session"), async (sessionID) => {
+    const { worktree } = await get(sessionID)
+    const target = Instance.worktree
+    const removed = await $`git worktree remove --force ${worktree.worktree}`.cwd(target).quiet().nothrow()
+    if (removed.exitCode !== 0) {
+      await fs.rm(worktree.worktree, { recursive: true, force: true })
+      await $`git worktree prune`.cwd(target).quiet().nothrow()
+    }
+    await $`git branch -D ${worktree.branch}`.cwd(target).quiet().nothrow()
+    log.info("discarded", { sessionID, branch: worktree.branch })
+    return Session.update(sessionID, (draft) => {
+      draft.worktree = undefined
+    })
+  })
+}
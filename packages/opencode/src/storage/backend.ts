@@ -38,9 +38,63 @@ export namespace StorageBackend {
      */
     list(prefix: string[]): Promise<string[][]>
 
+    /**
+     * Full-text search across sessions (optional)
+     * Returns hits ordered by relevance
+     */
+    search?(query: string, options: SearchOptions): Promise<SearchResult[]>
+
+    /**
+     * Store an embedding for a part, replacing any previous one (optional)
+     * Vectors are expected to be L2-normalized
+     */
+    writeEmbedding?(sessionID: string, input: EmbeddingInput): Promise<void>
+
+    /**
+     * Rank stored embeddings by cosine similarity to a normalized vector (optional)
+     */
+    searchEmbeddings?(vector: Float32Array, options: EmbeddingSearchOptions): Promise<EmbeddingMatch[]>
+
     /**
      * Close/cleanup backend resources (optional)
      */
     close?(): Promise<void>
   }
+
+  export interface SearchOptions {
+    projectID: string
+    limit?: number
+  }
+
+  export interface SearchResult {
+    sessionID: string
+    messageID?: string
+    partID?: string
+    kind: "title" | "text" | "tool"
+    snippet: string
+    rank: number
+  }
+
+  export interface EmbeddingInput {
+    partID: string
+    messageID: string
+    model: string
+    content: string
+    vector: Float32Array
+  }
+
+  export interface EmbeddingSearchOptions {
+    projectID: string
+    model: string
+    exclude?: string[]
+    limit?: number
+  }
+
+  export interface EmbeddingMatch {
+    sessionID: string
+    messageID: string
+    partID: string
+    content: string
+    score: number
+  }
 }
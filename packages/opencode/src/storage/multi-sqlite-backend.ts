@@ -1,5 +1,7 @@
 import { Database } from "bun:sqlite"
 import type { StorageBackend } from "./backend"
+import type { Session } from "../session"
+import type { MessageV2 } from "../session/message-v2"
 import { Log } from "../util/log"
 import { NamedError } from "../util/error"
 import z from "zod"
@@ -23,11 +25,13 @@ const NotFoundError = NamedError.create(
  * - Stores data in project's .opencode/ directory
  * - One sessions.db for session metadata per project
  * - One {sessionID}.db per session for messages/parts
- * - Embeddings stored alongside messages (future: sqlite-vec)
+ * - Embeddings stored alongside messages
+ * - FTS5 search index over session titles, text parts and tool calls in sessions.db
+ * - Permission audit log in sessions.db, kept after its session is removed
  *
  * Structure:
  * {project-root}/.opencode/
- *   sessions.db              <- Session metadata only
+ *   sessions.db              <- Session metadata, search index, permission log
  *   sessions/
  *     {sessionID}.db         <- Messages, parts, embeddings for session
  *     {sessionID2}.db
@@ -79,9 +83,148 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
     db.exec(`CREATE INDEX IF NOT EXISTS idx_project_id ON sessions(project_id)`)
     db.exec(`CREATE INDEX IF NOT EXISTS idx_updated_at ON sessions(updated_at DESC)`)
 
+    // Parts are keyed by message only, so remember which session each message lives in
+    const mapped = db
+      .query<{ name: string }, []>("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'messages'")
+      .get()
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS messages (
+        message_id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL
+      )
+    `)
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(session_id)`)
+    if (!mapped) this.rebuildMessageIndex(db)
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS permission_log (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at INTEGER DEFAULT (unixepoch())
+      )
+    `)
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_permission_log_session ON permission_log(session_id)`)
+
+    // Full-text index across every session in the project. Only `content` is
+    // tokenized, the rest are carried along so hits can be located.
+    const indexed = db
+      .query<{ name: string }, []>("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'search_index'")
+      .get()
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+        session_id UNINDEXED,
+        message_id UNINDEXED,
+        part_id UNINDEXED,
+        kind UNINDEXED,
+        content,
+        tokenize = 'porter unicode61'
+      )
+    `)
+    if (!indexed) this.rebuildSearchIndex(db)
+
     return db
   }
 
+  /**
+   * Populate the message -> session mapping from data written before it existed.
+   */
+  private rebuildMessageIndex(db: Database) {
+    const sessions = db.query<{ session_id: string }, []>("SELECT session_id FROM sessions").all()
+    const insert = db.query("INSERT OR IGNORE INTO messages (message_id, session_id) VALUES (?, ?)")
+    db.transaction(() => {
+      for (const { session_id } of sessions) {
+        const dbPath = path.join(this.baseDir, "sessions", `${session_id}.db`)
+        if (!existsSync(dbPath)) continue
+        const sessionDB = new Database(dbPath, { readonly: true })
+        try {
+          const keys = sessionDB.query<{ key: string }, []>("SELECT key FROM storage WHERE type = 'message'").all()
+          for (const { key } of keys) insert.run(key.split("/")[2], session_id)
+        } catch (e) {
+          log.error("failed to map messages", { sessionID: session_id, error: e })
+        } finally {
+          sessionDB.close()
+        }
+      }
+    })()
+  }
+
+  private sessionOfMessage(messageID: string) {
+    const cached = this.messageSessionCache.get(messageID)
+    if (cached) return cached
+    const row = this.sessionsMetaDB
+      .query<{ session_id: string }, string>("SELECT session_id FROM messages WHERE message_id = ?")
+      .get(messageID)
+    if (!row) return
+    this.messageSessionCache.set(messageID, row.session_id)
+    return row.session_id
+  }
+
+  /**
+   * Populate the search index from data written before it existed.
+   */
+  private rebuildSearchIndex(db: Database) {
+    log.info("building search index")
+    const sessions = db.query<{ data: string }, []>("SELECT data FROM sessions").all()
+    db.transaction(() => {
+      for (const row of sessions) {
+        const session = JSON.parse(row.data)
+        this.indexSession(db, session)
+        const dbPath = path.join(this.baseDir, "sessions", `${session.id}.db`)
+        if (!existsSync(dbPath)) continue
+        const sessionDB = new Database(dbPath, { readonly: true })
+        try {
+          const parts = sessionDB.query<{ data: string }, []>("SELECT data FROM storage WHERE type = 'part'").all()
+          for (const part of parts) this.indexPart(db, JSON.parse(part.data))
+        } catch (e) {
+          log.error("failed to index session", { sessionID: session.id, error: e })
+        } finally {
+          sessionDB.close()
+        }
+      }
+    })()
+  }
+
+  private indexSession(db: Database, session: { id: string; title?: string }) {
+    db.query("DELETE FROM search_index WHERE session_id = ? AND kind = 'title'").run(session.id)
+    if (!session.title) return
+    db.query(
+      "INSERT INTO search_index (session_id, message_id, part_id, kind, content) VALUES (?, NULL, NULL, 'title', ?)",
+    ).run(session.id, session.title)
+  }
+
+  // the text a part is found by, text still streaming in is left out until it ends
+  private searchEntry(part: MessageV2.Part) {
+    if (part.type === "text") {
+      if (part.time && !part.time.end) return
+      return { kind: "text", content: part.text }
+    }
+    if (part.type === "tool") {
+      const state = part.state
+      const content = [part.tool, JSON.stringify(state.input ?? {})]
+      if (state.status === "completed") content.push(state.output)
+      if (state.status === "error") content.push(state.error)
+      return { kind: "tool", content: content.join("\n") }
+    }
+  }
+
+  /**
+   * Index the text of a part, left as is when it matches the previous version.
+   */
+  private indexPart(db: Database, part: MessageV2.Part, previous?: MessageV2.Part) {
+    const entry = this.searchEntry(part)
+    if (previous && entry?.content === this.searchEntry(previous)?.content) return
+    db.query("DELETE FROM search_index WHERE part_id = ?").run(part.id)
+    if (!entry?.content) return
+    db.query("INSERT INTO search_index (session_id, message_id, part_id, kind, content) VALUES (?, ?, ?, ?, ?)").run(
+      part.sessionID,
+      part.messageID,
+      part.id,
+      entry.kind,
+      entry.content,
+    )
+  }
+
   private getSessionDB(sessionID: string): Database {
     // Return cached DB if already open
     if (this.sessionDBs.has(sessionID)) {
@@ -108,14 +251,19 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
 
     db.exec(`CREATE INDEX IF NOT EXISTS idx_type ON storage(type)`)
 
-    // Future: Embedding table for sqlite-vec
-    // When ready, just add:
-    // db.exec(`
-    //   CREATE VIRTUAL TABLE IF NOT EXISTS embeddings USING vec0(
-    //     part_id TEXT PRIMARY KEY,
-    //     embedding FLOAT[1536]
-    //   )
-    // `)
+    // Embeddings for semantic recall. A plain table of Float32 blobs rather than
+    // a sqlite-vec `vec0` table so no extension has to be loadable, similarity
+    // is computed in JS. Vectors from different embedders are kept apart by `model`.
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        part_id TEXT PRIMARY KEY,
+        message_id TEXT NOT NULL,
+        model TEXT NOT NULL,
+        content TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        created_at INTEGER DEFAULT (unixepoch())
+      )
+    `)
 
     this.sessionDBs.set(sessionID, db)
     return db
@@ -126,7 +274,9 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
     // ["session", projectID, sessionID] -> sessions.db
     // ["message", sessionID, messageID] -> session-{sessionID}.db
     // ["part", messageID, partID] -> session-{sessionID}.db
-    // ["session_diff", sessionID] -> sessions.db or session DB
+    // ["session_diff", sessionID] -> session-{sessionID}.db
+    // ["recording", sessionID, messageID, attempt] -> session-{sessionID}.db
+    // ["permission_log", sessionID, entryID] -> sessions.db
 
     const [type, ...rest] = key
 
@@ -139,11 +289,10 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
     }
 
     if (type === "part") {
-      // Parts have sessionID embedded in their data, we need to look it up
-      // For now, we'll maintain a message-to-session cache
+      // Parts are keyed by message, look up the session it belongs to
       const messageID = rest[0]
       const partID = rest[1]
-      const sessionID = this.messageSessionCache.get(messageID)
+      const sessionID = this.sessionOfMessage(messageID)
       return { type: "part", sessionID, id: partID }
     }
 
@@ -151,6 +300,14 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
       return { type: "session_diff", sessionID: rest[0] }
     }
 
+    if (type === "recording") {
+      return { type: "recording", sessionID: rest[0], id: rest[1] }
+    }
+
+    if (type === "permission_log") {
+      return { type: "permission_log", sessionID: rest[0], id: rest[1] }
+    }
+
     return { type }
   }
 
@@ -170,7 +327,23 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
       return JSON.parse(row.data) as T
     }
 
-    if (parsed.type === "message" || parsed.type === "part") {
+    if (parsed.type === "permission_log") {
+      const stmt = this.sessionsMetaDB.query<{ data: string }, string>("SELECT data FROM permission_log WHERE id = ?")
+      const row = stmt.get(parsed.id!)
+
+      if (!row) {
+        throw new NotFoundError({ message: `Resource not found: ${keyStr}` })
+      }
+
+      return JSON.parse(row.data) as T
+    }
+
+    if (
+      parsed.type === "message" ||
+      parsed.type === "part" ||
+      parsed.type === "session_diff" ||
+      parsed.type === "recording"
+    ) {
       // Read from session-specific DB
       if (!parsed.sessionID) {
         throw new Error(`Cannot read ${parsed.type}: session unknown`)
@@ -209,6 +382,18 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
       `)
 
       stmt.run(sessionID, projectID, data)
+      this.indexSession(this.sessionsMetaDB, content as Session.Info)
+      return
+    }
+
+    if (parsed.type === "permission_log") {
+      const stmt = this.sessionsMetaDB.query(`
+        INSERT INTO permission_log (id, session_id, data)
+        VALUES (?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET data = excluded.data
+      `)
+
+      stmt.run(parsed.id!, parsed.sessionID!, data)
       return
     }
 
@@ -217,8 +402,13 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
       const sessionID = parsed.sessionID!
       const messageID = parsed.id!
 
-      // Cache message-to-session mapping for parts
-      this.messageSessionCache.set(messageID, sessionID)
+      // Record message-to-session mapping for parts
+      if (this.messageSessionCache.get(messageID) !== sessionID) {
+        this.sessionsMetaDB
+          .query("INSERT OR REPLACE INTO messages (message_id, session_id) VALUES (?, ?)")
+          .run(messageID, sessionID)
+        this.messageSessionCache.set(messageID, sessionID)
+      }
 
       const db = this.getSessionDB(sessionID)
 
@@ -234,6 +424,21 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
       return
     }
 
+    if (parsed.type === "session_diff" || parsed.type === "recording") {
+      const db = this.getSessionDB(parsed.sessionID!)
+
+      const stmt = db.query(`
+        INSERT INTO storage (key, type, data, updated_at)
+        VALUES (?, ?, ?, unixepoch())
+        ON CONFLICT(key) DO UPDATE SET 
+          data = excluded.data,
+          updated_at = unixepoch()
+      `)
+
+      stmt.run(keyStr, parsed.type, data)
+      return
+    }
+
     if (parsed.type === "part") {
       // Write to session-specific DB (sessionID from cache)
       if (!parsed.sessionID) {
@@ -241,6 +446,7 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
       }
 
       const db = this.getSessionDB(parsed.sessionID)
+      const previous = db.query<{ data: string }, string>("SELECT data FROM storage WHERE key = ?").get(keyStr)
 
       const stmt = db.query(`
         INSERT INTO storage (key, type, data, updated_at)
@@ -251,6 +457,11 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
       `)
 
       stmt.run(keyStr, parsed.type, data)
+      this.indexPart(
+        this.sessionsMetaDB,
+        content as MessageV2.Part,
+        previous ? (JSON.parse(previous.data) as MessageV2.Part) : undefined,
+      )
       return
     }
 
@@ -273,6 +484,8 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
       // Remove from sessions.db
       const stmt = this.sessionsMetaDB.query("DELETE FROM sessions WHERE session_id = ?")
       stmt.run(sessionID)
+      this.sessionsMetaDB.query("DELETE FROM search_index WHERE session_id = ?").run(sessionID)
+      this.sessionsMetaDB.query("DELETE FROM messages WHERE session_id = ?").run(sessionID)
 
       // Close and delete session DB file
       const db = this.sessionDBs.get(sessionID)
@@ -290,7 +503,17 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
       return
     }
 
-    if (parsed.type === "message" || parsed.type === "part") {
+    if (parsed.type === "permission_log") {
+      this.sessionsMetaDB.query("DELETE FROM permission_log WHERE id = ?").run(parsed.id!)
+      return
+    }
+
+    if (
+      parsed.type === "message" ||
+      parsed.type === "part" ||
+      parsed.type === "session_diff" ||
+      parsed.type === "recording"
+    ) {
       const keyStr = key.join("/")
       if (!parsed.sessionID) {
         throw new Error(`Cannot remove ${parsed.type}: session unknown`)
@@ -299,10 +522,62 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
 
       const stmt = db.query("DELETE FROM storage WHERE key = ? OR key LIKE ?")
       stmt.run(keyStr, `${keyStr}/%`)
+
+      if (parsed.type === "message") {
+        this.sessionsMetaDB.query("DELETE FROM search_index WHERE message_id = ?").run(parsed.id!)
+        this.sessionsMetaDB.query("DELETE FROM messages WHERE message_id = ?").run(parsed.id!)
+        this.messageSessionCache.delete(parsed.id!)
+      } else if (parsed.type === "part") {
+        this.sessionsMetaDB.query("DELETE FROM search_index WHERE part_id = ?").run(parsed.id!)
+      }
       return
     }
   }
 
+  async search(query: string, options: StorageBackend.SearchOptions): Promise<StorageBackend.SearchResult[]> {
+    // Quote each term so user input can't be parsed as FTS5 syntax, prefix-match the last one
+    const terms = query
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((term) => `"${term.replaceAll('"', '""')}"`)
+    if (terms.length === 0) return []
+    terms[terms.length - 1] += "*"
+
+    const stmt = this.sessionsMetaDB.query<
+      {
+        session_id: string
+        message_id: string | null
+        part_id: string | null
+        kind: StorageBackend.SearchResult["kind"]
+        snippet: string
+        rank: number
+      },
+      [string, string, number]
+    >(`
+      SELECT
+        search_index.session_id,
+        search_index.message_id,
+        search_index.part_id,
+        search_index.kind,
+        snippet(search_index, 4, '', '', '…', 16) AS snippet,
+        search_index.rank
+      FROM search_index
+      JOIN sessions ON sessions.session_id = search_index.session_id
+      WHERE search_index MATCH ? AND sessions.project_id = ?
+      ORDER BY search_index.rank
+      LIMIT ?
+    `)
+
+    return stmt.all(terms.join(" "), options.projectID, options.limit ?? 50).map((row) => ({
+      sessionID: row.session_id,
+      messageID: row.message_id ?? undefined,
+      partID: row.part_id ?? undefined,
+      kind: row.kind,
+      snippet: row.snippet,
+      rank: row.rank,
+    }))
+  }
+
   async list(prefix: string[]): Promise<string[][]> {
     const prefixStr = prefix.join("/")
     const [type] = prefix
@@ -318,9 +593,22 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
       return rows.map((row) => ["session", projectID, row.session_id])
     }
 
-    if (type === "message" || type === "part") {
-      // List from session-specific DB
+    if (type === "permission_log") {
+      // Entry IDs are ascending, so key order is chronological
       const sessionID = prefix[1]
+      const where = sessionID ? "WHERE session_id = ?" : ""
+      const stmt = this.sessionsMetaDB.query<{ id: string; session_id: string }, string[]>(
+        `SELECT id, session_id FROM permission_log ${where} ORDER BY id`,
+      )
+      const rows = sessionID ? stmt.all(sessionID) : stmt.all()
+
+      return rows.map((row) => ["permission_log", row.session_id, row.id])
+    }
+
+    if (type === "message" || type === "part" || type === "recording") {
+      // List from session-specific DB
+      const sessionID = type === "part" ? this.sessionOfMessage(prefix[1]) : prefix[1]
+      if (!sessionID) return []
       const db = this.getSessionDB(sessionID)
 
       const pattern = prefixStr ? `${prefixStr}/%` : "%"
@@ -333,6 +621,73 @@ export class MultiSqliteBackend implements StorageBackend.Backend {
     return []
   }
 
+  async writeEmbedding(sessionID: string, input: StorageBackend.EmbeddingInput): Promise<void> {
+    const db = this.getSessionDB(sessionID)
+    db.query(
+      `
+      INSERT INTO embeddings (part_id, message_id, model, content, embedding)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(part_id) DO UPDATE SET
+        model = excluded.model,
+        content = excluded.content,
+        embedding = excluded.embedding
+    `,
+    ).run(
+      input.partID,
+      input.messageID,
+      input.model,
+      input.content,
+      new Uint8Array(input.vector.buffer, input.vector.byteOffset, input.vector.byteLength),
+    )
+  }
+
+  async searchEmbeddings(
+    vector: Float32Array,
+    options: StorageBackend.EmbeddingSearchOptions,
+  ): Promise<StorageBackend.EmbeddingMatch[]> {
+    const sessions = this.sessionsMetaDB
+      .query<{ session_id: string }, string>("SELECT session_id FROM sessions WHERE project_id = ?")
+      .all(options.projectID)
+      .map((row) => row.session_id)
+      .filter((sessionID) => !options.exclude?.includes(sessionID))
+
+    const matches: StorageBackend.EmbeddingMatch[] = []
+    for (const sessionID of sessions) {
+      const file = path.join(this.baseDir, "sessions", `${sessionID}.db`)
+      if (!existsSync(file)) continue
+      // a search reads every session of the project, so the ones that are not
+      // already open are only opened for the query
+      const cached = this.sessionDBs.get(sessionID)
+      const db = cached ?? new Database(file, { readonly: true })
+      const rows = (() => {
+        try {
+          return db
+            .query<
+              { part_id: string; message_id: string; content: string; embedding: Uint8Array },
+              string
+            >("SELECT part_id, message_id, content, embedding FROM embeddings WHERE model = ?")
+            .all(options.model)
+        } catch (error) {
+          // sessions last opened before embeddings were added have no table
+          log.warn("skipping session in embedding search", { sessionID, error })
+          return []
+        } finally {
+          if (!cached) db.close()
+        }
+      })()
+      for (const row of rows) {
+        // copy so the Float32 view is aligned
+        const other = new Float32Array(new Uint8Array(row.embedding).buffer)
+        if (other.length !== vector.length) continue
+        let score = 0
+        for (let i = 0; i < vector.length; i++) score += vector[i] * other[i]
+        matches.push({ sessionID, messageID: row.message_id, partID: row.part_id, content: row.content, score })
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, options.limit ?? 10)
+  }
+
   async close(): Promise<void> {
     log.info("closing databases")
 
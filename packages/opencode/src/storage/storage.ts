@@ -191,4 +191,22 @@ export namespace Storage {
     const { backend } = await getState()()
     return backend.list(prefix)
   }
+
+  export async function writeEmbedding(sessionID: string, input: StorageBackend.EmbeddingInput) {
+    const { backend } = await getState()()
+    if (!backend.writeEmbedding) return
+    return backend.writeEmbedding(sessionID, input)
+  }
+
+  export async function searchEmbeddings(vector: Float32Array, options: StorageBackend.EmbeddingSearchOptions) {
+    const { backend } = await getState()()
+    if (!backend.searchEmbeddings) return []
+    return backend.searchEmbeddings(vector, options)
+  }
+
+  export async function search(query: string, options: StorageBackend.SearchOptions) {
+    const { backend } = await getState()()
+    if (!backend.search) return []
+    return backend.search(query, options)
+  }
 }
@@ -0,0 +1,101 @@
+import z from "zod"
+import { Tool } from "./tool"
+import { authorize } from "./bash"
+import { SessionBackground } from "../session/background"
+import DESCRIPTION_START from "./background-start.txt"
+import DESCRIPTION_OUTPUT from "./background-output.txt"
+
+const DEFAULT_LINES = 50
+
+function format(info: SessionBackground.Info) {
+  const status = info.status === "running" ? "running" : `${info.status} (exit code ${info.exit ?? "unknown"})`
+  return `${info.id} ${status}: ${info.command}`
+}
+
+export const BackgroundStartTool = Tool.define("background_start", {
+  description: DESCRIPTION_START,
+  parameters: z.object({
+    command: z.string().describe("The command to run in the background"),
+    description: z.string().describe("Clear, concise description of what this process is in 5-10 words"),
+  }),
+  async execute(params, ctx) {
+    await authorize(params, ctx)
+    const info = SessionBackground.start({
+      sessionID: ctx.sessionID,
+      command: params.command,
+      description: params.description,
+    })
+    return {
+      title: params.description,
+      metadata: {
+        info,
+      },
+      output: `Started ${info.id} with pid ${info.pid}`,
+    }
+  },
+})
+
+export const BackgroundOutputTool = Tool.define("background_output", {
+  description: DESCRIPTION_OUTPUT,
+  parameters: z.object({
+    id: z.string().describe("The id returned by background_start"),
+    lines: z.number().int().positive().describe(`Number of lines to return, defaults to ${DEFAULT_LINES}`).optional(),
+    pattern: z.string().describe("Regular expression the returned lines must match").optional(),
+  }),
+  async execute(params, ctx) {
+    const result = SessionBackground.output({
+      sessionID: ctx.sessionID,
+      id: params.id,
+      lines: params.lines ?? DEFAULT_LINES,
+      pattern: params.pattern,
+    })
+    const header = [
+      format(result.info),
+      `Showing ${result.lines.length} of ${result.total} ${params.pattern ? "matching " : ""}lines` +
+        (result.truncated ? ", older output was discarded" : ""),
+    ]
+    return {
+      title: result.info.description,
+      metadata: {
+        info: result.info,
+      },
+      output: [...header, "", ...result.lines].join("\n"),
+    }
+  },
+})
+
+export const BackgroundStatusTool = Tool.define("background_status", {
+  description: "Lists the background processes of this session with their status, or a single one when an id is given",
+  parameters: z.object({
+    id: z.string().describe("The id returned by background_start").optional(),
+  }),
+  async execute(params, ctx) {
+    const processes = params.id
+      ? [SessionBackground.get(ctx.sessionID, params.id)]
+      : SessionBackground.list(ctx.sessionID)
+    return {
+      title: `${processes.filter((x) => x.status === "running").length} running`,
+      metadata: {
+        processes,
+      },
+      output: processes.length ? processes.map(format).join("\n") : "No background processes",
+    }
+  },
+})
+
+export const BackgroundStopTool = Tool.define("background_stop", {
+  description: "Stops a background process started with background_start, along with any processes it spawned",
+  parameters: z.object({
+    id: z.string().describe("The id returned by background_start"),
+  }),
+  async execute(params, ctx) {
+    const info = await SessionBackground.stop(ctx.sessionID, params.id)
+    return {
+      title: info.description,
+      metadata: {
+        info,
+      },
+      output: format(info),
+    }
+  },
+})
@@ -11,6 +11,8 @@ import { $ } from "bun"
 import { Filesystem } from "@/util/filesystem"
 import { Wildcard } from "@/util/wildcard"
 import { Permission } from "@/permission"
+import { Config } from "@/config/config"
+import { SessionShell } from "@/session/shell"
 import { fileURLToPath } from "url"
 import path from "path"
 
@@ -21,6 +23,11 @@ const SIGKILL_TIMEOUT_MS = 200
 
 export const log = Log.create({ service: "bash-tool" })
 
+const PERSISTENT = `Commands run in a long-lived shell, so the working directory, exported variables and activated environments (virtualenvs, nvm and the like) carry over to later calls and setup does not need to be repeated. Pass \`shell\` with a name to keep several independent shells. A command that times out or is aborted restarts its shell.`
+// the shell only gets a terminal where `script` can allocate one, see SessionShell
+const TTY = `The shell runs in a terminal, but commands get no input, so prompts fail instead of waiting for an answer: pass flags such as \`--yes\` instead.`
+const PIPES = `The shell is not attached to a terminal and commands get no input, so interactive programs and prompts will not work: pass flags such as \`--yes\` or \`--no-pager\` instead.`
+
 const resolveWasm = (asset: string) => {
   if (asset.startsWith("file://")) return fileURLToPath(asset)
   if (asset.startsWith("/") || /^[a-z]:/i.test(asset)) return asset
@@ -49,137 +56,39 @@ const parser = lazy(async () => {
   return p
 })
 
-export const BashTool = Tool.define("bash", {
-  description: DESCRIPTION,
-  parameters: z.object({
-    command: z.string().describe("The command to execute"),
-    timeout: z.number().describe("Optional timeout in milliseconds").optional(),
-    description: z
-      .string()
-      .describe(
-        "Clear, concise description of what this command does in 5-10 words. Examples:\nInput: ls\nOutput: Lists files in current directory\n\nInput: git status\nOutput: Shows working tree status\n\nInput: npm install\nOutput: Installs package dependencies\n\nInput: mkdir foo\nOutput: Creates directory 'foo'",
-      ),
-  }),
-  async execute(params, ctx) {
+const parameters = z.object({
+  command: z.string().describe("The command to execute"),
+  timeout: z.number().describe("Optional timeout in milliseconds").optional(),
+  description: z
+    .string()
+    .describe(
+      "Clear, concise description of what this command does in 5-10 words. Examples:\nInput: ls\nOutput: Lists files in current directory\n\nInput: git status\nOutput: Shows working tree status\n\nInput: npm install\nOutput: Installs package dependencies\n\nInput: mkdir foo\nOutput: Creates directory 'foo'",
+    ),
+  shell: z
+    .string()
+    .describe(
+      `Name of the persistent shell to run the command in. Use separate names to keep independent working directories and environments, for example one per service. Defaults to "${SessionShell.DEFAULT}"`,
+    )
+    .optional(),
+})
+
+const persistent = () => Config.get().then((x) => x.experimental?.persistent_shell === true)
+
+export const BashTool = Tool.define("bash", async () => ({
+  description: (await persistent())
+    ? [DESCRIPTION, PERSISTENT + " " + (SessionShell.tty() ? TTY : PIPES)].join("\n\n")
+    : DESCRIPTION,
+  parameters: (await persistent()) ? parameters : parameters.omit({ shell: true }),
+  async execute(params: z.infer<typeof parameters>, ctx: Tool.Context) {
     if (params.timeout !== undefined && params.timeout < 0) {
       throw new Error(`Invalid timeout value: ${params.timeout}. Timeout must be a positive number.`)
     }
     const timeout = Math.min(params.timeout ?? DEFAULT_TIMEOUT, MAX_TIMEOUT)
-    const tree = await parser().then((p) => p.parse(params.command))
-    if (!tree) {
-      throw new Error("Failed to parse command")
-    }
-    const agent = await Agent.get(ctx.agent)
-    const permissions = agent.permission.bash
-
-    const askPatterns = new Set<string>()
-    for (const node of tree.rootNode.descendantsOfType("command")) {
-      if (!node) continue
-      const command = []
-      for (let i = 0; i < node.childCount; i++) {
-        const child = node.child(i)
-        if (!child) continue
-        if (
-          child.type !== "command_name" &&
-          child.type !== "word" &&
-          child.type !== "string" &&
-          child.type !== "raw_string" &&
-          child.type !== "concatenation"
-        ) {
-          continue
-        }
-        command.push(child.text)
-      }
+    const shell = (await persistent()) ? SessionShell.get(ctx.sessionID, params.shell) : undefined
+    // a persistent shell may have changed directory since it started
+    await authorize(params, ctx, shell?.cwd ?? Instance.directory)
 
-      // not an exhaustive list, but covers most common cases
-      if (["cd", "rm", "cp", "mv", "mkdir", "touch", "chmod", "chown"].includes(command[0])) {
-        for (const arg of command.slice(1)) {
-          if (arg.startsWith("-") || (command[0] === "chmod" && arg.startsWith("+"))) continue
-          const resolved = await $`realpath ${arg}`
-            .quiet()
-            .nothrow()
-            .text()
-            .then((x) => x.trim())
-          log.info("resolved path", { arg, resolved })
-          if (resolved) {
-            // Git Bash on Windows returns Unix-style paths like /c/Users/...
-            const normalized =
-              process.platform === "win32" && resolved.match(/^\/[a-z]\//)
-                ? resolved.replace(/^\/([a-z])\//, (_, drive) => `${drive.toUpperCase()}:\\`).replace(/\//g, "\\")
-                : resolved
-
-            if (!Filesystem.contains(Instance.directory, normalized)) {
-              const parentDir = path.dirname(normalized)
-              //Secure default: only allow if explicitly set to "allow" or "ask"
-              if (agent.permission.external_directory === "allow") {
-                // Explicitly allowed, proceed
-              } else if (agent.permission.external_directory === "ask") {
-                await Permission.ask({
-                  type: "external_directory",
-                  pattern: [parentDir, path.join(parentDir, "*")],
-                  sessionID: ctx.sessionID,
-                  messageID: ctx.messageID,
-                  callID: ctx.callID,
-                  title: `This command references paths outside of ${Instance.directory}`,
-                  metadata: {
-                    command: params.command,
-                  },
-                })
-              } else {
-                // Default deny for "deny", undefined, null, or any other value
-                throw new Permission.RejectedError(
-                  ctx.sessionID,
-                  "external_directory",
-                  ctx.callID,
-                  {
-                    command: params.command,
-                  },
-                  `This command references paths outside of ${Instance.directory} so it is not allowed to be executed.`,
-                )
-              }
-            }
-          }
-        }
-      }
-
-      // always allow cd if it passes above check
-      if (command[0] !== "cd") {
-        const action = Wildcard.allStructured({ head: command[0], tail: command.slice(1) }, permissions)
-        if (action === "deny") {
-          throw new Error(
-            `The user has specifically restricted access to this command, you are not allowed to execute it. Here is the configuration: ${JSON.stringify(permissions)}`,
-          )
-        }
-        if (action === "ask") {
-          const pattern = (() => {
-            if (command.length === 0) return
-            const head = command[0]
-            // Find first non-flag argument as subcommand
-            const sub = command.slice(1).find((arg) => !arg.startsWith("-"))
-            return sub ? `${head} ${sub} *` : `${head} *`
-          })()
-          if (pattern) {
-            askPatterns.add(pattern)
-          }
-        }
-      }
-    }
-
-    if (askPatterns.size > 0) {
-      const patterns = Array.from(askPatterns)
-      await Permission.ask({
-        type: "bash",
-        pattern: patterns,
-        sessionID: ctx.sessionID,
-        messageID: ctx.messageID,
-        callID: ctx.callID,
-        title: params.command,
-        metadata: {
-          command: params.command,
-          patterns,
-        },
-      })
-    }
+    if (await persistent()) return persist(params, ctx, timeout)
 
     const proc = spawn(params.command, {
       shell: true,
@@ -307,4 +216,190 @@ export const BashTool = Tool.define("bash", {
       output,
     }
   },
-})
+}))
+
+async function persist(params: z.infer<typeof parameters>, ctx: Tool.Context, timeout: number) {
+  ctx.metadata({
+    metadata: {
+      output: "",
+      description: params.description,
+    },
+  })
+  const result = await SessionShell.run({
+    sessionID: ctx.sessionID,
+    name: params.shell,
+    command: params.command,
+    timeout,
+    abort: ctx.abort,
+    onOutput: (output) =>
+      ctx.metadata({
+        metadata: {
+          output,
+          description: params.description,
+        },
+      }),
+  })
+
+  let output = result.output
+  if (output.length > MAX_OUTPUT_LENGTH) {
+    output = output.slice(0, MAX_OUTPUT_LENGTH)
+    output += "\n\n(Output was truncated due to length limit)"
+  }
+
+  if (result.timedOut) {
+    output += `\n\n(Command timed out after ${timeout} ms, the shell was restarted and its state is lost)`
+  } else if (result.aborted) {
+    output += "\n\n(Command was aborted, the shell was restarted and its state is lost)"
+  } else if (result.closed) {
+    output += "\n\n(The shell exited, the next command starts a new one)"
+  }
+
+  return {
+    title: params.description,
+    metadata: {
+      output,
+      exit: result.exit ?? null,
+      description: params.description,
+      shell: params.shell ?? SessionShell.DEFAULT,
+      cwd: result.cwd,
+    },
+    output,
+  }
+}
+
+/**
+ * Runs the tree-sitter based permission checks for a command: paths outside the
+ * project and commands matching the agent's bash rules are denied or asked for.
+ * Other tools that run shell commands use it too.
+ */
+export async function authorize(params: { command: string }, ctx: Tool.Context, cwd = Instance.directory) {
+  const tree = await parser().then((p) => p.parse(params.command))
+  if (!tree) {
+    throw new Error("Failed to parse command")
+  }
+  const agent = await Agent.get(ctx.agent)
+  const permissions = agent.permission.bash
+
+  const askPatterns = new Set<string>()
+  for (const node of tree.rootNode.descendantsOfType("command")) {
+    if (!node) continue
+    const command = []
+    for (let i = 0; i < node.childCount; i++) {
+      const child = node.child(i)
+      if (!child) continue
+      if (
+        child.type !== "command_name" &&
+        child.type !== "word" &&
+        child.type !== "string" &&
+        child.type !== "raw_string" &&
+        child.type !== "concatenation"
+      ) {
+        continue
+      }
+      command.push(child.text)
+    }
+
+    // not an exhaustive list, but covers most common cases
+    if (["cd", "rm", "cp", "mv", "mkdir", "touch", "chmod", "chown"].includes(command[0])) {
+      for (const arg of command.slice(1)) {
+        if (arg.startsWith("-") || (command[0] === "chmod" && arg.startsWith("+"))) continue
+        const resolved = await $`realpath ${arg}`
+          .cwd(cwd)
+          .quiet()
+          .nothrow()
+          .text()
+          .then((x) => x.trim())
+        log.info("resolved path", { arg, resolved })
+        if (resolved) {
+          // Git Bash on Windows returns Unix-style paths like /c/Users/...
+          const normalized =
+            process.platform === "win32" && resolved.match(/^\/[a-z]\//)
+              ? resolved.replace(/^\/([a-z])\//, (_, drive) => `${drive.toUpperCase()}:\\`).replace(/\//g, "\\")
+              : resolved
+
+          if (!Filesystem.contains(Instance.directory, normalized)) {
+            const parentDir = path.dirname(normalized)
+            const request = {
+              type: "external_directory",
+              pattern: [parentDir, path.join(parentDir, "*")],
+              sessionID: ctx.sessionID,
+              messageID: ctx.messageID,
+              callID: ctx.callID,
+              title: `This command references paths outside of ${Instance.directory}`,
+              metadata: {
+                command: params.command,
+              },
+            }
+            //Secure default: only allow if explicitly set to "allow" or "ask"
+            if (agent.permission.external_directory === "allow") {
+              // Explicitly allowed, proceed
+            } else if (agent.permission.external_directory === "ask") {
+              await Permission.ask(request)
+            } else {
+              // Default deny for "deny", undefined, null, or any other value
+              await Permission.denied(request)
+              throw new Permission.RejectedError(
+                ctx.sessionID,
+                "external_directory",
+                ctx.callID,
+                {
+                  command: params.command,
+                },
+                `This command references paths outside of ${Instance.directory} so it is not allowed to be executed.`,
+              )
+            }
+          }
+        }
+      }
+    }
+
+    // always allow cd if it passes above check
+    if (command[0] !== "cd") {
+      const action = Wildcard.allStructured({ head: command[0], tail: command.slice(1) }, permissions)
+      if (action === "deny") {
+        await Permission.denied({
+          type: "bash",
+          pattern: command.join(" "),
+          sessionID: ctx.sessionID,
+          messageID: ctx.messageID,
+          callID: ctx.callID,
+          title: params.command,
+          metadata: {
+            command: params.command,
+          },
+        })
+        throw new Error(
+          `The user has specifically restricted access to this command, you are not allowed to execute it. Here is the configuration: ${JSON.stringify(permissions)}`,
+        )
+      }
+      if (action === "ask") {
+        const pattern = (() => {
+          if (command.length === 0) return
+          const head = command[0]
+          // Find first non-flag argument as subcommand
+          const sub = command.slice(1).find((arg) => !arg.startsWith("-"))
+          return sub ? `${head} ${sub} *` : `${head} *`
+        })()
+        if (pattern) {
+          askPatterns.add(pattern)
+        }
+      }
+    }
+  }
+
+  if (askPatterns.size > 0) {
+    const patterns = Array.from(askPatterns)
+    await Permission.ask({
+      type: "bash",
+      pattern: patterns,
+      sessionID: ctx.sessionID,
+      messageID: ctx.messageID,
+      callID: ctx.callID,
+      title: params.command,
+      metadata: {
+        command: params.command,
+        patterns,
+      },
+    })
+  }
+}
@@ -1,8 +1,8 @@
 import z from "zod"
 import { Tool } from "./tool"
 import DESCRIPTION from "./codesearch.txt"
-import { Config } from "../config/config"
-import { Permission } from "../permission"
+import { Agent } from "../agent/agent"
+import { PermissionWeb } from "../permission/web"
 
 const API_CONFIG = {
   BASE_URL: "https://mcp.exa.ai",
@@ -52,9 +52,11 @@ export const CodeSearchTool = Tool.define("codesearch", {
       ),
   }),
   async execute(params, ctx) {
-    const cfg = await Config.get()
-    if (cfg.permission?.webfetch === "ask")
-      await Permission.ask({
+    const agent = await Agent.get(ctx.agent)
+    await PermissionWeb.assert({
+      rules: agent.permission.webfetch,
+      url: `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.CONTEXT}`,
+      request: {
         type: "codesearch",
         sessionID: ctx.sessionID,
         messageID: ctx.messageID,
@@ -64,7 +66,8 @@ export const CodeSearchTool = Tool.define("codesearch", {
           query: params.query,
           tokensNum: params.tokensNum,
         },
-      })
+      },
+    })
 
     const codeRequest: McpCodeRequest = {
       jsonrpc: "2.0",
@@ -9,6 +9,7 @@ import { Tool } from "./tool"
 import { LSP } from "../lsp"
 import { createTwoFilesPatch, diffLines } from "diff"
 import { Permission } from "../permission"
+import { PermissionFile } from "../permission/file"
 import DESCRIPTION from "./edit.txt"
 import { File } from "../file"
 import { Bus } from "../bus"
@@ -44,24 +45,26 @@ export const EditTool = Tool.define("edit", {
     const filePath = path.isAbsolute(params.filePath) ? params.filePath : path.join(Instance.directory, params.filePath)
     if (!Filesystem.contains(Instance.directory, filePath)) {
       const parentDir = path.dirname(filePath)
+      const request = {
+        type: "external_directory",
+        pattern: [parentDir, path.join(parentDir, "*")],
+        sessionID: ctx.sessionID,
+        messageID: ctx.messageID,
+        callID: ctx.callID,
+        title: `Edit file outside working directory: ${filePath}`,
+        metadata: {
+          filepath: filePath,
+          parentDir,
+        },
+      }
       // Secure default: only allow if explicitly set to "allow" or "ask"
       if (agent.permission.external_directory === "allow") {
         // Explicitly allowed, proceed
       } else if (agent.permission.external_directory === "ask") {
-        await Permission.ask({
-          type: "external_directory",
-          pattern: [parentDir, path.join(parentDir, "*")],
-          sessionID: ctx.sessionID,
-          messageID: ctx.messageID,
-          callID: ctx.callID,
-          title: `Edit file outside working directory: ${filePath}`,
-          metadata: {
-            filepath: filePath,
-            parentDir,
-          },
-        })
+        await Permission.ask(request)
       } else {
         // Default deny for "deny", undefined, null, or any other value
+        await Permission.denied(request)
         throw new Permission.RejectedError(
           ctx.sessionID,
           "external_directory",
@@ -82,25 +85,23 @@ export const EditTool = Tool.define("edit", {
       if (params.oldString === "") {
         contentNew = params.newString
         diff = trimDiff(createTwoFilesPatch(filePath, filePath, contentOld, contentNew))
-        // Secure default: only allow if explicitly set to "allow" or "ask"
-        if (agent.permission.edit === "allow") {
-          // Explicitly allowed, proceed
-        } else if (agent.permission.edit === "ask") {
-          await Permission.ask({
-            type: "edit",
-            sessionID: ctx.sessionID,
-            messageID: ctx.messageID,
-            callID: ctx.callID,
-            title: "Edit this file: " + filePath,
-            metadata: {
-              filePath,
-              diff,
-            },
-          })
-        } else {
-          // Default deny for "deny", undefined, null, or any other value
-          throw new Error(`Permission denied: Cannot edit file: ${filePath}`)
+        const request = {
+          type: "edit",
+          sessionID: ctx.sessionID,
+          messageID: ctx.messageID,
+          callID: ctx.callID,
+          title: "Edit this file: " + filePath,
+          metadata: {
+            filePath,
+            diff,
+          },
         }
+        await PermissionFile.assert({
+          rules: agent.permission.edit,
+          files: [filePath],
+          request,
+          message: `Permission denied: Cannot edit file: ${filePath}`,
+        })
         await Bun.write(filePath, params.newString)
         await Bus.publish(File.Event.Edited, {
           file: filePath,
@@ -119,25 +120,23 @@ export const EditTool = Tool.define("edit", {
       diff = trimDiff(
         createTwoFilesPatch(filePath, filePath, normalizeLineEndings(contentOld), normalizeLineEndings(contentNew)),
       )
-      // Secure default: only allow if explicitly set to "allow" or "ask"
-      if (agent.permission.edit === "allow") {
-        // Explicitly allowed, proceed
-      } else if (agent.permission.edit === "ask") {
-        await Permission.ask({
-          type: "edit",
-          sessionID: ctx.sessionID,
-          messageID: ctx.messageID,
-          callID: ctx.callID,
-          title: "Edit this file: " + filePath,
-          metadata: {
-            filePath,
-            diff,
-          },
-        })
-      } else {
-        // Default deny for "deny", undefined, null, or any other value
-        throw new Error(`Permission denied: Cannot edit file: ${filePath}`)
+      const request = {
+        type: "edit",
+        sessionID: ctx.sessionID,
+        messageID: ctx.messageID,
+        callID: ctx.callID,
+        title: "Edit this file: " + filePath,
+        metadata: {
+          filePath,
+          diff,
+        },
       }
+      await PermissionFile.assert({
+        rules: agent.permission.edit,
+        files: [filePath],
+        request,
+        message: `Permission denied: Cannot edit file: ${filePath}`,
+      })
 
       await file.write(contentNew)
       await Bus.publish(File.Event.Edited, {
@@ -0,0 +1,52 @@
+import z from "zod"
+import { Tool } from "./tool"
+import path from "path"
+import { fileURLToPath } from "url"
+import type { Location } from "vscode-languageserver-types"
+import { LSP } from "../lsp"
+import DESCRIPTION from "./lsp-definition.txt"
+import { Instance } from "../project/instance"
+
+export async function formatLocations(locations: Location[]) {
+  const lines: string[] = []
+  const cache = new Map<string, string[]>()
+  for (const location of locations) {
+    const file = fileURLToPath(location.uri)
+    if (!cache.has(file)) {
+      const text = await Bun.file(file)
+        .text()
+        .catch(() => "")
+      cache.set(file, text.split("\n"))
+    }
+    const { line, character } = location.range.start
+    const preview = cache.get(file)![line]?.trim() ?? ""
+    lines.push(`${path.relative(Instance.worktree, file)}:${line + 1}:${character + 1}: ${preview}`)
+  }
+  return lines.join("\n")
+}
+
+export const LspDefinitionTool = Tool.define("lsp_definition", {
+  description: DESCRIPTION,
+  parameters: z.object({
+    file: z.string().describe("The path to the file containing the symbol"),
+    line: z.number().describe("The line number of the symbol (1-based)"),
+    character: z.number().describe("The column of the symbol within the line (1-based)"),
+  }),
+  execute: async (args) => {
+    const file = path.isAbsolute(args.file) ? args.file : path.join(Instance.directory, args.file)
+    await LSP.touchFile(file, true)
+    const locations = await LSP.definition({
+      file,
+      line: args.line - 1,
+      character: args.character - 1,
+    })
+
+    return {
+      title: path.relative(Instance.worktree, file) + ":" + args.line + ":" + args.character,
+      metadata: {
+        count: locations.length,
+      },
+      output: locations.length ? await formatLocations(locations) : "No definition found",
+    }
+  },
+})
@@ -8,16 +8,17 @@ import { Instance } from "../project/instance"
 export const LspHoverTool = Tool.define("lsp_hover", {
   description: DESCRIPTION,
   parameters: z.object({
-    file: z.string().describe("The path to the file to get diagnostics."),
-    line: z.number().describe("The line number to get diagnostics."),
-    character: z.number().describe("The character number to get diagnostics."),
+    file: z.string().describe("The path to the file containing the symbol"),
+    line: z.number().describe("The line number of the symbol (1-based)"),
+    character: z.number().describe("The column of the symbol within the line (1-based)"),
   }),
   execute: async (args) => {
     const file = path.isAbsolute(args.file) ? args.file : path.join(Instance.directory, args.file)
     await LSP.touchFile(file, true)
     const result = await LSP.hover({
-      ...args,
       file,
+      line: args.line - 1,
+      character: args.character - 1,
     })
 
     return {
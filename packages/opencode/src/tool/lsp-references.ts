@@ -0,0 +1,40 @@
+import z from "zod"
+import { Tool } from "./tool"
+import path from "path"
+import { LSP } from "../lsp"
+import DESCRIPTION from "./lsp-references.txt"
+import { Instance } from "../project/instance"
+import { formatLocations } from "./lsp-definition"
+
+const MAX_REFERENCES = 100
+
+export const LspReferencesTool = Tool.define("lsp_references", {
+  description: DESCRIPTION,
+  parameters: z.object({
+    file: z.string().describe("The path to the file containing the symbol"),
+    line: z.number().describe("The line number of the symbol (1-based)"),
+    character: z.number().describe("The column of the symbol within the line (1-based)"),
+  }),
+  execute: async (args) => {
+    const file = path.isAbsolute(args.file) ? args.file : path.join(Instance.directory, args.file)
+    await LSP.touchFile(file, true)
+    const locations = await LSP.references({
+      file,
+      line: args.line - 1,
+      character: args.character - 1,
+    })
+
+    let output = locations.length ? await formatLocations(locations.slice(0, MAX_REFERENCES)) : "No references found"
+    if (locations.length > MAX_REFERENCES) {
+      output += `\n\n(Showing ${MAX_REFERENCES} of ${locations.length} references)`
+    }
+
+    return {
+      title: path.relative(Instance.worktree, file) + ":" + args.line + ":" + args.character,
+      metadata: {
+        count: locations.length,
+      },
+      output,
+    }
+  },
+})
@@ -0,0 +1,87 @@
+import z from "zod"
+import path from "path"
+import { createTwoFilesPatch } from "diff"
+import { Tool } from "./tool"
+import { LSP } from "../lsp"
+import DESCRIPTION from "./lsp-rename.txt"
+import { Instance } from "../project/instance"
+import { Agent } from "../agent/agent"
+import { PermissionFile } from "../permission/file"
+import { Filesystem } from "../util/filesystem"
+import { FileTime } from "../file/time"
+import { File } from "../file"
+import { Bus } from "../bus"
+
+export const LspRenameTool = Tool.define("lsp_rename", {
+  description: DESCRIPTION,
+  parameters: z.object({
+    file: z.string().describe("The path to the file containing the symbol"),
+    line: z.number().describe("The line number of the symbol (1-based)"),
+    character: z.number().describe("The column of the symbol within the line (1-based)"),
+    newName: z.string().describe("The new name for the symbol"),
+  }),
+  async execute(params, ctx) {
+    const file = path.isAbsolute(params.file) ? params.file : path.join(Instance.directory, params.file)
+    await LSP.touchFile(file, true)
+    const edit = await LSP.rename({
+      file,
+      line: params.line - 1,
+      character: params.character - 1,
+      newName: params.newName,
+    })
+    if (!edit) throw new Error(`No language server could rename the symbol at ${params.file}:${params.line}`)
+
+    const changes: { filePath: string; oldContent: string; newContent: string; count: number }[] = []
+    let diff = ""
+    for (const [filePath, edits] of Object.entries(LSP.workspaceEdits(edit))) {
+      if (!Filesystem.contains(Instance.directory, filePath)) {
+        throw new Error(`Rename would edit a file outside the working directory: ${filePath}`)
+      }
+      await FileTime.assert(ctx.sessionID, filePath)
+      const oldContent = await Bun.file(filePath).text()
+      const newContent = LSP.applyTextEdits(oldContent, edits)
+      if (oldContent === newContent) continue
+      changes.push({ filePath, oldContent, newContent, count: edits.length })
+      diff += createTwoFilesPatch(filePath, filePath, oldContent, newContent) + "\n"
+    }
+    if (changes.length === 0) throw new Error("Rename produced no changes")
+
+    const agent = await Agent.get(ctx.agent)
+    const request = {
+      type: "edit",
+      sessionID: ctx.sessionID,
+      messageID: ctx.messageID,
+      callID: ctx.callID,
+      title: `Rename symbol to ${params.newName} in ${changes.length} files`,
+      metadata: {
+        diff,
+      },
+    }
+    await PermissionFile.assert({
+      rules: agent.permission.edit,
+      files: changes.map((change) => change.filePath),
+      request,
+      message: `Permission denied: Cannot rename symbol`,
+    })
+
+    for (const change of changes) {
+      await Bun.write(change.filePath, change.newContent)
+      await Bus.publish(File.Event.Edited, {
+        file: change.filePath,
+      })
+      FileTime.read(ctx.sessionID, change.filePath)
+      await LSP.touchFile(change.filePath)
+    }
+
+    const summary = `${changes.length} files changed`
+    return {
+      title: summary,
+      metadata: {
+        diff,
+      },
+      output: `Renamed to ${params.newName}. ${summary}:\n${changes
+        .map((change) => `  ${path.relative(Instance.worktree, change.filePath)} (${change.count} edits)`)
+        .join("\n")}`,
+    }
+  },
+})
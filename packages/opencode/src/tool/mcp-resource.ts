@@ -0,0 +1,55 @@
+import z from "zod"
+import { Tool } from "./tool"
+import DESCRIPTION from "./mcp-resource.txt"
+import { MCP } from "../mcp"
+import { Identifier } from "../id/id"
+import type { MessageV2 } from "../session/message-v2"
+
+export const McpResourceTool = Tool.define("mcp_resource", async () => {
+  const resources = await MCP.resources()
+  const description = DESCRIPTION.replace(
+    "{resources}",
+    resources.map((x) => `- ${x.client}: ${x.uri} (${x.name})${x.description ? ": " + x.description : ""}`).join("\n"),
+  )
+  return {
+    description,
+    parameters: z.object({
+      server: z.string().describe("The name of the MCP server that provides the resource"),
+      uri: z.string().describe("The URI of the resource"),
+    }),
+    async execute(params, ctx) {
+      const result = await MCP.read(params.server, params.uri)
+      const output: string[] = []
+      const attachments: MessageV2.FilePart[] = []
+      for (const content of result.contents) {
+        if (typeof content.text === "string") {
+          output.push(content.text)
+          continue
+        }
+        if (typeof content.blob !== "string") continue
+        const mime = content.mimeType ?? "application/octet-stream"
+        if (mime.startsWith("image/")) {
+          attachments.push({
+            id: Identifier.ascending("part"),
+            sessionID: ctx.sessionID,
+            messageID: ctx.messageID,
+            type: "file",
+            mime,
+            url: `data:${mime};base64,${content.blob}`,
+          })
+          continue
+        }
+        output.push(`(${content.uri} is ${mime} content of ${Buffer.from(content.blob, "base64").length} bytes)`)
+      }
+      return {
+        title: `${params.server}: ${params.uri}`,
+        metadata: {
+          server: params.server,
+          uri: params.uri,
+        },
+        output: output.join("\n\n"),
+        attachments,
+      }
+    },
+  }
+})
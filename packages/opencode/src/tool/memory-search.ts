@@ -0,0 +1,47 @@
+import z from "zod"
+import { Tool } from "./tool"
+import DESCRIPTION from "./memory-search.txt"
+import { Memory } from "../memory"
+import { Session } from "../session"
+
+function attribute(text: string) {
+  return text.replaceAll("&", "&amp;").replaceAll('"', "&quot;").replaceAll("<", "&lt;").replaceAll(">", "&gt;")
+}
+
+export const MemorySearchTool = Tool.define("memory_search", {
+  description: DESCRIPTION,
+  parameters: z.object({
+    query: z.string().describe("What to recall from earlier sessions"),
+    limit: z.number().int().min(1).max(20).optional().describe("Maximum number of snippets to return (default 5)"),
+  }),
+  async execute(params, ctx) {
+    const matches = await Memory.search(params.query, {
+      limit: params.limit ?? 5,
+      exclude: [ctx.sessionID],
+    })
+
+    const sessions = new Map<string, Session.Info | undefined>()
+    const output = []
+    for (const match of matches) {
+      if (!sessions.has(match.sessionID)) {
+        sessions.set(match.sessionID, await Session.get(match.sessionID).catch(() => undefined))
+      }
+      const session = sessions.get(match.sessionID)
+      output.push(
+        [
+          `<memory session="${match.sessionID}" title="${attribute(session?.title ?? "")}" updated="${session ? new Date(session.time.updated).toISOString() : ""}" score="${match.score.toFixed(3)}">`,
+          match.content,
+          `</memory>`,
+        ].join("\n"),
+      )
+    }
+
+    return {
+      title: params.query,
+      metadata: {
+        matches: matches.length,
+      },
+      output: output.length > 0 ? output.join("\n\n") : "No relevant memories found",
+    }
+  },
+})
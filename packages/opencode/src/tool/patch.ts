@@ -4,6 +4,7 @@ import * as fs from "fs/promises"
 import { Tool } from "./tool"
 import { FileTime } from "../file/time"
 import { Permission } from "../permission"
+import { PermissionFile } from "../permission/file"
 import { Bus } from "../bus"
 import { FileWatcher } from "../file/watcher"
 import { Instance } from "../project/instance"
@@ -55,24 +56,26 @@ export const PatchTool = Tool.define("patch", {
 
       if (!Filesystem.contains(Instance.directory, filePath)) {
         const parentDir = path.dirname(filePath)
+        const request = {
+          type: "external_directory",
+          pattern: [parentDir, path.join(parentDir, "*")],
+          sessionID: ctx.sessionID,
+          messageID: ctx.messageID,
+          callID: ctx.callID,
+          title: `Patch file outside working directory: ${filePath}`,
+          metadata: {
+            filepath: filePath,
+            parentDir,
+          },
+        }
         // Secure default: only allow if explicitly set to "allow" or "ask"
         if (agent.permission.external_directory === "allow") {
           // Explicitly allowed, proceed
         } else if (agent.permission.external_directory === "ask") {
-          await Permission.ask({
-            type: "external_directory",
-            pattern: [parentDir, path.join(parentDir, "*")],
-            sessionID: ctx.sessionID,
-            messageID: ctx.messageID,
-            callID: ctx.callID,
-            title: `Patch file outside working directory: ${filePath}`,
-            metadata: {
-              filepath: filePath,
-              parentDir,
-            },
-          })
+          await Permission.ask(request)
         } else {
           // Default deny for "deny", undefined, null, or any other value
+          await Permission.denied(request)
           throw new Permission.RejectedError(
             ctx.sessionID,
             "external_directory",
@@ -156,24 +159,24 @@ export const PatchTool = Tool.define("patch", {
     }
 
     // Check permissions if needed
-    // Secure default: only allow if explicitly set to "allow" or "ask"
-    if (agent.permission.edit === "allow") {
-      // Explicitly allowed, proceed
-    } else if (agent.permission.edit === "ask") {
-      await Permission.ask({
-        type: "edit",
-        sessionID: ctx.sessionID,
-        messageID: ctx.messageID,
-        callID: ctx.callID,
-        title: `Apply patch to ${fileChanges.length} files`,
-        metadata: {
-          diff: totalDiff,
-        },
-      })
-    } else {
-      // Default deny for "deny", undefined, null, or any other value
-      throw new Error(`Permission denied: Cannot apply patch to files`)
+    const request = {
+      type: "edit",
+      sessionID: ctx.sessionID,
+      messageID: ctx.messageID,
+      callID: ctx.callID,
+      title: `Apply patch to ${fileChanges.length} files`,
+      metadata: {
+        diff: totalDiff,
+      },
     }
+    await PermissionFile.assert({
+      rules: agent.permission.edit,
+      files: fileChanges.flatMap((change) =>
+        change.movePath ? [change.filePath, change.movePath] : [change.filePath],
+      ),
+      request,
+      message: `Permission denied: Cannot apply patch to files`,
+    })
 
     // Apply the changes
     const changedFiles: string[] = []
@@ -10,8 +10,8 @@ import { Instance } from "../project/instance"
 import { Provider } from "../provider/provider"
 import { Identifier } from "../id/id"
 import { Permission } from "../permission"
+import { PermissionFile } from "../permission/file"
 import { Agent } from "@/agent/agent"
-import { iife } from "@/util/iife"
 
 const DEFAULT_READ_LIMIT = 2000
 const MAX_LINE_LENGTH = 2000
@@ -33,24 +33,26 @@ export const ReadTool = Tool.define("read", {
 
     if (!ctx.extra?.["bypassCwdCheck"] && !Filesystem.contains(Instance.directory, filepath)) {
       const parentDir = path.dirname(filepath)
+      const request = {
+        type: "external_directory",
+        pattern: [parentDir, path.join(parentDir, "*")],
+        sessionID: ctx.sessionID,
+        messageID: ctx.messageID,
+        callID: ctx.callID,
+        title: `Access file outside working directory: ${filepath}`,
+        metadata: {
+          filepath,
+          parentDir,
+        },
+      }
       // Secure default: only allow if explicitly set to "allow" or "ask"
       if (agent.permission.external_directory === "allow") {
         // Explicitly allowed, proceed
       } else if (agent.permission.external_directory === "ask") {
-        await Permission.ask({
-          type: "external_directory",
-          pattern: [parentDir, path.join(parentDir, "*")],
-          sessionID: ctx.sessionID,
-          messageID: ctx.messageID,
-          callID: ctx.callID,
-          title: `Access file outside working directory: ${filepath}`,
-          metadata: {
-            filepath,
-            parentDir,
-          },
-        })
+        await Permission.ask(request)
       } else {
         // Default deny for "deny", undefined, null, or any other value
+        await Permission.denied(request)
         throw new Permission.RejectedError(
           ctx.sessionID,
           "external_directory",
@@ -64,19 +66,25 @@ export const ReadTool = Tool.define("read", {
       }
     }
 
-    const block = iife(() => {
-      const whitelist = [".env.sample", ".example"]
-
-      if (whitelist.some((w) => filepath.endsWith(w))) return false
-      if (filepath.includes(".env")) return true
-
-      return false
+    await PermissionFile.assert({
+      rules: agent.permission.read,
+      defaults: PermissionFile.SECRETS,
+      files: [filepath],
+      request: {
+        type: "read",
+        sessionID: ctx.sessionID,
+        messageID: ctx.messageID,
+        callID: ctx.callID,
+        title: "Read this file: " + filepath,
+        metadata: {
+          filepath,
+        },
+      },
+      message: `The user has blocked you from reading ${filepath}, DO NOT make further attempts to read it`,
+      // files the user attached to their message are approved by attaching them
+      approved: ctx.extra?.["bypassCwdCheck"] === true,
     })
 
-    if (block) {
-      throw new Error(`The user has blocked you from reading ${filepath}, DO NOT make further attempts to read it`)
-    }
-
     const file = Bun.file(filepath)
     if (!(await file.exists())) {
       const dir = path.dirname(filepath)
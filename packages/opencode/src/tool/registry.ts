@@ -1,15 +1,25 @@
 import { BashTool } from "./bash"
+import { BackgroundStartTool, BackgroundOutputTool, BackgroundStatusTool, BackgroundStopTool } from "./background"
 import { EditTool } from "./edit"
 import { GlobTool } from "./glob"
 import { GrepTool } from "./grep"
 import { ListTool } from "./ls"
 import { BatchTool } from "./batch"
+import { MemorySearchTool } from "./memory-search"
 import { ReadTool } from "./read"
 import { TaskTool } from "./task"
 import { TodoWriteTool, TodoReadTool } from "./todo"
 import { WebFetchTool } from "./webfetch"
 import { WriteTool } from "./write"
 import { InvalidTool } from "./invalid"
+import { MultiEditTool } from "./multiedit"
+import { PatchTool } from "./patch"
+import { LspDiagnosticTool } from "./lsp-diagnostics"
+import { LspHoverTool } from "./lsp-hover"
+import { LspDefinitionTool } from "./lsp-definition"
+import { LspReferencesTool } from "./lsp-references"
+import { LspRenameTool } from "./lsp-rename"
+import { McpResourceTool } from "./mcp-resource"
 import type { Agent } from "../agent/agent"
 import { Tool } from "./tool"
 import { Instance } from "../project/instance"
@@ -21,8 +31,16 @@ import { Plugin } from "../plugin"
 import { WebSearchTool } from "./websearch"
 import { CodeSearchTool } from "./codesearch"
 import { Flag } from "@/flag/flag"
+import { Bus } from "../bus"
+import { MCP } from "../mcp"
+import { Hook } from "../hook"
+import { Wildcard } from "../util/wildcard"
 
 export namespace ToolRegistry {
+  export const Event = {
+    Updated: Bus.event("tool.updated", z.object({})),
+  }
+
   export const state = Instance.state(async () => {
     const custom = [] as Tool.Info[]
     const glob = new Bun.Glob("tool/*.{js,ts}")
@@ -35,7 +53,8 @@ export namespace ToolRegistry {
         dot: true,
       })) {
         const namespace = path.basename(match, path.extname(match))
-        const mod = await import(match)
+        // the modification time busts the module cache when the tool is reloaded
+        const mod = await import(`${match}?v=${Bun.file(match).lastModified}`)
         for (const [id, def] of Object.entries<ToolDefinition>(mod)) {
           custom.push(fromPlugin(id === "default" ? namespace : `${namespace}_${id}`, def))
         }
@@ -80,9 +99,21 @@ export namespace ToolRegistry {
     custom.push(tool)
   }
 
+  /**
+   * Imports the custom tools again, for example after a tool file or a plugin
+   * changed.
+   */
+  export async function reload() {
+    await state.reset()
+    Bus.publish(Event.Updated, {})
+  }
+
   async function all(): Promise<Tool.Info[]> {
     const custom = await state().then((x) => x.custom)
     const config = await Config.get()
+    const resources = await MCP.clients().then((x) =>
+      Object.values(x).some((client) => client.getServerCapabilities()?.resources),
+    )
 
     return [
       InvalidTool,
@@ -97,8 +128,19 @@ export namespace ToolRegistry {
       WebFetchTool,
       TodoWriteTool,
       TodoReadTool,
+      BackgroundStartTool,
+      BackgroundOutputTool,
+      BackgroundStatusTool,
+      BackgroundStopTool,
+      ...(config.experimental?.multiedit_tool === true ? [MultiEditTool] : []),
+      ...(config.experimental?.patch_tool === true ? [PatchTool] : []),
+      ...(config.experimental?.lsp_tool === true
+        ? [LspDiagnosticTool, LspHoverTool, LspDefinitionTool, LspReferencesTool, LspRenameTool]
+        : []),
       ...(config.experimental?.batch_tool === true ? [BatchTool] : []),
+      ...(config.experimental?.memory?.enabled === true ? [MemorySearchTool] : []),
       ...(Flag.OPENCODE_EXPERIMENTAL_EXA ? [WebSearchTool, CodeSearchTool] : []),
+      ...(resources ? [McpResourceTool] : []),
       ...custom,
     ]
   }
@@ -118,6 +160,43 @@ export namespace ToolRegistry {
     return result
   }
 
+  /**
+   * Runs a tool call within the tool.execute plugin hooks and the configured
+   * hooks, throwing when a pre tool hook denies it. Hook output is appended to
+   * the result.
+   */
+  export async function execute(
+    tool: { id: string; execute: Awaited<ReturnType<Tool.Info["init"]>>["execute"] },
+    args: unknown,
+    ctx: Tool.Context & { callID: string },
+  ) {
+    await Plugin.trigger(
+      "tool.execute.before",
+      { tool: tool.id, sessionID: ctx.sessionID, callID: ctx.callID },
+      { args },
+    )
+    const hook = { tool: tool.id, sessionID: ctx.sessionID, callID: ctx.callID, args }
+    const before = await Hook.before(hook)
+    const [result, edited] = await Hook.collect(() => tool.execute(args, ctx))
+    await Plugin.trigger("tool.execute.after", { tool: tool.id, sessionID: ctx.sessionID, callID: ctx.callID }, result)
+    const after = await Hook.after({ ...hook, output: result.output })
+    result.output = Hook.annotate(result.output, [...before, ...edited, ...after])
+    return result
+  }
+
+  const BACKGROUND = ["background_start", "background_output", "background_status", "background_stop"]
+
+  /**
+   * Background processes run arbitrary shell commands, so their tools are
+   * disabled whenever bash is, whatever the agent or prompt says about them.
+   */
+  export function gate(enabled: Record<string, boolean>) {
+    if (Wildcard.all("bash", enabled) !== false) return enabled
+    const result = { ...enabled }
+    for (const id of BACKGROUND) result[id] = false
+    return result
+  }
+
   export async function enabled(
     _providerID: string,
     _modelID: string,
@@ -125,14 +204,21 @@ export namespace ToolRegistry {
   ): Promise<Record<string, boolean>> {
     const result: Record<string, boolean> = {}
 
-    if (agent.permission.edit === "deny") {
+    if (agent.permission.edit["*"] === "deny" && Object.keys(agent.permission.edit).length === 1) {
       result["edit"] = false
       result["write"] = false
+      result["multiedit"] = false
+      result["patch"] = false
+      result["lsp_rename"] = false
     }
     if (agent.permission.bash["*"] === "deny" && Object.keys(agent.permission.bash).length === 1) {
       result["bash"] = false
+      for (const id of BACKGROUND) result[id] = false
+    }
+    if (agent.permission.read["*"] === "deny" && Object.keys(agent.permission.read).length === 1) {
+      result["read"] = false
     }
-    if (agent.permission.webfetch === "deny") {
+    if (agent.permission.webfetch["*"] === "deny" && Object.keys(agent.permission.webfetch).length === 1) {
       result["webfetch"] = false
     }
 
@@ -2,12 +2,19 @@ import z from "zod"
 import { Tool } from "./tool"
 import TurndownService from "turndown"
 import DESCRIPTION from "./webfetch.txt"
+import path from "path"
+import fs from "fs/promises"
 import { Config } from "../config/config"
-import { Permission } from "../permission"
+import { Agent } from "../agent/agent"
+import { Global } from "../global"
+import { Flag } from "../flag/flag"
+import { PermissionWeb } from "../permission/web"
 
 const MAX_RESPONSE_SIZE = 5 * 1024 * 1024 // 5MB
 const DEFAULT_TIMEOUT = 30 * 1000 // 30 seconds
 const MAX_TIMEOUT = 120 * 1000 // 2 minutes
+const DEFAULT_CACHE_TTL = 60 * 60 // 1 hour, in seconds
+const MAX_CACHE_AGE = 30 * 24 * 60 * 60 * 1000 // 30 days
 
 export const WebFetchTool = Tool.define("webfetch", {
   description: DESCRIPTION,
@@ -24,9 +31,11 @@ export const WebFetchTool = Tool.define("webfetch", {
       throw new Error("URL must start with http:// or https://")
     }
 
-    const cfg = await Config.get()
-    if (cfg.permission?.webfetch === "ask")
-      await Permission.ask({
+    const agent = await Agent.get(ctx.agent)
+    await PermissionWeb.assert({
+      rules: agent.permission.webfetch,
+      url: params.url,
+      request: {
         type: "webfetch",
         sessionID: ctx.sessionID,
         messageID: ctx.messageID,
@@ -37,110 +46,150 @@ export const WebFetchTool = Tool.define("webfetch", {
           format: params.format,
           timeout: params.timeout,
         },
-      })
-
-    const timeout = Math.min((params.timeout ?? DEFAULT_TIMEOUT / 1000) * 1000, MAX_TIMEOUT)
-
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), timeout)
-
-    // Build Accept header based on requested format with q parameters for fallbacks
-    let acceptHeader = "*/*"
-    switch (params.format) {
-      case "markdown":
-        acceptHeader = "text/markdown;q=1.0, text/x-markdown;q=0.9, text/plain;q=0.8, text/html;q=0.7, */*;q=0.1"
-        break
-      case "text":
-        acceptHeader = "text/plain;q=1.0, text/markdown;q=0.9, text/html;q=0.8, */*;q=0.1"
-        break
-      case "html":
-        acceptHeader = "text/html;q=1.0, application/xhtml+xml;q=0.9, text/plain;q=0.8, text/markdown;q=0.7, */*;q=0.1"
-        break
-      default:
-        acceptHeader =
-          "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8"
-    }
-
-    const response = await fetch(params.url, {
-      signal: AbortSignal.any([controller.signal, ctx.abort]),
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        Accept: acceptHeader,
-        "Accept-Language": "en-US,en;q=0.9",
       },
     })
 
-    clearTimeout(timeoutId)
-
-    if (!response.ok) {
-      throw new Error(`Request failed with status code: ${response.status}`)
+    const cfg = await Config.get()
+    const ttl = (cfg.experimental?.webfetch_cache_ttl ?? DEFAULT_CACHE_TTL) * 1000
+    const cached = ttl > 0 ? await WebFetchCache.get(params.url, params.format) : undefined
+    if (cached && Date.now() - cached.time < ttl) {
+      return {
+        output: cached.output,
+        title: cached.title,
+        metadata: { cached: true },
+      }
     }
 
-    // Check content length
-    const contentLength = response.headers.get("content-length")
-    if (contentLength && parseInt(contentLength) > MAX_RESPONSE_SIZE) {
-      throw new Error("Response too large (exceeds 5MB limit)")
+    const result = await request(params, ctx.abort).catch((error) => {
+      // serve an outdated copy rather than nothing, for example when offline
+      if (!cached || ctx.abort.aborted) throw error
+      return { error: error instanceof Error ? error.message : String(error) }
+    })
+    if ("error" in result) {
+      return {
+        output: `${cached!.output}\n\n(Fetching failed with "${result.error}", showing the copy cached at ${new Date(cached!.time).toISOString()})`,
+        title: cached!.title,
+        metadata: { cached: true },
+      }
     }
-
-    const arrayBuffer = await response.arrayBuffer()
-    if (arrayBuffer.byteLength > MAX_RESPONSE_SIZE) {
-      throw new Error("Response too large (exceeds 5MB limit)")
+    if (ttl > 0) await WebFetchCache.set({ url: params.url, format: params.format, ...result, time: Date.now() })
+    return {
+      output: result.output,
+      title: result.title,
+      metadata: { cached: false },
     }
+  },
+})
 
-    const content = new TextDecoder().decode(arrayBuffer)
-    const contentType = response.headers.get("content-type") || ""
-
-    const title = `${params.url} (${contentType})`
-
-    // Handle content based on requested format and actual content type
-    switch (params.format) {
-      case "markdown":
-        if (contentType.includes("text/html")) {
-          const markdown = convertHTMLToMarkdown(content)
-          return {
-            output: markdown,
-            title,
-            metadata: {},
-          }
-        }
-        return {
-          output: content,
-          title,
-          metadata: {},
-        }
+async function request(
+  params: { url: string; format: "text" | "markdown" | "html"; timeout?: number },
+  abort: AbortSignal,
+) {
+  const timeout = Math.min((params.timeout ?? DEFAULT_TIMEOUT / 1000) * 1000, MAX_TIMEOUT)
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeout)
+
+  // Build Accept header based on requested format with q parameters for fallbacks
+  let acceptHeader = "*/*"
+  switch (params.format) {
+    case "markdown":
+      acceptHeader = "text/markdown;q=1.0, text/x-markdown;q=0.9, text/plain;q=0.8, text/html;q=0.7, */*;q=0.1"
+      break
+    case "text":
+      acceptHeader = "text/plain;q=1.0, text/markdown;q=0.9, text/html;q=0.8, */*;q=0.1"
+      break
+    case "html":
+      acceptHeader = "text/html;q=1.0, application/xhtml+xml;q=0.9, text/plain;q=0.8, text/markdown;q=0.7, */*;q=0.1"
+      break
+    default:
+      acceptHeader = "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8"
+  }
+
+  const response = await fetch(params.url, {
+    signal: AbortSignal.any([controller.signal, abort]),
+    headers: {
+      "User-Agent":
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      Accept: acceptHeader,
+      "Accept-Language": "en-US,en;q=0.9",
+    },
+  })
 
-      case "text":
-        if (contentType.includes("text/html")) {
-          const text = await extractTextFromHTML(content)
-          return {
-            output: text,
-            title,
-            metadata: {},
-          }
-        }
-        return {
-          output: content,
-          title,
-          metadata: {},
-        }
+  clearTimeout(timeoutId)
 
-      case "html":
-        return {
-          output: content,
-          title,
-          metadata: {},
-        }
+  if (!response.ok) {
+    throw new Error(`Request failed with status code: ${response.status}`)
+  }
 
-      default:
-        return {
-          output: content,
-          title,
-          metadata: {},
-        }
+  // Check content length
+  const contentLength = response.headers.get("content-length")
+  if (contentLength && parseInt(contentLength) > MAX_RESPONSE_SIZE) {
+    throw new Error("Response too large (exceeds 5MB limit)")
+  }
+
+  const arrayBuffer = await response.arrayBuffer()
+  if (arrayBuffer.byteLength > MAX_RESPONSE_SIZE) {
+    throw new Error("Response too large (exceeds 5MB limit)")
+  }
+
+  const content = new TextDecoder().decode(arrayBuffer)
+  const contentType = response.headers.get("content-type") || ""
+
+  const title = `${params.url} (${contentType})`
+
+  // Handle content based on requested format and actual content type
+  if (params.format === "markdown" && contentType.includes("text/html")) {
+    return { output: convertHTMLToMarkdown(content), title }
+  }
+  if (params.format === "text" && contentType.includes("text/html")) {
+    return { output: await extractTextFromHTML(content), title }
+  }
+  return { output: content, title }
+}
+
+/**
+ * Converted responses on disk, keyed by URL and format, so documentation that
+ * was fetched before is instant and still available offline. Entries are
+ * removed once they are older than MAX_CACHE_AGE.
+ */
+namespace WebFetchCache {
+  type Entry = {
+    url: string
+    format: string
+    title: string
+    output: string
+    time: number
+  }
+
+  const dir = Flag.OPENCODE_WEBFETCH_CACHE_DIR ?? path.join(Global.Path.cache, "webfetch")
+
+  function file(url: string, format: string) {
+    return path.join(dir, Bun.hash(format + " " + url).toString(16) + ".json")
+  }
+
+  export async function get(url: string, format: string) {
+    const entry: Entry | undefined = await Bun.file(file(url, format))
+      .json()
+      .catch(() => undefined)
+    if (entry?.url !== url || entry.format !== format) return
+    return entry
+  }
+
+  export async function set(entry: Entry) {
+    await Bun.write(file(entry.url, entry.format), JSON.stringify(entry)).catch(() => {})
+    await prune()
+  }
+
+  async function prune() {
+    const names = await fs.readdir(dir).catch(() => [])
+    for (const name of names) {
+      const filepath = path.join(dir, name)
+      const stat = await fs.stat(filepath).catch(() => undefined)
+      if (stat && Date.now() - stat.mtimeMs > MAX_CACHE_AGE) await fs.rm(filepath, { force: true })
     }
-  },
-})
+  }
+}
 
 async function extractTextFromHTML(html: string) {
   let text = ""
@@ -1,8 +1,8 @@
 import z from "zod"
 import { Tool } from "./tool"
 import DESCRIPTION from "./websearch.txt"
-import { Config } from "../config/config"
-import { Permission } from "../permission"
+import { Agent } from "../agent/agent"
+import { PermissionWeb } from "../permission/web"
 
 const API_CONFIG = {
   BASE_URL: "https://mcp.exa.ai",
@@ -59,9 +59,11 @@ export const WebSearchTool = Tool.define("websearch", {
       .describe("Maximum characters for context string optimized for LLMs (default: 10000)"),
   }),
   async execute(params, ctx) {
-    const cfg = await Config.get()
-    if (cfg.permission?.webfetch === "ask")
-      await Permission.ask({
+    const agent = await Agent.get(ctx.agent)
+    await PermissionWeb.assert({
+      rules: agent.permission.webfetch,
+      url: `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.SEARCH}`,
+      request: {
         type: "websearch",
         sessionID: ctx.sessionID,
         messageID: ctx.messageID,
@@ -74,7 +76,8 @@ export const WebSearchTool = Tool.define("websearch", {
           type: params.type,
           contextMaxCharacters: params.contextMaxCharacters,
         },
-      })
+      },
+    })
 
     const searchRequest: McpSearchRequest = {
       jsonrpc: "2.0",
@@ -3,6 +3,7 @@ import * as path from "path"
 import { Tool } from "./tool"
 import { LSP } from "../lsp"
 import { Permission } from "../permission"
+import { PermissionFile } from "../permission/file"
 import DESCRIPTION from "./write.txt"
 import { Bus } from "../bus"
 import { File } from "../file"
@@ -23,24 +24,26 @@ export const WriteTool = Tool.define("write", {
     const filepath = path.isAbsolute(params.filePath) ? params.filePath : path.join(Instance.directory, params.filePath)
     if (!Filesystem.contains(Instance.directory, filepath)) {
       const parentDir = path.dirname(filepath)
+      const request = {
+        type: "external_directory",
+        pattern: [parentDir, path.join(parentDir, "*")],
+        sessionID: ctx.sessionID,
+        messageID: ctx.messageID,
+        callID: ctx.callID,
+        title: `Write file outside working directory: ${filepath}`,
+        metadata: {
+          filepath,
+          parentDir,
+        },
+      }
       // Secure default: only allow if explicitly set to "allow" or "ask"
       if (agent.permission.external_directory === "allow") {
         // Explicitly allowed, proceed
       } else if (agent.permission.external_directory === "ask") {
-        await Permission.ask({
-          type: "external_directory",
-          pattern: [parentDir, path.join(parentDir, "*")],
-          sessionID: ctx.sessionID,
-          messageID: ctx.messageID,
-          callID: ctx.callID,
-          title: `Write file outside working directory: ${filepath}`,
-          metadata: {
-            filepath,
-            parentDir,
-          },
-        })
+        await Permission.ask(request)
       } else {
         // Default deny for "deny", undefined, null, or any other value
+        await Permission.denied(request)
         throw new Permission.RejectedError(
           ctx.sessionID,
           "external_directory",
@@ -58,26 +61,24 @@ export const WriteTool = Tool.define("write", {
     const exists = await file.exists()
     if (exists) await FileTime.assert(ctx.sessionID, filepath)
 
-    // Secure default: only allow if explicitly set to "allow" or "ask"
-    if (agent.permission.edit === "allow") {
-      // Explicitly allowed, proceed
-    } else if (agent.permission.edit === "ask") {
-      await Permission.ask({
-        type: "write",
-        sessionID: ctx.sessionID,
-        messageID: ctx.messageID,
-        callID: ctx.callID,
-        title: exists ? "Overwrite this file: " + filepath : "Create new file: " + filepath,
-        metadata: {
-          filePath: filepath,
-          content: params.content,
-          exists,
-        },
-      })
-    } else {
-      // Default deny for "deny", undefined, null, or any other value
-      throw new Error(`Permission denied: Cannot write file: ${filepath}`)
+    const request = {
+      type: "write",
+      sessionID: ctx.sessionID,
+      messageID: ctx.messageID,
+      callID: ctx.callID,
+      title: exists ? "Overwrite this file: " + filepath : "Create new file: " + filepath,
+      metadata: {
+        filePath: filepath,
+        content: params.content,
+        exists,
+      },
     }
+    await PermissionFile.assert({
+      rules: agent.permission.edit,
+      files: [filepath],
+      request,
+      message: `Permission denied: Cannot write file: ${filepath}`,
+    })
 
     await Bun.write(filepath, params.content)
     await Bus.publish(File.Event.Edited, {
@@ -2,10 +2,16 @@ export function lazy<T>(fn: () => T) {
   let value: T | undefined
   let loaded = false
 
-  return (): T => {
+  const get = (): T => {
     if (loaded) return value as T
     loaded = true
     value = fn()
     return value as T
   }
+  return Object.assign(get, {
+    reset() {
+      loaded = false
+      value = undefined
+    },
+  })
 }
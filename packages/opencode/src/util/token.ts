@@ -1,7 +1,68 @@
+import { Tiktoken, type TiktokenBPE } from "js-tiktoken/lite"
+import { lazy } from "./lazy"
+
 export namespace Token {
   const CHARS_PER_TOKEN = 4
 
   export function estimate(input: string) {
     return Math.max(0, Math.round((input || "").length / CHARS_PER_TOKEN))
   }
+
+  export interface Tokenizer {
+    /** Encoding name, or "estimate" when no tokenizer is bundled for the model */
+    id: string
+    count(input: string): number
+  }
+
+  export const approximate: Tokenizer = {
+    id: "estimate",
+    count: estimate,
+  }
+
+  const ENCODINGS = {
+    o200k_base: lazy(() => import("js-tiktoken/ranks/o200k_base").then((x) => load(x.default))),
+    cl100k_base: lazy(() => import("js-tiktoken/ranks/cl100k_base").then((x) => load(x.default))),
+  }
+  export type Encoding = keyof typeof ENCODINGS
+
+  function load(ranks: TiktokenBPE) {
+    return new Tiktoken(ranks)
+  }
+
+  /**
+   * Picks the BPE encoding for a model from its id. Families whose tokenizers
+   * are not public (Claude, Gemini) return undefined and use the estimate.
+   */
+  export function encoding(model: { id: string }): Encoding | undefined {
+    const id = model.id.toLowerCase().split("/").at(-1)!
+    if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|o1|o3|o4|codex)/.test(id)) return "o200k_base"
+    if (/^(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada)/.test(id)) return "cl100k_base"
+    return undefined
+  }
+
+  // BPE merging is quadratic in the length of a single pre-tokenized piece, so
+  // long unbroken runs (separators, indentation, minified code) use the estimate
+  const LONG_RUN = /\S{256,}|\s{256,}/g
+
+  function count(bpe: Tiktoken, input: string) {
+    // special tokens in user content are counted as plain text instead of throwing
+    const encode = (text: string) => (text ? bpe.encode(text, [], []).length : 0)
+    let total = 0
+    let last = 0
+    for (const match of input.matchAll(LONG_RUN)) {
+      total += encode(input.slice(last, match.index)) + estimate(match[0])
+      last = match.index + match[0].length
+    }
+    return total + encode(input.slice(last))
+  }
+
+  export async function tokenizer(model: { id: string }): Promise<Tokenizer> {
+    const name = encoding(model)
+    if (!name) return approximate
+    const bpe = await ENCODINGS[name]()
+    return {
+      id: name,
+      count: (input) => count(bpe, input ?? ""),
+    }
+  }
 }
@@ -15,10 +15,18 @@ export namespace Wildcard {
   }
 
   export function all(input: string, patterns: Record<string, any>) {
+    return resolve(patterns, (pattern) => match(input, pattern))
+  }
+
+  /**
+   * The value of the longest pattern that matches, for patterns that are not
+   * plain wildcards.
+   */
+  export function resolve(patterns: Record<string, any>, matches: (pattern: string) => boolean) {
     const sorted = pipe(patterns, Object.entries, sortBy([([key]) => key.length, "asc"], [([key]) => key, "asc"]))
     let result = undefined
     for (const [pattern, value] of sorted) {
-      if (match(input, pattern)) {
+      if (matches(pattern)) {
         result = value
         continue
       }
@@ -336,12 +336,70 @@ test("updates config and writes to file", async () => {
       const newConfig = { model: "updated/model" }
       await Config.update(newConfig as any)
 
-      const writtenConfig = JSON.parse(await Bun.file(path.join(tmp.path, "config.json")).text())
+      const writtenConfig = JSON.parse(await Bun.file(path.join(tmp.path, "opencode.json")).text())
       expect(writtenConfig.model).toBe("updated/model")
     },
   })
 })
 
+test("updates the project config file in place, keeping comments and placeholders", async () => {
+  await using tmp = await tmpdir({
+    init: async (dir) => {
+      await Bun.write(
+        path.join(dir, "opencode.jsonc"),
+        `{
+  "$schema": "https://opencode.ai/config.json",
+  // the shared model
+  "model": "{env:OPENCODE_TEST_MODEL}",
+  "mcp": { "docs": { "type": "remote", "url": "https://example.com/mcp" } }
+}`,
+      )
+    },
+  })
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const config = await Config.get()
+      await Config.update({ model: config.model, mcp: { docs: { ...config.mcp!.docs, enabled: false } } })
+      const text = await Bun.file(path.join(tmp.path, "opencode.jsonc")).text()
+      expect(text).toContain("// the shared model")
+      expect(text).toContain('"model": "{env:OPENCODE_TEST_MODEL}"')
+      expect(text).toContain('"enabled": false')
+      expect(await Bun.file(path.join(tmp.path, "opencode.json")).exists()).toBe(false)
+
+      await Config.unset(["mcp", "docs"])
+      expect(await Bun.file(path.join(tmp.path, "opencode.jsonc")).text()).not.toContain("docs")
+    },
+  })
+})
+
+test("adds $schema to a config file without resolving its placeholders", async () => {
+  await using tmp = await tmpdir({
+    init: async (dir) => {
+      await Bun.write(
+        path.join(dir, "opencode.jsonc"),
+        `{
+  // the shared model
+  "model": "{env:OPENCODE_TEST_MODEL}"
+}`,
+      )
+    },
+  })
+  process.env["OPENCODE_TEST_MODEL"] = "test/model"
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      expect((await Config.get()).model).toBe("test/model")
+      const text = await Bun.file(path.join(tmp.path, "opencode.jsonc")).text()
+      expect(text).toContain('"$schema": "https://opencode.ai/config.json"')
+      expect(text).toContain("// the shared model")
+      expect(text).toContain('"model": "{env:OPENCODE_TEST_MODEL}"')
+      expect(text).not.toContain("test/model")
+    },
+  })
+  delete process.env["OPENCODE_TEST_MODEL"]
+})
+
 test("gets config directories", async () => {
   await using tmp = await tmpdir()
   await Instance.provide({
@@ -438,7 +496,7 @@ test("Config.update event contains merged config", async () => {
     directory: tmp.path,
     fn: async () => {
       // Write initial config
-      const configPath = path.join(tmp.path, "config.json")
+      const configPath = path.join(tmp.path, "opencode.json")
       await fs.writeFile(configPath, JSON.stringify({ theme: "dark" }))
 
       // Create a mock subscriber
@@ -0,0 +1,149 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { ConfigReload } from "../../src/config/reload"
+import { Command } from "../../src/command"
+import { Config } from "../../src/config/config"
+import { Agent } from "../../src/agent/agent"
+import { FileWatcher } from "../../src/file/watcher"
+import { ToolRegistry } from "../../src/tool/registry"
+import { Bus } from "../../src/bus"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+function tool(output: string) {
+  return `export default {
+  description: "Greets",
+  args: {},
+  execute: async () => ${JSON.stringify(output)},
+}
+`
+}
+
+const ctx = {
+  sessionID: "test",
+  messageID: "",
+  callID: "",
+  agent: "build",
+  abort: AbortSignal.any([]),
+  metadata: () => {},
+}
+
+describe("config.reload", () => {
+  test("classifies files by the registry folder they are in", () => {
+    const dirs = ["/home/me/.config/opencode", "/repo/.opencode"]
+    expect(ConfigReload.classify(dirs, "/repo/.opencode/command/review.md")).toBe("command")
+    expect(ConfigReload.classify(dirs, "/repo/.opencode/command/git/commit.md")).toBe("command")
+    expect(ConfigReload.classify(dirs, "/home/me/.config/opencode/mode/fast.md")).toBe("agent")
+    expect(ConfigReload.classify(dirs, "/repo/.opencode/tool/greet.ts")).toBe("tool")
+    expect(ConfigReload.classify(dirs, "/repo/.opencode/plugin/notify.ts")).toBe("plugin")
+    expect(ConfigReload.classify(dirs, "/repo/.opencode/agent")).toBe("agent")
+    expect(ConfigReload.classify(dirs, "/repo/.opencode/opencode.json")).toBe("config")
+    expect(ConfigReload.classify(dirs, "/repo/.opencode/tool/opencode.json")).toBe("tool")
+    expect(ConfigReload.classify(dirs, "/repo/.opencode/tool/node_modules/x/index.ts")).toBeUndefined()
+    expect(ConfigReload.classify(dirs, "/repo/src/command/index.ts")).toBeUndefined()
+  })
+
+  test("reloads only the subsystems whose sections changed", () => {
+    const before: Config.Info = { theme: "opencode", mcp: {}, permission: { edit: "allow" } }
+    expect(ConfigReload.diff(before, { ...before, theme: "tokyonight", username: "me" })).toEqual([])
+    expect(ConfigReload.diff(before, { ...before, permission: { edit: "ask" }, agent: {} })).toEqual(["agent"])
+    expect(
+      ConfigReload.diff(before, {
+        mcp: { docs: { type: "remote", url: "https://example.com/mcp" } },
+        disabled_providers: ["openai"],
+        permission: { edit: "allow" },
+      }).toSorted(),
+    ).toEqual(["mcp", "provider"])
+    expect(ConfigReload.diff(before, { ...before, watcher: { ignore: ["dist/**"] } })).toEqual(["watcher"])
+    // other experimental settings are read when they are used
+    expect(
+      ConfigReload.diff(before, { ...before, experimental: { hook: {}, memory: { embedder: "openai/small" } } }),
+    ).toEqual(["memory"])
+  })
+
+  test("debounces config file edits into one reload", async () => {
+    await using tmp = await tmpdir({
+      init: async (dir) => {
+        await Bun.write(path.join(dir, ".opencode", "opencode.json"), JSON.stringify({ permission: { edit: "allow" } }))
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        FileWatcher.init()
+        ConfigReload.init()
+        expect((await Agent.get("build")).permission.edit).toEqual({ "*": "allow" })
+        let reloads = 0
+        Bus.subscribe(Agent.Event.Updated, () => reloads++)
+        await Bun.sleep(500)
+
+        for (const edit of ["ask", "deny", "ask"]) {
+          await Bun.write(path.join(tmp.path, ".opencode", "opencode.json"), JSON.stringify({ permission: { edit } }))
+          await Bun.sleep(20)
+        }
+        for (let i = 0; i < 100 && reloads === 0; i++) await Bun.sleep(20)
+        await Bun.sleep(300)
+        expect(reloads).toBe(1)
+        expect((await Agent.get("build")).permission.edit).toEqual({ "*": "ask" })
+        await Instance.dispose()
+      },
+    })
+  })
+
+  test("reloads commands and agents when their files change", async () => {
+    await using tmp = await tmpdir({
+      init: async (dir) => {
+        await Bun.write(path.join(dir, ".opencode", "command", "hello.md"), "Say hello")
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        FileWatcher.init()
+        ConfigReload.init()
+        expect(await Command.get("hello")).toMatchObject({ template: "Say hello" })
+        const updated = Promise.all(
+          [Agent.Event.Updated, Command.Event.Updated].map(
+            (event) => new Promise<void>((resolve) => Bus.once(event, () => (resolve(), "done"))),
+          ),
+        )
+        // the watcher subscribes in the background
+        await Bun.sleep(500)
+
+        await Bun.write(path.join(tmp.path, ".opencode", "command", "bye.md"), "Say bye")
+        await Bun.write(
+          path.join(tmp.path, ".opencode", "agent", "reviewer.md"),
+          "---\ndescription: Reviews code\nmode: subagent\n---\nReview the code",
+        )
+        await updated
+        expect(await Command.get("bye")).toMatchObject({ template: "Say bye" })
+        expect(await Agent.get("reviewer")).toMatchObject({ description: "Reviews code", mode: "subagent" })
+        await Instance.dispose()
+      },
+    })
+  })
+
+  test("imports changed custom tools again", async () => {
+    await using tmp = await tmpdir({
+      init: async (dir) => {
+        await Bun.write(path.join(dir, ".opencode", "tool", "greet.ts"), tool("hello"))
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const execute = async () => {
+          const tools = await ToolRegistry.tools("mock", "mock")
+          const greet = tools.find((x) => x.id === "greet")!
+          return greet.execute({}, ctx).then((x) => x.output)
+        }
+        expect(await execute()).toBe("hello")
+
+        await Bun.sleep(10)
+        await Bun.write(path.join(tmp.path, ".opencode", "tool", "greet.ts"), tool("howdy"))
+        await ConfigReload.reload(["tool"])
+        expect(await execute()).toBe("howdy")
+      },
+    })
+  })
+})
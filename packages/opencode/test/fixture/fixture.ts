@@ -2,6 +2,8 @@ import { $ } from "bun"
 import { realpathSync } from "fs"
 import os from "os"
 import path from "path"
+import { mergeDeep } from "remeda"
+import type { MockProvider } from "../../src/provider/mock"
 
 type TmpDirOptions<T> = {
   git?: boolean
@@ -26,3 +28,35 @@ export async function tmpdir<T>(options?: TmpDirOptions<T>) {
   }
   return result
 }
+
+type ProjectOptions = {
+  git?: boolean
+  // scripted responses, which make the mock provider the default model
+  responses?: MockProvider.Response[] | ((dir: string) => MockProvider.Response[])
+  // merged into the opencode.json written to the project
+  config?: Record<string, unknown>
+  files?: Record<string, string>
+}
+/**
+ * A project with an opencode.json. It is not a git repository unless asked,
+ * so prompts skip listing files with ripgrep.
+ */
+export async function project(options: ProjectOptions = {}) {
+  return tmpdir({
+    git: options.git,
+    init: async (dir) => {
+      const responses = typeof options.responses === "function" ? options.responses(dir) : options.responses
+      const mock = responses && {
+        model: "mock/mock",
+        provider: { mock: { models: { backup: {} }, options: { responses } } },
+      }
+      await Bun.write(
+        path.join(dir, "opencode.json"),
+        JSON.stringify(mergeDeep({ $schema: "https://opencode.ai/config.json", ...mock }, options.config ?? {})),
+      )
+      for (const [file, content] of Object.entries(options.files ?? {})) {
+        await Bun.write(path.join(dir, file), content)
+      }
+    },
+  })
+}
@@ -0,0 +1,76 @@
+// Minimal MCP server over stdio with a tool, a prompt and resources
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js"
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js"
+
+const server = new Server(
+  { name: "docs", version: "1.0.0" },
+  { capabilities: { tools: {}, prompts: {}, resources: {} } },
+)
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: [
+    {
+      name: "echo",
+      description: "Echoes the text",
+      inputSchema: { type: "object", properties: { text: { type: "string" } } },
+    },
+    {
+      name: "exit",
+      description: "Stops the server",
+      inputSchema: { type: "object", properties: {} },
+    },
+  ],
+}))
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  if (request.params.name === "exit") process.exit(1)
+  return {
+    content: [{ type: "text", text: `echo: ${request.params.arguments?.text}` }],
+  }
+})
+
+server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+  prompts: [
+    {
+      name: "review",
+      description: "Review a file",
+      arguments: [
+        { name: "file", description: "The file to review", required: true },
+        { name: "focus", description: "What to look at" },
+      ],
+    },
+  ],
+}))
+
+server.setRequestHandler(GetPromptRequestSchema, async (request) => ({
+  messages: [
+    {
+      role: "user",
+      content: {
+        type: "text",
+        text: `Review ${request.params.arguments?.file} focusing on ${request.params.arguments?.focus ?? "anything"}`,
+      },
+    },
+  ],
+}))
+
+server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+  resources: [{ uri: "docs://guide", name: "guide", description: "The style guide", mimeType: "text/markdown" }],
+}))
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  if (request.params.uri !== "docs://guide") throw new Error(`Unknown resource ${request.params.uri}`)
+  return { contents: [{ uri: "docs://guide", mimeType: "text/markdown", text: "# Guide\nUse tabs" }] }
+})
+
+await server.connect(new StdioServerTransport())
+console.error("docs server started")
@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Hook } from "../../src/hook"
+import { Session } from "../../src/session"
+import { SessionPrompt } from "../../src/session/prompt"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { project } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+function echo(text: string) {
+  return { command: ["sh", "-c", `echo '${text}'`] }
+}
+
+describe("hook", () => {
+  test("a pre tool hook can deny a tool call with a reason", async () => {
+    await using tmp = await project({
+      config: {
+        experimental: {
+          hook: {
+            pre_tool: {
+              bash: [
+                {
+                  command: ["sh", "-c", `cat > input.json; echo '{"decision": "deny", "reason": "rm is not allowed"}'`],
+                },
+              ],
+            },
+          },
+        },
+      },
+      responses: () => [
+        { tool_calls: [{ name: "bash", input: { command: "rm -rf build", description: "Remove build" } }] },
+        { text: "unreachable" },
+      ],
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const result = await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [{ type: "text", text: "clean up" }],
+        })
+        const tool = result.parts.find((x) => x.type === "tool")
+        expect(tool?.type === "tool" && tool.state.status === "error" && tool.state.error).toContain(
+          "rm is not allowed",
+        )
+        expect(await Bun.file(path.join(tmp.path, "input.json")).json()).toMatchObject({
+          event: "pre_tool",
+          tool: "bash",
+          sessionID: session.id,
+          args: { command: "rm -rf build" },
+        })
+      },
+    })
+  })
+
+  test("adds tool, file and session hook output to the transcript", async () => {
+    await using tmp = await project({
+      config: {
+        experimental: {
+          hook: {
+            post_tool: { write: [echo("post write")], read: [echo("post read")] },
+            file_edited: { "**/src/*.ts": [echo("formatted")], "**/*.md": [echo("unreachable")] },
+            session_start: [echo("welcome")],
+            session_completed: [echo("all done")],
+          },
+        },
+      },
+      responses: (dir) => [
+        { tool_calls: [{ name: "write", input: { filePath: path.join(dir, "src", "a.ts"), content: "a" } }] },
+        { text: "written" },
+        { text: "hello again" },
+      ],
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        Hook.init()
+        const session = await Session.create({})
+        await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [{ type: "text", text: "write a.ts" }],
+        })
+        await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [{ type: "text", text: "thanks" }],
+        })
+
+        const messages = await Session.messages({ sessionID: session.id })
+        const hooks = (index: number) =>
+          messages[index].parts.filter((x) => x.type === "text" && x.synthetic).map((x) => x.type === "text" && x.text)
+        expect(hooks(0)).toEqual(["<hook_output>\nwelcome\n</hook_output>"])
+        const tool = messages[1].parts.find((x) => x.type === "tool")
+        expect(tool?.type === "tool" && tool.state.status === "completed" && tool.state.output).toEndWith(
+          "<hook_output>\nformatted\npost write\n</hook_output>",
+        )
+        expect(messages.map((x) => x.info.role)).toEqual(["user", "assistant", "assistant", "user", "assistant"])
+        expect(hooks(3)).toEqual(["<hook_output>\nall done\n</hook_output>"])
+      },
+    })
+  })
+
+  test("replies without waiting for the session completed hooks", async () => {
+    await using tmp = await project({
+      config: {
+        experimental: {
+          hook: {
+            session_completed: [
+              { command: ["sh", "-c", "while [ ! -f release ]; do sleep 0.05; done; echo 'checked'"] },
+            ],
+          },
+        },
+      },
+      responses: () => [{ text: "hello" }, { text: "hello again" }],
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const prompt = (text: string) =>
+          SessionPrompt.prompt({ sessionID: session.id, parts: [{ type: "text", text }] })
+        // the hook is still waiting for the release file when the reply arrives
+        await prompt("hi")
+        await Bun.write(path.join(tmp.path, "release"), "")
+
+        // the output still reaches the next prompt
+        await prompt("thanks")
+        const messages = await Session.messages({ sessionID: session.id })
+        expect(
+          messages[2].parts.filter((x) => x.type === "text" && x.synthetic).map((x) => x.type === "text" && x.text),
+        ).toEqual(["<hook_output>\nchecked\n</hook_output>"])
+      },
+    })
+  })
+
+  test("drops queued session hook output when the session is deleted", async () => {
+    await using tmp = await project({
+      config: { experimental: { hook: { session_start: [echo("started")] } } },
+      responses: [],
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        Hook.init()
+        const kept = await Session.create({})
+        const deleted = await Session.create({})
+        await Session.remove(deleted.id)
+        expect(await Hook.flush(deleted.id)).toEqual([])
+        expect(await Hook.flush(kept.id)).toEqual(["started"])
+      },
+    })
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test"
+import { LSP } from "../../src/lsp"
+
+describe("LSP.applyTextEdits", () => {
+  test("applies edits from the end so earlier ranges stay valid", () => {
+    const text = "const foo = 1\nconsole.log(foo, foo)\n"
+    const result = LSP.applyTextEdits(text, [
+      { range: { start: { line: 0, character: 6 }, end: { line: 0, character: 9 } }, newText: "bar" },
+      { range: { start: { line: 1, character: 12 }, end: { line: 1, character: 15 } }, newText: "bar" },
+      { range: { start: { line: 1, character: 17 }, end: { line: 1, character: 20 } }, newText: "bar" },
+    ])
+    expect(result).toBe("const bar = 1\nconsole.log(bar, bar)\n")
+  })
+
+  test("handles multi-line ranges and insertions at the end of the file", () => {
+    const text = "a\nb\nc"
+    const result = LSP.applyTextEdits(text, [
+      { range: { start: { line: 0, character: 1 }, end: { line: 2, character: 0 } }, newText: "-" },
+      { range: { start: { line: 2, character: 1 }, end: { line: 2, character: 1 } }, newText: "\n" },
+    ])
+    expect(result).toBe("a-c\n")
+  })
+})
+
+describe("LSP.workspaceEdits", () => {
+  test("merges changes and document changes by file path", () => {
+    const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } }
+    const result = LSP.workspaceEdits({
+      changes: {
+        "file:///tmp/a.ts": [{ range, newText: "x" }],
+      },
+      documentChanges: [
+        { textDocument: { uri: "file:///tmp/a.ts", version: 1 }, edits: [{ range, newText: "y" }] },
+        { textDocument: { uri: "file:///tmp/b%20c.ts", version: 1 }, edits: [{ range, newText: "z" }] },
+      ],
+    })
+    expect(Object.keys(result)).toEqual(["/tmp/a.ts", "/tmp/b c.ts"])
+    expect(result["/tmp/a.ts"].map((x) => x.newText)).toEqual(["x", "y"])
+  })
+
+  test("rejects resource operations", () => {
+    expect(() =>
+      LSP.workspaceEdits({
+        documentChanges: [{ kind: "rename", oldUri: "file:///tmp/a.ts", newUri: "file:///tmp/b.ts" }],
+      }),
+    ).toThrow("Unsupported workspace edit: rename")
+  })
+})
@@ -0,0 +1,297 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Agent } from "../../src/agent/agent"
+import { Command } from "../../src/command"
+import { MCP } from "../../src/mcp"
+import { ConfigReload } from "../../src/config/reload"
+import { Session } from "../../src/session"
+import { SessionPrompt } from "../../src/session/prompt"
+import { MessageV2 } from "../../src/session/message-v2"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { project } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const server = path.join(__dirname, "../fixture/mcp/server.ts")
+
+const docs = { type: "local", command: [process.execPath, server] }
+
+function synthetic(parts: MessageV2.Part[]) {
+  return parts.flatMap((x) => (x.type === "text" && x.synthetic ? [x.text] : []))
+}
+
+describe("mcp", () => {
+  test("runs prompts as commands with their arguments in order", async () => {
+    await using tmp = await project({ responses: [{ text: "reviewed" }], config: { mcp: { docs } } })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect(await Command.list()).toContainEqual({
+          name: "docs:review",
+          description: "Review a file",
+          template: "",
+          source: "mcp",
+          arguments: [
+            { name: "file", description: "The file to review", required: true },
+            { name: "focus", description: "What to look at" },
+          ],
+        })
+        const session = await Session.create({})
+        await SessionPrompt.command({
+          sessionID: session.id,
+          command: "docs:review",
+          arguments: `src/index.ts "error handling and naming"`,
+        })
+        const [user] = await Session.messages({ sessionID: session.id })
+        expect(user.parts.find((x) => x.type === "text")).toMatchObject({
+          text: "Review src/index.ts focusing on error handling and naming",
+        })
+        await Instance.dispose()
+      },
+    })
+  })
+
+  test("reads resources attached to a prompt and through the tool", async () => {
+    await using tmp = await project({
+      responses: [
+        { tool_calls: [{ name: "mcp_resource", input: { server: "docs", uri: "docs://guide" } }] },
+        { tool_calls: [{ name: "docs_echo", input: { text: "hi" } }] },
+        { text: "done" },
+      ],
+      config: { mcp: { docs } },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect(await MCP.resources()).toEqual([
+          {
+            client: "docs",
+            uri: "docs://guide",
+            name: "guide",
+            description: "The style guide",
+            mimeType: "text/markdown",
+          },
+        ])
+        const session = await Session.create({})
+        const result = await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [
+            { type: "text", text: "follow the guide" },
+            {
+              type: "file",
+              mime: "text/markdown",
+              filename: "guide",
+              url: "docs://guide",
+              source: {
+                type: "resource",
+                clientName: "docs",
+                uri: "docs://guide",
+                text: { value: "@docs:guide", start: 0, end: 11 },
+              },
+            },
+          ],
+        })
+        const [user] = await Session.messages({ sessionID: session.id })
+        expect(synthetic(user.parts)).toEqual([
+          'Called the mcp_resource tool with the following input: {"server":"docs","uri":"docs://guide"}',
+          "# Guide\nUse tabs",
+        ])
+        const tools = (await Session.messages({ sessionID: session.id }))
+          .flatMap((x) => x.parts)
+          .flatMap((x) => (x.type === "tool" && x.state.status === "completed" ? [[x.tool, x.state.output]] : []))
+        expect(tools).toEqual([
+          ["mcp_resource", "# Guide\nUse tabs"],
+          ["docs_echo", "echo: hi"],
+        ])
+        expect(result.parts.find((x) => x.type === "text")).toMatchObject({ text: "done" })
+        await Instance.dispose()
+      },
+    })
+  })
+
+  test("keeps the stderr output and reconnects after the server exits", async () => {
+    await using tmp = await project({ responses: [], config: { mcp: { docs } } })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const clients = await MCP.clients()
+        await clients.docs.callTool({ name: "exit", arguments: {} }).catch(() => {})
+        // stderr arrives on its own, apart from the connection events
+        const started = (logs: string[]) => logs.filter((x) => x === "docs server started").length
+        for (let i = 0; i < 100; i++) {
+          const logs = await MCP.logs("docs")
+          if (logs.filter((x) => x === "Connected").length === 2 && started(logs) === 2) break
+          await Bun.sleep(50)
+        }
+        const logs = await MCP.logs("docs")
+        expect(started(logs)).toBe(2)
+        expect(logs.filter((x) => x !== "docs server started")).toEqual([
+          "Connected",
+          "Connection closed",
+          "Reconnecting in 1s",
+          "Connected",
+        ])
+        expect(await MCP.status()).toEqual({ docs: { status: "connected" } })
+        await Instance.dispose()
+      },
+    })
+  })
+
+  test("disables, enables, restarts and removes servers at runtime", async () => {
+    await using tmp = await project({ responses: [], config: { mcp: { docs } } })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const saved = async () => (await Bun.file(path.join(tmp.path, "opencode.json")).json()).mcp
+        const prompts = async () => (await MCP.prompts()).map((x) => x.name)
+        expect(await prompts()).toEqual(["review"])
+        expect(await MCP.disable("docs")).toEqual({ status: "disabled" })
+        expect(await MCP.tools()).toEqual({})
+        expect(await prompts()).toEqual([])
+        expect(await saved()).toMatchObject({ docs: { type: "local", enabled: false } })
+
+        expect(await MCP.enable("docs")).toEqual({ status: "connected" })
+        expect(Object.keys(await MCP.tools())).toEqual(["docs_echo", "docs_exit"])
+        expect(await saved()).toMatchObject({ docs: { enabled: true } })
+        expect(await prompts()).toEqual(["review"])
+
+        expect(await MCP.restart("docs")).toEqual({ status: "connected" })
+        expect(await MCP.logs("docs")).toContain("Restarting")
+
+        await MCP.remove("docs")
+        expect(await MCP.status()).toEqual({})
+        expect(await saved()).toEqual({})
+        await expect(MCP.logs("docs")).rejects.toBeInstanceOf(MCP.NotFoundError)
+        await Instance.dispose()
+      },
+    })
+  })
+
+  test("saves runtime changes to the config file that defines the server", async () => {
+    await using tmp = await project({
+      responses: [],
+      files: {
+        ".opencode/opencode.json": JSON.stringify({
+          mcp: { docs: { ...docs, environment: { DOCS_TOKEN: "{env:OPENCODE_TEST_DOCS_TOKEN}" } } },
+        }),
+      },
+    })
+    process.env["OPENCODE_TEST_DOCS_TOKEN"] = "secret"
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const file = path.join(tmp.path, ".opencode", "opencode.json")
+        expect(await MCP.disable("docs")).toEqual({ status: "disabled" })
+        const text = await Bun.file(file).text()
+        expect(text).toContain('"enabled": false')
+        expect(text).toContain("{env:OPENCODE_TEST_DOCS_TOKEN}")
+        expect(text).not.toContain("secret")
+        expect((await Bun.file(path.join(tmp.path, "opencode.json")).json()).mcp).toBeUndefined()
+
+        await MCP.remove("docs")
+        expect((await Bun.file(file).json()).mcp).toEqual({})
+        await Instance.dispose()
+      },
+    })
+    delete process.env["OPENCODE_TEST_DOCS_TOKEN"]
+  })
+
+  test("keeps servers disabled or removed at runtime after a restart", async () => {
+    await using tmp = await project({
+      responses: [],
+      config: { mcp: { docs, notes: { type: "local", command: [process.execPath, server] } } },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await MCP.disable("docs")
+        await MCP.remove("notes")
+        await Instance.dispose()
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect(await MCP.status()).toEqual({ docs: { status: "disabled" } })
+        await MCP.enable("docs")
+        await Instance.dispose()
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect(await MCP.status()).toEqual({ docs: { status: "connected" } })
+        await Instance.dispose()
+      },
+    })
+  })
+
+  test("reloading the config after a runtime change leaves the other servers connected", async () => {
+    await using tmp = await project({
+      responses: [],
+      config: { mcp: { docs, notes: { type: "local", command: [process.execPath, server] } } },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        ConfigReload.init()
+        const notes = (await MCP.clients()).notes
+        expect(notes).toBeDefined()
+
+        await MCP.disable("docs")
+        // config updates are applied once they settle
+        await Bun.sleep(600)
+        expect(await MCP.status()).toEqual({ docs: { status: "disabled" }, notes: { status: "connected" } })
+        expect(await MCP.logs("docs")).toEqual(expect.arrayContaining(["Connected", "Disabled"]))
+        expect((await MCP.clients()).notes).toBe(notes)
+
+        await MCP.remove("docs")
+        await Bun.sleep(600)
+        expect(await MCP.status()).toEqual({ notes: { status: "connected" } })
+        expect((await MCP.clients()).notes).toBe(notes)
+        await Instance.dispose()
+      },
+    })
+  })
+
+  test("filters tools by server with mcp: settings and attaches servers to agents", async () => {
+    expect(MCP.enabled("docs", "docs_echo", { "*": false, "mcp:docs": true })).toBe(true)
+    expect(MCP.enabled("docs", "docs_exit", { "mcp:docs": true, docs_exit: false })).toBe(false)
+    expect(MCP.enabled("docs", "docs_echo", { "mcp:d*": false })).toBe(false)
+    expect(MCP.enabled("docs_v2", "docs_v2_echo", { "mcp:docs": false })).toBe(true)
+    expect(MCP.enabled("github", "github_search", { "github_*": false })).toBe(false)
+    // tool names take precedence over servers whatever their length
+    expect(MCP.enabled("jira", "jira_get", { "mcp:jira": false, jira_get: true })).toBe(true)
+    expect(MCP.enabled("github", "github_x", { "mcp:github": false, github_x: true })).toBe(true)
+    expect(MCP.enabled("jira", "jira_get", { "mcp:jira": true, "j*": false })).toBe(false)
+
+    await using tmp = await project({
+      responses: [],
+      config: {
+        mcp: {
+          docs,
+          notes: { type: "local", command: [process.execPath, server], agents: ["reviewer"] },
+        },
+        agent: {
+          reviewer: { mode: "subagent", tools: { "mcp:docs": false, docs_echo: true } },
+        },
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const tools = async (name: string) => Object.keys(await MCP.tools(await Agent.get(name))).toSorted()
+        expect(await tools("build")).toEqual(["docs_echo", "docs_exit"])
+        expect(await tools("reviewer")).toEqual(["docs_echo", "notes_echo", "notes_exit"])
+        expect(Object.keys(await MCP.tools()).toSorted()).toEqual([
+          "docs_echo",
+          "docs_exit",
+          "notes_echo",
+          "notes_exit",
+        ])
+        await Instance.dispose()
+      },
+    })
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { ElicitRequestSchema } from "@modelcontextprotocol/sdk/types.js"
+import { MCPServer } from "../../src/mcp/server"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { project } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function connect(elicitation?: "accept" | "decline") {
+  const [client, server] = InMemoryTransport.createLinkedPair()
+  await MCPServer.create({ agent: "build" }).connect(server)
+  const result = new Client(
+    { name: "test", version: "1.0.0" },
+    { capabilities: elicitation ? { elicitation: {} } : {} },
+  )
+  if (elicitation) result.setRequestHandler(ElicitRequestSchema, async () => ({ action: elicitation, content: {} }))
+  await result.connect(client)
+  return result
+}
+
+function text(result: Awaited<ReturnType<Client["callTool"]>>) {
+  return (result.content as { type: string; text: string }[]).map((x) => x.text).join("\n")
+}
+
+describe("mcp.server", () => {
+  test("serves the tools of the agent along with the session operations", async () => {
+    await using tmp = await project({ responses: [] })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const client = await connect()
+        const { tools } = await client.listTools()
+        const names = tools.map((x) => x.name)
+        expect(names).toContain("read")
+        expect(names).toContain("bash")
+        expect(names).toContain("session_start")
+        expect(names).not.toContain("task")
+        expect(tools.find((x) => x.name === "read")?.inputSchema).toMatchObject({
+          type: "object",
+          required: ["filePath"],
+        })
+        await client.close()
+      },
+    })
+  })
+
+  test("asks the client for permission through elicitation", async () => {
+    await using tmp = await project({ responses: [], config: { permission: { edit: "ask" } } })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const write = (client: Client, name: string) =>
+          client.callTool({ name: "write", arguments: { filePath: path.join(tmp.path, name), content: "hello" } })
+
+        const accepting = await connect("accept")
+        expect((await write(accepting, "a.txt")).isError).toBeFalsy()
+        expect(await Bun.file(path.join(tmp.path, "a.txt")).text()).toBe("hello")
+
+        const declining = await connect("decline")
+        const declined = await write(declining, "b.txt")
+        expect(declined.isError).toBe(true)
+        expect(text(declined)).toContain("rejected")
+
+        const unsupported = await connect()
+        expect((await write(unsupported, "c.txt")).isError).toBe(true)
+        expect(await Bun.file(path.join(tmp.path, "b.txt")).exists()).toBe(false)
+        expect(await Bun.file(path.join(tmp.path, "c.txt")).exists()).toBe(false)
+      },
+    })
+  })
+
+  test("runs the configured hooks around tool calls", async () => {
+    await using tmp = await project({
+      responses: [],
+      config: {
+        experimental: {
+          hook: {
+            pre_tool: {
+              write: [{ command: ["sh", "-c", `echo '{"decision": "deny", "reason": "writes need a review"}'`] }],
+            },
+            post_tool: { read: [{ command: ["sh", "-c", "echo 'read checked'"] }] },
+          },
+        },
+      },
+      files: { "a.txt": "hello" },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const client = await connect()
+        const denied = await client.callTool({
+          name: "write",
+          arguments: { filePath: path.join(tmp.path, "b.txt"), content: "hello" },
+        })
+        expect(denied.isError).toBe(true)
+        expect(text(denied)).toContain("writes need a review")
+        expect(await Bun.file(path.join(tmp.path, "b.txt")).exists()).toBe(false)
+
+        const read = await client.callTool({ name: "read", arguments: { filePath: path.join(tmp.path, "a.txt") } })
+        expect(text(read)).toContain("hello")
+        expect(text(read)).toContain("read checked")
+        await client.close()
+      },
+    })
+  })
+
+  test("starts sessions and reads them back over streamable HTTP", async () => {
+    await using tmp = await project({ responses: [{ text: "Hello from opencode" }] })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const server = await MCPServer.http({ agent: "build", port: 0, hostname: "127.0.0.1" })
+        const client = new Client({ name: "test", version: "1.0.0" })
+        await client.connect(new StreamableHTTPClientTransport(new URL(server.url)))
+
+        const started = JSON.parse(
+          text(await client.callTool({ name: "session_start", arguments: { prompt: "Say hello", title: "Greeting" } })),
+        )
+        expect(started.text).toBe("Hello from opencode")
+
+        const sessions = JSON.parse(text(await client.callTool({ name: "session_list", arguments: {} })))
+        expect(sessions).toEqual([expect.objectContaining({ id: started.sessionID, title: "Greeting" })])
+
+        const messages = JSON.parse(
+          text(await client.callTool({ name: "session_messages", arguments: { sessionID: started.sessionID } })),
+        )
+        expect(messages.map((x: { role: string; text: string }) => [x.role, x.text])).toEqual([
+          ["user", "Say hello"],
+          ["assistant", "Hello from opencode"],
+        ])
+
+        await client.close()
+        await server.stop()
+      },
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test"
+import { Memory } from "../../src/memory"
+import { Embedder } from "../../src/memory/embedder"
+import { Session } from "../../src/session"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function exchange(text: string) {
+  const session = await Session.create({})
+  const messageID = Identifier.ascending("message")
+  await Session.updateMessage({
+    id: messageID,
+    sessionID: session.id,
+    role: "user",
+    time: { created: Date.now() },
+    agent: "build",
+    model: { providerID: "test", modelID: "test" },
+  })
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    sessionID: session.id,
+    messageID,
+    type: "text",
+    text,
+  })
+  return { session, messageID }
+}
+
+describe("embedder.local", () => {
+  test("is deterministic and normalized", async () => {
+    const embedder = Embedder.local(64)
+    const [a, b] = await embedder.embed(["fix the flaky migration test", "fix the flaky migration test"])
+    expect(Array.from(a)).toEqual(Array.from(b))
+    const norm = Math.sqrt(a.reduce((sum, x) => sum + x * x, 0))
+    expect(norm).toBeCloseTo(1, 5)
+  })
+
+  test("scores overlapping vocabulary higher", async () => {
+    const embedder = Embedder.local()
+    const [query, related, unrelated] = await embedder.embed([
+      "database migration failure",
+      "the database migration failed on the users table",
+      "render the sidebar with a new color theme",
+    ])
+    const dot = (x: Float32Array, y: Float32Array) => x.reduce((sum, v, i) => sum + v * y[i], 0)
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated))
+  })
+})
+
+describe("memory", () => {
+  test("indexes finished messages and recalls them from other sessions", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const past = await exchange("We fixed the database migration by adding a default to the users.email column")
+        const other = await exchange("Change the sidebar color theme to something darker please")
+        const current = await exchange("How did we fix the database migration last time?")
+        await Memory.enqueue(past.session.id, [past.messageID])
+        await Memory.enqueue(other.session.id, [other.messageID])
+        await Memory.enqueue(current.session.id, [current.messageID])
+
+        const results = await Memory.search("database migration fix", { exclude: [current.session.id] })
+        expect(results[0].sessionID).toBe(past.session.id)
+        expect(results[0].content).toContain("users.email")
+        expect(results.some((x) => x.sessionID === current.session.id)).toBe(false)
+      },
+    })
+  })
+})
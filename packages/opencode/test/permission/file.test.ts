@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Permission } from "../../src/permission"
+import { PermissionFile } from "../../src/permission/file"
+import { Agent } from "../../src/agent/agent"
+import { ReadTool } from "../../src/tool/read"
+import { WriteTool } from "../../src/tool/write"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { project, tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const ctx = {
+  sessionID: "ses_test",
+  messageID: "",
+  callID: "",
+  agent: "build",
+  abort: AbortSignal.any([]),
+  metadata: () => {},
+}
+
+describe("permission.file", () => {
+  test("the longest matching pattern decides", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const rules: PermissionFile.Rules = {
+          "*": "allow",
+          "migrations/**": "ask",
+          "migrations/seed.sql": "deny",
+        }
+        const evaluate = (file: string) => PermissionFile.evaluate(rules, path.join(tmp.path, file))
+        expect(evaluate("src/index.ts")).toEqual({ action: "allow" })
+        expect(evaluate("migrations/001/up.sql")).toEqual({ action: "ask", pattern: "migrations/**" })
+        expect(evaluate("migrations/seed.sql")).toEqual({ action: "deny", pattern: "migrations/seed.sql" })
+        expect(PermissionFile.evaluate(rules, "/etc/migrations/x.sql").action).toBe("allow")
+      },
+    })
+  })
+
+  test("agents get the secrets denylist unless reading is denied outright", async () => {
+    await using tmp = await project({
+      git: true,
+      config: { permission: { read: { "**/.env.local": "allow" }, edit: { "migrations/**": "ask" } } },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const agent = await Agent.get("build")
+        const read = (file: string) =>
+          PermissionFile.evaluate(agent.permission.read, path.join(tmp.path, file), PermissionFile.SECRETS).action
+        expect(read(".env")).toBe("ask")
+        expect(read("config/.env.production")).toBe("ask")
+        expect(read(".env.example")).toBe("allow")
+        expect(read(".env.local")).toBe("allow")
+        expect(read("src/index.ts")).toBe("allow")
+        expect(agent.permission.edit).toEqual({ "*": "allow", "migrations/**": "ask" })
+        expect(await Agent.get("plan").then((x) => x.permission.edit["*"])).toBe("deny")
+      },
+    })
+
+    await using denied = await project({ git: true, config: { permission: { read: "deny" } } })
+    await Instance.provide({
+      directory: denied.path,
+      fn: async () => {
+        const agent = await Agent.get("build")
+        expect(agent.permission.read).toEqual({ "*": "deny" })
+        expect(PermissionFile.evaluate(agent.permission.read, ".env.example", PermissionFile.SECRETS).action).toBe(
+          "deny",
+        )
+      },
+    })
+  })
+
+  test("configured patterns take precedence over the secrets", async () => {
+    await using tmp = await project({ git: true, config: { permission: { read: { "**/.env*": "deny" } } } })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const agent = await Agent.get("build")
+        const read = (file: string) =>
+          PermissionFile.evaluate(agent.permission.read, path.join(tmp.path, file), PermissionFile.SECRETS)
+        for (const file of [".env", ".env.local", "sub/.env.production", ".env.example"]) {
+          expect(read(file)).toEqual({ action: "deny", pattern: "**/.env*" })
+        }
+        expect(read("keys/server.pem")).toEqual({ action: "ask", pattern: "**/*.pem" })
+        expect(read("src/index.ts")).toEqual({ action: "allow" })
+      },
+    })
+  })
+
+  test("tools ask for secrets and refuse denied paths", async () => {
+    await using tmp = await project({
+      git: true,
+      config: { permission: { edit: { "migrations/**": "deny" } } },
+      files: { ".env": "TOKEN=secret" },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const read = await ReadTool.init()
+        const pending = read.execute({ filePath: path.join(tmp.path, ".env") }, ctx)
+        let request: Permission.Info | undefined
+        for (let i = 0; i < 50 && !request; i++) {
+          await Bun.sleep(10)
+          request = Object.values(Permission.pending()[ctx.sessionID] ?? {})[0]?.info
+        }
+        expect(request).toMatchObject({ type: "read", pattern: ["**/.env"] })
+        Permission.respond({ sessionID: ctx.sessionID, permissionID: request!.id, response: "reject" })
+        await expect(pending).rejects.toThrow()
+
+        const write = await WriteTool.init()
+        const target = path.join(tmp.path, "migrations", "002.sql")
+        await expect(write.execute({ filePath: target, content: "drop table users" }, ctx)).rejects.toThrow(
+          "Permission denied",
+        )
+        expect(await Bun.file(target).exists()).toBe(false)
+      },
+    })
+  })
+})
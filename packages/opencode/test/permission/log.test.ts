@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test"
+import { Bus } from "../../src/bus"
+import { Permission } from "../../src/permission"
+import { PermissionLog } from "../../src/permission/log"
+import { Session } from "../../src/session"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+describe("permission log", () => {
+  test("records config denials with the agent that made the request", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const messageID = Identifier.ascending("message")
+        await Session.updateMessage({
+          id: messageID,
+          sessionID: session.id,
+          role: "user",
+          time: { created: Date.now() },
+          agent: "plan",
+          model: { providerID: "test", modelID: "test" },
+        })
+        await Permission.denied({
+          type: "bash",
+          pattern: "rm -rf /",
+          sessionID: session.id,
+          messageID,
+          title: "rm -rf /",
+          metadata: {},
+        })
+
+        const entries = await PermissionLog.list({ sessionID: session.id })
+        expect(entries).toHaveLength(1)
+        expect(entries[0]).toMatchObject({
+          outcome: "denied_by_config",
+          type: "bash",
+          pattern: "rm -rf /",
+          agent: "plan",
+        })
+      },
+    })
+  })
+
+  test("filters by session, outcome and limit", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const outcomes = ["once", "reject", "always", "allowed_by_rule"] as const
+        for (const [index, outcome] of outcomes.entries()) {
+          await PermissionLog.record({
+            sessionID: index % 2 === 0 ? "ses_a" : "ses_b",
+            messageID: "msg_a",
+            type: "edit",
+            title: `edit ${index}`,
+            outcome,
+          })
+        }
+
+        expect((await PermissionLog.list()).map((x) => x.outcome)).toEqual([...outcomes])
+        expect((await PermissionLog.list({ sessionID: "ses_b" })).map((x) => x.outcome)).toEqual([
+          "reject",
+          "allowed_by_rule",
+        ])
+        expect((await PermissionLog.list({ outcome: ["reject"] })).map((x) => x.title)).toEqual(["edit 1"])
+        expect((await PermissionLog.list({ limit: 2 })).map((x) => x.title)).toEqual(["edit 2", "edit 3"])
+        expect(await PermissionLog.list({ since: Date.now() + 1000 })).toEqual([])
+      },
+    })
+  })
+
+  test("records requests settled by an always rule as always", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const asked: Permission.Info[] = []
+        const unsubscribe = Bus.subscribe(Permission.Event.Updated, (event) => {
+          asked.push(event.properties)
+        })
+        const ask = (title: string) =>
+          Permission.ask({
+            type: "bash",
+            pattern: "git status",
+            sessionID: session.id,
+            messageID: "msg_a",
+            title,
+            metadata: {},
+          })
+        const first = ask("first")
+        const second = ask("second")
+        await Bun.sleep(10)
+        Permission.respond({ sessionID: session.id, permissionID: asked[0].id, response: "always" })
+        await Promise.all([first, second])
+        unsubscribe()
+
+        const entries = async () => PermissionLog.list({ sessionID: session.id })
+        for (let i = 0; i < 50 && (await entries()).length < 2; i++) await Bun.sleep(10)
+        expect((await entries()).map((x) => [x.title, x.outcome, x.scope])).toEqual([
+          ["first", "always", "session"],
+          ["second", "always", "session"],
+        ])
+      },
+    })
+  })
+})
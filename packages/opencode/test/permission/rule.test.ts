@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Permission } from "../../src/permission"
+import { PermissionRule } from "../../src/permission/rule"
+import { Instance } from "../../src/project/instance"
+import { Session } from "../../src/session"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+describe("permission rules", () => {
+  test("project rules persist to .opencode and survive a restart", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await PermissionRule.add({ scope: "project", type: "bash", patterns: ["git status*"], sessionID: "ses_a" })
+        await Instance.dispose()
+      },
+    })
+
+    const file = await Bun.file(path.join(tmp.path, ".opencode", "permission.json")).json()
+    expect(file).toHaveLength(1)
+
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const rules = await PermissionRule.list()
+        expect(rules.map((x) => x.pattern)).toEqual(["git status*"])
+        expect(await PermissionRule.covers({ type: "bash", keys: ["git status --short"], sessionID: "ses_b" })).toBe(
+          true,
+        )
+        expect(await PermissionRule.covers({ type: "edit", keys: ["git status --short"], sessionID: "ses_b" })).toBe(
+          false,
+        )
+      },
+    })
+  })
+
+  test("session rules only apply to their session", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await PermissionRule.add({ scope: "session", type: "bash", patterns: ["ls*"], sessionID: "ses_a" })
+        expect(await PermissionRule.covers({ type: "bash", keys: ["ls -la"], sessionID: "ses_a" })).toBe(true)
+        expect(await PermissionRule.covers({ type: "bash", keys: ["ls -la"], sessionID: "ses_b" })).toBe(false)
+        expect(await PermissionRule.list({ sessionID: "ses_b" })).toEqual([])
+      },
+    })
+  })
+
+  test("session rules are dropped with their session", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        PermissionRule.init()
+        const session = await Session.create({})
+        await PermissionRule.add({ scope: "session", type: "bash", patterns: ["ls*"], sessionID: session.id })
+        await PermissionRule.add({ scope: "project", type: "bash", patterns: ["git status*"], sessionID: session.id })
+        await Session.remove(session.id)
+        const file = path.join(tmp.path, ".opencode", "permission.json")
+        for (let i = 0; i < 100 && (await Bun.file(file).json()).length > 1; i++) await Bun.sleep(10)
+        expect((await Bun.file(file).json()).map((x: PermissionRule.Info) => x.pattern)).toEqual(["git status*"])
+        expect(await PermissionRule.covers({ type: "bash", keys: ["ls -la"], sessionID: session.id })).toBe(false)
+      },
+    })
+  })
+
+  test("ask resolves without prompting when a rule covers every pattern", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await PermissionRule.add({ scope: "project", type: "bash", patterns: ["echo*"], sessionID: "ses_a" })
+        await Permission.ask({
+          type: "bash",
+          pattern: ["echo hi"],
+          sessionID: "ses_a",
+          messageID: "msg_a",
+          title: "echo hi",
+          metadata: {},
+        })
+        expect(Permission.pending()["ses_a"]).toBeUndefined()
+      },
+    })
+  })
+
+  test("remove revokes a rule", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const [rule] = await PermissionRule.add({
+          scope: "project",
+          type: "bash",
+          patterns: ["rm*"],
+          sessionID: "ses_a",
+        })
+        expect(await PermissionRule.remove(rule.id)).toBe(true)
+        expect(await PermissionRule.remove(rule.id)).toBe(false)
+        expect(await PermissionRule.covers({ type: "bash", keys: ["rm -rf"], sessionID: "ses_a" })).toBe(false)
+      },
+    })
+  })
+})
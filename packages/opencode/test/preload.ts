@@ -1,5 +1,13 @@
+import os from "os"
+import path from "path"
+import { mkdtempSync } from "fs"
 import { Log } from "../src/util/log"
 
+// tests run offline, so skip installing the default auth plugins from npm
+process.env["OPENCODE_DISABLE_DEFAULT_PLUGINS"] = "true"
+// and keep fetched pages out of the user's cache
+process.env["OPENCODE_WEBFETCH_CACHE_DIR"] = mkdtempSync(path.join(os.tmpdir(), "opencode-webfetch-"))
+
 Log.init({
   print: false,
   dev: true,
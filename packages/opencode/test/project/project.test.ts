@@ -1,6 +1,7 @@
 import { describe, expect, test } from "bun:test"
 import { Project } from "../../src/project/project"
 import { Log } from "../../src/util/log"
+import { Storage } from "../../src/storage/storage"
 import { $ } from "bun"
 import path from "path"
 import { tmpdir } from "../fixture/fixture"
@@ -38,3 +39,25 @@ describe("Project.fromDirectory", () => {
     expect(fileExists).toBe(true)
   })
 })
+
+describe("Project.list", () => {
+  test("records projects opened from any directory", async () => {
+    await using tmp = await tmpdir({ git: true })
+
+    const project = await Project.fromDirectory(tmp.path)
+    const listed = await Project.list()
+    expect(listed.find((x) => x.id === project.id)?.worktree).toBe(tmp.path)
+
+    await Project.setInitialized(project.id)
+    const initialized = await Project.get(project.id)
+    expect(initialized.time.initialized).toBeNumber()
+
+    const reopened = await Project.fromDirectory(tmp.path)
+    expect(reopened.time).toEqual(initialized.time)
+  })
+
+  test("get throws for unknown projects", async () => {
+    const error = await Project.get("missing").catch((e) => e)
+    expect(Storage.NotFoundError.isInstance(error)).toBe(true)
+  })
+})
@@ -0,0 +1,113 @@
+import { afterAll, describe, expect, test } from "bun:test"
+import path from "path"
+import { Server } from "../../src/server/server"
+import { Session } from "../../src/session"
+import { Permission } from "../../src/permission"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+afterAll(() => Instance.disposeAll())
+
+// providing the instances up front skips the server's bootstrap, whose file index needs ripgrep
+function open(directory: string) {
+  return Instance.provide({ directory, fn: () => Instance.project })
+}
+
+// requests are made from one project's directory and routed to another
+async function request(directory: string, url: string, init?: { method?: string; body?: object }) {
+  return Server.App().request(`${url}?directory=${encodeURIComponent(directory)}`, {
+    method: init?.method ?? "GET",
+    headers: init?.body ? { "content-type": "application/json" } : undefined,
+    body: init?.body ? JSON.stringify(init.body) : undefined,
+  })
+}
+
+describe("server.project", () => {
+  test("manages the sessions of another project in its worktree", async () => {
+    await using here = await tmpdir({ git: true })
+    await using there = await tmpdir({ git: true })
+    await open(here.path)
+    const project = await open(there.path)
+    await Bun.write(path.join(there.path, "notes.md"), "untracked")
+
+    const created = await request(here.path, `/project/${project.id}/session`, {
+      method: "POST",
+      body: { title: "Elsewhere" },
+    })
+    expect(created.status).toBe(200)
+    const session = (await created.json()) as Session.Info
+    expect(session).toMatchObject({ projectID: project.id, directory: there.path, title: "Elsewhere" })
+
+    const listed = (await request(here.path, `/project/${project.id}/session`).then((x) => x.json())) as Session.Info[]
+    expect(listed.map((x) => x.id)).toContain(session.id)
+
+    const updated = await request(here.path, `/project/${project.id}/session/${session.id}`, {
+      method: "PATCH",
+      body: { title: "Renamed" },
+    })
+    expect(await updated.json()).toMatchObject({ id: session.id, title: "Renamed" })
+    expect(
+      await request(here.path, `/project/${project.id}/session/${session.id}/message`).then((x) => x.json()),
+    ).toEqual([])
+
+    const status = await request(here.path, `/project/${project.id}/file/status`).then((x) => x.json())
+    expect(status).toContainEqual(expect.objectContaining({ path: "notes.md", status: "added" }))
+
+    const deleted = await request(here.path, `/project/${project.id}/session/${session.id}`, { method: "DELETE" })
+    expect(deleted.status).toBe(200)
+    const remaining = (await request(here.path, `/project/${project.id}/session`).then((x) =>
+      x.json(),
+    )) as Session.Info[]
+    expect(remaining.map((x) => x.id)).not.toContain(session.id)
+  })
+
+  test("answers permission requests of the project's sessions", async () => {
+    await using here = await tmpdir({ git: true })
+    await using there = await tmpdir({ git: true })
+    await open(here.path)
+    const project = await open(there.path)
+
+    const session = (await request(here.path, `/project/${project.id}/session`, { method: "POST", body: {} }).then(
+      (x) => x.json(),
+    )) as Session.Info
+    const asked = Instance.provide({
+      directory: there.path,
+      fn: () =>
+        Permission.ask({
+          type: "bash",
+          title: "Run ls",
+          pattern: "ls",
+          sessionID: session.id,
+          messageID: "msg_test",
+          metadata: {},
+        }),
+    })
+    const pending = await Instance.provide({
+      directory: there.path,
+      fn: async () => {
+        for (let i = 0; i < 50 && !Permission.pending()[session.id]; i++) await Bun.sleep(10)
+        return Object.values(Permission.pending()[session.id] ?? {})
+      },
+    })
+    expect(pending).toHaveLength(1)
+
+    const replied = await request(
+      here.path,
+      `/project/${project.id}/session/${session.id}/permission/${pending[0].info.id}`,
+      { method: "POST", body: { response: "once" } },
+    )
+    expect(await replied.json()).toBe(true)
+    await asked
+  })
+
+  test("returns not found for unknown projects", async () => {
+    await using here = await tmpdir({ git: true })
+    await open(here.path)
+    const response = await request(here.path, "/project/missing/session")
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({ name: "NotFoundError" })
+  })
+})
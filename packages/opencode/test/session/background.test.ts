@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test"
+import { SessionBackground } from "../../src/session/background"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function until(check: () => boolean) {
+  for (let i = 0; i < 100 && !check(); i++) await Bun.sleep(50)
+}
+
+describe("session.background", () => {
+  test("keeps the output of a running process until it is stopped", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const info = SessionBackground.start({
+          sessionID: "ses_test",
+          command: "echo 'compiling'; echo 'error: bad'; echo 'listening on 3000'; sleep 30",
+          description: "Dev server",
+        })
+        await until(
+          () => SessionBackground.output({ sessionID: "ses_test", id: info.id, lines: 10 }).lines.length === 3,
+        )
+        expect(SessionBackground.output({ sessionID: "ses_test", id: info.id, lines: 2 }).lines).toEqual([
+          "error: bad",
+          "listening on 3000",
+        ])
+        expect(
+          SessionBackground.output({ sessionID: "ses_test", id: info.id, lines: 10, pattern: "error|warn" }),
+        ).toMatchObject({ lines: ["error: bad"], total: 1 })
+        expect(SessionBackground.list("ses_test").map((x) => x.status)).toEqual(["running"])
+        expect(SessionBackground.list("ses_other")).toEqual([])
+        expect(() => SessionBackground.get("ses_other", info.id)).toThrow()
+
+        const stopped = await SessionBackground.stop("ses_test", info.id)
+        expect(stopped.status).toBe("stopped")
+        expect(stopped.time.ended).toBeNumber()
+      },
+    })
+  })
+
+  test("records the exit code of a process that finishes", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const info = SessionBackground.start({ sessionID: "ses_test", command: "exit 4", description: "Fails" })
+        await until(() => SessionBackground.get("ses_test", info.id).status !== "running")
+        expect(SessionBackground.get("ses_test", info.id)).toMatchObject({ status: "exited", exit: 4 })
+      },
+    })
+  })
+
+  test("stops running processes when the instance is disposed", async () => {
+    await using tmp = await tmpdir()
+    const info = await Instance.provide({
+      directory: tmp.path,
+      fn: async () => SessionBackground.start({ sessionID: "ses_test", command: "sleep 30", description: "Sleeps" }),
+    })
+    await Instance.provide({ directory: tmp.path, fn: () => Instance.dispose() })
+    expect(() => process.kill(info.pid, 0)).toThrow()
+  })
+  test("rejects an invalid pattern", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const info = SessionBackground.start({ sessionID: "ses_test", command: "echo hi", description: "Echo" })
+        expect(() => SessionBackground.output({ sessionID: "ses_test", id: info.id, lines: 10, pattern: "(" })).toThrow(
+          "Invalid pattern",
+        )
+      },
+    })
+  })
+
+  test("forgets the oldest finished processes", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const started: SessionBackground.Info[] = []
+        for (let i = 0; i < 17; i++) {
+          const info = SessionBackground.start({ sessionID: "ses_test", command: "true", description: "Exits" })
+          await until(() => SessionBackground.get("ses_test", info.id).status !== "running")
+          started.push(info)
+        }
+        SessionBackground.start({ sessionID: "ses_test", command: "sleep 30", description: "Sleeps" })
+        expect(SessionBackground.list("ses_test")).toHaveLength(17)
+        expect(() => SessionBackground.get("ses_test", started[0].id)).toThrow()
+        await SessionBackground.stopAll("ses_test")
+        expect(SessionBackground.list("ses_test")).toEqual([])
+      },
+    })
+  })
+})
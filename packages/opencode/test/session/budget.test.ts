@@ -0,0 +1,172 @@
+import { describe, expect, test } from "bun:test"
+import { Session } from "../../src/session"
+import { SessionBudget } from "../../src/session/budget"
+import { SessionPrompt } from "../../src/session/prompt"
+import { SessionStatus } from "../../src/session/status"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { project } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function step(sessionID: string, mode: string, cost: number) {
+  await Session.updateMessage({
+    id: Identifier.ascending("message"),
+    sessionID,
+    parentID: Identifier.ascending("message"),
+    role: "assistant",
+    mode,
+    path: { cwd: "/", root: "/" },
+    cost,
+    tokens: { input: 100, output: 50, reasoning: 0, cache: { read: 25, write: 0 } },
+    modelID: "test",
+    providerID: "test",
+    time: { created: Date.now(), completed: Date.now() },
+    finish: "stop",
+  })
+}
+
+describe("session.budget", () => {
+  test("reports the session limit that was reached", async () => {
+    await using tmp = await project({ git: true, config: { budget: { session: { cost: 1, tokens: 10_000 } } } })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        await step(session.id, "build", 0.6)
+        expect(await SessionBudget.check({ sessionID: session.id, agent: "build" })).toBeUndefined()
+        await step(session.id, "build", 0.6)
+        const result = await SessionBudget.check({ sessionID: session.id, agent: "build" })
+        expect(result).toMatchObject({ scope: "session", limit: "cost", max: 1 })
+        expect(result?.used).toBeCloseTo(1.2)
+      },
+    })
+  })
+
+  test("counts only the steps of the agent for agent budgets", async () => {
+    await using tmp = await project({ git: true, config: { agent: { plan: { budget: { steps: 2 } } } } })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        await step(session.id, "build", 0)
+        await step(session.id, "build", 0)
+        await step(session.id, "plan", 0)
+        expect(await SessionBudget.check({ sessionID: session.id, agent: "plan" })).toBeUndefined()
+        expect(await SessionBudget.check({ sessionID: session.id, agent: "build" })).toBeUndefined()
+        await step(session.id, "plan", 0)
+        expect(await SessionBudget.check({ sessionID: session.id, agent: "plan" })).toMatchObject({
+          scope: "agent",
+          limit: "steps",
+          used: 2,
+          max: 2,
+        })
+      },
+    })
+  })
+
+  test("adds the raised allowance to the configured limit", async () => {
+    await using tmp = await project({ git: true, config: { budget: { session: { tokens: 300 } } } })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        await step(session.id, "build", 0)
+        await step(session.id, "build", 0)
+        expect(await SessionBudget.check({ sessionID: session.id, agent: "build" })).toMatchObject({
+          limit: "tokens",
+          used: 350,
+        })
+        await Session.update(session.id, (draft) => {
+          draft.budget = { session: { tokens: 300 } }
+        })
+        expect(await SessionBudget.check({ sessionID: session.id, agent: "build" })).toBeUndefined()
+      },
+    })
+  })
+
+  test("raises only the limit of the scope that was reached", async () => {
+    await using tmp = await project({
+      git: true,
+      config: { budget: { session: { steps: 3 } }, agent: { build: { budget: { steps: 2 } } } },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        await step(session.id, "build", 0)
+        await step(session.id, "build", 0)
+        const exceeded = await SessionBudget.check({ sessionID: session.id, agent: "build" })
+        expect(exceeded).toMatchObject({ scope: "agent", limit: "steps", max: 2 })
+        SessionStatus.set(session.id, exceeded!)
+        expect(await SessionBudget.respond({ sessionID: session.id, response: "raise" })).toBe(true)
+        expect((await Session.get(session.id)).budget).toEqual({ agent: { steps: 2 } })
+        expect(await SessionBudget.check({ sessionID: session.id, agent: "build" })).toBeUndefined()
+
+        await step(session.id, "build", 0)
+        expect(await SessionBudget.check({ sessionID: session.id, agent: "build" })).toMatchObject({
+          scope: "session",
+          limit: "steps",
+          used: 3,
+          max: 3,
+        })
+      },
+    })
+  })
+
+  test("keeps counting the day across sessions as steps are taken", async () => {
+    await using tmp = await project({ git: true, config: { budget: { day: { steps: 2, cost: 1 } } } })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const first = await Session.create({})
+        await step(first.id, "build", 0.25)
+        expect(await SessionBudget.check({ sessionID: first.id, agent: "build" })).toBeUndefined()
+
+        const second = await Session.create({})
+        await step(second.id, "build", 0.25)
+        expect(await SessionBudget.check({ sessionID: second.id, agent: "build" })).toEqual({
+          type: "budget_exceeded",
+          scope: "day",
+          limit: "steps",
+          used: 2,
+          max: 2,
+        })
+
+        await Session.remove(second.id)
+        expect(await SessionBudget.check({ sessionID: first.id, agent: "build" })).toBeUndefined()
+      },
+    })
+  })
+
+  test("answers a prompt whose budget was used up by earlier sessions", async () => {
+    await using tmp = await project({
+      responses: [{ text: "first" }],
+      config: { budget: { day: { steps: 1 } } },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const prompt = (sessionID: string) =>
+          SessionPrompt.prompt({ sessionID, parts: [{ type: "text", text: "hello" }] })
+        // takes the only step of the day, unless other sessions of the project already did
+        await prompt((await Session.create({})).id)
+
+        const session = await Session.create({})
+        const before = await SessionBudget.check({ sessionID: session.id, agent: "build" })
+        expect(before).toMatchObject({ scope: "day", limit: "steps" })
+        const result = await prompt(session.id)
+        expect(result.info).toMatchObject({
+          role: "assistant",
+          parentID: expect.any(String),
+          error: { name: "MessageBudgetExceededError", data: { message: expect.stringContaining("day budget") } },
+        })
+        expect(result.parts).toEqual([])
+        expect(SessionStatus.get(session.id)).toMatchObject({ type: "budget_exceeded", scope: "day", limit: "steps" })
+        // the answer does not count as a step
+        expect(await SessionBudget.check({ sessionID: session.id, agent: "build" })).toEqual(before)
+      },
+    })
+  })
+})
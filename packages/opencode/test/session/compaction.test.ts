@@ -0,0 +1,183 @@
+import { describe, expect, test } from "bun:test"
+import { Session } from "../../src/session"
+import { SessionCompaction } from "../../src/session/compaction"
+import { MessageV2 } from "../../src/session/message-v2"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const model = { providerID: "test", modelID: "test" }
+
+async function user(sessionID: string, text: string) {
+  const msg = await Session.updateMessage({
+    id: Identifier.ascending("message"),
+    sessionID,
+    role: "user",
+    time: { created: Date.now() },
+    agent: "build",
+    model,
+  })
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    sessionID,
+    messageID: msg.id,
+    type: "text",
+    text,
+  })
+  return msg
+}
+
+async function assistant(sessionID: string, parentID: string, input: { output?: string; summary?: boolean } = {}) {
+  const msg = (await Session.updateMessage({
+    id: Identifier.ascending("message"),
+    sessionID,
+    parentID,
+    role: "assistant",
+    mode: "build",
+    summary: input.summary,
+    path: { cwd: "/", root: "/" },
+    cost: 0,
+    tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+    modelID: model.modelID,
+    providerID: model.providerID,
+    time: { created: Date.now(), completed: Date.now() },
+    finish: "stop",
+  })) as MessageV2.Assistant
+  const part = await Session.updatePart({
+    id: Identifier.ascending("part"),
+    sessionID,
+    messageID: msg.id,
+    type: "tool",
+    callID: Identifier.ascending("part"),
+    tool: "read",
+    state: {
+      status: "completed",
+      input: {},
+      output: input.output ?? "done",
+      title: "",
+      metadata: {},
+      time: { start: Date.now(), end: Date.now() },
+    },
+  })
+  return { msg, part: part as MessageV2.ToolPart }
+}
+
+async function compact(sessionID: string, keep?: string[]) {
+  const msg = await Session.updateMessage({
+    id: Identifier.ascending("message"),
+    sessionID,
+    role: "user",
+    time: { created: Date.now() },
+    agent: "build",
+    model,
+  })
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    sessionID,
+    messageID: msg.id,
+    type: "compaction",
+    keep,
+  })
+  await assistant(sessionID, msg.id, { summary: true })
+  return msg
+}
+
+describe("session.compaction", () => {
+  test("history keeps pinned content and kept turns around the summary", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const first = await user(session.id, "first")
+        const firstReply = await assistant(session.id, first.id)
+        const second = await user(session.id, "second")
+        await assistant(session.id, second.id)
+        const third = await user(session.id, "third")
+        const thirdReply = await assistant(session.id, third.id)
+
+        await SessionCompaction.pin({ sessionID: session.id, messageID: first.id })
+        await SessionCompaction.pin({
+          sessionID: session.id,
+          messageID: firstReply.msg.id,
+          partID: firstReply.part.id,
+        })
+        const boundary = await compact(session.id, [third.id, thirdReply.msg.id])
+        const next = await user(session.id, "fourth")
+
+        const history = await SessionCompaction.history(session.id)
+        const ids = history.map((x) => x.info.id)
+        expect(ids).toEqual([first.id, firstReply.msg.id, boundary.id, ids[3], third.id, thirdReply.msg.id, next.id])
+        expect(history[3].info.role === "assistant" && history[3].info.summary).toBe(true)
+        expect(ids).not.toContain(second.id)
+
+        await SessionCompaction.unpin({ sessionID: session.id, messageID: firstReply.msg.id })
+        const after = await SessionCompaction.history(session.id)
+        expect(after.map((x) => x.info.id)).not.toContain(firstReply.msg.id)
+        expect(after[0].info.id).toBe(first.id)
+
+        // a pinned reply is preceded by the prompt it answers
+        await SessionCompaction.unpin({ sessionID: session.id, messageID: first.id })
+        await SessionCompaction.pin({
+          sessionID: session.id,
+          messageID: firstReply.msg.id,
+          partID: firstReply.part.id,
+        })
+        const reply = await SessionCompaction.history(session.id)
+        expect(reply.slice(0, 3).map((x) => x.info.id)).toEqual([first.id, firstReply.msg.id, boundary.id])
+      },
+    })
+  })
+
+  test("pinning a whole message replaces its part pins", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const msg = await user(session.id, "hello")
+        const reply = await assistant(session.id, msg.id)
+        await SessionCompaction.pin({ sessionID: session.id, messageID: reply.msg.id, partID: reply.part.id })
+        const result = await SessionCompaction.pin({ sessionID: session.id, messageID: reply.msg.id })
+        expect(result.pinned).toEqual([{ messageID: reply.msg.id, partID: undefined }])
+        await expect(
+          SessionCompaction.pin({ sessionID: session.id, messageID: Identifier.ascending("message") }),
+        ).rejects.toThrow()
+      },
+    })
+  })
+
+  test("prune skips pinned tool output and honours force", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const first = await user(session.id, "first")
+        const pinned = await assistant(session.id, first.id, { output: "x ".repeat(100_000) })
+        const old = await assistant(session.id, first.id, { output: "x ".repeat(20_000) })
+        const recent = await assistant(session.id, first.id, { output: "x ".repeat(78_000) })
+        const second = await user(session.id, "second")
+        await assistant(session.id, second.id, { output: "x ".repeat(100_000) })
+        await user(session.id, "third")
+        await SessionCompaction.pin({ sessionID: session.id, messageID: pinned.msg.id })
+
+        // the output outside the protected window is below the prune minimum
+        expect(await SessionCompaction.prune({ sessionID: session.id })).toBe(false)
+        expect(await SessionCompaction.prune({ sessionID: session.id, force: true })).toBe(true)
+
+        const messages = await Session.messages({ sessionID: session.id })
+        const state = (id: string) => {
+          const part = messages.find((x) => x.info.id === id)!.parts[0]
+          return part.type === "tool" && part.state.status === "completed" ? part.state.time.compacted : undefined
+        }
+        expect(state(old.msg.id)).toBeNumber()
+        expect(state(recent.msg.id)).toBeUndefined()
+        expect(state(pinned.msg.id)).toBeUndefined()
+      },
+    })
+  })
+})
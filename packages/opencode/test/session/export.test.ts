@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Session } from "../../src/session"
+import { SessionExport } from "../../src/session/export"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function seed(title: string) {
+  const session = await Session.create({ title })
+  const messageID = Identifier.ascending("message")
+  await Session.updateMessage({
+    id: messageID,
+    sessionID: session.id,
+    role: "user",
+    time: { created: Date.now() },
+    agent: "build",
+    model: { providerID: "test", modelID: "test" },
+  })
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    sessionID: session.id,
+    messageID,
+    type: "text",
+    text: "rename <Foo> to Bar",
+  })
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    sessionID: session.id,
+    messageID,
+    type: "tool",
+    callID: "call_1",
+    tool: "edit",
+    state: {
+      status: "completed",
+      input: { filePath: "src/foo.ts" },
+      output: "```ts\nexport const Bar = 1\n```",
+      title: "src/foo.ts",
+      metadata: { diff: "@@ -1 +1 @@\n-export const Foo = 1\n+export const Bar = 1" },
+      time: { start: Date.now(), end: Date.now() },
+    },
+  })
+  return session
+}
+
+describe("session.export", () => {
+  test("renders markdown and html with tool calls and diffs", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await seed("Rename Foo")
+        const data = await SessionExport.load(session.id)
+
+        const md = SessionExport.render(data, "md")
+        expect(md).toContain("# Rename Foo")
+        expect(md).toContain("rename <Foo> to Bar")
+        expect(md).toContain("<summary>Tool: edit: src/foo.ts</summary>")
+        expect(md).toContain("````\n```ts\nexport const Bar = 1\n```\n````")
+        expect(md).toContain("```diff\n@@ -1 +1 @@")
+
+        const html = SessionExport.render(data, "html")
+        expect(html).toContain("rename &lt;Foo&gt; to Bar")
+        expect(html).toContain('<span class="add">+export const Bar = 1</span>')
+
+        expect(JSON.parse(SessionExport.render(data, "json")).info.id).toBe(session.id)
+      },
+    })
+  })
+
+  test("archives old sessions and restores them from the bundle", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const old = await seed("Old work")
+        const child = await Session.create({ parentID: old.id, title: "Subtask" })
+        const cutoff = Date.now() + 1
+        await Bun.sleep(5)
+        const recent = await seed("Recent work")
+
+        const bundle = await SessionExport.bundle({ before: cutoff })
+        expect(bundle.sessions.map((x) => x.info.id).toSorted()).toEqual([old.id, child.id].toSorted())
+
+        const bytes = SessionExport.compress(bundle)
+        await SessionExport.prune(bundle)
+        const db = path.join(tmp.path, ".opencode", "sessions", `${old.id}.db`)
+        expect(await Bun.file(db).exists()).toBe(false)
+        expect(await Session.get(old.id).catch(() => undefined)).toBeUndefined()
+        expect((await Session.get(recent.id)).title).toBe("Recent work")
+
+        const restored = await SessionExport.restore(SessionExport.parse(bytes))
+        expect(restored.map((x) => x.id).toSorted()).toEqual([old.id, child.id].toSorted())
+        const messages = await Session.messages({ sessionID: old.id })
+        expect(messages[0].parts.map((x) => x.type)).toEqual(["text", "tool"])
+      },
+    })
+  })
+
+  test("parses a single session export", async () => {
+    const data: SessionExport.Data = {
+      info: {
+        id: "ses_1",
+        projectID: "prj",
+        directory: "/repo",
+        title: "Exported",
+        version: "1.0.0",
+        time: { created: 1, updated: 2 },
+      },
+      messages: [],
+    }
+    const bundle = SessionExport.parse(new TextEncoder().encode(JSON.stringify(data)))
+    expect(bundle.version).toBe(1)
+    expect(bundle.sessions).toHaveLength(1)
+    expect(SessionExport.Data.parse(bundle.sessions[0])).toEqual(data)
+    expect(bundle.sessions[0].info.title).toBe("Exported")
+  })
+})
@@ -0,0 +1,188 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Session } from "../../src/session"
+import { SessionPrompt } from "../../src/session/prompt"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { project } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+describe("session.prompt", () => {
+  test("runs scripted tool calls until the model stops", async () => {
+    await using tmp = await project({
+      files: { "hello.txt": "hello from disk" },
+      responses: (dir) => [
+        {
+          reasoning: "I should read the file",
+          tool_calls: [{ name: "read", input: { filePath: path.join(dir, "hello.txt") } }],
+        },
+        { text: "The file says hello", usage: { input: 120, output: 8, reasoning: 0, cache_read: 0 } },
+      ],
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const result = await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [{ type: "text", text: "what does hello.txt say?" }],
+        })
+        expect(result.info.role === "assistant" && result.info.finish).toBe("stop")
+        expect(result.parts.find((x) => x.type === "text")).toMatchObject({ text: "The file says hello" })
+
+        const messages = await Session.messages({ sessionID: session.id })
+        expect(messages.map((x) => x.info.role)).toEqual(["user", "assistant", "assistant"])
+        const tool = messages[1].parts.find((x) => x.type === "tool")
+        expect(tool?.type === "tool" && tool.state.status === "completed" && tool.state.output).toContain(
+          "hello from disk",
+        )
+        expect(messages[1].parts.some((x) => x.type === "reasoning")).toBe(true)
+        expect(messages[2].info.role === "assistant" && messages[2].info.tokens.input).toBe(120)
+      },
+    })
+  })
+
+  test("falls back to the next model when the provider rejects the request", async () => {
+    await using tmp = await project({
+      config: { fallback: ["mock/backup"] },
+      responses: () => [{ error: { status: 400, message: "model overloaded" } }, { text: "answered by backup" }],
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const result = await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [{ type: "text", text: "hi" }],
+        })
+        expect(result.info.role === "assistant" && result.info.modelID).toBe("backup")
+        expect(result.info.role === "assistant" && result.info.error).toBeUndefined()
+        expect(result.parts.find((x) => x.type === "fallback")).toMatchObject({
+          from: { providerID: "mock", modelID: "mock" },
+          to: { providerID: "mock", modelID: "backup" },
+        })
+      },
+    })
+  })
+
+  test("keeps the fallback model for the following steps", async () => {
+    await using tmp = await project({
+      config: { fallback: ["mock/backup"] },
+      files: { "hello.txt": "hello from disk" },
+      responses: (dir) => [
+        { error: { status: 400, message: "model overloaded" } },
+        { tool_calls: [{ name: "read", input: { filePath: path.join(dir, "hello.txt") } }] },
+        { text: "done" },
+      ],
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [{ type: "text", text: "read hello.txt" }],
+        })
+        const steps = (await Session.messages({ sessionID: session.id })).filter((x) => x.info.role === "assistant")
+        expect(steps.map((x) => x.info.role === "assistant" && x.info.modelID)).toEqual(["backup", "backup"])
+        expect(steps.map((x) => x.parts.filter((part) => part.type === "fallback").length)).toEqual([1, 0])
+        expect(steps[1].parts.find((x) => x.type === "text")).toMatchObject({ text: "done" })
+      },
+    })
+  })
+
+  test("follows the agent's fallback chain past unavailable models", async () => {
+    await using tmp = await project({
+      config: { fallback: ["mock/mock"], agent: { build: { fallback: ["mock/missing", "mock/backup"] } } },
+      responses: () => [{ error: { status: 400, message: "model overloaded" } }, { text: "answered by backup" }],
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const result = await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [{ type: "text", text: "hi" }],
+        })
+        expect(result.info.role === "assistant" && result.info.modelID).toBe("backup")
+        expect(result.parts.filter((x) => x.type === "fallback")).toEqual([
+          expect.objectContaining({ to: { providerID: "mock", modelID: "backup" } }),
+        ])
+      },
+    })
+  })
+
+  test("reports the error once every fallback model failed", async () => {
+    await using tmp = await project({
+      config: { fallback: ["mock/backup"] },
+      responses: () => [
+        { error: { status: 400, message: "model overloaded" } },
+        { error: { status: 400, message: "backup overloaded" } },
+      ],
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const result = await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [{ type: "text", text: "hi" }],
+        })
+        expect(result.info.role === "assistant" && result.info.modelID).toBe("backup")
+        expect(result.info.role === "assistant" && result.info.error).toMatchObject({
+          name: "APIError",
+          data: { message: "backup overloaded" },
+        })
+      },
+    })
+  })
+
+  test("compacts once when the context overflows and keeps the latest turn", async () => {
+    await using tmp = await project({
+      config: { compaction: { strategy: "rolling", keep: 1 } },
+      responses: () => [
+        { text: "one" },
+        {
+          tool_calls: [{ name: "todoread", input: {} }],
+          usage: { input: 190_000, output: 10, reasoning: 0, cache_read: 0 },
+        },
+        { text: "summary of the work" },
+        { text: "done" },
+      ],
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const prompt = (text: string) =>
+          SessionPrompt.prompt({ sessionID: session.id, parts: [{ type: "text", text }] })
+        await prompt("first")
+        const result = await prompt("second")
+        expect(result.parts.find((x) => x.type === "text")).toMatchObject({ text: "done" })
+
+        const messages = await Session.messages({ sessionID: session.id })
+        const summaries = messages.filter((x) => x.info.role === "assistant" && x.info.summary)
+        expect(summaries).toHaveLength(1)
+        expect(summaries[0].parts.find((x) => x.type === "text")).toMatchObject({ text: "summary of the work" })
+      },
+    })
+  })
+
+  test("records the error when the script runs out", async () => {
+    await using tmp = await project({ responses: () => [] })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const result = await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [{ type: "text", text: "hi" }],
+        })
+        expect(result.info.role === "assistant" && result.info.error?.data.message).toContain(
+          "MockProviderExhaustedError",
+        )
+      },
+    })
+  })
+})
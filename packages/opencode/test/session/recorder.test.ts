@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test"
+import { Session } from "../../src/session"
+import { SessionPrompt } from "../../src/session/prompt"
+import { SessionRecorder } from "../../src/session/recorder"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { project } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+describe("session.recorder", () => {
+  test("records the request and stream of every step", async () => {
+    await using tmp = await project({
+      config: { experimental: { record: true } },
+      responses: [{ tool_calls: [{ name: "todoread", input: {} }] }, { text: "done" }, { text: "replayed on backup" }],
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [{ type: "text", text: "check the todo list" }],
+        })
+        const recordings = await SessionRecorder.list(session.id)
+        expect(recordings).toHaveLength(2)
+        const messages = await Session.messages({ sessionID: session.id })
+        expect(recordings.map((x) => x.id)).toEqual(messages.slice(1).map((x) => x.info.id))
+        expect(recordings[0].time.completed).toBeNumber()
+        expect(JSON.stringify(recordings[0].request.prompt)).toContain("check the todo list")
+        expect(recordings[0].request.tools.map((x: { name: string }) => x.name)).toContain("todoread")
+        expect(recordings[0].events.find((x) => x.type === "tool-call")).toMatchObject({ toolName: "todoread" })
+        expect(recordings[1].events.find((x) => x.type === "text-delta")).toMatchObject({ delta: "done" })
+
+        const result = await SessionRecorder.replay({
+          sessionID: session.id,
+          step: 2,
+          model: { providerID: "mock", modelID: "backup" },
+        })
+        expect(result.events.find((x) => x.type === "text-delta")).toMatchObject({ delta: "replayed on backup" })
+        expect(await Session.messages({ sessionID: session.id })).toHaveLength(messages.length)
+        await expect(SessionRecorder.replay({ sessionID: session.id, step: 3 })).rejects.toThrow()
+      },
+    })
+  })
+
+  test("keeps every attempt of a step", async () => {
+    await using tmp = await project({
+      config: { experimental: { record: true }, fallback: ["mock/backup"] },
+      responses: [{ error: { status: 400, message: "model overloaded" } }, { text: "answered by backup" }],
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const result = await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [{ type: "text", text: "hi" }],
+        })
+        const recordings = await SessionRecorder.list(session.id)
+        expect(recordings.map((x) => [x.id, x.attempt, x.modelID])).toEqual([
+          [result.info.id, 0, "mock"],
+          [result.info.id, 1, "backup"],
+        ])
+        expect(recordings[0].error).toContain("model overloaded")
+      },
+    })
+  })
+
+  test("records nothing unless enabled", async () => {
+    await using tmp = await project({ config: { experimental: { record: false } }, responses: [{ text: "done" }] })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        await SessionPrompt.prompt({
+          sessionID: session.id,
+          parts: [{ type: "text", text: "hi" }],
+        })
+        expect(await SessionRecorder.list(session.id)).toEqual([])
+      },
+    })
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test"
+import { Session } from "../../src/session"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function seed() {
+  const session = await Session.create({ title: "Database cleanup" })
+  const messageID = Identifier.ascending("message")
+  await Session.updateMessage({
+    id: messageID,
+    sessionID: session.id,
+    role: "user",
+    time: { created: Date.now() },
+    agent: "build",
+    model: { providerID: "test", modelID: "test" },
+  })
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    sessionID: session.id,
+    messageID,
+    type: "text",
+    text: "the migration script drops the users table",
+  })
+  await Session.updatePart({
+    id: Identifier.ascending("part"),
+    sessionID: session.id,
+    messageID,
+    type: "tool",
+    callID: "call_1",
+    tool: "bash",
+    state: {
+      status: "completed",
+      input: { command: "bun run migrate" },
+      output: "applied 3 pending changes",
+      title: "migrate",
+      metadata: {},
+      time: { start: Date.now(), end: Date.now() },
+    },
+  })
+  return { session, messageID }
+}
+
+describe("session.search", () => {
+  test("finds text parts, tool calls and titles", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const { session, messageID } = await seed()
+
+        const text = await Session.search({ query: "migration" })
+        expect(text.map((x) => x.kind)).toContain("text")
+        expect(text[0].sessionID).toBe(session.id)
+        expect(text[0].messageID).toBe(messageID)
+        expect(text[0].title).toBe("Database cleanup")
+
+        const tool = await Session.search({ query: "pending changes" })
+        expect(tool).toHaveLength(1)
+        expect(tool[0].kind).toBe("tool")
+
+        const title = await Session.search({ query: "cleanup" })
+        expect(title).toHaveLength(1)
+        expect(title[0].kind).toBe("title")
+        expect(title[0].messageID).toBeUndefined()
+      },
+    })
+  })
+
+  test("treats query syntax as plain text and matches prefixes", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await seed()
+        expect(await Session.search({ query: 'users" OR (' })).toEqual([])
+        expect((await Session.search({ query: "migr" })).length).toBeGreaterThan(0)
+      },
+    })
+  })
+
+  test("drops results when the session is removed", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const { session } = await seed()
+        await Session.remove(session.id)
+        expect(await Session.search({ query: "migration" })).toEqual([])
+      },
+    })
+  })
+})
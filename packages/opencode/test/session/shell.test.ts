@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import fs from "fs/promises"
+import { SessionShell } from "../../src/session/shell"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+function run(command: string, input?: { name?: string; timeout?: number }) {
+  return SessionShell.run({
+    sessionID: "ses_test",
+    name: input?.name,
+    command,
+    timeout: input?.timeout ?? 10_000,
+    abort: AbortSignal.any([]),
+  })
+}
+
+describe("session.shell", () => {
+  test("keeps the working directory and environment between commands", async () => {
+    await using tmp = await tmpdir()
+    await fs.mkdir(path.join(tmp.path, "sub"))
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const first = await run("cd sub && export GREETING='it''s here'")
+        expect(first.exit).toBe(0)
+        expect(first.cwd).toBe(path.join(tmp.path, "sub"))
+
+        const second = await run('echo "$GREETING" && pwd && false')
+        expect(second.output).toBe(`its here\n${path.join(tmp.path, "sub")}\n`)
+        expect(second.exit).toBe(1)
+        expect(SessionShell.get("ses_test")).toMatchObject({ status: "idle", cwd: path.join(tmp.path, "sub"), exit: 1 })
+
+        const other = await run("pwd", { name: "other" })
+        expect(other.output.trim()).toBe(tmp.path)
+        expect(SessionShell.list("ses_test").map((x) => x.name)).toEqual(["default", "other"])
+        await SessionShell.stop("ses_test")
+        expect(SessionShell.list("ses_test")).toEqual([])
+      },
+    })
+  })
+
+  test.skipIf(!Bun.which("script") || !["linux", "darwin"].includes(process.platform))(
+    "runs commands under a terminal and strips its escape sequences",
+    async () => {
+      await using tmp = await tmpdir()
+      await Instance.provide({
+        directory: tmp.path,
+        fn: async () => {
+          const result = await run(
+            `[ -t 1 ] && echo terminal; [ -t 0 ] || echo no input; tput cols; printf '\\033[31mred\\033[0m\\n'`,
+          )
+          expect(result.output).toBe("terminal\nno input\n120\nred\n")
+          expect(result.exit).toBe(0)
+          await SessionShell.stop("ses_test")
+        },
+      })
+    },
+  )
+
+  test("restarts the shell after a timeout", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await run("export KEPT=1")
+        const result = await run("echo started && sleep 5", { timeout: 300 })
+        expect(result.timedOut).toBe(true)
+        expect(result.closed).toBe(true)
+        expect(result.output).toContain("started")
+        expect(SessionShell.get("ses_test")).toBeUndefined()
+
+        const next = await run('echo "kept=$KEPT"')
+        expect(next.output.trim()).toBe("kept=")
+        await SessionShell.stop("ses_test")
+      },
+    })
+  })
+
+  test("reports when the command exits the shell", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const result = await run("echo bye && exit 3")
+        expect(result.closed).toBe(true)
+        expect(result.exit).toBe(3)
+        expect(result.output.trim()).toBe("bye")
+        await SessionShell.stop("ses_test")
+      },
+    })
+  })
+})
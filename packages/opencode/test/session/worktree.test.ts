@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { $ } from "bun"
+import { Session } from "../../src/session"
+import { SessionWorktree } from "../../src/session/worktree"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+describe("session.worktree", () => {
+  test("binds the instance to the worktree and merges the branch back", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({ worktree: true })
+        const worktree = session.worktree!
+        expect(worktree.branch).toBe(`opencode/${session.id}`)
+        expect(await Bun.file(path.join(worktree.worktree, ".git")).exists()).toBe(true)
+
+        const child = await Session.create({ parentID: session.id })
+        await SessionWorktree.provide(child.id, async () => {
+          expect(Instance.directory).toBe(worktree.directory)
+          expect(Instance.worktree).toBe(worktree.worktree)
+          await Bun.write(path.join(Instance.directory, "feature.txt"), "done")
+        })
+        expect(Instance.directory).toBe(tmp.path)
+        expect(await Bun.file(path.join(tmp.path, "feature.txt")).exists()).toBe(false)
+
+        const merged = await SessionWorktree.merge(session.id)
+        expect(merged.worktree).toBeUndefined()
+        expect(await Bun.file(path.join(tmp.path, "feature.txt")).text()).toBe("done")
+        expect(await Bun.file(path.join(worktree.worktree, ".git")).exists()).toBe(false)
+        const branches = await $`git branch --list ${worktree.branch}`.cwd(tmp.path).text()
+        expect(branches.trim()).toBe("")
+      },
+    })
+  })
+
+  test("loads state from the project and leaves opencode files out of the commit", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({ worktree: true })
+        const worktree = session.worktree!
+        const state = Instance.state(() => Instance.directory)
+        expect(await SessionWorktree.provide(session.id, () => state())).toBe(tmp.path)
+
+        await Bun.write(path.join(worktree.worktree, "feature.txt"), "done")
+        await Bun.write(path.join(worktree.worktree, ".opencode", "permission.json"), "{}")
+        await SessionWorktree.merge(session.id)
+        expect(await Bun.file(path.join(tmp.path, "feature.txt")).text()).toBe("done")
+        expect(await Bun.file(path.join(tmp.path, ".opencode", "permission.json")).exists()).toBe(false)
+      },
+    })
+  })
+
+  test("aborts a conflicting merge and keeps the worktree", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({ worktree: true })
+        const worktree = session.worktree!
+        await Bun.write(path.join(worktree.worktree, "file.txt"), "theirs")
+        await Bun.write(path.join(tmp.path, "file.txt"), "ours")
+        await $`git add -A && git commit -m ours`.cwd(tmp.path).quiet()
+
+        const error = await SessionWorktree.merge(session.id).catch((e) => e)
+        expect(SessionWorktree.MergeConflictError.isInstance(error)).toBe(true)
+        expect(error.data.files).toEqual(["file.txt"])
+        expect(await Bun.file(path.join(tmp.path, "file.txt")).text()).toBe("ours")
+        expect((await Session.get(session.id)).worktree?.branch).toBe(worktree.branch)
+
+        await Session.remove(session.id)
+        expect(await Bun.file(path.join(worktree.worktree, "file.txt")).exists()).toBe(false)
+      },
+    })
+  })
+})
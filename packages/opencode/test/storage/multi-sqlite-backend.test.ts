@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test"
+import { MultiSqliteBackend } from "../../src/storage/multi-sqlite-backend"
+import { tmpdir } from "../fixture/fixture"
+
+describe("MultiSqliteBackend", () => {
+  test("lists and reads parts by message after reopening", async () => {
+    await using tmp = await tmpdir()
+    const first = new MultiSqliteBackend(tmp.path)
+    await first.write(["session", "prj", "ses_1"], { id: "ses_1", title: "one" })
+    await first.write(["message", "ses_1", "msg_1"], { id: "msg_1" })
+    await first.write(["part", "msg_1", "prt_1"], { id: "prt_1", sessionID: "ses_1", messageID: "msg_1" })
+    await first.close()
+
+    const second = new MultiSqliteBackend(tmp.path)
+    expect(await second.list(["part", "msg_1"])).toEqual([["part", "msg_1", "prt_1"]])
+    expect(await second.read<{ id: string }>(["part", "msg_1", "prt_1"])).toMatchObject({ id: "prt_1" })
+    expect(await second.list(["part", "msg_unknown"])).toEqual([])
+    await second.close()
+  })
+
+  test("indexes the text of parts once it stops streaming and only when it changes", async () => {
+    await using tmp = await tmpdir()
+    const backend = new MultiSqliteBackend(tmp.path)
+    await backend.write(["session", "prj", "ses_1"], { id: "ses_1", title: "one" })
+    await backend.write(["message", "ses_1", "msg_1"], { id: "msg_1" })
+    const part = { id: "prt_1", sessionID: "ses_1", messageID: "msg_1", type: "text", text: "hello world" }
+    const rowid = () =>
+      backend["sessionsMetaDB"]
+        .query<{ rowid: number }, []>("SELECT rowid FROM search_index WHERE part_id = 'prt_1'")
+        .get()?.rowid
+
+    await backend.write(["part", "msg_1", "prt_1"], { ...part, time: { start: 1 } })
+    expect(await backend.search("hello", { projectID: "prj" })).toEqual([])
+
+    await backend.write(["part", "msg_1", "prt_1"], { ...part, time: { start: 1, end: 2 } })
+    expect((await backend.search("hello", { projectID: "prj" })).map((x) => x.partID)).toEqual(["prt_1"])
+    const indexed = rowid()
+    await backend.write(["part", "msg_1", "prt_1"], { ...part, time: { start: 1, end: 2 }, metadata: { a: 1 } })
+    expect(rowid()).toBe(indexed)
+
+    await backend.write(["part", "msg_1", "prt_1"], { ...part, text: "goodbye", time: { start: 1, end: 3 } })
+    expect(await backend.search("hello", { projectID: "prj" })).toEqual([])
+    expect((await backend.search("goodbye", { projectID: "prj" })).map((x) => x.partID)).toEqual(["prt_1"])
+    await backend.close()
+  })
+
+  test("ranks embeddings by similarity within a model", async () => {
+    await using tmp = await tmpdir()
+    const backend = new MultiSqliteBackend(tmp.path)
+    await backend.write(["session", "prj", "ses_1"], { id: "ses_1", title: "one" })
+    const vector = (...values: number[]) => new Float32Array(values)
+    await backend.writeEmbedding("ses_1", {
+      partID: "a",
+      messageID: "m",
+      model: "x",
+      content: "a",
+      vector: vector(1, 0),
+    })
+    await backend.writeEmbedding("ses_1", {
+      partID: "b",
+      messageID: "m",
+      model: "x",
+      content: "b",
+      vector: vector(0, 1),
+    })
+    await backend.writeEmbedding("ses_1", {
+      partID: "c",
+      messageID: "m",
+      model: "y",
+      content: "c",
+      vector: vector(1, 0),
+    })
+
+    const matches = await backend.searchEmbeddings(vector(0.8, 0.6), { projectID: "prj", model: "x" })
+    expect(matches.map((x) => x.partID)).toEqual(["a", "b"])
+    expect(matches[0].score).toBeCloseTo(0.8, 5)
+    expect(await backend.searchEmbeddings(vector(1, 0), { projectID: "prj", model: "x", exclude: ["ses_1"] })).toEqual(
+      [],
+    )
+    await backend.close()
+  })
+
+  test("searches sessions that are not open without keeping them open", async () => {
+    await using tmp = await tmpdir()
+    const first = new MultiSqliteBackend(tmp.path)
+    for (const id of ["ses_1", "ses_2"]) {
+      await first.write(["session", "prj", id], { id, title: id })
+      await first.writeEmbedding(id, {
+        partID: id,
+        messageID: "m",
+        model: "x",
+        content: id,
+        vector: new Float32Array([1]),
+      })
+    }
+    await first.close()
+
+    const second = new MultiSqliteBackend(tmp.path)
+    const matches = await second.searchEmbeddings(new Float32Array([1]), { projectID: "prj", model: "x" })
+    expect(matches.map((x) => x.partID).toSorted()).toEqual(["ses_1", "ses_2"])
+    expect(second["sessionDBs"].size).toBe(0)
+    await second.close()
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test"
+import { ToolRegistry } from "../../src/tool/registry"
+import { Agent } from "../../src/agent/agent"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+describe("tool.registry", () => {
+  test("edit deny disables every tool that writes files", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const plan = await Agent.get("plan")
+        const enabled = await ToolRegistry.enabled("test", "test", plan)
+        for (const id of ["edit", "write", "multiedit", "patch", "lsp_rename"]) {
+          expect(enabled[id]).toBe(false)
+        }
+        expect(enabled["lsp_definition"]).toBeUndefined()
+
+        const build = await Agent.get("build")
+        expect(await ToolRegistry.enabled("test", "test", build)).toEqual({})
+      },
+    })
+  })
+  test("background tools follow the bash setting", async () => {
+    const background = ["background_start", "background_output", "background_status", "background_stop"]
+    const disabled = ToolRegistry.gate({ bash: false, background_start: true })
+    for (const id of background) expect(disabled[id]).toBe(false)
+    expect(ToolRegistry.gate({ "*": true, bash: false })["background_stop"]).toBe(false)
+    expect(ToolRegistry.gate({ read: false })).toEqual({ read: false })
+  })
+})
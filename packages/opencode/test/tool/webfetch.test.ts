@@ -0,0 +1,111 @@
+import { describe, expect, setSystemTime, test } from "bun:test"
+import fs from "fs/promises"
+import path from "path"
+import { Agent } from "../../src/agent/agent"
+import { PermissionWeb } from "../../src/permission/web"
+import { WebFetchTool } from "../../src/tool/webfetch"
+import { Instance } from "../../src/project/instance"
+import { project } from "../fixture/fixture"
+
+const ctx = {
+  sessionID: "ses_test",
+  messageID: "",
+  callID: "",
+  agent: "build",
+  abort: AbortSignal.any([]),
+  metadata: () => {},
+}
+
+describe("tool.webfetch", () => {
+  test("agents merge URL patterns and the longest one decides", async () => {
+    await using tmp = await project({
+      config: {
+        permission: { webfetch: { "https://docs.*": "allow", "*": "ask" } },
+        agent: { plan: { permission: { webfetch: { "http://127.0.0.1:*": "deny" } } } },
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const build = await Agent.get("build")
+        expect(build.permission.webfetch).toEqual({ "https://docs.*": "allow", "*": "ask" })
+        expect(PermissionWeb.evaluate(build.permission.webfetch, "https://docs.example.com/guide")).toBe("allow")
+        expect(PermissionWeb.evaluate(build.permission.webfetch, "https://example.com")).toBe("ask")
+
+        const plan = await Agent.get("plan")
+        expect(PermissionWeb.evaluate(plan.permission.webfetch, "http://127.0.0.1:3000/")).toBe("deny")
+        const webfetch = await WebFetchTool.init()
+        await expect(
+          webfetch.execute({ url: "http://127.0.0.1:3000/", format: "text" }, { ...ctx, agent: "plan" }),
+        ).rejects.toThrow("Permission denied")
+      },
+    })
+  })
+
+  test("serves repeated fetches from the cache, and stale copies when offline", async () => {
+    let requests = 0
+    const server = Bun.serve({
+      port: 0,
+      fetch() {
+        requests++
+        return new Response("<html><body><h1>Guide</h1><script>x()</script></body></html>", {
+          headers: { "content-type": "text/html" },
+        })
+      },
+    })
+    const url = `http://127.0.0.1:${server.port}/guide/${Date.now()}`
+    await using tmp = await project()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const webfetch = await WebFetchTool.init()
+        const first = await webfetch.execute({ url, format: "markdown" }, ctx)
+        expect(first.output).toBe("# Guide")
+        expect(first.metadata.cached).toBe(false)
+
+        const second = await webfetch.execute({ url, format: "markdown" }, ctx)
+        expect(second).toMatchObject({ output: "# Guide", metadata: { cached: true } })
+        expect(requests).toBe(1)
+
+        await webfetch.execute({ url, format: "text" }, ctx)
+        expect(requests).toBe(2)
+      },
+    })
+    server.stop(true)
+
+    setSystemTime(new Date(Date.now() + 2000))
+    await using expired = await project({ config: { experimental: { webfetch_cache_ttl: 1 } } })
+    await Instance.provide({
+      directory: expired.path,
+      fn: async () => {
+        const webfetch = await WebFetchTool.init()
+        const stale = await webfetch.execute({ url, format: "markdown" }, ctx)
+        expect(stale.output).toStartWith("# Guide\n\n(Fetching failed")
+        expect(stale.metadata.cached).toBe(true)
+        await expect(webfetch.execute({ url: url + "/other", format: "markdown" }, ctx)).rejects.toThrow()
+      },
+    })
+    setSystemTime()
+  })
+
+  test("removes cached responses older than a month when caching another", async () => {
+    const server = Bun.serve({ port: 0, fetch: () => new Response("hello") })
+    const url = `http://127.0.0.1:${server.port}`
+    const dir = process.env["OPENCODE_WEBFETCH_CACHE_DIR"]!
+    await using tmp = await project()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const webfetch = await WebFetchTool.init()
+        await webfetch.execute({ url: url + "/old", format: "text" }, ctx)
+        const old = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000)
+        for (const name of await fs.readdir(dir)) await fs.utimes(path.join(dir, name), old, old)
+
+        await webfetch.execute({ url: url + "/new", format: "text" }, ctx)
+        server.stop(true)
+        expect((await webfetch.execute({ url: url + "/new", format: "text" }, ctx)).metadata.cached).toBe(true)
+        await expect(webfetch.execute({ url: url + "/old", format: "text" }, ctx)).rejects.toThrow()
+      },
+    })
+  })
+})
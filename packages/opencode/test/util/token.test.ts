@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test"
+import { Token } from "../../src/util/token"
+
+describe("util.token", () => {
+  test("selects encodings from the model id", () => {
+    expect(Token.encoding({ id: "gpt-4o-mini" })).toBe("o200k_base")
+    expect(Token.encoding({ id: "openai/gpt-5-codex" })).toBe("o200k_base")
+    expect(Token.encoding({ id: "o3-mini" })).toBe("o200k_base")
+    expect(Token.encoding({ id: "gpt-4-turbo" })).toBe("cl100k_base")
+    expect(Token.encoding({ id: "claude-sonnet-4-5" })).toBeUndefined()
+  })
+
+  test("falls back to the estimate without a bundled tokenizer", async () => {
+    const tokenizer = await Token.tokenizer({ id: "claude-sonnet-4-5" })
+    expect(tokenizer.id).toBe("estimate")
+    expect(tokenizer.count("a".repeat(40))).toBe(10)
+  })
+
+  test("counts BPE tokens", async () => {
+    const tokenizer = await Token.tokenizer({ id: "gpt-4o" })
+    expect(tokenizer.id).toBe("o200k_base")
+    expect(tokenizer.count("hello world")).toBe(2)
+    expect(tokenizer.count("")).toBe(0)
+    expect(tokenizer.count("before <|endoftext|> after")).toBeGreaterThan(3)
+  })
+
+  test("estimates long unbroken runs instead of merging them", async () => {
+    const tokenizer = await Token.tokenizer({ id: "gpt-4o" })
+    expect(tokenizer.count("hello " + "=".repeat(100_000))).toBe(2 + 25_000)
+  })
+})
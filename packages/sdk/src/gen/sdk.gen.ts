@@ -8,6 +8,47 @@ import type {
   ProjectListResponses,
   ProjectCurrentData,
   ProjectCurrentResponses,
+  ProjectInitData,
+  ProjectInitResponses,
+  ProjectGetData,
+  ProjectGetResponses,
+  ProjectGetErrors,
+  ProjectListSessionsData,
+  ProjectListSessionsResponses,
+  ProjectListSessionsErrors,
+  ProjectCreateSessionData,
+  ProjectCreateSessionResponses,
+  ProjectCreateSessionErrors,
+  ProjectDeleteSessionData,
+  ProjectDeleteSessionResponses,
+  ProjectDeleteSessionErrors,
+  ProjectGetSessionData,
+  ProjectGetSessionResponses,
+  ProjectGetSessionErrors,
+  ProjectUpdateSessionData,
+  ProjectUpdateSessionResponses,
+  ProjectUpdateSessionErrors,
+  ProjectAbortSessionData,
+  ProjectAbortSessionResponses,
+  ProjectAbortSessionErrors,
+  ProjectListMessagesData,
+  ProjectListMessagesResponses,
+  ProjectListMessagesErrors,
+  ProjectPromptData,
+  ProjectPromptResponses,
+  ProjectPromptErrors,
+  ProjectRespondPermissionData,
+  ProjectRespondPermissionResponses,
+  ProjectRespondPermissionErrors,
+  ProjectFileStatusData,
+  ProjectFileStatusResponses,
+  ProjectFileStatusErrors,
+  PermissionRuleListData,
+  PermissionRuleListResponses,
+  PermissionRuleDeleteData,
+  PermissionRuleDeleteResponses,
+  PermissionLogData,
+  PermissionLogResponses,
   ConfigGetData,
   ConfigGetResponses,
   ConfigUpdateData,
@@ -26,6 +67,12 @@ import type {
   SessionCreateData,
   SessionCreateResponses,
   SessionCreateErrors,
+  SessionSearchData,
+  SessionSearchResponses,
+  SessionSearchErrors,
+  SessionStatusData,
+  SessionStatusResponses,
+  SessionStatusErrors,
   SessionDeleteData,
   SessionDeleteResponses,
   SessionDeleteErrors,
@@ -41,6 +88,21 @@ import type {
   SessionTodoData,
   SessionTodoResponses,
   SessionTodoErrors,
+  SessionRecordingsData,
+  SessionRecordingsResponses,
+  SessionRecordingsErrors,
+  SessionShellsData,
+  SessionShellsResponses,
+  SessionShellsErrors,
+  SessionShellData,
+  SessionShellResponses,
+  SessionShellErrors,
+  SessionBackgroundsData,
+  SessionBackgroundsResponses,
+  SessionBackgroundsErrors,
+  SessionBackgroundStopData,
+  SessionBackgroundStopResponses,
+  SessionBackgroundStopErrors,
   SessionInitData,
   SessionInitResponses,
   SessionInitErrors,
@@ -49,6 +111,15 @@ import type {
   SessionAbortData,
   SessionAbortResponses,
   SessionAbortErrors,
+  SessionWorktreeMergeData,
+  SessionWorktreeMergeResponses,
+  SessionWorktreeMergeErrors,
+  SessionWorktreePrData,
+  SessionWorktreePrResponses,
+  SessionWorktreePrErrors,
+  SessionWorktreeDiscardData,
+  SessionWorktreeDiscardResponses,
+  SessionWorktreeDiscardErrors,
   SessionUnshareData,
   SessionUnshareResponses,
   SessionUnshareErrors,
@@ -58,9 +129,20 @@ import type {
   SessionDiffData,
   SessionDiffResponses,
   SessionDiffErrors,
+  SessionContextData,
+  SessionContextResponses,
   SessionSummarizeData,
   SessionSummarizeResponses,
   SessionSummarizeErrors,
+  SessionBudgetData,
+  SessionBudgetResponses,
+  SessionBudgetErrors,
+  SessionUnpinData,
+  SessionUnpinResponses,
+  SessionUnpinErrors,
+  SessionPinData,
+  SessionPinResponses,
+  SessionPinErrors,
   SessionMessagesData,
   SessionMessagesResponses,
   SessionMessagesErrors,
@@ -73,9 +155,6 @@ import type {
   SessionCommandData,
   SessionCommandResponses,
   SessionCommandErrors,
-  SessionShellData,
-  SessionShellResponses,
-  SessionShellErrors,
   SessionRevertData,
   SessionRevertResponses,
   SessionRevertErrors,
@@ -111,6 +190,23 @@ import type {
   McpAddData,
   McpAddResponses,
   McpAddErrors,
+  McpRemoveData,
+  McpRemoveResponses,
+  McpRemoveErrors,
+  McpRestartData,
+  McpRestartResponses,
+  McpRestartErrors,
+  McpEnableData,
+  McpEnableResponses,
+  McpEnableErrors,
+  McpDisableData,
+  McpDisableResponses,
+  McpDisableErrors,
+  McpLogsData,
+  McpLogsResponses,
+  McpLogsErrors,
+  McpResourcesData,
+  McpResourcesResponses,
   LspStatusData,
   LspStatusResponses,
   FormatterStatusData,
@@ -209,6 +305,201 @@ class Project extends _HeyApiClient {
       ...options,
     })
   }
+
+  /**
+   * Open the project containing a directory so it can be served
+   */
+  public init<ThrowOnError extends boolean = false>(options?: Options<ProjectInitData, ThrowOnError>) {
+    return (options?.client ?? this._client).post<ProjectInitResponses, unknown, ThrowOnError>({
+      url: "/project/init",
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+      },
+    })
+  }
+
+  /**
+   * Get a project
+   */
+  public get<ThrowOnError extends boolean = false>(options: Options<ProjectGetData, ThrowOnError>) {
+    return (options.client ?? this._client).get<ProjectGetResponses, ProjectGetErrors, ThrowOnError>({
+      url: "/project/{projectID}",
+      ...options,
+    })
+  }
+
+  /**
+   * List the sessions of a project
+   */
+  public listSessions<ThrowOnError extends boolean = false>(options: Options<ProjectListSessionsData, ThrowOnError>) {
+    return (options.client ?? this._client).get<ProjectListSessionsResponses, ProjectListSessionsErrors, ThrowOnError>({
+      url: "/project/{projectID}/session",
+      ...options,
+    })
+  }
+
+  /**
+   * Create a session in a project
+   */
+  public createSession<ThrowOnError extends boolean = false>(options: Options<ProjectCreateSessionData, ThrowOnError>) {
+    return (options.client ?? this._client).post<
+      ProjectCreateSessionResponses,
+      ProjectCreateSessionErrors,
+      ThrowOnError
+    >({
+      url: "/project/{projectID}/session",
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options.headers,
+      },
+    })
+  }
+
+  /**
+   * Delete a session of a project and all its data
+   */
+  public deleteSession<ThrowOnError extends boolean = false>(options: Options<ProjectDeleteSessionData, ThrowOnError>) {
+    return (options.client ?? this._client).delete<
+      ProjectDeleteSessionResponses,
+      ProjectDeleteSessionErrors,
+      ThrowOnError
+    >({
+      url: "/project/{projectID}/session/{sessionID}",
+      ...options,
+    })
+  }
+
+  /**
+   * Get a session of a project
+   */
+  public getSession<ThrowOnError extends boolean = false>(options: Options<ProjectGetSessionData, ThrowOnError>) {
+    return (options.client ?? this._client).get<ProjectGetSessionResponses, ProjectGetSessionErrors, ThrowOnError>({
+      url: "/project/{projectID}/session/{sessionID}",
+      ...options,
+    })
+  }
+
+  /**
+   * Update a session of a project
+   */
+  public updateSession<ThrowOnError extends boolean = false>(options: Options<ProjectUpdateSessionData, ThrowOnError>) {
+    return (options.client ?? this._client).patch<
+      ProjectUpdateSessionResponses,
+      ProjectUpdateSessionErrors,
+      ThrowOnError
+    >({
+      url: "/project/{projectID}/session/{sessionID}",
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options.headers,
+      },
+    })
+  }
+
+  /**
+   * Abort a session of a project
+   */
+  public abortSession<ThrowOnError extends boolean = false>(options: Options<ProjectAbortSessionData, ThrowOnError>) {
+    return (options.client ?? this._client).post<ProjectAbortSessionResponses, ProjectAbortSessionErrors, ThrowOnError>(
+      {
+        url: "/project/{projectID}/session/{sessionID}/abort",
+        ...options,
+      },
+    )
+  }
+
+  /**
+   * List the messages of a session of a project
+   */
+  public listMessages<ThrowOnError extends boolean = false>(options: Options<ProjectListMessagesData, ThrowOnError>) {
+    return (options.client ?? this._client).get<ProjectListMessagesResponses, ProjectListMessagesErrors, ThrowOnError>({
+      url: "/project/{projectID}/session/{sessionID}/message",
+      ...options,
+    })
+  }
+
+  /**
+   * Send a message to a session of a project
+   */
+  public prompt<ThrowOnError extends boolean = false>(options: Options<ProjectPromptData, ThrowOnError>) {
+    return (options.client ?? this._client).post<ProjectPromptResponses, ProjectPromptErrors, ThrowOnError>({
+      url: "/project/{projectID}/session/{sessionID}/message",
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options.headers,
+      },
+    })
+  }
+
+  /**
+   * Respond to a permission request in a project
+   */
+  public respondPermission<ThrowOnError extends boolean = false>(
+    options: Options<ProjectRespondPermissionData, ThrowOnError>,
+  ) {
+    return (options.client ?? this._client).post<
+      ProjectRespondPermissionResponses,
+      ProjectRespondPermissionErrors,
+      ThrowOnError
+    >({
+      url: "/project/{projectID}/session/{sessionID}/permission/{permissionID}",
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options.headers,
+      },
+    })
+  }
+
+  /**
+   * Get the git status of files in a project
+   */
+  public fileStatus<ThrowOnError extends boolean = false>(options: Options<ProjectFileStatusData, ThrowOnError>) {
+    return (options.client ?? this._client).get<ProjectFileStatusResponses, ProjectFileStatusErrors, ThrowOnError>({
+      url: "/project/{projectID}/file/status",
+      ...options,
+    })
+  }
+}
+
+class Rule extends _HeyApiClient {
+  /**
+   * List persisted permission rules
+   */
+  public list<ThrowOnError extends boolean = false>(options?: Options<PermissionRuleListData, ThrowOnError>) {
+    return (options?.client ?? this._client).get<PermissionRuleListResponses, unknown, ThrowOnError>({
+      url: "/permission/rule",
+      ...options,
+    })
+  }
+
+  /**
+   * Revoke a persisted permission rule
+   */
+  public delete<ThrowOnError extends boolean = false>(options: Options<PermissionRuleDeleteData, ThrowOnError>) {
+    return (options.client ?? this._client).delete<PermissionRuleDeleteResponses, unknown, ThrowOnError>({
+      url: "/permission/rule/{ruleID}",
+      ...options,
+    })
+  }
+}
+
+class Permission extends _HeyApiClient {
+  /**
+   * List recorded permission decisions, oldest first
+   */
+  public log<ThrowOnError extends boolean = false>(options?: Options<PermissionLogData, ThrowOnError>) {
+    return (options?.client ?? this._client).get<PermissionLogResponses, unknown, ThrowOnError>({
+      url: "/permission/log",
+      ...options,
+    })
+  }
+  rule = new Rule({ client: this._client })
 }
 
 class Config extends _HeyApiClient {
@@ -281,6 +572,46 @@ class Path extends _HeyApiClient {
   }
 }
 
+class Worktree extends _HeyApiClient {
+  /**
+   * Merge the session's worktree branch into the current branch and remove the worktree
+   */
+  public merge<ThrowOnError extends boolean = false>(options: Options<SessionWorktreeMergeData, ThrowOnError>) {
+    return (options.client ?? this._client).post<
+      SessionWorktreeMergeResponses,
+      SessionWorktreeMergeErrors,
+      ThrowOnError
+    >({
+      url: "/session/{id}/worktree/merge",
+      ...options,
+    })
+  }
+
+  /**
+   * Push the session's worktree branch and open a pull request
+   */
+  public pr<ThrowOnError extends boolean = false>(options: Options<SessionWorktreePrData, ThrowOnError>) {
+    return (options.client ?? this._client).post<SessionWorktreePrResponses, SessionWorktreePrErrors, ThrowOnError>({
+      url: "/session/{id}/worktree/pr",
+      ...options,
+    })
+  }
+
+  /**
+   * Discard the session's worktree and branch
+   */
+  public discard<ThrowOnError extends boolean = false>(options: Options<SessionWorktreeDiscardData, ThrowOnError>) {
+    return (options.client ?? this._client).delete<
+      SessionWorktreeDiscardResponses,
+      SessionWorktreeDiscardErrors,
+      ThrowOnError
+    >({
+      url: "/session/{id}/worktree",
+      ...options,
+    })
+  }
+}
+
 class Session extends _HeyApiClient {
   /**
    * List all sessions
@@ -306,6 +637,26 @@ class Session extends _HeyApiClient {
     })
   }
 
+  /**
+   * Search session titles, messages and tool calls
+   */
+  public search<ThrowOnError extends boolean = false>(options: Options<SessionSearchData, ThrowOnError>) {
+    return (options.client ?? this._client).get<SessionSearchResponses, SessionSearchErrors, ThrowOnError>({
+      url: "/session/search",
+      ...options,
+    })
+  }
+
+  /**
+   * Get session status
+   */
+  public status<ThrowOnError extends boolean = false>(options?: Options<SessionStatusData, ThrowOnError>) {
+    return (options?.client ?? this._client).get<SessionStatusResponses, SessionStatusErrors, ThrowOnError>({
+      url: "/session/status",
+      ...options,
+    })
+  }
+
   /**
    * Delete a session and all its data
    */
@@ -360,6 +711,66 @@ class Session extends _HeyApiClient {
     })
   }
 
+  /**
+   * Get the recorded provider requests and responses of a session, one per step
+   */
+  public recordings<ThrowOnError extends boolean = false>(options: Options<SessionRecordingsData, ThrowOnError>) {
+    return (options.client ?? this._client).get<SessionRecordingsResponses, SessionRecordingsErrors, ThrowOnError>({
+      url: "/session/{id}/recording",
+      ...options,
+    })
+  }
+
+  /**
+   * Get the persistent shells of a session with their working directory and status
+   */
+  public shells<ThrowOnError extends boolean = false>(options: Options<SessionShellsData, ThrowOnError>) {
+    return (options.client ?? this._client).get<SessionShellsResponses, SessionShellsErrors, ThrowOnError>({
+      url: "/session/{id}/shell",
+      ...options,
+    })
+  }
+
+  /**
+   * Run a shell command
+   */
+  public shell<ThrowOnError extends boolean = false>(options: Options<SessionShellData, ThrowOnError>) {
+    return (options.client ?? this._client).post<SessionShellResponses, SessionShellErrors, ThrowOnError>({
+      url: "/session/{id}/shell",
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options.headers,
+      },
+    })
+  }
+
+  /**
+   * Get the background processes started in a session
+   */
+  public backgrounds<ThrowOnError extends boolean = false>(options: Options<SessionBackgroundsData, ThrowOnError>) {
+    return (options.client ?? this._client).get<SessionBackgroundsResponses, SessionBackgroundsErrors, ThrowOnError>({
+      url: "/session/{id}/background",
+      ...options,
+    })
+  }
+
+  /**
+   * Stop a background process and the processes it spawned
+   */
+  public backgroundStop<ThrowOnError extends boolean = false>(
+    options: Options<SessionBackgroundStopData, ThrowOnError>,
+  ) {
+    return (options.client ?? this._client).post<
+      SessionBackgroundStopResponses,
+      SessionBackgroundStopErrors,
+      ThrowOnError
+    >({
+      url: "/session/{id}/background/{processID}/stop",
+      ...options,
+    })
+  }
+
   /**
    * Analyze the app and create an AGENTS.md file
    */
@@ -428,6 +839,16 @@ class Session extends _HeyApiClient {
     })
   }
 
+  /**
+   * Get a token breakdown of the context the next request would send
+   */
+  public context<ThrowOnError extends boolean = false>(options: Options<SessionContextData, ThrowOnError>) {
+    return (options.client ?? this._client).get<SessionContextResponses, unknown, ThrowOnError>({
+      url: "/session/{id}/context",
+      ...options,
+    })
+  }
+
   /**
    * Summarize the session
    */
@@ -442,6 +863,44 @@ class Session extends _HeyApiClient {
     })
   }
 
+  /**
+   * Raise the limit or stop a session paused by its budget
+   */
+  public budget<ThrowOnError extends boolean = false>(options: Options<SessionBudgetData, ThrowOnError>) {
+    return (options.client ?? this._client).post<SessionBudgetResponses, SessionBudgetErrors, ThrowOnError>({
+      url: "/session/{id}/budget",
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options.headers,
+      },
+    })
+  }
+
+  /**
+   * Unpin a message or part
+   */
+  public unpin<ThrowOnError extends boolean = false>(options: Options<SessionUnpinData, ThrowOnError>) {
+    return (options.client ?? this._client).delete<SessionUnpinResponses, SessionUnpinErrors, ThrowOnError>({
+      url: "/session/{id}/pin",
+      ...options,
+    })
+  }
+
+  /**
+   * Pin a message or part so it is kept verbatim when the session is compacted
+   */
+  public pin<ThrowOnError extends boolean = false>(options: Options<SessionPinData, ThrowOnError>) {
+    return (options.client ?? this._client).post<SessionPinResponses, SessionPinErrors, ThrowOnError>({
+      url: "/session/{id}/pin",
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options.headers,
+      },
+    })
+  }
+
   /**
    * List messages for a session
    */
@@ -490,20 +949,6 @@ class Session extends _HeyApiClient {
     })
   }
 
-  /**
-   * Run a shell command
-   */
-  public shell<ThrowOnError extends boolean = false>(options: Options<SessionShellData, ThrowOnError>) {
-    return (options.client ?? this._client).post<SessionShellResponses, SessionShellErrors, ThrowOnError>({
-      url: "/session/{id}/shell",
-      ...options,
-      headers: {
-        "Content-Type": "application/json",
-        ...options.headers,
-      },
-    })
-  }
-
   /**
    * Revert a message
    */
@@ -527,6 +972,7 @@ class Session extends _HeyApiClient {
       ...options,
     })
   }
+  worktree = new Worktree({ client: this._client })
 }
 
 class Command extends _HeyApiClient {
@@ -655,6 +1101,66 @@ class Mcp extends _HeyApiClient {
       },
     })
   }
+
+  /**
+   * Stop an MCP server and remove it from the config
+   */
+  public remove<ThrowOnError extends boolean = false>(options: Options<McpRemoveData, ThrowOnError>) {
+    return (options.client ?? this._client).delete<McpRemoveResponses, McpRemoveErrors, ThrowOnError>({
+      url: "/mcp/{name}",
+      ...options,
+    })
+  }
+
+  /**
+   * Reconnect to an MCP server
+   */
+  public restart<ThrowOnError extends boolean = false>(options: Options<McpRestartData, ThrowOnError>) {
+    return (options.client ?? this._client).post<McpRestartResponses, McpRestartErrors, ThrowOnError>({
+      url: "/mcp/{name}/restart",
+      ...options,
+    })
+  }
+
+  /**
+   * Enable an MCP server and save it to the config
+   */
+  public enable<ThrowOnError extends boolean = false>(options: Options<McpEnableData, ThrowOnError>) {
+    return (options.client ?? this._client).post<McpEnableResponses, McpEnableErrors, ThrowOnError>({
+      url: "/mcp/{name}/enable",
+      ...options,
+    })
+  }
+
+  /**
+   * Disable an MCP server and save it to the config
+   */
+  public disable<ThrowOnError extends boolean = false>(options: Options<McpDisableData, ThrowOnError>) {
+    return (options.client ?? this._client).post<McpDisableResponses, McpDisableErrors, ThrowOnError>({
+      url: "/mcp/{name}/disable",
+      ...options,
+    })
+  }
+
+  /**
+   * Get the recent stderr output and connection events of an MCP server
+   */
+  public logs<ThrowOnError extends boolean = false>(options: Options<McpLogsData, ThrowOnError>) {
+    return (options.client ?? this._client).get<McpLogsResponses, McpLogsErrors, ThrowOnError>({
+      url: "/mcp/{name}/log",
+      ...options,
+    })
+  }
+
+  /**
+   * List the resources of the connected MCP servers
+   */
+  public resources<ThrowOnError extends boolean = false>(options?: Options<McpResourcesData, ThrowOnError>) {
+    return (options?.client ?? this._client).get<McpResourcesResponses, unknown, ThrowOnError>({
+      url: "/mcp/resource",
+      ...options,
+    })
+  }
 }
 
 class Lsp extends _HeyApiClient {
@@ -876,6 +1382,7 @@ export class OpencodeClient extends _HeyApiClient {
   }
   global = new Global({ client: this._client })
   project = new Project({ client: this._client })
+  permission = new Permission({ client: this._client })
   config = new Config({ client: this._client })
   tool = new Tool({ client: this._client })
   path = new Path({ client: this._client })
@@ -177,11 +177,29 @@ export type KeybindsConfig = {
   session_child_cycle_reverse?: string
 }
 
+export type BudgetConfig = {
+  /**
+   * Maximum cost in USD
+   */
+  cost?: number
+  /**
+   * Maximum input, output, reasoning and cache tokens
+   */
+  tokens?: number
+  /**
+   * Maximum number of model requests
+   */
+  steps?: number
+}
+
 export type AgentConfig = {
   model?: string
   temperature?: number
   top_p?: number
   prompt?: string
+  /**
+   * Tools to enable or disable by name, names may use wildcards such as "github_*" and "mcp:<server>" matches every tool of an MCP server
+   */
   tools?: {
     [key: string]: boolean
   }
@@ -196,16 +214,43 @@ export type AgentConfig = {
    */
   color?: string
   permission?: {
-    edit?: "ask" | "allow" | "deny"
+    /**
+     * A permission for every file, or a map of globs to permissions such as { "migrations**": "ask" }
+     */
+    edit?:
+      | ("ask" | "allow" | "deny")
+      | {
+          [key: string]: "ask" | "allow" | "deny"
+        }
+    /**
+     * A permission for every file, or a map of globs to permissions such as { "migrations**": "ask" }
+     */
+    read?:
+      | ("ask" | "allow" | "deny")
+      | {
+          [key: string]: "ask" | "allow" | "deny"
+        }
     bash?:
       | ("ask" | "allow" | "deny")
       | {
           [key: string]: "ask" | "allow" | "deny"
         }
-    webfetch?: "ask" | "allow" | "deny"
+    /**
+     * A permission for every URL, or a map of URL patterns to permissions such as { "https://docs.*": "allow" }
+     */
+    webfetch?:
+      | ("ask" | "allow" | "deny")
+      | {
+          [key: string]: "ask" | "allow" | "deny"
+        }
     doom_loop?: "ask" | "allow" | "deny"
     external_directory?: "ask" | "allow" | "deny"
   }
+  budget?: BudgetConfig
+  /**
+   * Models in the format of provider/model to try in order when the agent's model fails
+   */
+  fallback?: Array<string>
   [key: string]:
     | unknown
     | string
@@ -216,16 +261,40 @@ export type AgentConfig = {
     | boolean
     | ("subagent" | "primary" | "all")
     | {
-        edit?: "ask" | "allow" | "deny"
+        /**
+         * A permission for every file, or a map of globs to permissions such as { "migrations**": "ask" }
+         */
+        edit?:
+          | ("ask" | "allow" | "deny")
+          | {
+              [key: string]: "ask" | "allow" | "deny"
+            }
+        /**
+         * A permission for every file, or a map of globs to permissions such as { "migrations**": "ask" }
+         */
+        read?:
+          | ("ask" | "allow" | "deny")
+          | {
+              [key: string]: "ask" | "allow" | "deny"
+            }
         bash?:
           | ("ask" | "allow" | "deny")
           | {
               [key: string]: "ask" | "allow" | "deny"
             }
-        webfetch?: "ask" | "allow" | "deny"
+        /**
+         * A permission for every URL, or a map of URL patterns to permissions such as { "https://docs.*": "allow" }
+         */
+        webfetch?:
+          | ("ask" | "allow" | "deny")
+          | {
+              [key: string]: "ask" | "allow" | "deny"
+            }
         doom_loop?: "ask" | "allow" | "deny"
         external_directory?: "ask" | "allow" | "deny"
       }
+    | BudgetConfig
+    | Array<string>
     | undefined
 }
 
@@ -248,6 +317,10 @@ export type McpLocalConfig = {
    * Enable or disable the MCP server on startup
    */
   enabled?: boolean
+  /**
+   * Agents that can use the tools of the MCP server, every agent when not set
+   */
+  agents?: Array<string>
   /**
    * Timeout in ms for fetching tools from the MCP server. Defaults to 5000 (5 seconds) if not specified.
    */
@@ -267,6 +340,10 @@ export type McpRemoteConfig = {
    * Enable or disable the MCP server on startup
    */
   enabled?: boolean
+  /**
+   * Agents that can use the tools of the MCP server, every agent when not set
+   */
+  agents?: Array<string>
   /**
    * Headers to send with the request
    */
@@ -284,6 +361,45 @@ export type McpRemoteConfig = {
  */
 export type LayoutConfig = "auto" | "stretch"
 
+/**
+ * Context compaction settings
+ */
+export type CompactionConfig = {
+  /**
+   * How history is compacted: summary replaces everything with one summary, rolling summarizes all but the most recent turns, prune clears old tool outputs before falling back to a summary, hierarchical summarizes from per-turn summaries
+   */
+  strategy?: "summary" | "rolling" | "prune" | "hierarchical"
+  /**
+   * Compact once the context reaches this percentage of the model's context window
+   */
+  threshold?: number
+  /**
+   * Number of recent turns kept verbatim by the rolling and hierarchical strategies (default 2)
+   */
+  keep?: number
+  prune?: {
+    /**
+     * Percentage of the context window of recent tool output that is never pruned
+     */
+    protect?: number
+    /**
+     * Only prune when at least this percentage of the context window would be freed
+     */
+    minimum?: number
+  }
+}
+
+export type HookConfig = {
+  command: Array<string>
+  environment?: {
+    [key: string]: string
+  }
+  /**
+   * Milliseconds before the hook is stopped (default 60000)
+   */
+  timeout?: number
+}
+
 export type Config = {
   /**
    * JSON schema reference for configuration validation
@@ -349,6 +465,10 @@ export type Config = {
    * Model to use in the format of provider/model, eg anthropic/claude-2
    */
   model?: string
+  /**
+   * Models in the format of provider/model to try in order when a provider keeps failing or rate limiting
+   */
+  fallback?: Array<string>
   /**
    * Small model to use for tasks like title generation in the format of provider/model
    */
@@ -484,35 +604,84 @@ export type Config = {
   instructions?: Array<string>
   layout?: LayoutConfig
   permission?: {
-    edit?: "ask" | "allow" | "deny"
+    /**
+     * A permission for every file, or a map of globs to permissions such as { "migrations**": "ask" }
+     */
+    edit?:
+      | ("ask" | "allow" | "deny")
+      | {
+          [key: string]: "ask" | "allow" | "deny"
+        }
+    /**
+     * A permission for every file, or a map of globs to permissions such as { "migrations**": "ask" }
+     */
+    read?:
+      | ("ask" | "allow" | "deny")
+      | {
+          [key: string]: "ask" | "allow" | "deny"
+        }
     bash?:
       | ("ask" | "allow" | "deny")
       | {
           [key: string]: "ask" | "allow" | "deny"
         }
-    webfetch?: "ask" | "allow" | "deny"
+    /**
+     * A permission for every URL, or a map of URL patterns to permissions such as { "https://docs.*": "allow" }
+     */
+    webfetch?:
+      | ("ask" | "allow" | "deny")
+      | {
+          [key: string]: "ask" | "allow" | "deny"
+        }
     doom_loop?: "ask" | "allow" | "deny"
     external_directory?: "ask" | "allow" | "deny"
   }
+  /**
+   * Tools to enable or disable by name, names may use wildcards such as "github_*" and "mcp:<server>" matches every tool of an MCP server
+   */
   tools?: {
     [key: string]: boolean
   }
+  compaction?: CompactionConfig
+  /**
+   * Pause the agent loop once a limit is reached
+   */
+  budget?: {
+    session?: BudgetConfig
+    day?: BudgetConfig
+  }
   experimental?: {
     hook?: {
+      /**
+       * Hooks run before a tool, keyed by tool name pattern such as "bash" or "*"
+       */
+      pre_tool?: {
+        [key: string]: Array<HookConfig>
+      }
+      /**
+       * Hooks run after a tool, keyed by tool name pattern
+       */
+      post_tool?: {
+        [key: string]: Array<HookConfig>
+      }
+      /**
+       * Hooks run after a tool edits a file, keyed by glob such as "***.ts" or "*"
+       */
       file_edited?: {
-        [key: string]: Array<{
-          command: Array<string>
-          environment?: {
-            [key: string]: string
-          }
-        }>
+        [key: string]: Array<HookConfig>
       }
-      session_completed?: Array<{
-        command: Array<string>
-        environment?: {
-          [key: string]: string
-        }
-      }>
+      /**
+       * Hooks run when a session is created
+       */
+      session_start?: Array<HookConfig>
+      /**
+       * Hooks run whenever a session stops working
+       */
+      session_idle?: Array<HookConfig>
+      /**
+       * Hooks run when the agent finishes answering a prompt
+       */
+      session_completed?: Array<HookConfig>
     }
     /**
      * Number of retries for chat completions on failure
@@ -523,6 +692,40 @@ export type Config = {
      * Enable the batch tool
      */
     batch_tool?: boolean
+    /**
+     * Enable the LSP tools (diagnostics, hover, definition, references and rename)
+     */
+    lsp_tool?: boolean
+    /**
+     * Enable the multiedit tool
+     */
+    multiedit_tool?: boolean
+    /**
+     * Enable the patch tool
+     */
+    patch_tool?: boolean
+    /**
+     * Run bash tool commands in a long-lived shell per session that keeps the working directory and environment between calls. The shell runs in a pseudo-terminal where `script` is available, over pipes elsewhere
+     */
+    persistent_shell?: boolean
+    /**
+     * Record the exact request and stream events of every model call in the session database
+     */
+    record?: boolean
+    /**
+     * Seconds to reuse cached webfetch responses for (default 3600), 0 disables the cache
+     */
+    webfetch_cache_ttl?: number
+    memory?: {
+      /**
+       * Index finished messages and enable the memory_search tool
+       */
+      enabled?: boolean
+      /**
+       * "local" for offline hashing embeddings, or an embedding model as provider/model
+       */
+      embedder?: string
+    }
   }
 }
 
@@ -608,6 +811,13 @@ export type MessageAbortedError = {
   }
 }
 
+export type MessageBudgetExceededError = {
+  name: "MessageBudgetExceededError"
+  data: {
+    message: string
+  }
+}
+
 export type ApiError = {
   name: "APIError"
   data: {
@@ -629,7 +839,13 @@ export type AssistantMessage = {
     created: number
     completed?: number
   }
-  error?: ProviderAuthError | UnknownError | MessageOutputLengthError | MessageAbortedError | ApiError
+  error?:
+    | ProviderAuthError
+    | UnknownError
+    | MessageOutputLengthError
+    | MessageAbortedError
+    | MessageBudgetExceededError
+    | ApiError
   parentID: string
   modelID: string
   providerID: string
@@ -732,7 +948,14 @@ export type SymbolSource = {
   kind: number
 }
 
-export type FilePartSource = FileSource | SymbolSource
+export type ResourceSource = {
+  text: FilePartSourceText
+  type: "resource"
+  clientName: string
+  uri: string
+}
+
+export type FilePartSource = FileSource | SymbolSource | ResourceSource
 
 export type FilePart = {
   id: string
@@ -884,11 +1107,34 @@ export type RetryPart = {
   }
 }
 
+export type FallbackPart = {
+  id: string
+  sessionID: string
+  messageID: string
+  type: "fallback"
+  from: {
+    providerID: string
+    modelID: string
+  }
+  to: {
+    providerID: string
+    modelID: string
+  }
+  error: ApiError
+  time: {
+    created: number
+  }
+}
+
 export type CompactionPart = {
   id: string
   sessionID: string
   messageID: string
   type: "compaction"
+  /**
+   * Earlier messages kept verbatim after the summary
+   */
+  keep?: Array<string>
 }
 
 export type Part =
@@ -911,6 +1157,7 @@ export type Part =
   | PatchPart
   | AgentPart
   | RetryPart
+  | FallbackPart
   | CompactionPart
 
 export type EventMessagePartUpdated = {
@@ -930,6 +1177,13 @@ export type EventMessagePartRemoved = {
   }
 }
 
+export type EventPermissionRuleUpdated = {
+  type: "permission.rule.updated"
+  properties: {
+    [key: string]: unknown
+  }
+}
+
 export type Permission = {
   id: string
   type: string
@@ -960,6 +1214,13 @@ export type EventPermissionReplied = {
   }
 }
 
+export type EventAgentUpdated = {
+  type: "agent.updated"
+  properties: {
+    [key: string]: unknown
+  }
+}
+
 export type SessionStatus =
   | {
       type: "idle"
@@ -973,6 +1234,13 @@ export type SessionStatus =
   | {
       type: "busy"
     }
+  | {
+      type: "budget_exceeded"
+      scope: "session" | "agent" | "day"
+      limit: "cost" | "tokens" | "steps"
+      used: number
+      max: number
+    }
 
 export type EventSessionStatus = {
   type: "session.status"
@@ -996,6 +1264,27 @@ export type EventSessionCompacted = {
   }
 }
 
+export type BackgroundProcess = {
+  id: string
+  sessionID: string
+  command: string
+  description: string
+  pid: number
+  status: "running" | "exited" | "stopped"
+  exit?: number | null
+  time: {
+    started: number
+    ended?: number
+  }
+}
+
+export type EventSessionBackgroundUpdated = {
+  type: "session.background.updated"
+  properties: {
+    info: BackgroundProcess
+  }
+}
+
 export type EventFileEdited = {
   type: "file.edited"
   properties: {
@@ -1030,6 +1319,28 @@ export type EventTodoUpdated = {
   }
 }
 
+export type EventFileWatcherUpdated = {
+  type: "file.watcher.updated"
+  properties: {
+    file: string
+    event: "add" | "change" | "unlink"
+  }
+}
+
+export type EventMcpUpdated = {
+  type: "mcp.updated"
+  properties: {
+    [key: string]: unknown
+  }
+}
+
+export type EventToolUpdated = {
+  type: "tool.updated"
+  properties: {
+    [key: string]: unknown
+  }
+}
+
 export type EventCommandExecuted = {
   type: "command.executed"
   properties: {
@@ -1040,6 +1351,13 @@ export type EventCommandExecuted = {
   }
 }
 
+export type EventCommandUpdated = {
+  type: "command.updated"
+  properties: {
+    [key: string]: unknown
+  }
+}
+
 export type Session = {
   id: string
   projectID: string
@@ -1054,6 +1372,43 @@ export type Session = {
   share?: {
     url: string
   }
+  /**
+   * Messages and parts kept verbatim when the session is compacted
+   */
+  pinned?: Array<{
+    messageID: string
+    partID?: string
+  }>
+  /**
+   * Dedicated git worktree the session works in
+   */
+  worktree?: {
+    branch: string
+    /**
+     * Commit the branch was created from
+     */
+    base: string
+    /**
+     * Root of the git worktree checkout
+     */
+    worktree: string
+    /**
+     * Directory the session's tools run in
+     */
+    directory: string
+    /**
+     * URL of the pull request opened for the branch
+     */
+    pr?: string
+  }
+  /**
+   * Allowance granted on top of each configured budget
+   */
+  budget?: {
+    session?: BudgetConfig
+    agent?: BudgetConfig
+    day?: BudgetConfig
+  }
   title: string
   version: string
   time: {
@@ -1102,7 +1457,13 @@ export type EventSessionError = {
   type: "session.error"
   properties: {
     sessionID?: string
-    error?: ProviderAuthError | UnknownError | MessageOutputLengthError | MessageAbortedError | ApiError
+    error?:
+      | ProviderAuthError
+      | UnknownError
+      | MessageOutputLengthError
+      | MessageAbortedError
+      | MessageBudgetExceededError
+      | ApiError
   }
 }
 
@@ -1157,14 +1518,6 @@ export type EventServerConnected = {
   }
 }
 
-export type EventFileWatcherUpdated = {
-  type: "file.watcher.updated"
-  properties: {
-    file: string
-    event: "add" | "change" | "unlink"
-  }
-}
-
 export type Event =
   | EventInstallationUpdated
   | EventConfigUpdated
@@ -1174,14 +1527,21 @@ export type Event =
   | EventMessageRemoved
   | EventMessagePartUpdated
   | EventMessagePartRemoved
+  | EventPermissionRuleUpdated
   | EventPermissionUpdated
   | EventPermissionReplied
+  | EventAgentUpdated
   | EventSessionStatus
   | EventSessionIdle
   | EventSessionCompacted
+  | EventSessionBackgroundUpdated
   | EventFileEdited
   | EventTodoUpdated
+  | EventFileWatcherUpdated
+  | EventMcpUpdated
+  | EventToolUpdated
   | EventCommandExecuted
+  | EventCommandUpdated
   | EventSessionCreated
   | EventSessionUpdated
   | EventSessionDeleted
@@ -1191,7 +1551,6 @@ export type Event =
   | EventTuiCommandExecute
   | EventTuiToastShow
   | EventServerConnected
-  | EventFileWatcherUpdated
 
 export type GlobalEvent = {
   directory: string
@@ -1208,36 +1567,11 @@ export type Project = {
   }
 }
 
-export type BadRequestError = {
-  data: unknown | null
-  errors: Array<{
-    [key: string]: unknown
-  }>
-  success: false
-}
-
-export type ToolIds = Array<string>
-
-export type ToolListItem = {
-  id: string
-  description: string
-  parameters: unknown
-}
-
-export type ToolList = Array<ToolListItem>
-
-export type Path = {
-  state: string
-  config: string
-  worktree: string
-  directory: string
-}
-
-export type NotFoundError = {
-  name: "NotFoundError"
-  data: {
-    message: string
-  }
+export type NotFoundError = {
+  name: "NotFoundError"
+  data: {
+    message: string
+  }
 }
 
 export type TextPartInput = {
@@ -1282,6 +1616,173 @@ export type SubtaskPartInput = {
   agent: string
 }
 
+export type File = {
+  path: string
+  added: number
+  removed: number
+  status: "added" | "deleted" | "modified"
+}
+
+export type PermissionRule = {
+  id: string
+  scope: "session" | "project" | "global"
+  type: string
+  pattern: string
+  sessionID?: string
+  time: {
+    created: number
+  }
+}
+
+export type PermissionLogEntry = {
+  id: string
+  sessionID: string
+  messageID: string
+  callID?: string
+  agent?: string
+  type: string
+  pattern?: string | Array<string>
+  title: string
+  outcome:
+    | "allowed_by_rule"
+    | "allowed_by_plugin"
+    | "denied_by_plugin"
+    | "denied_by_config"
+    | "once"
+    | "always"
+    | "reject"
+  scope?: "session" | "project" | "global"
+  time: number
+}
+
+export type BadRequestError = {
+  data: unknown | null
+  errors: Array<{
+    [key: string]: unknown
+  }>
+  success: false
+}
+
+export type ToolIds = Array<string>
+
+export type ToolListItem = {
+  id: string
+  description: string
+  parameters: unknown
+}
+
+export type ToolList = Array<ToolListItem>
+
+export type Path = {
+  state: string
+  config: string
+  worktree: string
+  directory: string
+}
+
+export type SessionSearchResult = {
+  sessionID: string
+  messageID?: string
+  partID?: string
+  kind: "title" | "text" | "tool"
+  title: string
+  snippet: string
+}
+
+export type Recording = {
+  /**
+   * ID of the assistant message the step produced
+   */
+  id: string
+  /**
+   * Attempt of the step, counting retries and fallbacks from 0
+   */
+  attempt: number
+  sessionID: string
+  providerID: string
+  modelID: string
+  /**
+   * Call options passed to the provider
+   */
+  request: {
+    [key: string]: unknown
+  }
+  /**
+   * Raw stream events returned by the provider
+   */
+  events: Array<{
+    [key: string]: unknown
+  }>
+  error?: string
+  time: {
+    started: number
+    completed?: number
+  }
+}
+
+export type Shell = {
+  sessionID: string
+  name: string
+  /**
+   * Path of the shell executable
+   */
+  shell: string
+  pid: number
+  /**
+   * Working directory after the last command
+   */
+  cwd: string
+  status: "idle" | "busy"
+  /**
+   * Exit code of the last command
+   */
+  exit?: number
+  time: {
+    created: number
+    used: number
+  }
+}
+
+export type SessionContext = {
+  providerID: string
+  modelID: string
+  /**
+   * BPE encoding used, or "estimate" when none is bundled for the model
+   */
+  tokenizer: string
+  /**
+   * Provider and agent prompts plus environment details
+   */
+  system: number
+  /**
+   * AGENTS.md and configured instruction files
+   */
+  instructions: number
+  /**
+   * Tool names, descriptions and parameter schemas
+   */
+  tools: number
+  /**
+   * Message text, reasoning and tool inputs since the last compaction, plus pinned content
+   */
+  history: number
+  /**
+   * Tool results still kept in the history
+   */
+  toolOutputs: number
+  total: number
+  /**
+   * Context window of the model, 0 when unknown
+   */
+  limit: number
+}
+
+export type CommandArgument = {
+  name: string
+  description?: string
+  required?: boolean
+}
+
 export type Command = {
   name: string
   description?: string
@@ -1289,6 +1790,8 @@ export type Command = {
   model?: string
   template: string
   subtask?: boolean
+  source?: "command" | "mcp"
+  arguments?: Array<CommandArgument>
 }
 
 export type Model = {
@@ -1382,13 +1885,6 @@ export type FileContent = {
   mimeType?: string
 }
 
-export type File = {
-  path: string
-  added: number
-  removed: number
-  status: "added" | "deleted" | "modified"
-}
-
 export type Agent = {
   name: string
   description?: string
@@ -1398,11 +1894,18 @@ export type Agent = {
   temperature?: number
   color?: string
   permission: {
-    edit: "ask" | "allow" | "deny"
+    edit: {
+      [key: string]: "ask" | "allow" | "deny"
+    }
+    read: {
+      [key: string]: "ask" | "allow" | "deny"
+    }
     bash: {
       [key: string]: "ask" | "allow" | "deny"
     }
-    webfetch?: "ask" | "allow" | "deny"
+    webfetch: {
+      [key: string]: "ask" | "allow" | "deny"
+    }
     doom_loop?: "ask" | "allow" | "deny"
     external_directory?: "ask" | "allow" | "deny"
   }
@@ -1410,6 +1913,10 @@ export type Agent = {
     modelID: string
     providerID: string
   }
+  fallback?: Array<{
+    modelID: string
+    providerID: string
+  }>
   prompt?: string
   tools: {
     [key: string]: boolean
@@ -1417,6 +1924,7 @@ export type Agent = {
   options: {
     [key: string]: unknown
   }
+  budget?: BudgetConfig
 }
 
 export type McpStatusConnected = {
@@ -1434,6 +1942,14 @@ export type McpStatusFailed = {
 
 export type McpStatus = McpStatusConnected | McpStatusDisabled | McpStatusFailed
 
+export type McpResource = {
+  client: string
+  uri: string
+  name: string
+  description?: string
+  mimeType?: string
+}
+
 export type LspStatus = {
   id: string
   name: string
@@ -1520,185 +2036,1039 @@ export type ProjectCurrentResponses = {
 
 export type ProjectCurrentResponse = ProjectCurrentResponses[keyof ProjectCurrentResponses]
 
-export type ConfigGetData = {
-  body?: never
+export type ProjectInitData = {
+  body?: {
+    directory: string
+  }
   path?: never
   query?: {
     directory?: string
   }
-  url: "/config"
+  url: "/project/init"
 }
 
-export type ConfigGetResponses = {
+export type ProjectInitResponses = {
   /**
-   * Get config info
+   * Project
    */
-  200: Config
+  200: Project
 }
 
-export type ConfigGetResponse = ConfigGetResponses[keyof ConfigGetResponses]
+export type ProjectInitResponse = ProjectInitResponses[keyof ProjectInitResponses]
 
-export type ConfigUpdateData = {
-  body?: Config
-  path?: never
+export type ProjectGetData = {
+  body?: never
+  path: {
+    projectID: string
+  }
   query?: {
     directory?: string
   }
-  url: "/config"
+  url: "/project/{projectID}"
 }
 
-export type ConfigUpdateErrors = {
+export type ProjectGetErrors = {
   /**
-   * Bad request
+   * Not found
    */
-  400: BadRequestError
+  404: NotFoundError
 }
 
-export type ConfigUpdateError = ConfigUpdateErrors[keyof ConfigUpdateErrors]
+export type ProjectGetError = ProjectGetErrors[keyof ProjectGetErrors]
 
-export type ConfigUpdateResponses = {
+export type ProjectGetResponses = {
   /**
-   * Successfully updated config
+   * Project
    */
-  200: Config
+  200: Project
 }
 
-export type ConfigUpdateResponse = ConfigUpdateResponses[keyof ConfigUpdateResponses]
+export type ProjectGetResponse = ProjectGetResponses[keyof ProjectGetResponses]
 
-export type ToolIdsData = {
+export type ProjectListSessionsData = {
   body?: never
-  path?: never
+  path: {
+    projectID: string
+  }
   query?: {
     directory?: string
   }
-  url: "/experimental/tool/ids"
+  url: "/project/{projectID}/session"
 }
 
-export type ToolIdsErrors = {
+export type ProjectListSessionsErrors = {
   /**
-   * Bad request
+   * Not found
    */
-  400: BadRequestError
+  404: NotFoundError
 }
 
-export type ToolIdsError = ToolIdsErrors[keyof ToolIdsErrors]
+export type ProjectListSessionsError = ProjectListSessionsErrors[keyof ProjectListSessionsErrors]
 
-export type ToolIdsResponses = {
+export type ProjectListSessionsResponses = {
   /**
-   * Tool IDs
+   * List of sessions
    */
-  200: ToolIds
+  200: Array<Session>
 }
 
-export type ToolIdsResponse = ToolIdsResponses[keyof ToolIdsResponses]
+export type ProjectListSessionsResponse = ProjectListSessionsResponses[keyof ProjectListSessionsResponses]
 
-export type ToolListData = {
-  body?: never
-  path?: never
-  query: {
+export type ProjectCreateSessionData = {
+  body?: {
+    parentID?: string
+    title?: string
+    /**
+     * Work in a dedicated git worktree branch
+     */
+    worktree?: boolean
+  }
+  path: {
+    projectID: string
+  }
+  query?: {
     directory?: string
-    provider: string
-    model: string
   }
-  url: "/experimental/tool"
+  url: "/project/{projectID}/session"
 }
 
-export type ToolListErrors = {
+export type ProjectCreateSessionErrors = {
   /**
-   * Bad request
+   * Not found
    */
-  400: BadRequestError
+  404: NotFoundError
 }
 
-export type ToolListError = ToolListErrors[keyof ToolListErrors]
+export type ProjectCreateSessionError = ProjectCreateSessionErrors[keyof ProjectCreateSessionErrors]
 
-export type ToolListResponses = {
+export type ProjectCreateSessionResponses = {
   /**
-   * Tools
+   * Created session
    */
-  200: ToolList
+  200: Session
 }
 
-export type ToolListResponse = ToolListResponses[keyof ToolListResponses]
+export type ProjectCreateSessionResponse = ProjectCreateSessionResponses[keyof ProjectCreateSessionResponses]
 
-export type PathGetData = {
+export type ProjectDeleteSessionData = {
   body?: never
-  path?: never
+  path: {
+    /**
+     * Project ID
+     */
+    projectID: string
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
   query?: {
     directory?: string
   }
-  url: "/path"
+  url: "/project/{projectID}/session/{sessionID}"
 }
 
-export type PathGetResponses = {
+export type ProjectDeleteSessionErrors = {
   /**
-   * Path
+   * Not found
    */
-  200: Path
+  404: NotFoundError
 }
 
-export type PathGetResponse = PathGetResponses[keyof PathGetResponses]
+export type ProjectDeleteSessionError = ProjectDeleteSessionErrors[keyof ProjectDeleteSessionErrors]
 
-export type SessionListData = {
+export type ProjectDeleteSessionResponses = {
+  /**
+   * Successfully deleted session
+   */
+  200: boolean
+}
+
+export type ProjectDeleteSessionResponse = ProjectDeleteSessionResponses[keyof ProjectDeleteSessionResponses]
+
+export type ProjectGetSessionData = {
   body?: never
-  path?: never
+  path: {
+    /**
+     * Project ID
+     */
+    projectID: string
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
   query?: {
     directory?: string
   }
-  url: "/session"
+  url: "/project/{projectID}/session/{sessionID}"
 }
 
-export type SessionListResponses = {
+export type ProjectGetSessionErrors = {
   /**
-   * List of sessions
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type ProjectGetSessionError = ProjectGetSessionErrors[keyof ProjectGetSessionErrors]
+
+export type ProjectGetSessionResponses = {
+  /**
+   * Session
+   */
+  200: Session
+}
+
+export type ProjectGetSessionResponse = ProjectGetSessionResponses[keyof ProjectGetSessionResponses]
+
+export type ProjectUpdateSessionData = {
+  body?: {
+    title?: string
+  }
+  path: {
+    /**
+     * Project ID
+     */
+    projectID: string
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/project/{projectID}/session/{sessionID}"
+}
+
+export type ProjectUpdateSessionErrors = {
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type ProjectUpdateSessionError = ProjectUpdateSessionErrors[keyof ProjectUpdateSessionErrors]
+
+export type ProjectUpdateSessionResponses = {
+  /**
+   * Updated session
+   */
+  200: Session
+}
+
+export type ProjectUpdateSessionResponse = ProjectUpdateSessionResponses[keyof ProjectUpdateSessionResponses]
+
+export type ProjectAbortSessionData = {
+  body?: never
+  path: {
+    /**
+     * Project ID
+     */
+    projectID: string
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/project/{projectID}/session/{sessionID}/abort"
+}
+
+export type ProjectAbortSessionErrors = {
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type ProjectAbortSessionError = ProjectAbortSessionErrors[keyof ProjectAbortSessionErrors]
+
+export type ProjectAbortSessionResponses = {
+  /**
+   * Aborted session
+   */
+  200: boolean
+}
+
+export type ProjectAbortSessionResponse = ProjectAbortSessionResponses[keyof ProjectAbortSessionResponses]
+
+export type ProjectListMessagesData = {
+  body?: never
+  path: {
+    /**
+     * Project ID
+     */
+    projectID: string
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+    limit?: number
+  }
+  url: "/project/{projectID}/session/{sessionID}/message"
+}
+
+export type ProjectListMessagesErrors = {
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type ProjectListMessagesError = ProjectListMessagesErrors[keyof ProjectListMessagesErrors]
+
+export type ProjectListMessagesResponses = {
+  /**
+   * List of messages
+   */
+  200: Array<{
+    info: Message
+    parts: Array<Part>
+  }>
+}
+
+export type ProjectListMessagesResponse = ProjectListMessagesResponses[keyof ProjectListMessagesResponses]
+
+export type ProjectPromptData = {
+  body?: {
+    messageID?: string
+    model?: {
+      providerID: string
+      modelID: string
+    }
+    agent?: string
+    noReply?: boolean
+    system?: string
+    tools?: {
+      [key: string]: boolean
+    }
+    parts: Array<TextPartInput | FilePartInput | AgentPartInput | SubtaskPartInput>
+  }
+  path: {
+    /**
+     * Project ID
+     */
+    projectID: string
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/project/{projectID}/session/{sessionID}/message"
+}
+
+export type ProjectPromptErrors = {
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type ProjectPromptError = ProjectPromptErrors[keyof ProjectPromptErrors]
+
+export type ProjectPromptResponses = {
+  /**
+   * Created message
+   */
+  200: {
+    info: AssistantMessage
+    parts: Array<Part>
+  }
+}
+
+export type ProjectPromptResponse = ProjectPromptResponses[keyof ProjectPromptResponses]
+
+export type ProjectRespondPermissionData = {
+  body?: {
+    response: "once" | "always" | "reject"
+    scope?: "session" | "project" | "global"
+  }
+  path: {
+    /**
+     * Project ID
+     */
+    projectID: string
+    /**
+     * Session ID
+     */
+    sessionID: string
+    permissionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/project/{projectID}/session/{sessionID}/permission/{permissionID}"
+}
+
+export type ProjectRespondPermissionErrors = {
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type ProjectRespondPermissionError = ProjectRespondPermissionErrors[keyof ProjectRespondPermissionErrors]
+
+export type ProjectRespondPermissionResponses = {
+  /**
+   * Permission processed successfully
+   */
+  200: boolean
+}
+
+export type ProjectRespondPermissionResponse =
+  ProjectRespondPermissionResponses[keyof ProjectRespondPermissionResponses]
+
+export type ProjectFileStatusData = {
+  body?: never
+  path: {
+    projectID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/project/{projectID}/file/status"
+}
+
+export type ProjectFileStatusErrors = {
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type ProjectFileStatusError = ProjectFileStatusErrors[keyof ProjectFileStatusErrors]
+
+export type ProjectFileStatusResponses = {
+  /**
+   * File status
+   */
+  200: Array<File>
+}
+
+export type ProjectFileStatusResponse = ProjectFileStatusResponses[keyof ProjectFileStatusResponses]
+
+export type PermissionRuleListData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+    sessionID?: string
+  }
+  url: "/permission/rule"
+}
+
+export type PermissionRuleListResponses = {
+  /**
+   * List of permission rules
+   */
+  200: Array<PermissionRule>
+}
+
+export type PermissionRuleListResponse = PermissionRuleListResponses[keyof PermissionRuleListResponses]
+
+export type PermissionRuleDeleteData = {
+  body?: never
+  path: {
+    ruleID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/permission/rule/{ruleID}"
+}
+
+export type PermissionRuleDeleteResponses = {
+  /**
+   * Whether the rule existed and was removed
+   */
+  200: boolean
+}
+
+export type PermissionRuleDeleteResponse = PermissionRuleDeleteResponses[keyof PermissionRuleDeleteResponses]
+
+export type PermissionLogData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+    sessionID?: string
+    /**
+     * Only return decisions with these outcomes, repeat the parameter for several
+     */
+    outcome?:
+      | (
+          | "allowed_by_rule"
+          | "allowed_by_plugin"
+          | "denied_by_plugin"
+          | "denied_by_config"
+          | "once"
+          | "always"
+          | "reject"
+        )
+      | Array<
+          | "allowed_by_rule"
+          | "allowed_by_plugin"
+          | "denied_by_plugin"
+          | "denied_by_config"
+          | "once"
+          | "always"
+          | "reject"
+        >
+    since?: number
+    limit?: number
+  }
+  url: "/permission/log"
+}
+
+export type PermissionLogResponses = {
+  /**
+   * Permission audit log entries
+   */
+  200: Array<PermissionLogEntry>
+}
+
+export type PermissionLogResponse = PermissionLogResponses[keyof PermissionLogResponses]
+
+export type ConfigGetData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/config"
+}
+
+export type ConfigGetResponses = {
+  /**
+   * Get config info
+   */
+  200: Config
+}
+
+export type ConfigGetResponse = ConfigGetResponses[keyof ConfigGetResponses]
+
+export type ConfigUpdateData = {
+  body?: Config
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/config"
+}
+
+export type ConfigUpdateErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type ConfigUpdateError = ConfigUpdateErrors[keyof ConfigUpdateErrors]
+
+export type ConfigUpdateResponses = {
+  /**
+   * Successfully updated config
+   */
+  200: Config
+}
+
+export type ConfigUpdateResponse = ConfigUpdateResponses[keyof ConfigUpdateResponses]
+
+export type ToolIdsData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/experimental/tool/ids"
+}
+
+export type ToolIdsErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type ToolIdsError = ToolIdsErrors[keyof ToolIdsErrors]
+
+export type ToolIdsResponses = {
+  /**
+   * Tool IDs
+   */
+  200: ToolIds
+}
+
+export type ToolIdsResponse = ToolIdsResponses[keyof ToolIdsResponses]
+
+export type ToolListData = {
+  body?: never
+  path?: never
+  query: {
+    directory?: string
+    provider: string
+    model: string
+  }
+  url: "/experimental/tool"
+}
+
+export type ToolListErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type ToolListError = ToolListErrors[keyof ToolListErrors]
+
+export type ToolListResponses = {
+  /**
+   * Tools
+   */
+  200: ToolList
+}
+
+export type ToolListResponse = ToolListResponses[keyof ToolListResponses]
+
+export type PathGetData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/path"
+}
+
+export type PathGetResponses = {
+  /**
+   * Path
+   */
+  200: Path
+}
+
+export type PathGetResponse = PathGetResponses[keyof PathGetResponses]
+
+export type SessionListData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/session"
+}
+
+export type SessionListResponses = {
+  /**
+   * List of sessions
    */
   200: Array<Session>
 }
 
-export type SessionListResponse = SessionListResponses[keyof SessionListResponses]
+export type SessionListResponse = SessionListResponses[keyof SessionListResponses]
+
+export type SessionCreateData = {
+  body?: {
+    parentID?: string
+    title?: string
+    /**
+     * Work in a dedicated git worktree branch
+     */
+    worktree?: boolean
+  }
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/session"
+}
+
+export type SessionCreateErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type SessionCreateError = SessionCreateErrors[keyof SessionCreateErrors]
+
+export type SessionCreateResponses = {
+  /**
+   * Successfully created session
+   */
+  200: Session
+}
+
+export type SessionCreateResponse = SessionCreateResponses[keyof SessionCreateResponses]
+
+export type SessionSearchData = {
+  body?: never
+  path?: never
+  query: {
+    directory?: string
+    query: string
+    limit?: number
+  }
+  url: "/session/search"
+}
+
+export type SessionSearchErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type SessionSearchError = SessionSearchErrors[keyof SessionSearchErrors]
+
+export type SessionSearchResponses = {
+  /**
+   * Search results ordered by relevance
+   */
+  200: Array<SessionSearchResult>
+}
+
+export type SessionSearchResponse = SessionSearchResponses[keyof SessionSearchResponses]
 
-export type SessionCreateData = {
+export type SessionStatusData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/session/status"
+}
+
+export type SessionStatusErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type SessionStatusError = SessionStatusErrors[keyof SessionStatusErrors]
+
+export type SessionStatusResponses = {
+  /**
+   * Get session status
+   */
+  200: {
+    [key: string]: SessionStatus
+  }
+}
+
+export type SessionStatusResponse = SessionStatusResponses[keyof SessionStatusResponses]
+
+export type SessionDeleteData = {
+  body?: never
+  path: {
+    id: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{id}"
+}
+
+export type SessionDeleteErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionDeleteError = SessionDeleteErrors[keyof SessionDeleteErrors]
+
+export type SessionDeleteResponses = {
+  /**
+   * Successfully deleted session
+   */
+  200: boolean
+}
+
+export type SessionDeleteResponse = SessionDeleteResponses[keyof SessionDeleteResponses]
+
+export type SessionGetData = {
+  body?: never
+  path: {
+    id: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{id}"
+}
+
+export type SessionGetErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionGetError = SessionGetErrors[keyof SessionGetErrors]
+
+export type SessionGetResponses = {
+  /**
+   * Get session
+   */
+  200: Session
+}
+
+export type SessionGetResponse = SessionGetResponses[keyof SessionGetResponses]
+
+export type SessionUpdateData = {
   body?: {
-    parentID?: string
     title?: string
   }
-  path?: never
+  path: {
+    id: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{id}"
+}
+
+export type SessionUpdateErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionUpdateError = SessionUpdateErrors[keyof SessionUpdateErrors]
+
+export type SessionUpdateResponses = {
+  /**
+   * Successfully updated session
+   */
+  200: Session
+}
+
+export type SessionUpdateResponse = SessionUpdateResponses[keyof SessionUpdateResponses]
+
+export type SessionChildrenData = {
+  body?: never
+  path: {
+    id: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{id}/children"
+}
+
+export type SessionChildrenErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionChildrenError = SessionChildrenErrors[keyof SessionChildrenErrors]
+
+export type SessionChildrenResponses = {
+  /**
+   * List of children
+   */
+  200: Array<Session>
+}
+
+export type SessionChildrenResponse = SessionChildrenResponses[keyof SessionChildrenResponses]
+
+export type SessionTodoData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    id: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{id}/todo"
+}
+
+export type SessionTodoErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionTodoError = SessionTodoErrors[keyof SessionTodoErrors]
+
+export type SessionTodoResponses = {
+  /**
+   * Todo list
+   */
+  200: Array<Todo>
+}
+
+export type SessionTodoResponse = SessionTodoResponses[keyof SessionTodoResponses]
+
+export type SessionRecordingsData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    id: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{id}/recording"
+}
+
+export type SessionRecordingsErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionRecordingsError = SessionRecordingsErrors[keyof SessionRecordingsErrors]
+
+export type SessionRecordingsResponses = {
+  /**
+   * Recordings in step order
+   */
+  200: Array<Recording>
+}
+
+export type SessionRecordingsResponse = SessionRecordingsResponses[keyof SessionRecordingsResponses]
+
+export type SessionShellsData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    id: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{id}/shell"
+}
+
+export type SessionShellsErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionShellsError = SessionShellsErrors[keyof SessionShellsErrors]
+
+export type SessionShellsResponses = {
+  /**
+   * Running shells
+   */
+  200: Array<Shell>
+}
+
+export type SessionShellsResponse = SessionShellsResponses[keyof SessionShellsResponses]
+
+export type SessionShellData = {
+  body?: {
+    agent: string
+    model?: {
+      providerID: string
+      modelID: string
+    }
+    command: string
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    id: string
+  }
   query?: {
     directory?: string
   }
-  url: "/session"
+  url: "/session/{id}/shell"
 }
 
-export type SessionCreateErrors = {
+export type SessionShellErrors = {
   /**
    * Bad request
    */
   400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
 }
 
-export type SessionCreateError = SessionCreateErrors[keyof SessionCreateErrors]
+export type SessionShellError = SessionShellErrors[keyof SessionShellErrors]
 
-export type SessionCreateResponses = {
+export type SessionShellResponses = {
   /**
-   * Successfully created session
+   * Created message
    */
-  200: Session
+  200: AssistantMessage
 }
 
-export type SessionCreateResponse = SessionCreateResponses[keyof SessionCreateResponses]
+export type SessionShellResponse = SessionShellResponses[keyof SessionShellResponses]
 
-export type SessionDeleteData = {
+export type SessionBackgroundsData = {
   body?: never
   path: {
+    /**
+     * Session ID
+     */
     id: string
   }
   query?: {
     directory?: string
   }
-  url: "/session/{id}"
+  url: "/session/{id}/background"
 }
 
-export type SessionDeleteErrors = {
+export type SessionBackgroundsErrors = {
   /**
    * Bad request
    */
@@ -1709,29 +3079,36 @@ export type SessionDeleteErrors = {
   404: NotFoundError
 }
 
-export type SessionDeleteError = SessionDeleteErrors[keyof SessionDeleteErrors]
+export type SessionBackgroundsError = SessionBackgroundsErrors[keyof SessionBackgroundsErrors]
 
-export type SessionDeleteResponses = {
+export type SessionBackgroundsResponses = {
   /**
-   * Successfully deleted session
+   * Background processes
    */
-  200: boolean
+  200: Array<BackgroundProcess>
 }
 
-export type SessionDeleteResponse = SessionDeleteResponses[keyof SessionDeleteResponses]
+export type SessionBackgroundsResponse = SessionBackgroundsResponses[keyof SessionBackgroundsResponses]
 
-export type SessionGetData = {
+export type SessionBackgroundStopData = {
   body?: never
   path: {
+    /**
+     * Session ID
+     */
     id: string
+    /**
+     * Background process ID
+     */
+    processID: string
   }
   query?: {
     directory?: string
   }
-  url: "/session/{id}"
+  url: "/session/{id}/background/{processID}/stop"
 }
 
-export type SessionGetErrors = {
+export type SessionBackgroundStopErrors = {
   /**
    * Bad request
    */
@@ -1742,31 +3119,36 @@ export type SessionGetErrors = {
   404: NotFoundError
 }
 
-export type SessionGetError = SessionGetErrors[keyof SessionGetErrors]
+export type SessionBackgroundStopError = SessionBackgroundStopErrors[keyof SessionBackgroundStopErrors]
 
-export type SessionGetResponses = {
+export type SessionBackgroundStopResponses = {
   /**
-   * Get session
+   * Stopped process
    */
-  200: Session
+  200: BackgroundProcess
 }
 
-export type SessionGetResponse = SessionGetResponses[keyof SessionGetResponses]
+export type SessionBackgroundStopResponse = SessionBackgroundStopResponses[keyof SessionBackgroundStopResponses]
 
-export type SessionUpdateData = {
+export type SessionInitData = {
   body?: {
-    title?: string
+    modelID: string
+    providerID: string
+    messageID: string
   }
   path: {
+    /**
+     * Session ID
+     */
     id: string
   }
   query?: {
     directory?: string
   }
-  url: "/session/{id}"
+  url: "/session/{id}/init"
 }
 
-export type SessionUpdateErrors = {
+export type SessionInitErrors = {
   /**
    * Bad request
    */
@@ -1777,18 +3159,40 @@ export type SessionUpdateErrors = {
   404: NotFoundError
 }
 
-export type SessionUpdateError = SessionUpdateErrors[keyof SessionUpdateErrors]
+export type SessionInitError = SessionInitErrors[keyof SessionInitErrors]
 
-export type SessionUpdateResponses = {
+export type SessionInitResponses = {
   /**
-   * Successfully updated session
+   * 200
+   */
+  200: boolean
+}
+
+export type SessionInitResponse = SessionInitResponses[keyof SessionInitResponses]
+
+export type SessionForkData = {
+  body?: {
+    messageID?: string
+  }
+  path: {
+    id: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{id}/fork"
+}
+
+export type SessionForkResponses = {
+  /**
+   * 200
    */
   200: Session
 }
 
-export type SessionUpdateResponse = SessionUpdateResponses[keyof SessionUpdateResponses]
+export type SessionForkResponse = SessionForkResponses[keyof SessionForkResponses]
 
-export type SessionChildrenData = {
+export type SessionAbortData = {
   body?: never
   path: {
     id: string
@@ -1796,10 +3200,10 @@ export type SessionChildrenData = {
   query?: {
     directory?: string
   }
-  url: "/session/{id}/children"
+  url: "/session/{id}/abort"
 }
 
-export type SessionChildrenErrors = {
+export type SessionAbortErrors = {
   /**
    * Bad request
    */
@@ -1810,18 +3214,18 @@ export type SessionChildrenErrors = {
   404: NotFoundError
 }
 
-export type SessionChildrenError = SessionChildrenErrors[keyof SessionChildrenErrors]
+export type SessionAbortError = SessionAbortErrors[keyof SessionAbortErrors]
 
-export type SessionChildrenResponses = {
+export type SessionAbortResponses = {
   /**
-   * List of children
+   * Aborted session
    */
-  200: Array<Session>
+  200: boolean
 }
 
-export type SessionChildrenResponse = SessionChildrenResponses[keyof SessionChildrenResponses]
+export type SessionAbortResponse = SessionAbortResponses[keyof SessionAbortResponses]
 
-export type SessionTodoData = {
+export type SessionWorktreeMergeData = {
   body?: never
   path: {
     /**
@@ -1832,10 +3236,10 @@ export type SessionTodoData = {
   query?: {
     directory?: string
   }
-  url: "/session/{id}/todo"
+  url: "/session/{id}/worktree/merge"
 }
 
-export type SessionTodoErrors = {
+export type SessionWorktreeMergeErrors = {
   /**
    * Bad request
    */
@@ -1846,23 +3250,55 @@ export type SessionTodoErrors = {
   404: NotFoundError
 }
 
-export type SessionTodoError = SessionTodoErrors[keyof SessionTodoErrors]
+export type SessionWorktreeMergeError = SessionWorktreeMergeErrors[keyof SessionWorktreeMergeErrors]
 
-export type SessionTodoResponses = {
+export type SessionWorktreeMergeResponses = {
   /**
-   * Todo list
+   * Updated session
    */
-  200: Array<Todo>
+  200: Session
 }
 
-export type SessionTodoResponse = SessionTodoResponses[keyof SessionTodoResponses]
+export type SessionWorktreeMergeResponse = SessionWorktreeMergeResponses[keyof SessionWorktreeMergeResponses]
 
-export type SessionInitData = {
-  body?: {
-    modelID: string
-    providerID: string
-    messageID: string
+export type SessionWorktreePrData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    id: string
+  }
+  query?: {
+    directory?: string
   }
+  url: "/session/{id}/worktree/pr"
+}
+
+export type SessionWorktreePrErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionWorktreePrError = SessionWorktreePrErrors[keyof SessionWorktreePrErrors]
+
+export type SessionWorktreePrResponses = {
+  /**
+   * Updated session
+   */
+  200: Session
+}
+
+export type SessionWorktreePrResponse = SessionWorktreePrResponses[keyof SessionWorktreePrResponses]
+
+export type SessionWorktreeDiscardData = {
+  body?: never
   path: {
     /**
      * Session ID
@@ -1872,10 +3308,10 @@ export type SessionInitData = {
   query?: {
     directory?: string
   }
-  url: "/session/{id}/init"
+  url: "/session/{id}/worktree"
 }
 
-export type SessionInitErrors = {
+export type SessionWorktreeDiscardErrors = {
   /**
    * Bad request
    */
@@ -1886,51 +3322,99 @@ export type SessionInitErrors = {
   404: NotFoundError
 }
 
-export type SessionInitError = SessionInitErrors[keyof SessionInitErrors]
+export type SessionWorktreeDiscardError = SessionWorktreeDiscardErrors[keyof SessionWorktreeDiscardErrors]
 
-export type SessionInitResponses = {
+export type SessionWorktreeDiscardResponses = {
   /**
-   * 200
+   * Updated session
    */
-  200: boolean
+  200: Session
 }
 
-export type SessionInitResponse = SessionInitResponses[keyof SessionInitResponses]
+export type SessionWorktreeDiscardResponse = SessionWorktreeDiscardResponses[keyof SessionWorktreeDiscardResponses]
 
-export type SessionForkData = {
-  body?: {
-    messageID?: string
+export type SessionUnshareData = {
+  body?: never
+  path: {
+    id: string
+  }
+  query?: {
+    directory?: string
   }
+  url: "/session/{id}/share"
+}
+
+export type SessionUnshareErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionUnshareError = SessionUnshareErrors[keyof SessionUnshareErrors]
+
+export type SessionUnshareResponses = {
+  /**
+   * Successfully unshared session
+   */
+  200: Session
+}
+
+export type SessionUnshareResponse = SessionUnshareResponses[keyof SessionUnshareResponses]
+
+export type SessionShareData = {
+  body?: never
   path: {
     id: string
   }
   query?: {
     directory?: string
   }
-  url: "/session/{id}/fork"
+  url: "/session/{id}/share"
 }
 
-export type SessionForkResponses = {
+export type SessionShareErrors = {
   /**
-   * 200
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionShareError = SessionShareErrors[keyof SessionShareErrors]
+
+export type SessionShareResponses = {
+  /**
+   * Successfully shared session
    */
   200: Session
 }
 
-export type SessionForkResponse = SessionForkResponses[keyof SessionForkResponses]
+export type SessionShareResponse = SessionShareResponses[keyof SessionShareResponses]
 
-export type SessionAbortData = {
+export type SessionDiffData = {
   body?: never
   path: {
+    /**
+     * Session ID
+     */
     id: string
   }
   query?: {
     directory?: string
+    messageID?: string
   }
-  url: "/session/{id}/abort"
+  url: "/session/{id}/diff"
 }
 
-export type SessionAbortErrors = {
+export type SessionDiffErrors = {
   /**
    * Bad request
    */
@@ -1941,29 +3425,55 @@ export type SessionAbortErrors = {
   404: NotFoundError
 }
 
-export type SessionAbortError = SessionAbortErrors[keyof SessionAbortErrors]
+export type SessionDiffError = SessionDiffErrors[keyof SessionDiffErrors]
 
-export type SessionAbortResponses = {
+export type SessionDiffResponses = {
+  /**
+   * List of diffs
+   */
+  200: Array<FileDiff>
+}
+
+export type SessionDiffResponse = SessionDiffResponses[keyof SessionDiffResponses]
+
+export type SessionContextData = {
+  body?: never
+  path: {
+    id: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{id}/context"
+}
+
+export type SessionContextResponses = {
   /**
-   * Aborted session
+   * Context breakdown
    */
-  200: boolean
+  200: SessionContext
 }
 
-export type SessionAbortResponse = SessionAbortResponses[keyof SessionAbortResponses]
+export type SessionContextResponse = SessionContextResponses[keyof SessionContextResponses]
 
-export type SessionUnshareData = {
-  body?: never
+export type SessionSummarizeData = {
+  body?: {
+    providerID: string
+    modelID: string
+  }
   path: {
+    /**
+     * Session ID
+     */
     id: string
   }
   query?: {
     directory?: string
   }
-  url: "/session/{id}/share"
+  url: "/session/{id}/summarize"
 }
 
-export type SessionUnshareErrors = {
+export type SessionSummarizeErrors = {
   /**
    * Bad request
    */
@@ -1974,29 +3484,34 @@ export type SessionUnshareErrors = {
   404: NotFoundError
 }
 
-export type SessionUnshareError = SessionUnshareErrors[keyof SessionUnshareErrors]
+export type SessionSummarizeError = SessionSummarizeErrors[keyof SessionSummarizeErrors]
 
-export type SessionUnshareResponses = {
+export type SessionSummarizeResponses = {
   /**
-   * Successfully unshared session
+   * Summarized session
    */
-  200: Session
+  200: boolean
 }
 
-export type SessionUnshareResponse = SessionUnshareResponses[keyof SessionUnshareResponses]
+export type SessionSummarizeResponse = SessionSummarizeResponses[keyof SessionSummarizeResponses]
 
-export type SessionShareData = {
-  body?: never
+export type SessionBudgetData = {
+  body?: {
+    response: "raise" | "stop"
+  }
   path: {
+    /**
+     * Session ID
+     */
     id: string
   }
   query?: {
     directory?: string
   }
-  url: "/session/{id}/share"
+  url: "/session/{id}/budget"
 }
 
-export type SessionShareErrors = {
+export type SessionBudgetErrors = {
   /**
    * Bad request
    */
@@ -2007,18 +3522,18 @@ export type SessionShareErrors = {
   404: NotFoundError
 }
 
-export type SessionShareError = SessionShareErrors[keyof SessionShareErrors]
+export type SessionBudgetError = SessionBudgetErrors[keyof SessionBudgetErrors]
 
-export type SessionShareResponses = {
+export type SessionBudgetResponses = {
   /**
-   * Successfully shared session
+   * Whether the session was waiting on its budget
    */
-  200: Session
+  200: boolean
 }
 
-export type SessionShareResponse = SessionShareResponses[keyof SessionShareResponses]
+export type SessionBudgetResponse = SessionBudgetResponses[keyof SessionBudgetResponses]
 
-export type SessionDiffData = {
+export type SessionUnpinData = {
   body?: never
   path: {
     /**
@@ -2026,14 +3541,15 @@ export type SessionDiffData = {
      */
     id: string
   }
-  query?: {
+  query: {
     directory?: string
-    messageID?: string
+    messageID: string
+    partID?: string
   }
-  url: "/session/{id}/diff"
+  url: "/session/{id}/pin"
 }
 
-export type SessionDiffErrors = {
+export type SessionUnpinErrors = {
   /**
    * Bad request
    */
@@ -2044,21 +3560,21 @@ export type SessionDiffErrors = {
   404: NotFoundError
 }
 
-export type SessionDiffError = SessionDiffErrors[keyof SessionDiffErrors]
+export type SessionUnpinError = SessionUnpinErrors[keyof SessionUnpinErrors]
 
-export type SessionDiffResponses = {
+export type SessionUnpinResponses = {
   /**
-   * List of diffs
+   * Updated session
    */
-  200: Array<FileDiff>
+  200: Session
 }
 
-export type SessionDiffResponse = SessionDiffResponses[keyof SessionDiffResponses]
+export type SessionUnpinResponse = SessionUnpinResponses[keyof SessionUnpinResponses]
 
-export type SessionSummarizeData = {
+export type SessionPinData = {
   body?: {
-    providerID: string
-    modelID: string
+    messageID: string
+    partID?: string
   }
   path: {
     /**
@@ -2069,10 +3585,10 @@ export type SessionSummarizeData = {
   query?: {
     directory?: string
   }
-  url: "/session/{id}/summarize"
+  url: "/session/{id}/pin"
 }
 
-export type SessionSummarizeErrors = {
+export type SessionPinErrors = {
   /**
    * Bad request
    */
@@ -2083,16 +3599,16 @@ export type SessionSummarizeErrors = {
   404: NotFoundError
 }
 
-export type SessionSummarizeError = SessionSummarizeErrors[keyof SessionSummarizeErrors]
+export type SessionPinError = SessionPinErrors[keyof SessionPinErrors]
 
-export type SessionSummarizeResponses = {
+export type SessionPinResponses = {
   /**
-   * Summarized session
+   * Updated session
    */
-  200: boolean
+  200: Session
 }
 
-export type SessionSummarizeResponse = SessionSummarizeResponses[keyof SessionSummarizeResponses]
+export type SessionPinResponse = SessionPinResponses[keyof SessionPinResponses]
 
 export type SessionMessagesData = {
   body?: never
@@ -2274,49 +3790,6 @@ export type SessionCommandResponses = {
 
 export type SessionCommandResponse = SessionCommandResponses[keyof SessionCommandResponses]
 
-export type SessionShellData = {
-  body?: {
-    agent: string
-    model?: {
-      providerID: string
-      modelID: string
-    }
-    command: string
-  }
-  path: {
-    /**
-     * Session ID
-     */
-    id: string
-  }
-  query?: {
-    directory?: string
-  }
-  url: "/session/{id}/shell"
-}
-
-export type SessionShellErrors = {
-  /**
-   * Bad request
-   */
-  400: BadRequestError
-  /**
-   * Not found
-   */
-  404: NotFoundError
-}
-
-export type SessionShellError = SessionShellErrors[keyof SessionShellErrors]
-
-export type SessionShellResponses = {
-  /**
-   * Created message
-   */
-  200: AssistantMessage
-}
-
-export type SessionShellResponse = SessionShellResponses[keyof SessionShellResponses]
-
 export type SessionRevertData = {
   body?: {
     messageID: string
@@ -2389,6 +3862,7 @@ export type SessionUnrevertResponse = SessionUnrevertResponses[keyof SessionUnre
 export type PostSessionIdPermissionsPermissionIdData = {
   body?: {
     response: "once" | "always" | "reject"
+    scope?: "session" | "project" | "global"
   }
   path: {
     id: string
@@ -2711,6 +4185,189 @@ export type McpAddResponses = {
 
 export type McpAddResponse = McpAddResponses[keyof McpAddResponses]
 
+export type McpRemoveData = {
+  body?: never
+  path: {
+    name: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/mcp/{name}"
+}
+
+export type McpRemoveErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type McpRemoveError = McpRemoveErrors[keyof McpRemoveErrors]
+
+export type McpRemoveResponses = {
+  /**
+   * MCP server removed
+   */
+  200: boolean
+}
+
+export type McpRemoveResponse = McpRemoveResponses[keyof McpRemoveResponses]
+
+export type McpRestartData = {
+  body?: never
+  path: {
+    name: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/mcp/{name}/restart"
+}
+
+export type McpRestartErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type McpRestartError = McpRestartErrors[keyof McpRestartErrors]
+
+export type McpRestartResponses = {
+  /**
+   * MCP server status
+   */
+  200: McpStatus
+}
+
+export type McpRestartResponse = McpRestartResponses[keyof McpRestartResponses]
+
+export type McpEnableData = {
+  body?: never
+  path: {
+    name: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/mcp/{name}/enable"
+}
+
+export type McpEnableErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type McpEnableError = McpEnableErrors[keyof McpEnableErrors]
+
+export type McpEnableResponses = {
+  /**
+   * MCP server status
+   */
+  200: McpStatus
+}
+
+export type McpEnableResponse = McpEnableResponses[keyof McpEnableResponses]
+
+export type McpDisableData = {
+  body?: never
+  path: {
+    name: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/mcp/{name}/disable"
+}
+
+export type McpDisableErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type McpDisableError = McpDisableErrors[keyof McpDisableErrors]
+
+export type McpDisableResponses = {
+  /**
+   * MCP server status
+   */
+  200: McpStatus
+}
+
+export type McpDisableResponse = McpDisableResponses[keyof McpDisableResponses]
+
+export type McpLogsData = {
+  body?: never
+  path: {
+    name: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/mcp/{name}/log"
+}
+
+export type McpLogsErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type McpLogsError = McpLogsErrors[keyof McpLogsErrors]
+
+export type McpLogsResponses = {
+  /**
+   * Log lines, oldest first
+   */
+  200: Array<string>
+}
+
+export type McpLogsResponse = McpLogsResponses[keyof McpLogsResponses]
+
+export type McpResourcesData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/mcp/resource"
+}
+
+export type McpResourcesResponses = {
+  /**
+   * MCP resources
+   */
+  200: Array<McpResource>
+}
+
+export type McpResourcesResponse = McpResourcesResponses[keyof McpResourcesResponses]
+
 export type LspStatusData = {
   body?: never
   path?: never